@@ -1,15 +1,45 @@
 import React, { useState, useCallback, useEffect, useMemo, useRef } from 'react';
-import { analyzeSentiment, performAdvancedAnalysis, getMoodEnhancers, compareSentiments } from './services/geminiService';
+import { analyzeSentiment, performAdvancedAnalysis, getMoodEnhancers, compareSentiments, AnalysisOptions } from './services/analysisService';
+import { FALLBACK_PROVIDER_ID } from './services/fallbackProvider';
+import { classifyError, describeRequestError } from './services/requestExecutor';
+import { saveSentimentResults, saveAdvancedResult, saveComparisonResult, getResultTags, updateHistoryTags, updateSentimentReview } from './services/historyStore';
 import {
-  ActiveTab, ApiStatus, Sentiment, SentimentAnalysisResult, AdvancedAnalysisResult, Entity, MoodEnhancerResult, ComparativeAnalysisResult
+  ActiveTab, ApiStatus, Sentiment, SentimentAnalysisResult, AdvancedAnalysisResult, Entity, MoodEnhancerResult, ComparativeAnalysisResult, RequestErrorKind,
+  AnalysisSource, HistoryRecord, AnalysisItem, BatchJob, AnalysisMode, AnalysisPreferences, AspectSentiment, ScoringScheme, FineGrainedScores, SarcasmAssessment, SentimentSpan,
+  ClassificationResult, ResultReview
 } from './types';
 import {
   BatchIcon, ChartLineIcon, CsvIcon, HistoryIcon, JsonIcon, MicIcon, MoonIcon, MusicIcon, PdfIcon,
-  QuoteIcon, SearchIcon, SparklesIcon, SunIcon, UploadIcon, CompareIcon
+  QuoteIcon, SearchIcon, SettingsIcon, SparklesIcon, SunIcon, UploadIcon, CompareIcon
 } from './components/Icons';
+import { getSentimentIcon, getSentimentColor, getEntityColor } from './components/sentimentStyles';
+import { HistoryBrowser } from './components/HistoryBrowser';
+import { DatasetImporter } from './components/DatasetImporter';
+import { isDatasetFile } from './services/datasetParser';
+import { getIntendedSentiment, isSarcastic } from './services/sarcasmDetection';
+import { getLanguageName, getDefaultSpeechLocale, LANGUAGES, UNDETERMINED_LANGUAGE } from './services/languageDetection';
+import { BatchJobPanel } from './components/BatchJobPanel';
+import { UsagePanel } from './components/UsagePanel';
+import { TaxonomyEditor } from './components/TaxonomyEditor';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { EvaluationPanel } from './components/EvaluationPanel';
+import { SettingsPanel } from './components/SettingsPanel';
+import { ReportDialog } from './components/ReportDialog';
+import { describeGenerationConfig } from './services/generationSettings';
+import { buildTrendSeries, TrendGranularity } from './services/trends';
+import { clusterTopics, MIN_RESULTS_FOR_TOPICS } from './services/topicClustering';
+import { filterResults, sortResults, getResultFacets, ResultQuery, ResultSort, ResultFacets, ResultTags } from './services/resultQuery';
+import { ResultFilters } from './components/ResultFilters';
+import { VirtualList } from './components/VirtualList';
+import { getReviewerName, setReviewerName, createReviewDraft, createReview, getModelSentiment, computeReviewAgreement, buildGoldDataset, ReviewDraft } from './services/reviews';
+import { buildPdfReport, ReportOptions } from './services/pdfReport';
+import { addExamples } from './services/exampleStore';
+import { listTaxonomies, getActiveTaxonomy, setActiveTaxonomy } from './services/taxonomyStore';
+import { createBatchJob, createJobRunner, deleteJob, isJobActive, loadUnfinishedJob, summarizeJob, JobProgress, JobRunner } from './services/jobQueue';
 import {
   BarChart, Bar, XAxis, YAxis, Tooltip, ResponsiveContainer, Cell,
-  RadarChart, PolarGrid, PolarAngleAxis, Radar, PolarRadiusAxis
+  RadarChart, PolarGrid, PolarAngleAxis, Radar, PolarRadiusAxis, ScatterChart, Scatter, CartesianGrid, ReferenceLine,
+  ComposedChart, Area, Line, ReferenceDot, Legend
 } from 'recharts';
 
 type Theme = 'light' | 'dark';
@@ -21,53 +51,33 @@ declare global {
         SpeechRecognition: any;
         webkitSpeechRecognition: any;
         jspdf: any;
-        html2canvas: any;
     }
 }
 
-const MAX_ANALYSES = 15;
-
 // --- Helper Functions ---
-const getSentimentIcon = (sentiment: Sentiment) => {
-    switch (sentiment) {
-        case Sentiment.Positive: return '😊';
-        case Sentiment.Negative: return '😞';
-        case Sentiment.Neutral: return '😐';
-        default: return '🤔';
-    }
-};
-
-const getSentimentColor = (sentiment: Sentiment) => {
-    switch (sentiment) {
-        case Sentiment.Positive: return { text: 'text-success', bg: 'bg-success/20', hex: '#4cc9f0', border: 'border-success' };
-        case Sentiment.Negative: return { text: 'text-danger', bg: 'bg-danger/20', hex: '#f72585', border: 'border-danger' };
-        case Sentiment.Neutral: return { text: 'text-warning', bg: 'bg-warning/20', hex: '#f8961e', border: 'border-warning' };
-        default: return { text: 'text-gray', bg: 'bg-gray-light dark:bg-gray-dark', hex: '#6c757d', border: 'border-gray' };
-    }
-};
-
-const getEntityColor = (type: Entity['type']) => {
-    switch(type) {
-        case 'PERSON': return 'bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200';
-        case 'LOCATION': return 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200';
-        case 'ORGANIZATION': return 'bg-purple-200 text-purple-800 dark:bg-purple-800 dark:text-purple-200';
-        case 'EVENT': return 'bg-yellow-200 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-200';
-        default: return 'bg-gray-light text-gray-800 dark:bg-gray-dark dark:text-gray-200';
-    }
-};
-
 const isValidTextInput = (text: string): { valid: boolean; message: string } => {
-    // Must contain at least one letter to be valid.
-    if (!/[a-zA-Z]/.test(text)) {
+    // Must contain at least one letter, in any script, to be valid.
+    if (!/\p{L}/u.test(text)) {
         return { valid: false, message: 'Invalid input. Please enter text that includes letters, not just numbers or symbols.' };
     }
-    // Per user request, disallow certain punctuation to prevent potential issues.
-    if (/[.'"]/.test(text)) {
-        return { valid: false, message: 'Invalid input. The input must not include full stops and inverted commas.' };
-    }
     return { valid: true, message: '' };
 };
 
+const toCsvField = (value: string | number) => {
+    const text = String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const ANALYSIS_MODES: { id: AnalysisMode; label: string; description: string }[] = [
+    { id: 'standard', label: 'Overall', description: 'One sentiment label for the whole text.' },
+    { id: 'aspect', label: 'Aspects', description: 'Also rate each feature or target the text talks about, e.g. battery or service.' },
+    { id: 'classify', label: 'Classify', description: 'Also sort each text into one of your own labels, e.g. billing or bug.' },
+];
+
+const SCORING_SCHEMES: { id: ScoringScheme; label: string; description: string }[] = [
+    { id: 'polarity', label: 'Polarity', description: 'Positive, negative or neutral.' },
+    { id: 'fine-grained', label: 'Fine-grained', description: 'Also a 1–5 star rating, valence and arousal, and a flag for mixed sentiment.' },
+];
 
 // --- UI Components ---
 
@@ -189,9 +199,12 @@ const AnimatedBackground: React.FC<{ sentiment: Sentiment | null }> = ({ sentime
   return <canvas ref={canvasRef} className="fixed inset-0 pointer-events-none z-0" />;
 };
 
-const Header: React.FC<{ theme: Theme; toggleTheme: () => void }> = ({ theme, toggleTheme }) => (
+const Header: React.FC<{ theme: Theme; toggleTheme: () => void; onOpenSettings: () => void }> = ({ theme, toggleTheme, onOpenSettings }) => (
     <header className="relative text-center mb-8 p-8 bg-gradient-to-r from-purple-600 via-blue-600 to-cyan-500 text-white rounded-2xl shadow-2xl overflow-hidden animate-gradient">
-        <div className="absolute top-4 right-4 z-10">
+        <div className="absolute top-4 right-4 z-10 flex gap-2">
+            <button onClick={onOpenSettings} aria-label="Model settings" title="Model settings" className="p-3 rounded-full bg-white/20 hover:bg-white/30 transition-all duration-300 transform hover:scale-110">
+                <SettingsIcon className="w-6 h-6" />
+            </button>
             <button onClick={toggleTheme} className="p-3 rounded-full bg-white/20 hover:bg-white/30 transition-all duration-300 transform hover:scale-110">
                 {theme === 'light' ? <MoonIcon className="w-6 h-6" /> : <SunIcon className="w-6 h-6" />}
             </button>
@@ -203,18 +216,60 @@ const Header: React.FC<{ theme: Theme; toggleTheme: () => void }> = ({ theme, to
     </header>
 );
 
-const SentenceBreakdown: React.FC<{ result: SentimentAnalysisResult }> = ({ result }) => {
+// Renders text with each sentiment span shaded in its sentiment colour, stronger spans more opaque.
+const HighlightedText: React.FC<{ text: string; spans?: SentimentSpan[] }> = ({ text, spans }) => {
+  if (!spans?.length) return <>{text}</>;
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  spans.forEach((span, i) => {
+    if (span.start < cursor || span.end > text.length) return;
+    if (span.start > cursor) parts.push(text.slice(cursor, span.start));
+    const alpha = Math.round((0.2 + span.weight * 0.6) * 255).toString(16).padStart(2, '0');
+    parts.push(
+      <mark key={i} className="rounded px-0.5 text-current" style={{ backgroundColor: `${getSentimentColor(span.sentiment).hex}${alpha}` }} title={`${span.sentiment} · weight ${span.weight.toFixed(2)}`}>
+        {text.slice(span.start, span.end)}
+      </mark>
+    );
+    cursor = span.end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
+
+const SarcasmBadge: React.FC<{ sarcasm?: SarcasmAssessment }> = ({ sarcasm }) => {
+  if (!sarcasm || !isSarcastic(sarcasm)) return null;
+  const title = sarcasm.trigger ? `Likely sarcastic or ironic, signalled by "${sarcasm.trigger}".` : 'Likely sarcastic or ironic.';
+  return (
+    <span className="chip !text-xs bg-pink-200 text-pink-800 dark:bg-pink-800 dark:text-pink-200 whitespace-nowrap" title={title}>
+      🙃 Sarcasm {(sarcasm.probability * 100).toFixed(0)}%{sarcasm.adjustedSentiment && ` → ${sarcasm.adjustedSentiment}`}
+    </span>
+  );
+};
+
+// Shows reviewed sentence labels in place of the model's. Passing `onLabelChange` makes the labels editable,
+// with `draftLabels` holding the edits not saved yet.
+const SentenceBreakdown: React.FC<{ result: SentimentAnalysisResult; draftLabels?: Record<number, Sentiment>; onLabelChange?: (index: number, sentiment: Sentiment) => void }> = ({ result, draftLabels, onLabelChange }) => {
   if (!result.sentenceBreakdown || result.sentenceBreakdown.length === 0) return null;
   return (
     <div className="mt-6 space-y-3">
       <h4 className="font-semibold text-dark dark:text-light flex items-center gap-2"><SparklesIcon className="w-5 h-5 text-purple-600" /> Sentence-by-Sentence Analysis</h4>
       {result.sentenceBreakdown.map((sent, i) => {
-        const colors = getSentimentColor(sent.sentiment);
+        const modelLabel = sent.sarcasm?.adjustedSentiment ?? sent.sentiment;
+        const label = (draftLabels ?? result.review?.sentenceLabels)?.[i] ?? modelLabel;
+        const colors = getSentimentColor(label);
         return (
           <div key={i} className={`p-3 rounded-lg border-l-4 ${colors.border} ${colors.bg} animate-slide-up`} style={{ animationDelay: `${i * 100}ms` }}>
             <div className="flex items-start justify-between gap-2 mb-1">
               <span className="text-sm font-medium text-dark dark:text-light">{sent.sentence}</span>
-              <span className={`text-xs font-semibold ${colors.text} whitespace-nowrap`}>{getSentimentIcon(sent.sentiment)} {sent.sentiment}</span>
+              <div className="flex flex-col items-end gap-1">
+                {onLabelChange ? (
+                  <select value={label} onChange={e => onLabelChange(i, e.target.value as Sentiment)} aria-label={`Label for sentence ${i + 1}`} className={`text-xs font-semibold ${colors.text} bg-transparent border border-current rounded px-1`}>
+                    {[Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative].map(s => <option key={s} value={s}>{s}</option>)}
+                  </select>
+                ) : <span className={`text-xs font-semibold ${colors.text} whitespace-nowrap`}>{getSentimentIcon(label)} {label}</span>}
+                {label !== modelLabel && <span className="text-[11px] text-gray-500 whitespace-nowrap">model: {modelLabel}</span>}
+                <SarcasmBadge sarcasm={sent.sarcasm} />
+              </div>
             </div>
             <div className="w-full bg-gray-light dark:bg-gray-dark rounded-full h-2">
               <div className="h-2 rounded-full transition-all duration-500" style={{ width: `${sent.score * 100}%`, backgroundColor: colors.hex }}></div>
@@ -226,24 +281,110 @@ const SentenceBreakdown: React.FC<{ result: SentimentAnalysisResult }> = ({ resu
   );
 };
 
+const FineGrainedSummary: React.FC<{ scores?: FineGrainedScores }> = ({ scores }) => {
+  if (!scores) return null;
+  return (
+    <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-4 text-sm">
+      <span className="text-lg tracking-wider text-warning" title={`${scores.rating} out of 5`} aria-label={`Rating: ${scores.rating} out of 5`}>
+        {'★'.repeat(scores.rating)}<span className="text-gray-light dark:text-gray-dark">{'★'.repeat(5 - scores.rating)}</span>
+      </span>
+      <span><strong className="font-medium">Valence:</strong> {scores.valence > 0 ? '+' : ''}{scores.valence.toFixed(2)}</span>
+      <span><strong className="font-medium">Arousal:</strong> {scores.arousal.toFixed(2)}</span>
+      {scores.mixed && <span className="chip !text-xs bg-purple-200 text-purple-800 dark:bg-purple-800 dark:text-purple-200" title="The text expresses strong positive and negative sentiment at the same time.">Mixed</span>}
+    </div>
+  );
+};
+
+const AspectTable: React.FC<{ aspects?: AspectSentiment[] }> = ({ aspects }) => {
+  if (!aspects || aspects.length === 0) return null;
+  return (
+    <div className="mt-6">
+      <h4 className="font-semibold text-dark dark:text-light flex items-center gap-2 mb-3"><SparklesIcon className="w-5 h-5 text-purple-600" /> Aspect Sentiment</h4>
+      <div className="overflow-x-auto custom-scrollbar border border-gray-light dark:border-gray-dark rounded-lg">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-light dark:bg-gray-dark text-xs text-gray-500">
+            <tr><th className="p-2">Aspect</th><th className="p-2">Sentiment</th><th className="p-2 text-right">Score</th><th className="p-2">Opinions</th></tr>
+          </thead>
+          <tbody>
+            {aspects.map(a => {
+              const colors = getSentimentColor(a.sentiment);
+              return (
+                <tr key={a.aspect} className="border-t border-gray-light dark:border-gray-dark align-top">
+                  <td className="p-2 font-semibold capitalize">{a.aspect}</td>
+                  <td className="p-2"><span className={`chip !text-xs ${colors.bg} ${colors.text} whitespace-nowrap`}>{getSentimentIcon(a.sentiment)} {a.sentiment}</span></td>
+                  <td className={`p-2 text-right font-mono ${colors.text}`}>{a.score > 0 ? '+' : ''}{a.score.toFixed(2)}</td>
+                  <td className="p-2 text-gray-600 dark:text-gray-400">{a.opinions.map(o => `"${o}"`).join(', ')}</td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const ClassificationPanel: React.FC<{ classification?: ClassificationResult }> = ({ classification }) => {
+  if (!classification) return null;
+  const ranked = (Object.entries(classification.scores) as [string, number][]).sort((a, b) => b[1] - a[1]);
+  return (
+    <div className="mt-6">
+      <h4 className="font-semibold text-dark dark:text-light flex items-center gap-2 mb-3">
+        <SparklesIcon className="w-5 h-5 text-purple-600" /> Label
+        <span className="chip !text-xs bg-purple-200 text-purple-800 dark:bg-purple-800 dark:text-purple-200">{classification.label}</span>
+      </h4>
+      <div className="space-y-1 mb-2">
+        {ranked.map(([label, score]) => (
+          <div key={label} className="flex items-center gap-2 text-xs">
+            <span className={`w-28 truncate ${label === classification.label ? 'font-semibold' : 'text-gray-500'}`} title={label}>{label}</span>
+            <div className="flex-1 h-2 rounded-full bg-light dark:bg-gray-dark overflow-hidden"><div className="h-full bg-purple-600" style={{ width: `${score * 100}%` }} /></div>
+            <span className="w-10 text-right font-mono">{(score * 100).toFixed(0)}%</span>
+          </div>
+        ))}
+      </div>
+      <p className="text-sm text-gray-600 dark:text-gray-400">{classification.rationale}</p>
+    </div>
+  );
+};
+
+const OptionPills = <T extends string>({ label, options, value, onChange }: {
+    label: string;
+    options: { id: T; label: string; description: string }[];
+    value: T;
+    onChange: (value: T) => void;
+}) => (
+    <div className="flex items-center gap-2 text-xs">
+        <span className="font-semibold text-gray-500">{label}</span>
+        {options.map(option => (
+            <button key={option.id} onClick={() => onChange(option.id)} title={option.description} className={`px-3 py-1 rounded-full font-semibold transition-colors ${value === option.id ? 'bg-purple-600 text-white' : 'bg-light dark:bg-gray-dark text-gray-500 hover:text-dark dark:hover:text-light'}`}>
+                {option.label}
+            </button>
+        ))}
+    </div>
+);
+
 const InputSection: React.FC<{
-    onAnalyze: (text: string | string[]) => void;
+    onAnalyze: (items: AnalysisItem[], source: AnalysisSource, preferences: AnalysisPreferences) => void;
     isLoading: boolean;
     onCompare: (textA: string, textB: string) => void;
-    analysisCount: number;
-    maxAnalyses: number;
-}> = ({ onAnalyze, isLoading, onCompare, analysisCount, maxAnalyses }) => {
+}> = ({ onAnalyze, isLoading, onCompare }) => {
     const [activeTab, setActiveTab] = useState<ActiveTab>(ActiveTab.TextInput);
     const [textInput, setTextInput] = useState('');
     const [batchInput, setBatchInput] = useState('');
     const [compareTextA, setCompareTextA] = useState('');
     const [compareTextB, setCompareTextB] = useState('');
     const [fileName, setFileName] = useState('');
+    const [datasetFile, setDatasetFile] = useState<File | null>(null);
+    const [mode, setMode] = useState<AnalysisMode>('standard');
+    const [scheme, setScheme] = useState<ScoringScheme>('polarity');
+    const [translate, setTranslate] = useState(false);
+    const [taxonomies, setTaxonomies] = useState(listTaxonomies);
+    const [taxonomyId, setTaxonomyId] = useState(() => getActiveTaxonomy().id);
+    const [isTaxonomyEditorOpen, setIsTaxonomyEditorOpen] = useState(false);
+    const [speechLocale, setSpeechLocale] = useState(getDefaultSpeechLocale);
     const [isRecording, setIsRecording] = useState(false);
     const recognitionRef = useRef<any>(null);
 
-    const limitReached = analysisCount >= maxAnalyses;
-
     const tabs = [
         { id: ActiveTab.TextInput, label: 'Text Input', icon: '📝' },
         { id: ActiveTab.FileUpload, label: 'File', icon: <UploadIcon className="w-4 h-4" /> },
@@ -264,22 +405,37 @@ const InputSection: React.FC<{
         const file = event.target.files?.[0];
         if (file) {
             setFileName(file.name);
+            if (isDatasetFile(file.name)) {
+                setDatasetFile(file);
+                return;
+            }
+            setDatasetFile(null);
             const reader = new FileReader();
             reader.onload = (e) => setTextInput(e.target?.result as string);
             reader.readAsText(file);
         }
     };
 
+    const selectTaxonomy = (id: string) => {
+        setTaxonomyId(id);
+        setActiveTaxonomy(id);
+    };
+
     const handleAnalyzeClick = () => {
-        if (isLoading || limitReached) return;
+        if (isLoading) return;
+        const preferences: AnalysisPreferences = { mode, scheme, translate, taxonomy: taxonomies.find(t => t.id === taxonomyId) };
         switch (activeTab) {
             case ActiveTab.TextInput:
+                if (textInput.trim()) onAnalyze([{ text: textInput }], { type: 'text' }, preferences);
+                break;
             case ActiveTab.FileUpload:
+                if (textInput.trim()) onAnalyze([{ text: textInput }], { type: 'file', name: fileName }, preferences);
+                break;
             case ActiveTab.VoiceInput:
-                if (textInput.trim()) onAnalyze(textInput);
+                if (textInput.trim()) onAnalyze([{ text: textInput }], { type: 'voice' }, preferences);
                 break;
             case ActiveTab.BatchProcessing:
-                if (batchInput.trim()) onAnalyze(batchInput.split('\n').map(t => t.trim()).filter(Boolean));
+                if (batchInput.trim()) onAnalyze(batchInput.split('\n').map(t => t.trim()).filter(Boolean).map(text => ({ text })), { type: 'batch' }, preferences);
                 break;
             case ActiveTab.Compare:
                 if (compareTextA.trim() && compareTextB.trim()) onCompare(compareTextA, compareTextB);
@@ -301,7 +457,7 @@ const InputSection: React.FC<{
         recognitionRef.current = recognition;
         recognition.continuous = true;
         recognition.interimResults = true;
-        recognition.lang = 'en-US';
+        recognition.lang = speechLocale;
 
         recognition.onstart = () => {
             setIsRecording(true);
@@ -338,7 +494,7 @@ const InputSection: React.FC<{
     };
 
     const CommonAnalyzeButton: React.FC<{disabled: boolean, text?: string}> = ({disabled, text="Analyze"}) => (
-        <button onClick={handleAnalyzeClick} disabled={disabled || limitReached} className="mt-4 w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold py-3 rounded-xl hover:scale-105 transition-transform disabled:opacity-50 flex items-center justify-center gap-2">{isLoading ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div> : <SearchIcon className="w-5 h-5" />} {limitReached ? 'Usage Limit Reached' : text}</button>
+        <button onClick={handleAnalyzeClick} disabled={disabled} className="mt-4 w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold py-3 rounded-xl hover:scale-105 transition-transform disabled:opacity-50 flex items-center justify-center gap-2">{isLoading ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div> : <SearchIcon className="w-5 h-5" />} {text}</button>
     );
 
     return (
@@ -350,24 +506,50 @@ const InputSection: React.FC<{
                     </button>
                 ))}
             </div>
-             <div className="text-center text-sm text-gray-500 dark:text-gray-400 mb-4">
-                Analyses Used: <span className="font-bold text-dark dark:text-light">{analysisCount}</span> / {maxAnalyses}
-            </div>
-
+            {activeTab !== ActiveTab.Compare && (
+                <div className="flex flex-wrap items-center gap-x-6 gap-y-2 mb-4">
+                    <OptionPills label="Analysis mode" options={ANALYSIS_MODES} value={mode} onChange={setMode} />
+                    {mode === 'classify' && (
+                        <div className="flex items-center gap-2 text-xs">
+                            <select value={taxonomyId} onChange={e => selectTaxonomy(e.target.value)} aria-label="Label taxonomy" className="px-2 py-1 rounded-full font-semibold bg-light dark:bg-gray-dark">
+                                {taxonomies.map(t => <option key={t.id} value={t.id}>{t.name} ({t.labels.length} labels)</option>)}
+                            </select>
+                            <button onClick={() => setIsTaxonomyEditorOpen(true)} className="font-semibold text-purple-600 hover:text-purple-700 dark:text-purple-400">Edit labels</button>
+                        </div>
+                    )}
+                    <OptionPills label="Scoring" options={SCORING_SCHEMES} value={scheme} onChange={setScheme} />
+                    <label className="flex items-center gap-2 text-xs font-semibold text-gray-500 cursor-pointer" title="Show an English translation next to texts written in other languages.">
+                        <input type="checkbox" checked={translate} onChange={e => setTranslate(e.target.checked)} className="accent-purple-600" /> Translate to English
+                    </label>
+                </div>
+            )}
+            <TaxonomyEditor
+                isOpen={isTaxonomyEditorOpen}
+                initialId={taxonomyId}
+                onClose={() => setIsTaxonomyEditorOpen(false)}
+                onChange={(updated, selectedId) => { setTaxonomies(updated); selectTaxonomy(selectedId); }}
+            />
             {activeTab === ActiveTab.TextInput && <div>
                 <textarea value={textInput} onChange={e => setTextInput(e.target.value)} placeholder="Type or paste your text here..." className="w-full p-4 border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-xl focus:ring-2 focus:ring-primary min-h-[200px]" />
                 <CommonAnalyzeButton disabled={isLoading || !textInput.trim()} />
             </div>}
              {activeTab === ActiveTab.FileUpload && <div>
-                <div className="border-2 border-dashed border-gray-light dark:border-gray-dark rounded-md p-6 text-center"><UploadIcon className="w-12 h-12 mx-auto text-gray" /><p className="mt-2 text-sm text-gray">Upload a text file (.txt)</p><label htmlFor="file-input" className="mt-4 inline-block bg-primary text-white px-4 py-2 rounded-md text-sm font-medium cursor-pointer hover:bg-primary-dark transition-colors">Choose File</label><input type="file" id="file-input" accept=".txt" className="hidden" onChange={handleFileChange} />{fileName && <p className="text-sm text-gray mt-2">Selected: {fileName}</p>}</div>
-                 <CommonAnalyzeButton disabled={isLoading || !textInput.trim()} />
+                <div className="border-2 border-dashed border-gray-light dark:border-gray-dark rounded-md p-6 text-center"><UploadIcon className="w-12 h-12 mx-auto text-gray" /><p className="mt-2 text-sm text-gray">Upload a text file (.txt) or a dataset (.csv, .tsv, .jsonl, .json)</p><label htmlFor="file-input" className="mt-4 inline-block bg-primary text-white px-4 py-2 rounded-md text-sm font-medium cursor-pointer hover:bg-primary-dark transition-colors">Choose File</label><input type="file" id="file-input" accept=".txt,.csv,.tsv,.jsonl,.ndjson,.json" className="hidden" onChange={handleFileChange} />{fileName && <p className="text-sm text-gray mt-2">Selected: {fileName}</p>}</div>
+                {datasetFile
+                    ? <DatasetImporter file={datasetFile} isLoading={isLoading} onAnalyze={(items) => onAnalyze(items, { type: 'file', name: datasetFile.name }, { mode, scheme, translate, taxonomy: taxonomies.find(t => t.id === taxonomyId) })} />
+                    : <CommonAnalyzeButton disabled={isLoading || !textInput.trim()} />}
             </div>}
             {activeTab === ActiveTab.BatchProcessing && <div>
                 <textarea value={batchInput} onChange={e => setBatchInput(e.target.value)} placeholder="Enter each text on a new line..." className="w-full p-4 border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-xl focus:ring-2 focus:ring-primary min-h-[200px]" />
-                <p className="text-xs text-gray mt-1">Limit: 10 texts per batch.</p>
                 <CommonAnalyzeButton disabled={isLoading || !batchInput.trim()} text="Analyze Batch" />
             </div>}
             {activeTab === ActiveTab.VoiceInput && <div>
+                <label className="flex items-center gap-2 mb-3 text-xs font-semibold text-gray-500">
+                    Spoken language
+                    <select value={speechLocale} onChange={e => setSpeechLocale(e.target.value)} disabled={isRecording} className="p-1.5 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary">
+                        {LANGUAGES.map(l => <option key={l.speechLocale} value={l.speechLocale}>{l.name}</option>)}
+                    </select>
+                </label>
                 <textarea value={textInput} onChange={e => setTextInput(e.target.value)} placeholder={isRecording ? "Listening..." : "Click start and begin speaking..."} className="w-full p-4 border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-xl focus:ring-2 focus:ring-primary min-h-[200px]" />
                  <button onClick={handleToggleRecording} className={`mt-4 w-full text-white font-bold py-3 rounded-xl hover:scale-105 transition-transform flex items-center justify-center gap-2 ${isRecording ? 'bg-danger animate-pulse' : 'bg-gradient-to-r from-secondary to-primary'}`}>
                     <MicIcon className="w-5 h-5" /> {isRecording ? 'Stop Recording' : 'Start Recording'}
@@ -385,45 +567,187 @@ const InputSection: React.FC<{
     );
 };
 
-const ResultCard: React.FC<{ result: SentimentAnalysisResult; onDeeperAnalysis: () => void; index: number }> = ({ result, onDeeperAnalysis, index }) => {
+const CachedBadge: React.FC<{ onRefresh?: () => void }> = ({ onRefresh }) => (
+    <div className="flex items-center gap-2 text-xs">
+        <span className="chip !text-xs bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200" title="This text was analyzed before, so the saved result was reused instead of calling the provider again.">Cached</span>
+        {onRefresh && <button onClick={onRefresh} className="font-semibold text-purple-600 hover:text-purple-700 dark:text-purple-400">Analyze fresh</button>}
+    </div>
+);
+
+// Saves the text as a labelled few-shot example, typically to correct a label the team disagrees with.
+const AddExampleSelect: React.FC<{ text: string }> = ({ text }) => {
+    const [saved, setSaved] = useState<Sentiment | null>(null);
+    if (saved) return <span className="text-success font-semibold">Saved as {saved} example</span>;
+    return (
+        <select value="" onChange={e => { addExamples([{ text, sentiment: e.target.value as Sentiment }]); setSaved(e.target.value as Sentiment); }} aria-label="Save as labelled example" className="bg-transparent font-semibold text-purple-600 dark:text-purple-400 cursor-pointer">
+            <option value="" disabled>Label as example…</option>
+            {[Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative].map(s => <option key={s} value={s}>{s}</option>)}
+        </select>
+    );
+};
+
+const ReviewSummary: React.FC<{ review: ResultReview; tags: string[] }> = ({ review, tags }) => (
+    <div className="mt-4 p-3 rounded-lg bg-purple-500/5 border border-purple-500/20 text-sm space-y-1">
+        <div className="flex flex-wrap items-center gap-2">
+            <span className={`font-semibold ${review.status === 'accepted' ? 'text-success' : 'text-purple-600 dark:text-purple-400'}`}>
+                {review.status === 'accepted' ? '✓ Accepted' : `✎ Corrected${review.sentenceLabels ? ' (incl. sentences)' : ''} to ${review.sentiment}`}
+            </span>
+            <span className="text-xs text-gray-500">by {review.reviewer} · {new Date(review.reviewedAt).toLocaleString()}</span>
+            {tags.map(tag => <span key={tag} className="chip bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200">{tag}</span>)}
+        </div>
+        {review.notes && <p className="text-gray-600 dark:text-gray-400 italic">{review.notes}</p>}
+    </div>
+);
+
+// Edits a review of the result. Sentence labels are corrected in the sentence breakdown, which shares the draft.
+const ReviewEditor: React.FC<{
+    result: SentimentAnalysisResult;
+    draft: ReviewDraft;
+    initialTags: string[];
+    onChange: (draft: ReviewDraft) => void;
+    onSave: (review: ResultReview, tags: string[]) => void;
+    onCancel: () => void;
+}> = ({ result, draft, initialTags, onChange, onSave, onCancel }) => {
+    const [reviewer, setReviewer] = useState(getReviewerName);
+    const [tags, setTags] = useState(initialTags);
+    const [tagDraft, setTagDraft] = useState('');
+    const modelSentiment = getModelSentiment(result);
+
+    const addTag = () => {
+        const tag = tagDraft.trim();
+        if (tag && !tags.includes(tag)) setTags([...tags, tag]);
+        setTagDraft('');
+    };
+
+    const save = (reviewed: ReviewDraft) => {
+        setReviewerName(reviewer);
+        onSave(createReview(result, reviewed, reviewer), tags);
+    };
+
+    return (
+        <div className="mt-4 p-4 rounded-xl border-2 border-purple-500/40 bg-purple-500/5 space-y-3 text-sm">
+            <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold mr-1">Label</span>
+                {[Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative].map(s => (
+                    <button key={s} onClick={() => onChange({ ...draft, sentiment: s })} aria-pressed={draft.sentiment === s} className={`chip capitalize ${getSentimentColor(s).bg} ${getSentimentColor(s).text} ${draft.sentiment === s ? 'ring-2 ring-purple-600' : 'opacity-60 hover:opacity-100'}`}>
+                        {s}{s === modelSentiment && ' (model)'}
+                    </button>
+                ))}
+            </div>
+            {!!result.sentenceBreakdown?.length && <p className="text-xs text-gray-500">Correct individual sentences in the breakdown above.</p>}
+            <textarea value={draft.notes} onChange={e => onChange({ ...draft, notes: e.target.value })} placeholder="Notes (optional)" aria-label="Review notes" rows={2} className="w-full p-2 border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary" />
+            {result.id && (
+                <div className="flex flex-wrap items-center gap-2">
+                    {tags.map(tag => (
+                        <span key={tag} className="chip bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200 flex items-center gap-1">
+                            {tag}
+                            <button onClick={() => setTags(tags.filter(t => t !== tag))} aria-label={`Remove tag ${tag}`} className="opacity-70 hover:opacity-100">&times;</button>
+                        </span>
+                    ))}
+                    <input value={tagDraft} onChange={e => setTagDraft(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') addTag(); }} onBlur={addTag} placeholder="+ tag" className="w-24 px-2 py-1 text-xs bg-transparent border-b border-gray-light dark:border-gray-dark focus:outline-none" />
+                </div>
+            )}
+            <div className="flex flex-wrap items-center justify-between gap-2">
+                <input value={reviewer} onChange={e => setReviewer(e.target.value)} placeholder="Your name" aria-label="Reviewer name" className="p-2 border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary" />
+                <div className="flex gap-2">
+                    <button onClick={onCancel} className="px-4 py-2 font-semibold text-gray-500 hover:text-dark dark:hover:text-light">Cancel</button>
+                    <button onClick={() => save({ ...draft, sentiment: modelSentiment, sentenceLabels: {} })} disabled={!reviewer.trim()} title="Keep every label the model gave" className="px-4 py-2 rounded-lg font-semibold text-success border-2 border-success hover:bg-success/10 disabled:opacity-50">Accept model labels</button>
+                    <button onClick={() => save(draft)} disabled={!reviewer.trim()} className="px-4 py-2 rounded-lg font-bold text-white bg-gradient-to-r from-purple-600 to-blue-600 disabled:opacity-50">Save review</button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+// `onReview` turns on review mode; it is left out where a card is shown read-only.
+const ResultCard: React.FC<{ result: SentimentAnalysisResult; tags?: string[]; onReview?: (review: ResultReview, tags: string[]) => void; onDeeperAnalysis: () => void; onReanalyze: () => void; index: number }> = ({ result, tags = [], onReview, onDeeperAnalysis, onReanalyze, index }) => {
+    const [reviewDraft, setReviewDraft] = useState<ReviewDraft | null>(null);
     const colors = getSentimentColor(result.sentiment);
     return (
-        <div className="analysis-result-card border-2 border-gray-light dark:border-gray-dark rounded-2xl p-6 mb-4 transition-all hover:shadow-2xl hover:scale-[1.02] bg-white dark:bg-gray-darker/80 animate-slide-up" style={{ animationDelay: `${index * 100}ms` }}>
+        <div className="analysis-result-card border-2 border-gray-light dark:border-gray-dark rounded-2xl p-6 mb-4 transition-all hover:shadow-2xl hover:scale-[1.02] bg-white dark:bg-gray-darker/80 animate-slide-up" style={{ animationDelay: `${Math.min(index, 10) * 100}ms` }}>
             <div className="flex justify-between items-start mb-4">
                 <div className={`flex items-center gap-3 px-4 py-2 rounded-full text-sm font-bold ${colors.bg} ${colors.text} border-2 ${colors.border}`}><span className="text-2xl">{getSentimentIcon(result.sentiment)}</span><span className="uppercase tracking-wide">{result.sentiment}</span></div>
-                <div className="text-sm font-semibold">Confidence: {(result.confidence * 100).toFixed(1)}%</div>
+                <div className="flex flex-col items-end gap-2">
+                    <div className="text-sm font-semibold">Confidence: {(result.confidence * 100).toFixed(1)}%</div>
+                    <SarcasmBadge sarcasm={result.sarcasm} />
+                    {result.cached && <CachedBadge onRefresh={onReanalyze} />}
+                </div>
             </div>
-            <p className="italic mb-4 text-lg">"{result.text}"</p>
+            <FineGrainedSummary scores={result.fineGrained} />
+            {result.translation ? (
+                <div className="grid md:grid-cols-2 gap-4 mb-4">
+                    <div><span className="text-xs font-semibold text-gray-500">Original ({getLanguageName(result.language)})</span><p className="italic text-lg" lang={result.language}>"<HighlightedText text={result.text} spans={result.spans} />"</p></div>
+                    <div><span className="text-xs font-semibold text-gray-500">English translation</span><p className="italic text-lg text-gray-600 dark:text-gray-400" lang="en">"{result.translation}"</p></div>
+                </div>
+            ) : <p className="italic mb-4 text-lg" lang={result.language !== UNDETERMINED_LANGUAGE ? result.language : undefined}>"<HighlightedText text={result.text} spans={result.spans} />"</p>}
             <div className="mb-4">
                 <strong className="text-sm font-medium">Key Phrases:</strong>
                 <div className="flex flex-wrap gap-2 mt-2">{result.keywords.map((kw, i) => <span key={kw} className="bg-gradient-to-r from-purple-500/20 to-blue-500/20 text-purple-700 dark:text-purple-300 text-sm px-3 py-1 rounded-full font-medium animate-fade-in" style={{ animationDelay: `${i * 50}ms` }}>{kw}</span>)}</div>
             </div>
             <p className="text-sm text-gray-600 dark:text-gray-400 pt-3 border-t border-gray-light dark:border-gray-dark"><strong>Analysis:</strong> {result.explanation}</p>
-            <SentenceBreakdown result={result} />
+            <SentenceBreakdown result={result} draftLabels={reviewDraft?.sentenceLabels} onLabelChange={reviewDraft ? (i, sentiment) => setReviewDraft({ ...reviewDraft, sentenceLabels: { ...reviewDraft.sentenceLabels, [i]: sentiment } }) : undefined} />
+            <AspectTable aspects={result.aspects} />
+            <ClassificationPanel classification={result.classification} />
+            {result.review && !reviewDraft && <ReviewSummary review={result.review} tags={tags} />}
+            {reviewDraft && onReview && <ReviewEditor result={result} draft={reviewDraft} initialTags={tags} onChange={setReviewDraft} onSave={(review, reviewTags) => { onReview(review, reviewTags); setReviewDraft(null); }} onCancel={() => setReviewDraft(null)} />}
             <div className="flex justify-between items-center text-xs text-gray-500 mt-4 pt-3 border-t border-gray-light dark:border-gray-dark">
-                <span>{new Date(result.timestamp).toLocaleTimeString()}</span>
-                <button onClick={onDeeperAnalysis} className="flex items-center gap-2 text-sm text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300 font-semibold transition-all transform hover:scale-110"><SparklesIcon className="w-4 h-4" /> Deeper Analysis</button>
+                <span className="flex flex-wrap items-center gap-2">{new Date(result.timestamp).toLocaleTimeString()}{result.language && ` · ${getLanguageName(result.language)}`}{result.generation && <span title="Model settings used for this result">· {describeGenerationConfig(result.generation)}</span>} · <AddExampleSelect text={result.text} /></span>
+                <div className="flex items-center gap-4">
+                    {onReview && !reviewDraft && <button onClick={() => setReviewDraft(createReviewDraft(result))} className="text-sm text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300 font-semibold">{result.review ? 'Edit review' : 'Review'}</button>}
+                    <button onClick={onDeeperAnalysis} className="flex items-center gap-2 text-sm text-purple-600 hover:text-purple-700 dark:text-purple-400 dark:hover:text-purple-300 font-semibold transition-all transform hover:scale-110"><SparklesIcon className="w-4 h-4" /> Deeper Analysis</button>
+                </div>
             </div>
         </div>
     );
 };
 
-const ResultsSection = React.forwardRef<HTMLDivElement, { results: SentimentAnalysisResult[], onDeeperAnalysis: (result: SentimentAnalysisResult) => void, onExport: (format: 'pdf'|'csv'|'json')=>void }>(({ results, onDeeperAnalysis, onExport }, ref) => {
+type ExportFormat = 'pdf' | 'csv' | 'json' | 'gold';
+
+// Below this many cards every card is rendered; measuring heights isn't worth it for short lists.
+const VIRTUALIZE_AFTER = 50;
+
+// `visible` is `results` after the query, topic filter and sort have been applied.
+const ResultsSection = React.forwardRef<HTMLDivElement, { results: SentimentAnalysisResult[], visible: SentimentAnalysisResult[], query: ResultQuery, onQueryChange: (query: ResultQuery) => void, sort: ResultSort, onSortChange: (sort: ResultSort) => void, facets: ResultFacets, tags: ResultTags, topicFilter: TopicFilter | null, onClearTopic: () => void, onReview: (result: SentimentAnalysisResult, review: ResultReview, tags: string[]) => void, onDeeperAnalysis: (result: SentimentAnalysisResult) => void, onReanalyze: (result: SentimentAnalysisResult) => void, onExport: (format: ExportFormat)=>void, onBrowseHistory: () => void, onCalibrate: () => void, onEvaluate: () => void }>(({ results, visible, query, onQueryChange, sort, onSortChange, facets, tags, topicFilter, onClearTopic, onReview, onDeeperAnalysis, onReanalyze, onExport, onBrowseHistory, onCalibrate, onEvaluate }, ref) => {
+    const agreement = useMemo(() => computeReviewAgreement(results), [results]);
+    const renderCard = (res: SentimentAnalysisResult, i: number) => <ResultCard key={res.id ?? res.timestamp + i} result={res} tags={res.id ? tags[res.id] : undefined} onReview={(review, reviewTags) => onReview(res, review, reviewTags)} onDeeperAnalysis={() => onDeeperAnalysis(res)} onReanalyze={() => onReanalyze(res)} index={i} />;
     return (
         <div ref={ref} className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark animate-slide-up" style={{ animationDelay: '200ms' }}>
             <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center mb-6 pb-4 border-b border-gray-light dark:border-gray-dark">
-                <h2 className="text-2xl font-bold flex items-center gap-2 mb-2 sm:mb-0"><HistoryIcon className="w-6 h-6 text-purple-600" /> Analysis History</h2>
+                <div className="mb-2 sm:mb-0">
+                    <h2 className="text-2xl font-bold flex items-center gap-2"><HistoryIcon className="w-6 h-6 text-purple-600" /> Analysis History</h2>
+                    {agreement.results.rate !== null && (
+                        <p className="text-xs text-gray-500 mt-1" title="How often reviewers kept the model's label">
+                            {agreement.results.reviewed} reviewed · {(agreement.results.rate * 100).toFixed(0)}% agreement
+                            {agreement.sentences.rate !== null && ` · ${(agreement.sentences.rate * 100).toFixed(0)}% of ${agreement.sentences.reviewed} sentences`}
+                        </p>
+                    )}
+                </div>
                 <div className="flex gap-2">
+                    {topicFilter && (
+                        <span className="chip bg-purple-200 text-purple-800 dark:bg-purple-800 dark:text-purple-200 flex items-center gap-1 self-center">
+                            Topic: {topicFilter.label}
+                            <button onClick={onClearTopic} aria-label="Clear topic filter" className="opacity-70 hover:opacity-100">&times;</button>
+                        </span>
+                    )}
+                    <button onClick={onBrowseHistory} className="export-btn"><SearchIcon className="w-4 h-4"/> Saved</button>
+                    <button onClick={onCalibrate} className="export-btn" title="Manage labelled examples and check how well the analyzer agrees with them"><ChartLineIcon className="w-4 h-4"/> Calibrate</button>
+                    <button onClick={onEvaluate} className="export-btn" title="Measure providers against a gold-labelled dataset and compare runs"><BatchIcon className="w-4 h-4"/> Evaluate</button>
                     <button onClick={() => onExport('pdf')} disabled={!results.length} className="export-btn"><PdfIcon className="w-4 h-4"/> PDF</button>
                     <button onClick={() => onExport('csv')} disabled={!results.length} className="export-btn"><CsvIcon className="w-4 h-4"/> CSV</button>
                     <button onClick={() => onExport('json')} disabled={!results.length} className="export-btn"><JsonIcon className="w-4 h-4"/> JSON</button>
+                    <button onClick={() => onExport('gold')} disabled={!agreement.results.reviewed} className="export-btn" title="Download the reviewed labels as a gold dataset for the evaluation harness"><CsvIcon className="w-4 h-4"/> Gold</button>
                 </div>
             </div>
-            <div className="max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
-                {!results.length ? (
-                    <div className="text-center py-16 text-gray-500"><ChartLineIcon className="w-16 h-16 mx-auto mb-4 opacity-30"/><h3 className="font-semibold text-lg mb-2">No Analysis Yet</h3><p>Start analyzing text to see results here</p></div>
-                ) : (results.map((res, i) => <ResultCard key={res.timestamp + i} result={res} onDeeperAnalysis={() => onDeeperAnalysis(res)} index={i} />))}
-            </div>
+            {results.length > 0 && <ResultFilters query={query} onQueryChange={onQueryChange} sort={sort} onSortChange={onSortChange} facets={facets} shown={visible.length} total={results.length} />}
+            {!results.length ? (
+                <div className="text-center py-16 text-gray-500"><ChartLineIcon className="w-16 h-16 mx-auto mb-4 opacity-30"/><h3 className="font-semibold text-lg mb-2">No Analysis Yet</h3><p>Start analyzing text to see results here</p></div>
+            ) : !visible.length ? (
+                <div className="text-center py-16 text-gray-500"><SearchIcon className="w-16 h-16 mx-auto mb-4 opacity-30"/><h3 className="font-semibold text-lg mb-2">No Matching Results</h3><p>Try a different search or clear some filters</p></div>
+            ) : visible.length > VIRTUALIZE_AFTER ? (
+                <VirtualList items={visible} getKey={(res, i) => res.id ?? res.timestamp + i} renderItem={renderCard} className="max-h-[600px] pr-2 custom-scrollbar" />
+            ) : (
+                <div className="max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">{visible.map(renderCard)}</div>
+            )}
         </div>
     );
 });
@@ -451,13 +775,33 @@ const WordCloud: React.FC<{ keywords: string[] }> = ({ keywords }) => {
     );
 };
 
+const MAX_CHARTED_CATEGORIES = 10;
+
+// Counts each sentiment per category label, keeping the most frequent categories.
+const tallySentiments = (entries: { label: string; sentiment: Sentiment }[]) => {
+    const counts = new Map<string, Record<Sentiment, number>>();
+    for (const { label, sentiment } of entries) {
+        const entry = counts.get(label) ?? { [Sentiment.Positive]: 0, [Sentiment.Neutral]: 0, [Sentiment.Negative]: 0 };
+        entry[sentiment]++;
+        counts.set(label, entry);
+    }
+    return Array.from(counts, ([label, c]) => ({ label, ...c, total: c.positive + c.neutral + c.negative }))
+        .sort((a, b) => b.total - a.total)
+        .slice(0, MAX_CHARTED_CATEGORIES);
+};
+
+const SentimentStackChart: React.FC<{ title: string; data: ReturnType<typeof tallySentiments> }> = ({ title, data }) => (
+    <div className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark"><h3 className="text-lg font-bold text-center mb-4">{title}</h3><div className="h-64"><ResponsiveContainer width="100%" height="100%"><BarChart data={data} layout="vertical"><XAxis type="number" allowDecimals={false} tick={{ fill: 'currentColor' }} /><YAxis type="category" dataKey="label" width={90} tick={{ fill: 'currentColor' }} /><Tooltip contentStyle={{ backgroundColor: 'var(--tooltip-bg)', color: 'var(--tooltip-text)', borderRadius: '0.5rem' }} />{[Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative].map(s => <Bar key={s} dataKey={s as string} stackId="sentiment" fill={getSentimentColor(s).hex} />)}</BarChart></ResponsiveContainer></div></div>
+);
+
 const VisualizationSection: React.FC<{ results: SentimentAnalysisResult[], advancedResult: AdvancedAnalysisResult | null }> = ({ results, advancedResult }) => {
     const chartData = useMemo(() => {
-        if (!results.length) return { breakdown: [], confidence: [], emotion: [] };
+        if (!results.length) return { breakdown: [], confidence: [], emotion: [], aspects: [], affect: [], languages: [], labels: [] };
         
         let breakdown: { name: string; value: number }[] = [];
         if (results.length > 1) {
-            const counts = results.reduce((acc, r) => { acc[r.sentiment] = (acc[r.sentiment] || 0) + 1; return acc; }, {} as Record<Sentiment, number>);
+            // Sarcastic texts are counted by what they mean rather than what they literally say.
+            const counts = results.reduce((acc, r) => { const s = getIntendedSentiment(r); acc[s] = (acc[s] || 0) + 1; return acc; }, {} as Record<Sentiment, number>);
             // FIX: Cast `value` to number as Object.entries returns `unknown` for values.
             breakdown = Object.entries(counts).map(([name, value]) => ({ name: name as Sentiment, value: value as number }));
         } else {
@@ -467,7 +811,13 @@ const VisualizationSection: React.FC<{ results: SentimentAnalysisResult[], advan
         
         const confidence = results.map((r, i) => ({ name: `Text ${i + 1}`, confidence: parseFloat((r.confidence * 100).toFixed(1)), sentiment: r.sentiment }));
         const emotion = advancedResult ? advancedResult.emotions.map(e => ({ emotion: e.name, score: e.score * 100 })) : [];
-        return { breakdown, confidence, emotion };
+        const affect = results.flatMap((r, i) => r.fineGrained
+            ? [{ name: `Text ${i + 1}`, valence: r.fineGrained.valence, arousal: r.fineGrained.arousal, sentiment: r.sentiment }]
+            : []);
+        const aspects = tallySentiments(results.flatMap(r => (r.aspects ?? []).map(a => ({ label: a.aspect, sentiment: a.sentiment }))));
+        const languages = tallySentiments(results.map(r => ({ label: getLanguageName(r.language), sentiment: getIntendedSentiment(r) })));
+        const labels = tallySentiments(results.flatMap(r => r.classification ? [{ label: r.classification.label, sentiment: getIntendedSentiment(r) }] : []));
+        return { breakdown, confidence, emotion, aspects, affect, languages, labels };
     }, [results, advancedResult]);
 
     if (!results.length) return null;
@@ -479,13 +829,145 @@ const VisualizationSection: React.FC<{ results: SentimentAnalysisResult[], advan
                  <div className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark"><h3 className="text-lg font-bold text-center mb-4">Sentiment Distribution</h3><div className="h-64"><ResponsiveContainer width="100%" height="100%"><BarChart data={chartData.breakdown} layout="vertical"><XAxis type="number" tick={{ fill: 'currentColor' }} /><YAxis type="category" dataKey="name" width={80} tick={{ fill: 'currentColor' }} /><Tooltip contentStyle={{ backgroundColor: 'var(--tooltip-bg)', color: 'var(--tooltip-text)', borderRadius: '0.5rem' }} /><Bar dataKey="value" radius={[0, 8, 8, 0]}>{chartData.breakdown.map((e) => <Cell key={`cell-${e.name}`} fill={getSentimentColor(e.name as Sentiment).hex} />)}</Bar></BarChart></ResponsiveContainer></div></div>
                  <div className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark"><h3 className="text-lg font-bold text-center mb-4">Confidence Scores</h3><div className="h-64"><ResponsiveContainer width="100%" height="100%"><BarChart data={chartData.confidence}><XAxis dataKey="name" tick={{ fill: 'currentColor' }} /><YAxis domain={[0, 100]} tickFormatter={(t) => `${t}%`} tick={{ fill: 'currentColor' }} /><Tooltip contentStyle={{ backgroundColor: 'var(--tooltip-bg)', color: 'var(--tooltip-text)', borderRadius: '0.5rem' }} formatter={(v: number) => [`${v}%`, "Confidence"]} /><Bar dataKey="confidence" radius={[8, 8, 0, 0]}>{chartData.confidence.map((e) => <Cell key={`cell-${e.name}`} fill={getSentimentColor(e.sentiment).hex} />)}</Bar></BarChart></ResponsiveContainer></div></div>
                  <div className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark"><h3 className="text-lg font-bold text-center mb-4">Keyword Cloud</h3><WordCloud keywords={results[0]?.keywords || []} /></div>
+                {chartData.labels.length > 0 && <SentimentStackChart title="Label Distribution" data={chartData.labels} />}
+                {chartData.aspects.length > 0 && <SentimentStackChart title="Aspect Sentiment" data={chartData.aspects} />}
+                {chartData.languages.length > 1 && <SentimentStackChart title="Sentiment by Language" data={chartData.languages} />}
+                {chartData.affect.length > 0 && <div className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark"><h3 className="text-lg font-bold text-center mb-4">Valence / Arousal</h3><div className="h-64"><ResponsiveContainer width="100%" height="100%"><ScatterChart><CartesianGrid stroke="currentColor" opacity={0.15} /><XAxis type="number" dataKey="valence" name="Valence" domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} tick={{ fill: 'currentColor' }} /><YAxis type="number" dataKey="arousal" name="Arousal" domain={[0, 1]} ticks={[0, 0.5, 1]} width={40} tick={{ fill: 'currentColor' }} /><ReferenceLine x={0} stroke="currentColor" opacity={0.4} /><Tooltip cursor={{ strokeDasharray: '3 3' }} contentStyle={{ backgroundColor: 'var(--tooltip-bg)', color: 'var(--tooltip-text)', borderRadius: '0.5rem' }} /><Scatter data={chartData.affect}>{chartData.affect.map((e) => <Cell key={`cell-${e.name}`} fill={getSentimentColor(e.sentiment).hex} />)}</Scatter></ScatterChart></ResponsiveContainer></div></div>}
                 {chartData.emotion.length > 0 && <div className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark"><h3 className="text-lg font-bold text-center mb-4">Emotion Radar</h3><div className="h-80"><ResponsiveContainer width="100%" height="100%"><RadarChart data={chartData.emotion}><PolarGrid stroke="currentColor" opacity={0.3} /><PolarAngleAxis dataKey="emotion" tick={{ fill: 'currentColor' }} /><PolarRadiusAxis angle={90} domain={[0, 100]} tick={false} axisLine={false} /><Radar name="Intensity" dataKey="score" stroke="#8b5cf6" fill="#8b5cf6" fillOpacity={0.6} /><Tooltip contentStyle={{ backgroundColor: 'var(--tooltip-bg)', color: 'var(--tooltip-text)', borderRadius: '0.5rem' }} /></RadarChart></ResponsiveContainer></div></div>}
             </div>
         </section>
     );
 };
 
-const AdvancedAnalysisModal: React.FC<{ isOpen: boolean; onClose: () => void; result: AdvancedAnalysisResult | null; isLoading: boolean; error: string | null; }> = ({ isOpen, onClose, result, isLoading, error }) => {
+const TREND_GRANULARITIES: { id: TrendGranularity; label: string }[] = [
+    { id: 'day', label: 'Day' },
+    { id: 'week', label: 'Week' },
+    { id: 'month', label: 'Month' },
+];
+
+// Sentiment share and valence over time. Clicking a point, or a flagged spike, lists the texts behind it.
+const TrendsSection: React.FC<{ results: SentimentAnalysisResult[]; tags: ResultTags; onReview: (result: SentimentAnalysisResult, review: ResultReview, tags: string[]) => void; onDeeperAnalysis: (result: SentimentAnalysisResult) => void; onReanalyze: (result: SentimentAnalysisResult) => void }> = ({ results, tags, onReview, onDeeperAnalysis, onReanalyze }) => {
+    const [granularity, setGranularity] = useState<TrendGranularity>('day');
+    const [smoothing, setSmoothing] = useState(3);
+    const [selectedKey, setSelectedKey] = useState<string | null>(null);
+    const series = useMemo(() => buildTrendSeries(results, { granularity, window: smoothing }), [results, granularity, smoothing]);
+    const chartData = useMemo(() => series.buckets.map(b => ({
+        label: b.label,
+        ...Object.fromEntries((Object.entries(b.shares) as [string, number][]).map(([s, share]) => [s, Math.round(share * 100)])),
+        valence: b.meanValence === null ? null : parseFloat(b.meanValence.toFixed(2)),
+        rolling: b.rollingValence === null ? null : parseFloat(b.rollingValence.toFixed(2)),
+    })), [series]);
+    const spikes = series.buckets.filter(b => b.spike);
+    const selected = series.buckets.find(b => b.key === selectedKey);
+
+    const selectIndex = (index: number | string | null | undefined) => {
+        const bucket = index === null || index === undefined ? undefined : series.buckets[Number(index)];
+        if (bucket?.count) setSelectedKey(bucket.key);
+    };
+
+    return (
+        <section className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark animate-slide-up">
+            <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-3 mb-4">
+                <h2 className="text-2xl font-bold flex items-center gap-2"><ChartLineIcon className="w-6 h-6 text-purple-600" /> Sentiment Trends</h2>
+                <div className="flex gap-2">
+                    <div className="flex rounded-lg overflow-hidden border border-gray-light dark:border-gray-dark">
+                        {TREND_GRANULARITIES.map(g => <button key={g.id} onClick={() => setGranularity(g.id)} className={`px-3 py-1.5 text-sm font-semibold ${granularity === g.id ? 'bg-purple-600 text-white' : 'hover:bg-light dark:hover:bg-gray-dark'}`}>{g.label}</button>)}
+                    </div>
+                    <select value={smoothing} onChange={e => setSmoothing(Number(e.target.value))} aria-label="Rolling average window" className="export-btn">
+                        {[1, 3, 7, 14].map(n => <option key={n} value={n}>{n === 1 ? 'No smoothing' : `${n}-${granularity} average`}</option>)}
+                    </select>
+                </div>
+            </div>
+            {series.buckets.length < 2 ? (
+                <p className="text-sm text-gray-500 py-8 text-center">All dated texts fall in the same {granularity}. Import a dataset with a date column, or pick a shorter period, to see a trend.</p>
+            ) : (
+                <div className="h-80"><ResponsiveContainer width="100%" height="100%"><ComposedChart data={chartData} onClick={state => selectIndex(state?.activeTooltipIndex)} className="cursor-pointer"><CartesianGrid stroke="currentColor" opacity={0.15} /><XAxis dataKey="label" tick={{ fill: 'currentColor', fontSize: 11 }} /><YAxis yAxisId="share" domain={[0, 100]} tickFormatter={(t) => `${t}%`} tick={{ fill: 'currentColor' }} width={45} /><YAxis yAxisId="valence" orientation="right" domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} tick={{ fill: 'currentColor' }} width={40} /><Tooltip contentStyle={{ backgroundColor: 'var(--tooltip-bg)', color: 'var(--tooltip-text)', borderRadius: '0.5rem' }} /><Legend />{[Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative].map(s => <Area key={s} yAxisId="share" type="monotone" dataKey={s as string} name={`${s} (%)`} stackId="share" stroke={getSentimentColor(s).hex} fill={getSentimentColor(s).hex} fillOpacity={0.25} />)}<ReferenceLine yAxisId="valence" y={0} stroke="currentColor" opacity={0.3} /><Line yAxisId="valence" dataKey="valence" name="Mean valence" stroke="#8b5cf6" strokeWidth={2} connectNulls /><Line yAxisId="valence" dataKey="rolling" name="Rolling average" stroke="currentColor" strokeDasharray="4 4" dot={false} connectNulls />{spikes.map(b => <ReferenceDot key={b.key} yAxisId="valence" x={b.label} y={b.meanValence!} r={7} fill={getSentimentColor(b.spike === 'positive' ? Sentiment.Positive : Sentiment.Negative).hex} stroke="white" label={{ value: b.spike === 'positive' ? '▲' : '▼', position: 'top', fill: 'currentColor' }} />)}</ComposedChart></ResponsiveContainer></div>
+            )}
+            <div className="flex flex-wrap items-center gap-2 mt-3 text-xs text-gray-500">
+                {spikes.map(b => (
+                    <button key={b.key} onClick={() => setSelectedKey(b.key)} className={`chip ${getSentimentColor(b.spike === 'positive' ? Sentiment.Positive : Sentiment.Negative).bg} ${getSentimentColor(b.spike === 'positive' ? Sentiment.Positive : Sentiment.Negative).text}`}>
+                        {b.spike === 'positive' ? '▲' : '▼'} {b.label} · {b.count} {b.count === 1 ? 'text' : 'texts'}
+                    </button>
+                ))}
+                {series.undated > 0 && <span>{series.undated} {series.undated === 1 ? 'text has' : 'texts have'} no readable date and {series.undated === 1 ? 'is' : 'are'} not shown.</span>}
+                {series.truncated > 0 && <span>{series.truncated} later {series.truncated === 1 ? 'text falls' : 'texts fall'} past the last {granularity} shown; pick a longer period to include {series.truncated === 1 ? 'it' : 'them'}.</span>}
+            </div>
+            {selected && (
+                <div className="mt-6 pt-4 border-t border-gray-light dark:border-gray-dark">
+                    <div className="flex justify-between items-center mb-3">
+                        <h3 className="font-semibold">{selected.label} · {selected.count} {selected.count === 1 ? 'text' : 'texts'}{selected.meanValence !== null && ` · mean valence ${selected.meanValence.toFixed(2)}`}</h3>
+                        <button onClick={() => setSelectedKey(null)} className="text-2xl text-gray-500 hover:text-dark dark:hover:text-light transition-colors" aria-label="Close">&times;</button>
+                    </div>
+                    <div className="max-h-[600px] overflow-y-auto pr-2 custom-scrollbar">
+                        {selected.resultIndexes.map((resultIndex, i) => {
+                            const res = results[resultIndex];
+                            return <ResultCard key={res.id ?? res.timestamp + resultIndex} result={res} tags={res.id ? tags[res.id] : undefined} onReview={(review, reviewTags) => onReview(res, review, reviewTags)} onDeeperAnalysis={() => onDeeperAnalysis(res)} onReanalyze={() => onReanalyze(res)} index={i} />;
+                        })}
+                    </div>
+                </div>
+            )}
+        </section>
+    );
+};
+
+// The results of one topic, used to filter the results list.
+interface TopicFilter {
+    id: string;
+    label: string;
+    results: SentimentAnalysisResult[];
+}
+
+const SentimentMixBar: React.FC<{ counts: Record<Sentiment, number> }> = ({ counts }) => {
+    const total = counts.positive + counts.neutral + counts.negative;
+    return (
+        <div className="flex h-2 rounded-full overflow-hidden bg-gray-light dark:bg-gray-dark">
+            {[Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative].map(s => counts[s] > 0 && <div key={s} title={`${counts[s]} ${s}`} style={{ width: `${(counts[s] / total) * 100}%`, backgroundColor: getSentimentColor(s).hex }} />)}
+        </div>
+    );
+};
+
+// Groups the results into topics by the words they share; clicking a topic filters the results list to it.
+const TopicsSection: React.FC<{ results: SentimentAnalysisResult[]; activeTopicId?: string; onSelectTopic: (topic: TopicFilter | null) => void }> = ({ results, activeTopicId, onSelectTopic }) => {
+    const { topics, unclustered } = useMemo(() => clusterTopics(results), [results]);
+
+    return (
+        <section className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark animate-slide-up">
+            <h2 className="text-2xl font-bold mb-4 flex items-center gap-2"><SearchIcon className="w-6 h-6 text-purple-600" /> Topics</h2>
+            {!topics.length ? (
+                <p className="text-sm text-gray-500 py-8 text-center">No shared topics were found. Topics appear once at least {MIN_RESULTS_FOR_TOPICS} texts discuss some of the same things.</p>
+            ) : (
+                <div className="grid sm:grid-cols-2 lg:grid-cols-4 gap-4">
+                    {topics.map(topic => {
+                        const isActive = topic.id === activeTopicId;
+                        return (
+                            <button
+                                key={topic.id}
+                                onClick={() => onSelectTopic(isActive ? null : { id: topic.id, label: topic.label, results: topic.resultIndexes.map(i => results[i]) })}
+                                className={`text-left p-4 rounded-xl border-2 transition-all hover:scale-[1.02] ${isActive ? 'border-purple-600 bg-purple-500/10' : 'border-gray-light dark:border-gray-dark bg-light/50 dark:bg-gray-dark/40'}`}
+                            >
+                                <div className="flex justify-between items-baseline gap-2 mb-2">
+                                    <h3 className="font-bold capitalize truncate">{topic.label}</h3>
+                                    <span className="text-xs text-gray-500 whitespace-nowrap">{topic.size} {topic.size === 1 ? 'text' : 'texts'} · {Math.round((topic.size / results.length) * 100)}%</span>
+                                </div>
+                                <SentimentMixBar counts={topic.sentiments} />
+                                <div className="flex flex-wrap gap-1 mt-3">{topic.terms.map(term => <span key={term} className="text-xs px-2 py-0.5 rounded-full bg-gradient-to-r from-purple-500/20 to-blue-500/20 text-purple-700 dark:text-purple-300">{term}</span>)}</div>
+                            </button>
+                        );
+                    })}
+                </div>
+            )}
+            {topics.length > 0 && unclustered.length > 0 && <p className="text-xs text-gray-500 mt-3">{unclustered.length} {unclustered.length === 1 ? 'text shares' : 'texts share'} no topic words with the others and {unclustered.length === 1 ? 'is' : 'are'} not in any topic.</p>}
+        </section>
+    );
+};
+
+const OfflineNotice: React.FC<{ reason?: RequestErrorKind }> = ({ reason }) => (
+    <div className="p-3 rounded-lg text-sm font-medium text-center bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300">
+        {reason && `${describeRequestError(reason)} `}This was generated by the offline engine, so it may be less nuanced than a Gemini analysis.
+    </div>
+);
+
+const AdvancedAnalysisModal: React.FC<{ isOpen: boolean; onClose: () => void; onRefresh?: () => void; result: AdvancedAnalysisResult | null; isLoading: boolean; error: string | null; }> = ({ isOpen, onClose, onRefresh, result, isLoading, error }) => {
     if (!isOpen) return null;
     return (
         <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in" onClick={onClose}>
@@ -494,7 +976,9 @@ const AdvancedAnalysisModal: React.FC<{ isOpen: boolean; onClose: () => void; re
                 {isLoading && <div className="flex flex-col justify-center items-center p-16"><div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mb-4"></div><p>Performing deep analysis...</p></div>}
                 {error && <div className="text-center p-10 text-danger">{error}</div>}
                 {result && !isLoading && <div className="space-y-6">
-                    <div className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 p-4 rounded-xl border border-purple-500/20"><h3 className="font-semibold mb-2 flex items-center gap-2"><SparklesIcon className="w-5 h-5 text-purple-600" /> AI Summary</h3><p className="text-sm leading-relaxed">{result.summary}</p></div>
+                    {result.apiUsed === FALLBACK_PROVIDER_ID && <OfflineNotice reason={result.fallbackReason} />}
+                    {result.cached && <CachedBadge onRefresh={onRefresh} />}
+                    <div className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 p-4 rounded-xl border border-purple-500/20"><h3 className="font-semibold mb-2 flex items-center gap-2"><SparklesIcon className="w-5 h-5 text-purple-600" /> {result.apiUsed === FALLBACK_PROVIDER_ID ? 'Offline Summary' : 'AI Summary'}</h3><p className="text-sm leading-relaxed">{result.summary}</p></div>
                     <div><h3 className="font-semibold mb-3">Emotion Breakdown</h3><div className="space-y-3">{result.emotions.map((e, i) => <div key={e.name} className="animate-slide-up" style={{ animationDelay: `${i * 100}ms` }}><div className="flex justify-between text-sm mb-2"><span className="font-medium">{e.name}</span><span>{(e.score * 100).toFixed(0)}%</span></div><div className="w-full bg-gray-light dark:bg-gray-dark rounded-full h-3"><div className="bg-gradient-to-r from-purple-600 to-blue-600 h-3 rounded-full transition-all duration-1000" style={{ width: `${e.score * 100}%` }}></div></div></div>)}</div></div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <div><h3 className="font-semibold mb-3">Detected Tones</h3><div className="flex flex-wrap gap-2">{result.tones.map((t, i) => <span key={t} className="px-4 py-2 bg-gradient-to-r from-blue-500/20 to-cyan-500/20 text-blue-700 dark:text-blue-300 text-sm rounded-full font-medium animate-fade-in" style={{ animationDelay: `${i * 100}ms` }}>{t}</span>)}</div></div>
@@ -506,7 +990,7 @@ const AdvancedAnalysisModal: React.FC<{ isOpen: boolean; onClose: () => void; re
     );
 };
 
-const ComparativeAnalysisModal: React.FC<{ isOpen: boolean; onClose: () => void; result: ComparativeAnalysisResult | null; isLoading: boolean; error: string | null; }> = ({ isOpen, onClose, result, isLoading, error }) => {
+const ComparativeAnalysisModal: React.FC<{ isOpen: boolean; onClose: () => void; onRefresh?: () => void; result: ComparativeAnalysisResult | null; isLoading: boolean; error: string | null; }> = ({ isOpen, onClose, onRefresh, result, isLoading, error }) => {
     if (!isOpen) return null;
 
     const ComparisonCard: React.FC<{ title: string, data: ComparativeAnalysisResult['comparison']['textA'] }> = ({ title, data }) => {
@@ -540,7 +1024,9 @@ const ComparativeAnalysisModal: React.FC<{ isOpen: boolean; onClose: () => void;
                 {isLoading && <div className="flex flex-col justify-center items-center p-16"><div className="w-12 h-12 border-4 border-purple-600 border-t-transparent rounded-full animate-spin mb-4"></div><p>Comparing texts...</p></div>}
                 {error && <div className="text-center p-10 text-danger bg-danger/10 rounded-lg">{error}</div>}
                 {result && !isLoading && <div className="space-y-6">
-                    <div className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 p-4 rounded-xl border border-purple-500/20"><h3 className="font-semibold mb-2 flex items-center gap-2"><SparklesIcon className="w-5 h-5 text-purple-600" /> AI Summary</h3><p className="text-sm leading-relaxed">{result.summary}</p></div>
+                    {result.apiUsed === FALLBACK_PROVIDER_ID && <OfflineNotice reason={result.fallbackReason} />}
+                    {result.cached && <CachedBadge onRefresh={onRefresh} />}
+                    <div className="bg-gradient-to-r from-purple-500/10 to-blue-500/10 p-4 rounded-xl border border-purple-500/20"><h3 className="font-semibold mb-2 flex items-center gap-2"><SparklesIcon className="w-5 h-5 text-purple-600" /> {result.apiUsed === FALLBACK_PROVIDER_ID ? 'Offline Summary' : 'AI Summary'}</h3><p className="text-sm leading-relaxed">{result.summary}</p></div>
                     <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                         <ComparisonCard title="Text A Analysis" data={result.comparison.textA} />
                         <ComparisonCard title="Text B Analysis" data={result.comparison.textB} />
@@ -597,11 +1083,12 @@ const ApiStatusDisplay: React.FC<{ status: ApiStatus }> = ({ status }) => {
         loading: 'bg-blue-100 text-blue-800 dark:bg-blue-900/50 dark:text-blue-300',
         success: 'bg-green-100 text-green-800 dark:bg-green-900/50 dark:text-green-300',
         error: 'bg-red-100 text-red-800 dark:bg-red-900/50 dark:text-red-300',
+        warning: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300',
         ready: '',
     };
 
     return (
-        <div className={`p-3 rounded-lg text-sm font-medium mb-4 text-center ${colors[status.status]} animate-fade-in`}>
+        <div className={`p-3 rounded-lg text-sm font-medium text-center ${colors[status.status]} animate-fade-in`}>
             {status.message}
         </div>
     );
@@ -612,14 +1099,44 @@ const App: React.FC = () => {
     const [theme, setTheme] = useState<Theme>('light');
     const [showLanding, setShowLanding] = useState(true);
     const [results, setResults] = useState<SentimentAnalysisResult[]>([]);
+    const [topicFilter, setTopicFilter] = useState<TopicFilter | null>(null);
+    const [resultQuery, setResultQuery] = useState<ResultQuery>({});
+    const [resultSort, setResultSort] = useState<ResultSort>('newest');
+    const [resultTags, setResultTags] = useState<ResultTags>({});
     const [isLoading, setIsLoading] = useState(false);
     const [apiStatus, setApiStatus] = useState<ApiStatus>({ status: 'ready', message: 'Ready to analyze' });
-    const [analysisCount, setAnalysisCount] = useState(0);
     const [currentSentiment, setCurrentSentiment] = useState<Sentiment | null>(null);
     const [moodEnhancers, setMoodEnhancers] = useState<MoodEnhancerResult | null>(null);
     const resultsContainerRef = useRef<HTMLDivElement>(null);
     const [modalState, setModalState] = useState<{ isOpen: boolean; selectedResult: SentimentAnalysisResult | null; advancedData: AdvancedAnalysisResult | null; isLoading: boolean; error: string | null; }>({ isOpen: false, selectedResult: null, advancedData: null, isLoading: false, error: null });
     const [comparisonModalState, setComparisonModalState] = useState<{ isOpen: boolean; result: ComparativeAnalysisResult | null; isLoading: boolean; error: string | null; }>({ isOpen: false, result: null, isLoading: false, error: null });
+    const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+    const [isCalibrationOpen, setIsCalibrationOpen] = useState(false);
+    const [isEvaluationOpen, setIsEvaluationOpen] = useState(false);
+    const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+    const [isReportOpen, setIsReportOpen] = useState(false);
+    const [batchJob, setBatchJob] = useState<BatchJob | null>(null);
+    const [jobProgress, setJobProgress] = useState<JobProgress | null>(null);
+    const jobRunnerRef = useRef<JobRunner | null>(null);
+    const lastComparisonRef = useRef<{ textA: string; textB: string } | null>(null);
+
+    // Tags are edited in the history browser, so they are reloaded when it closes as well as when results change.
+    useEffect(() => {
+        if (isHistoryOpen) return;
+        getResultTags(results.flatMap(r => r.id ? [r.id] : []))
+            .then(setResultTags)
+            .catch(e => console.error("Could not load result tags", e));
+    }, [results, isHistoryOpen]);
+
+    // Charts follow the query and the topic filter; the topic panel only follows the query, so other topics stay pickable.
+    const queriedResults = useMemo(() => filterResults(results, resultQuery, resultTags), [results, resultQuery, resultTags]);
+    const filteredResults = useMemo(() => {
+        if (!topicFilter) return queriedResults;
+        const inTopic = new Set(topicFilter.results);
+        return queriedResults.filter(r => inTopic.has(r));
+    }, [queriedResults, topicFilter]);
+    const sortedResults = useMemo(() => sortResults(filteredResults, resultSort), [filteredResults, resultSort]);
+    const resultFacets = useMemo(() => getResultFacets(results, resultTags), [results, resultTags]);
 
     useEffect(() => {
         document.documentElement.classList.toggle('dark', theme === 'dark');
@@ -629,34 +1146,96 @@ const App: React.FC = () => {
         document.documentElement.style.setProperty('--tooltip-text', tooltipText);
     }, [theme]);
 
-    const handleAnalyze = useCallback(async (input: string | string[]) => {
-        const texts = Array.isArray(input) ? input.slice(0, 10) : [input];
+    const attachJobRunner = useCallback((job: BatchJob) => {
+        const runner = createJobRunner(job, {
+            onUpdate: (updated, progress) => {
+                setBatchJob(updated);
+                setJobProgress(progress);
+                if (updated.state === 'completed') {
+                    const issues = [
+                        progress.fallback && `${progress.fallback} used the offline engine`,
+                        progress.failed && `${progress.failed} failed`,
+                    ].filter(Boolean).join(' and ');
+                    setApiStatus(issues
+                        ? { status: 'warning', message: `Batch complete for ${progress.total} text(s), but ${issues}.` }
+                        : { status: 'success', message: `Batch complete for ${progress.total} text(s)!` });
+                }
+            },
+            // Results stream in as each item finishes rather than when the whole batch does.
+            onResult: (result) => {
+                setResults(prev => [result, ...prev]);
+                setCurrentSentiment(getIntendedSentiment(result));
+            },
+        });
+        jobRunnerRef.current = runner;
+        setBatchJob(job);
+        setJobProgress(summarizeJob(job));
+        return runner;
+    }, []);
 
-        for (const text of texts) {
-            const validation = isValidTextInput(text);
-            if (!validation.valid) {
-                setApiStatus({ status: 'error', message: validation.message });
-                return;
-            }
+    useEffect(() => {
+        loadUnfinishedJob()
+            .then(job => {
+                if (!job) return;
+                attachJobRunner(job);
+                setApiStatus({ status: 'warning', message: `An unfinished batch job with ${summarizeJob(job).pending} remaining item(s) was restored. Resume it to continue.` });
+            })
+            .catch(e => console.error("Could not restore batch job", e));
+    }, [attachJobRunner]);
+
+    const handleDismissJob = useCallback(() => {
+        const job = jobRunnerRef.current?.getJob();
+        if (job) deleteJob(job.id).catch(e => console.error("Could not delete batch job", e));
+        jobRunnerRef.current = null;
+        setBatchJob(null);
+        setJobProgress(null);
+    }, []);
+
+    const handleAnalyze = useCallback(async (input: AnalysisItem[], source: AnalysisSource, preferences: AnalysisPreferences = {}) => {
+        // A single text must be valid; in a batch or dataset, invalid rows are skipped so one bad row doesn't block the rest.
+        const items = input.filter(item => isValidTextInput(item.text).valid);
+        const skipped = input.length - items.length;
+        if (items.length === 0) {
+            setApiStatus({ status: 'error', message: isValidTextInput(input[0]?.text ?? '').message });
+            return;
         }
+        const skippedNote = skipped > 0 ? ` ${skipped} row(s) without any letters were skipped.` : '';
 
-        const analysesToRun = texts.length;
-        if (analysisCount + analysesToRun > MAX_ANALYSES) {
-            const remaining = MAX_ANALYSES - analysisCount;
-            setApiStatus({ status: 'error', message: `You've reached your usage limit for this session. You can perform ${remaining > 0 ? remaining : 'no'} more ${remaining === 1 ? 'analysis' : 'analyses'}.` });
+        if (items.length > 1) {
+            const currentJob = jobRunnerRef.current?.getJob();
+            if (currentJob?.state === 'running' || currentJob?.state === 'paused') {
+                setApiStatus({ status: 'error', message: 'A batch job is still in progress. Finish or cancel it before starting another.' });
+                return;
+            }
+            if (jobRunnerRef.current) handleDismissJob();
+            setMoodEnhancers(null);
+            setApiStatus({ status: 'loading', message: `Batch job started for ${items.length} text(s).${skippedNote}` });
+            attachJobRunner(createBatchJob(items, source, preferences)).start();
             return;
         }
 
         setIsLoading(true);
         setMoodEnhancers(null);
-        setApiStatus({ status: 'loading', message: `Analyzing ${texts.length} text(s)...` });
+        setApiStatus({ status: 'loading', message: `Analyzing ${items.length} text(s)...` });
 
         try {
-            const newResults = await Promise.all(texts.map(text => analyzeSentiment(text)));
+            const analyzed = await Promise.all(items.map(async ({ text, sourceRecord }) => {
+                const result = await analyzeSentiment(text, preferences);
+                return sourceRecord ? { ...result, sourceRecord } : result;
+            }));
+            const newResults = await saveSentimentResults(analyzed, source).catch((e) => {
+                console.error("Could not save results to history", e);
+                return analyzed;
+            });
             setResults(prev => [...newResults, ...prev]);
-            setAnalysisCount(prev => prev + newResults.length);
-            setCurrentSentiment(newResults[0].sentiment);
-            setApiStatus({ status: 'success', message: `Analysis complete for ${newResults.length} text(s)!` });
+            setCurrentSentiment(getIntendedSentiment(newResults[0]));
+            const degraded = newResults.filter(r => r.fallbackReason);
+            if (degraded.length > 0) {
+                const errorKind = degraded[0].fallbackReason!;
+                setApiStatus({ status: 'warning', errorKind, message: `Analysis complete, but ${degraded.length} of ${newResults.length} text(s) used the offline engine. ${describeRequestError(errorKind)}${skippedNote}` });
+            } else {
+                setApiStatus({ status: 'success', message: `Analysis complete for ${newResults.length} text(s)!${skippedNote}` });
+            }
             
             if (newResults.length === 1) {
                 try {
@@ -667,18 +1246,14 @@ const App: React.FC = () => {
                 }
             }
         } catch (error) {
-            setApiStatus({ status: 'error', message: "Oops! Something went wrong during the analysis. Please try again shortly." });
+            const { kind } = classifyError(error);
+            setApiStatus({ status: 'error', errorKind: kind, message: `The analysis failed. ${describeRequestError(kind)}` });
         } finally {
             setIsLoading(false);
         }
-    }, [analysisCount]);
-
-    const handleCompare = useCallback(async (textA: string, textB: string) => {
-        if (analysisCount >= MAX_ANALYSES) {
-             setApiStatus({ status: 'error', message: `You've reached your usage limit for this session, so a comparison can't be run.` });
-             return;
-        }
+    }, [attachJobRunner, handleDismissJob]);
 
+    const handleCompare = useCallback(async (textA: string, textB: string, options: AnalysisOptions = {}) => {
         const validationA = isValidTextInput(textA);
         if (!validationA.valid) {
              setApiStatus({ status: 'error', message: `Text A: ${validationA.message}` });
@@ -692,31 +1267,94 @@ const App: React.FC = () => {
         }
 
         setIsLoading(true);
+        lastComparisonRef.current = { textA, textB };
         setComparisonModalState({ isOpen: true, result: null, isLoading: true, error: null });
         try {
-            const result = await compareSentiments(textA, textB);
+            const result = await compareSentiments(textA, textB, options);
+            saveComparisonResult(textA, textB, result, { type: 'compare' }).catch(e => console.error("Could not save comparison to history", e));
             setComparisonModalState({ isOpen: true, result, isLoading: false, error: null });
-            setAnalysisCount(prev => prev + 1); // Comparison counts as one analysis
         } catch (error: any) {
             setComparisonModalState({ isOpen: true, result: null, isLoading: false, error: error.message || "There was an issue comparing the texts. Please check your input and try again." });
         } finally {
             setIsLoading(false);
         }
-    }, [analysisCount]);
+    }, []);
 
-    const handleDeeperAnalysis = useCallback(async (result: SentimentAnalysisResult) => {
+    const handleDeeperAnalysis = useCallback(async (result: SentimentAnalysisResult, options: AnalysisOptions = {}) => {
         setModalState({ isOpen: true, selectedResult: result, advancedData: null, isLoading: true, error: null });
         try {
-            const advancedData = await performAdvancedAnalysis(result.text);
+            const advancedData = await performAdvancedAnalysis(result.text, options);
+            saveAdvancedResult(result.text, advancedData, { type: 'deeper-analysis' }).catch(e => console.error("Could not save deeper analysis to history", e));
             setModalState(s => ({ ...s, advancedData, isLoading: false }));
         } catch (error) {
             setModalState(s => ({ ...s, isLoading: false, error: "We couldn't generate the deeper analysis at this moment. Please try again." }));
         }
     }, []);
+
+    // Saves before updating the list, so the tag reload that follows a results change reads the new tags.
+    const handleReview = useCallback(async (result: SentimentAnalysisResult, review: ResultReview, tags: string[]) => {
+        if (result.id) {
+            try {
+                await Promise.all([updateSentimentReview(result.id, review), updateHistoryTags(result.id, tags)]);
+            } catch (e) {
+                console.error("Could not save review to history", e);
+                setApiStatus({ status: 'warning', message: "The review was applied but could not be saved to your history." });
+            }
+            setResultTags(prev => ({ ...prev, [result.id!]: tags }));
+        }
+        const reviewed = { ...result, review };
+        setResults(prev => prev.map(r => r === result ? reviewed : r));
+        setTopicFilter(filter => filter && { ...filter, results: filter.results.map(r => r === result ? reviewed : r) });
+    }, []);
+
+    // The filter keeps the topic's results as they were when it was picked, so cards don't jump while a batch streams in.
+    const handleSelectTopic = useCallback((topic: TopicFilter | null) => {
+        setTopicFilter(topic);
+        if (topic) resultsContainerRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+    }, []);
+
+    // Replaces a cached result card with a fresh analysis of the same text.
+    const handleReanalyze = useCallback(async (result: SentimentAnalysisResult) => {
+        setIsLoading(true);
+        setApiStatus({ status: 'loading', message: 'Running a fresh analysis...' });
+        try {
+            // A classification is redone with the current version of its taxonomy, if it still exists.
+            const taxonomy = result.classification && listTaxonomies().find(t => t.id === result.classification!.taxonomyId);
+            const mode: AnalysisMode = taxonomy ? 'classify' : result.aspects ? 'aspect' : 'standard';
+            const analyzed = await analyzeSentiment(result.text, { fresh: true, mode, scheme: result.scheme, translate: !!result.translation, taxonomy });
+            const withSource = result.sourceRecord ? { ...analyzed, sourceRecord: result.sourceRecord } : analyzed;
+            const [fresh] = await saveSentimentResults([withSource], { type: 'text' }).catch((e) => {
+                console.error("Could not save results to history", e);
+                return [withSource];
+            });
+            setResults(prev => prev.map(r => r === result ? fresh : r));
+            setTopicFilter(filter => filter && { ...filter, results: filter.results.map(r => r === result ? fresh : r) });
+            setCurrentSentiment(getIntendedSentiment(fresh));
+            setApiStatus(fresh.fallbackReason
+                ? { status: 'warning', errorKind: fresh.fallbackReason, message: `The fresh analysis used the offline engine. ${describeRequestError(fresh.fallbackReason)}` }
+                : { status: 'success', message: 'Fresh analysis complete!' });
+        } catch (error) {
+            const { kind } = classifyError(error);
+            setApiStatus({ status: 'error', errorKind: kind, message: `The analysis failed. ${describeRequestError(kind)}` });
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
     
-     const handleExport = useCallback((format: 'csv' | 'json' | 'pdf') => {
+     const handleExport = useCallback((format: ExportFormat) => {
         if (results.length === 0) return;
-        if (format === 'json') {
+        if (format === 'gold') {
+            const rows = buildGoldDataset(results);
+            if (!rows.length) return;
+            const header = Object.keys(rows[0]) as (keyof typeof rows[0])[];
+            const csvContent = [header.map(toCsvField).join(','), ...rows.map(row => header.map(key => toCsvField(row[key])).join(','))].join('\n');
+            const link = document.createElement("a");
+            link.setAttribute("href", "data:text/csv;charset=utf-8," + encodeURIComponent(csvContent));
+            link.setAttribute("download", "gold_dataset.csv");
+            document.body.appendChild(link);
+            link.click();
+            link.remove();
+        } else if (format === 'json') {
             const dataStr = "data:text/json;charset=utf-8," + encodeURIComponent(JSON.stringify(results, null, 2));
             const downloadAnchorNode = document.createElement('a');
             downloadAnchorNode.setAttribute("href", dataStr);
@@ -725,12 +1363,24 @@ const App: React.FC = () => {
             downloadAnchorNode.click();
             downloadAnchorNode.remove();
         } else if (format === 'csv') {
-            const header = ["timestamp", "text", "sentiment", "confidence", "positive_score", "negative_score", "neutral_score", "keywords", "explanation"];
+            const analysisHeader = ["timestamp", "text", "sentiment", "confidence", "positive_score", "negative_score", "neutral_score", "keywords", "explanation", "rating", "valence", "arousal", "mixed", "sarcasm_probability", "intended_sentiment", "language", "translation", "label", "label_scores", "label_rationale", "model", "prompt_version", "temperature", "top_p", "max_output_tokens", "thinking_budget", "seed", "review_label", "review_status", "reviewer", "reviewed_at", "review_notes"];
+            // Imported rows keep their original columns first so the file can be re-imported with the same mapping.
+            const sourceColumns = Array.from(new Set<string>(results.flatMap(r => Object.keys(r.sourceRecord?.columns ?? {}))));
+            const header = [...sourceColumns.map(c => analysisHeader.includes(c) ? `source_${c}` : c), ...analysisHeader];
             const rows = results.map(r => [
-                r.timestamp, `"${r.text.replace(/"/g, '""')}"`, r.sentiment, r.confidence, r.scores.positive, r.scores.negative, r.scores.neutral, `"${r.keywords.join(', ')}"`, `"${r.explanation.replace(/"/g, '""')}"`
-            ]);
-            const csvContent = "data:text/csv;charset=utf-8," + [header.join(','), ...rows.map(row => row.join(','))].join('\n');
-            const encodedUri = encodeURI(csvContent);
+                ...sourceColumns.map(c => r.sourceRecord?.columns[c] ?? ''),
+                r.timestamp, r.text, r.sentiment, r.confidence, r.scores.positive, r.scores.negative, r.scores.neutral, r.keywords.join(', '), r.explanation,
+                r.fineGrained?.rating ?? '', r.fineGrained?.valence ?? '', r.fineGrained?.arousal ?? '', r.fineGrained ? String(r.fineGrained.mixed) : '',
+                r.sarcasm?.probability ?? '', getIntendedSentiment(r), r.language ?? '', r.translation ?? '',
+                r.classification?.label ?? '',
+                r.classification ? (Object.entries(r.classification.scores) as [string, number][]).map(([label, score]) => `${label}:${score.toFixed(3)}`).join('; ') : '',
+                r.classification?.rationale ?? '',
+                r.generation?.model ?? '', r.generation?.promptVersion ?? '', r.generation?.temperature ?? '', r.generation?.topP ?? '',
+                r.generation?.maxOutputTokens ?? '', r.generation?.thinkingBudget ?? '', r.generation?.seed ?? '',
+                r.review?.sentiment ?? '', r.review?.status ?? '', r.review?.reviewer ?? '', r.review?.reviewedAt ?? '', r.review?.notes ?? ''
+            ].map(toCsvField));
+            const csvContent = [header.map(toCsvField).join(','), ...rows.map(row => row.join(','))].join('\n');
+            const encodedUri = "data:text/csv;charset=utf-8," + encodeURIComponent(csvContent);
             const link = document.createElement("a");
             link.setAttribute("href", encodedUri);
             link.setAttribute("download", "sentiment_analysis_results.csv");
@@ -738,75 +1388,41 @@ const App: React.FC = () => {
             link.click();
             link.remove();
         } else if (format === 'pdf') {
-            const { jsPDF } = window.jspdf;
-            const exportContainer = resultsContainerRef.current;
-            if (!exportContainer) return;
-
-            const resultCards = Array.from(exportContainer.querySelectorAll('.analysis-result-card')) as HTMLElement[];
-            if (resultCards.length === 0) return;
-
-            setApiStatus({ status: 'loading', message: `Generating PDF for ${resultCards.length} result(s)...` });
-
-            const wasDarkMode = document.documentElement.classList.contains('dark');
-            const originalContainerClassName = exportContainer.className;
-            const scrollableContent = exportContainer.querySelector('.custom-scrollbar') as HTMLDivElement | null;
-            const originalScrollableStyle = scrollableContent ? scrollableContent.style.maxHeight : '';
+            setIsReportOpen(true);
+        }
+    }, [results]);
 
-            const animatedChildren = Array.from(exportContainer.querySelectorAll('.animate-slide-up, .animate-fade-in'));
-            const originalChildrenClassNames = animatedChildren.map(el => el.className);
-            
-            if (wasDarkMode) document.documentElement.classList.remove('dark');
-            if (scrollableContent) scrollableContent.style.maxHeight = 'none';
-            exportContainer.className = 'bg-white rounded-2xl p-6 border border-gray-light';
-            animatedChildren.forEach(el => el.classList.remove('animate-slide-up', 'animate-fade-in'));
-
-            const promises = resultCards.map(card => window.html2canvas(card, {
-                scale: 2,
-                backgroundColor: '#ffffff',
-            }));
+    const handleGenerateReport = useCallback(async (options: ReportOptions, onlyVisible: boolean) => {
+        setIsReportOpen(false);
+        const reported = onlyVisible ? sortedResults : results;
+        if (!reported.length) return;
+        setApiStatus({ status: 'loading', message: `Generating PDF for ${reported.length} result(s)...` });
+        try {
+            const { jsPDF } = window.jspdf;
+            const report = await buildPdfReport(new jsPDF('p', 'mm', 'a4'), reported, options);
+            report.save("sentiment_analysis_report.pdf");
+            setApiStatus({ status: 'success', message: 'PDF successfully exported!' });
+        } catch (err) {
+            console.error("PDF generation failed", err);
+            setApiStatus({ status: 'error', message: 'PDF export failed. Please try again.' });
+        }
+    }, [results, sortedResults, setApiStatus]);
 
-            Promise.all(promises).then(canvases => {
-                const pdf = new jsPDF('p', 'mm', 'a4');
-                const pdfWidth = pdf.internal.pageSize.getWidth();
-                const pdfHeight = pdf.internal.pageSize.getHeight();
-
-                canvases.forEach((canvas, index) => {
-                    if (index > 0) pdf.addPage();
-                    
-                    const imgData = canvas.toDataURL('image/png');
-                    const imgProps = pdf.getImageProperties(imgData);
-                    const imgHeight = (imgProps.height * pdfWidth) / imgProps.width;
-                    
-                    let heightLeft = imgHeight;
-                    let position = 0;
-                    pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, imgHeight);
-                    heightLeft -= pdfHeight;
-
-                    while (heightLeft > 0) {
-                        position = heightLeft - imgHeight;
-                        pdf.addPage();
-                        pdf.addImage(imgData, 'PNG', 0, position, pdfWidth, imgHeight);
-                        heightLeft -= pdfHeight;
-                    }
-                });
-                
-                pdf.save("sentiment_analysis_results.pdf");
-                setApiStatus({ status: 'success', message: 'PDF successfully exported!' });
-            }).catch(err => {
-                console.error("PDF generation failed", err);
-                setApiStatus({ status: 'error', message: 'PDF export failed. Please try again.' });
-            }).finally(() => {
-                if (scrollableContent) scrollableContent.style.maxHeight = originalScrollableStyle;
-                exportContainer.className = originalContainerClassName;
-
-                animatedChildren.forEach((el, index) => {
-                    el.className = originalChildrenClassNames[index];
-                });
-                
-                if (wasDarkMode) document.documentElement.classList.add('dark');
-            });
+    const handleOpenHistoryRecord = useCallback((record: HistoryRecord) => {
+        setIsHistoryOpen(false);
+        switch (record.kind) {
+            case 'sentiment':
+                setResults(prev => prev.some(r => r.id === record.id) ? prev : [record.result, ...prev]);
+                break;
+            case 'advanced':
+                setModalState({ isOpen: true, selectedResult: null, advancedData: record.result, isLoading: false, error: null });
+                break;
+            case 'comparison':
+                lastComparisonRef.current = { textA: record.textA, textB: record.textB };
+                setComparisonModalState({ isOpen: true, result: record.result, isLoading: false, error: null });
+                break;
         }
-    }, [results, setApiStatus]);
+    }, []);
 
     if (showLanding) {
         return <LandingPage onGetStarted={() => setShowLanding(false)} theme={theme} />;
@@ -816,24 +1432,43 @@ const App: React.FC = () => {
         <div className="min-h-screen bg-light dark:bg-gray-darker font-sans text-dark dark:text-light transition-colors duration-300 relative">
             <AnimatedBackground sentiment={currentSentiment} />
             <main className="max-w-7xl mx-auto p-4 md:p-8 relative z-10">
-                <Header theme={theme} toggleTheme={() => setTheme(t => t === 'light' ? 'dark' : 'light')} />
-                <ApiStatusDisplay status={apiStatus} />
+                <Header theme={theme} toggleTheme={() => setTheme(t => t === 'light' ? 'dark' : 'light')} onOpenSettings={() => setIsSettingsOpen(true)} />
+                <div className="flex flex-col md:flex-row md:items-start gap-4 mb-4">
+                    <div className="flex-1"><ApiStatusDisplay status={apiStatus} /></div>
+                    <UsagePanel />
+                </div>
+                {batchJob && jobProgress && (
+                    <BatchJobPanel
+                        job={batchJob}
+                        progress={jobProgress}
+                        onPause={() => jobRunnerRef.current?.pause()}
+                        onResume={() => jobRunnerRef.current?.start()}
+                        onCancel={() => jobRunnerRef.current?.cancel()}
+                        onRetryFailed={() => jobRunnerRef.current?.retryFailed()}
+                        onDismiss={handleDismissJob}
+                    />
+                )}
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
                     <InputSection
                         onAnalyze={handleAnalyze}
-                        isLoading={isLoading}
+                        isLoading={isLoading || isJobActive(batchJob)}
                         onCompare={handleCompare}
-                        analysisCount={analysisCount}
-                        maxAnalyses={MAX_ANALYSES}
                     />
-                    <ResultsSection ref={resultsContainerRef} results={results} onDeeperAnalysis={handleDeeperAnalysis} onExport={handleExport} />
+                    <ResultsSection ref={resultsContainerRef} results={results} visible={sortedResults} query={resultQuery} onQueryChange={setResultQuery} sort={resultSort} onSortChange={setResultSort} facets={resultFacets} tags={resultTags} topicFilter={topicFilter} onClearTopic={() => setTopicFilter(null)} onReview={handleReview} onDeeperAnalysis={handleDeeperAnalysis} onReanalyze={handleReanalyze} onExport={handleExport} onBrowseHistory={() => setIsHistoryOpen(true)} onCalibrate={() => setIsCalibrationOpen(true)} onEvaluate={() => setIsEvaluationOpen(true)} />
                 </div>
                 {moodEnhancers && <MoodEnhancer enhancers={moodEnhancers} />}
-                {results.length > 0 && <div className="mt-8"><VisualizationSection results={results} advancedResult={modalState.advancedData} /></div>}
+                {filteredResults.length > 0 && <div className="mt-8"><VisualizationSection results={filteredResults} advancedResult={modalState.advancedData} /></div>}
+                {queriedResults.length >= MIN_RESULTS_FOR_TOPICS && <div className="mt-8"><TopicsSection results={queriedResults} activeTopicId={topicFilter?.id} onSelectTopic={handleSelectTopic} /></div>}
+                {filteredResults.length > 1 && <div className="mt-8"><TrendsSection results={filteredResults} tags={resultTags} onReview={handleReview} onDeeperAnalysis={handleDeeperAnalysis} onReanalyze={handleReanalyze} /></div>}
                 <footer className="text-center mt-12 py-6 border-t border-gray-light dark:border-gray-dark"><p className="text-sm text-gray-600 dark:text-gray-400">Powered by Google Gemini API</p></footer>
             </main>
-            <AdvancedAnalysisModal isOpen={modalState.isOpen} onClose={() => setModalState({ isOpen: false, selectedResult: null, advancedData: null, isLoading: false, error: null })} result={modalState.advancedData} isLoading={modalState.isLoading} error={modalState.error} />
-            <ComparativeAnalysisModal isOpen={comparisonModalState.isOpen} onClose={() => setComparisonModalState({ isOpen: false, result: null, isLoading: false, error: null })} result={comparisonModalState.result} isLoading={comparisonModalState.isLoading} error={comparisonModalState.error} />
+            <AdvancedAnalysisModal isOpen={modalState.isOpen} onClose={() => setModalState({ isOpen: false, selectedResult: null, advancedData: null, isLoading: false, error: null })} onRefresh={modalState.selectedResult ? () => handleDeeperAnalysis(modalState.selectedResult!, { fresh: true }) : undefined} result={modalState.advancedData} isLoading={modalState.isLoading} error={modalState.error} />
+            <ComparativeAnalysisModal isOpen={comparisonModalState.isOpen} onClose={() => setComparisonModalState({ isOpen: false, result: null, isLoading: false, error: null })} onRefresh={lastComparisonRef.current ? () => handleCompare(lastComparisonRef.current!.textA, lastComparisonRef.current!.textB, { fresh: true }) : undefined} result={comparisonModalState.result} isLoading={comparisonModalState.isLoading} error={comparisonModalState.error} />
+            <HistoryBrowser isOpen={isHistoryOpen} onClose={() => setIsHistoryOpen(false)} onOpenRecord={handleOpenHistoryRecord} />
+            <CalibrationPanel isOpen={isCalibrationOpen} onClose={() => setIsCalibrationOpen(false)} />
+            <EvaluationPanel isOpen={isEvaluationOpen} onClose={() => setIsEvaluationOpen(false)} />
+            <SettingsPanel isOpen={isSettingsOpen} onClose={() => setIsSettingsOpen(false)} />
+            <ReportDialog isOpen={isReportOpen} totalCount={results.length} visibleCount={sortedResults.length} onClose={() => setIsReportOpen(false)} onGenerate={handleGenerateReport} />
              <style>{`
                 :root { --tooltip-bg: #ffffff; --tooltip-text: #111827; }
                 .dark { --tooltip-bg: #1f2937; --tooltip-text: #f9fafb; }
@@ -0,0 +1,88 @@
+import React, { useState } from 'react';
+import { BatchJob, JobItemStatus } from '../types';
+import { JobProgress } from '../services/jobQueue';
+import { BatchIcon } from './Icons';
+
+const MAX_LISTED_ITEMS = 200;
+
+const STATUS_STYLES: Record<JobItemStatus, { label: string; chip: string; bar: string }> = {
+    done: { label: 'Done', chip: 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200', bar: 'bg-success' },
+    fallback: { label: 'Offline', chip: 'bg-yellow-200 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-200', bar: 'bg-warning' },
+    failed: { label: 'Failed', chip: 'bg-red-200 text-red-800 dark:bg-red-800 dark:text-red-200', bar: 'bg-danger' },
+    running: { label: 'Running', chip: 'bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200', bar: 'bg-primary' },
+    pending: { label: 'Pending', chip: 'bg-gray-200 text-gray-800 dark:bg-gray-700 dark:text-gray-200', bar: 'bg-gray-light' },
+};
+
+const formatDuration = (ms: number) => {
+    const seconds = Math.ceil(ms / 1000);
+    if (seconds < 60) return `${seconds}s`;
+    const minutes = Math.floor(seconds / 60);
+    if (minutes < 60) return `${minutes}m ${seconds % 60}s`;
+    return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+};
+
+const buttonClassName = 'px-3 py-1.5 text-sm font-semibold rounded-lg border-2 border-gray-light dark:border-gray-dark hover:border-purple-600 transition-colors disabled:opacity-50';
+
+export const BatchJobPanel: React.FC<{
+    job: BatchJob;
+    progress: JobProgress;
+    onPause: () => void;
+    onResume: () => void;
+    onCancel: () => void;
+    onRetryFailed: () => void;
+    onDismiss: () => void;
+}> = ({ job, progress, onPause, onResume, onCancel, onRetryFailed, onDismiss }) => {
+    const [showItems, setShowItems] = useState(false);
+    const finished = progress.done + progress.fallback + progress.failed;
+    const percent = progress.total ? Math.round((finished / progress.total) * 100) : 0;
+    const isFinal = job.state === 'completed' || job.state === 'cancelled';
+
+    const stateLabel = {
+        running: progress.etaMs !== null ? `About ${formatDuration(progress.etaMs)} remaining` : 'Starting...',
+        paused: progress.running ? 'Pausing after the items in progress...' : 'Paused',
+        cancelled: `Cancelled. ${progress.pending} item(s) were not analyzed.`,
+        completed: progress.failed ? `Finished with ${progress.failed} failed item(s).` : 'Finished.',
+    }[job.state];
+
+    return (
+        <div className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-6 shadow-xl border border-gray-light dark:border-gray-dark animate-slide-up mb-8">
+            <div className="flex flex-wrap justify-between items-center gap-2 mb-4">
+                <h2 className="text-xl font-bold flex items-center gap-2"><BatchIcon className="w-6 h-6 text-purple-600" /> Batch Job {job.source.name && <span className="text-sm font-normal text-gray-500">· {job.source.name}</span>}</h2>
+                <div className="flex flex-wrap gap-2">
+                    {job.state === 'running' && <button onClick={onPause} className={buttonClassName}>Pause</button>}
+                    {job.state === 'paused' && <button onClick={onResume} className={buttonClassName}>Resume</button>}
+                    {!isFinal && <button onClick={onCancel} className={`${buttonClassName} text-danger`}>Cancel</button>}
+                    {job.state === 'completed' && progress.failed > 0 && <button onClick={onRetryFailed} className={buttonClassName}>Retry Failed</button>}
+                    {isFinal && <button onClick={onDismiss} className={buttonClassName}>Dismiss</button>}
+                </div>
+            </div>
+            <div className="w-full h-3 rounded-full bg-gray-light dark:bg-gray-dark overflow-hidden flex" role="progressbar" aria-valuenow={percent} aria-valuemin={0} aria-valuemax={100}>
+                {(['done', 'fallback', 'failed'] as JobItemStatus[]).map(status => (
+                    <div key={status} className={`${STATUS_STYLES[status].bar} h-full transition-all duration-500`} style={{ width: `${progress.total ? (progress[status] / progress.total) * 100 : 0}%` }} />
+                ))}
+            </div>
+            <div className="flex flex-wrap justify-between items-center gap-2 mt-3 text-sm">
+                <span className="font-semibold">{finished} / {progress.total} ({percent}%)</span>
+                <span className="text-gray-500">{stateLabel}</span>
+            </div>
+            <div className="flex flex-wrap gap-2 mt-3">
+                {(Object.keys(STATUS_STYLES) as JobItemStatus[]).filter(status => progress[status] > 0).map(status => (
+                    <span key={status} className={`chip ${STATUS_STYLES[status].chip}`}>{STATUS_STYLES[status].label}: {progress[status]}</span>
+                ))}
+                <button onClick={() => setShowItems(s => !s)} className="text-sm font-semibold text-purple-600 hover:text-purple-700 dark:text-purple-400 ml-auto">{showItems ? 'Hide items' : 'Show items'}</button>
+            </div>
+            {showItems && (
+                <div className="mt-4 max-h-64 overflow-y-auto pr-2 custom-scrollbar space-y-1 text-sm">
+                    {job.items.slice(0, MAX_LISTED_ITEMS).map((item, i) => (
+                        <div key={i} className="flex items-center gap-2 p-2 rounded-lg bg-light/50 dark:bg-gray-dark/40">
+                            <span className={`chip shrink-0 ${STATUS_STYLES[item.status].chip}`}>{STATUS_STYLES[item.status].label}</span>
+                            <span className="truncate flex-1" title={item.text}>{item.sourceRecord?.id ? `#${item.sourceRecord.id} · ` : ''}{item.text}</span>
+                            {item.error && <span className="text-xs text-danger truncate max-w-[40%]" title={item.error}>{item.error}</span>}
+                        </div>
+                    ))}
+                    {job.items.length > MAX_LISTED_ITEMS && <p className="text-xs text-gray-500 text-center pt-2">Showing the first {MAX_LISTED_ITEMS} of {job.items.length} items.</p>}
+                </div>
+            )}
+        </div>
+    );
+};
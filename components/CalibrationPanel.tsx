@@ -0,0 +1,203 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ComposedChart, Bar, Line, XAxis, YAxis, Tooltip, ResponsiveContainer, CartesianGrid } from 'recharts';
+import { LabelledExample, Sentiment } from '../types';
+import { listExamples, addExamples, updateExampleSentiment, deleteExample, parseLabelledLines, MAX_FEW_SHOT_EXAMPLES } from '../services/exampleStore';
+import { runCalibration, buildCalibrationReport, CalibrationPrediction } from '../services/calibration';
+import { ChartLineIcon } from './Icons';
+import { getSentimentColor, getSentimentIcon } from './sentimentStyles';
+
+const SENTIMENTS = [Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative];
+
+const inputClassName = 'p-2 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const SentimentSelect: React.FC<{ value: Sentiment; onChange: (sentiment: Sentiment) => void; label: string }> = ({ value, onChange, label }) => (
+    <select value={value} onChange={e => onChange(e.target.value as Sentiment)} aria-label={label} className={`${inputClassName} capitalize`}>
+        {SENTIMENTS.map(s => <option key={s} value={s}>{s}</option>)}
+    </select>
+);
+
+const ExamplesTab: React.FC<{ examples: LabelledExample[]; onChange: (examples: LabelledExample[]) => void }> = ({ examples, onChange }) => {
+    const [text, setText] = useState('');
+    const [sentiment, setSentiment] = useState<Sentiment>(Sentiment.Neutral);
+    const [bulkInput, setBulkInput] = useState('');
+    const [bulkMessage, setBulkMessage] = useState<string | null>(null);
+
+    const handleAdd = () => {
+        if (!text.trim()) return;
+        onChange(addExamples([{ text, sentiment }]));
+        setText('');
+    };
+
+    const handleBulkAdd = () => {
+        const { entries, invalidLines } = parseLabelledLines(bulkInput);
+        if (entries.length) onChange(addExamples(entries));
+        setBulkInput('');
+        setBulkMessage(invalidLines.length
+            ? `Added ${entries.length}. Skipped line${invalidLines.length === 1 ? '' : 's'} ${invalidLines.join(', ')}: each line must start with positive, neutral or negative.`
+            : `Added ${entries.length}.`);
+    };
+
+    return (
+        <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-4">
+            <p className="text-xs text-gray-500">Labelled examples teach the analyzer your team's conventions. Up to {MAX_FEW_SHOT_EXAMPLES} of them, balanced across labels, are included with every analysis.</p>
+            <div className="flex gap-2">
+                <input value={text} onChange={e => setText(e.target.value)} onKeyDown={e => { if (e.key === 'Enter') handleAdd(); }} placeholder="Example text" aria-label="Example text" className={`${inputClassName} flex-1`} />
+                <SentimentSelect value={sentiment} onChange={setSentiment} label="Example label" />
+                <button onClick={handleAdd} disabled={!text.trim()} className="bg-primary text-white px-4 rounded-lg text-sm font-semibold hover:bg-primary-dark transition-colors disabled:opacity-50">Add</button>
+            </div>
+            <details className="text-sm">
+                <summary className="cursor-pointer font-semibold text-purple-600">Paste many</summary>
+                <textarea value={bulkInput} onChange={e => setBulkInput(e.target.value)} placeholder={'neutral: The package arrived on Tuesday.\npositive: Setup took two minutes, brilliant.'} rows={5} className={`${inputClassName} w-full mt-2`} />
+                <button onClick={handleBulkAdd} disabled={!bulkInput.trim()} className="mt-2 bg-primary text-white px-4 py-1.5 rounded-lg text-sm font-semibold hover:bg-primary-dark transition-colors disabled:opacity-50">Add all</button>
+                {bulkMessage && <p className="text-xs text-gray-500 mt-2">{bulkMessage}</p>}
+            </details>
+            {!examples.length && <div className="text-center py-10 text-gray-500">No labelled examples yet.</div>}
+            {examples.map(example => (
+                <div key={example.id} className="flex items-center gap-2 p-2 rounded-lg border border-gray-light dark:border-gray-dark text-sm">
+                    <p className="flex-1 line-clamp-2">{example.text}</p>
+                    <SentimentSelect value={example.sentiment} onChange={s => onChange(updateExampleSentiment(example.id, s))} label="Example label" />
+                    <button onClick={() => onChange(deleteExample(example.id))} className="font-semibold text-danger hover:opacity-80 px-2">Delete</button>
+                </div>
+            ))}
+        </div>
+    );
+};
+
+export const ConfusionMatrix: React.FC<{ confusion: Record<Sentiment, Record<Sentiment, number>> }> = ({ confusion }) => (
+    <table className="text-sm text-center">
+        <thead className="text-xs text-gray-500">
+            <tr><th className="p-2 text-left">Team label ↓ / Predicted →</th>{SENTIMENTS.map(s => <th key={s} className="p-2 capitalize">{s}</th>)}</tr>
+        </thead>
+        <tbody>
+            {SENTIMENTS.map(expected => (
+                <tr key={expected} className="border-t border-gray-light dark:border-gray-dark">
+                    <td className={`p-2 text-left font-semibold capitalize ${getSentimentColor(expected).text}`}>{getSentimentIcon(expected)} {expected}</td>
+                    {SENTIMENTS.map(predicted => (
+                        <td key={predicted} className={`p-2 font-mono ${expected === predicted ? 'bg-success/10 font-bold' : confusion[expected][predicted] ? 'bg-danger/10' : ''}`}>{confusion[expected][predicted]}</td>
+                    ))}
+                </tr>
+            ))}
+        </tbody>
+    </table>
+);
+
+const ReportTab: React.FC<{ examples: LabelledExample[] }> = ({ examples }) => {
+    const [predictions, setPredictions] = useState<CalibrationPrediction[] | null>(null);
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleRun = async () => {
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        setProgress({ done: 0, total: examples.length });
+        try {
+            setPredictions(await runCalibration(examples, (done, total) => setProgress({ done, total }), controller.signal));
+        } catch (e) {
+            console.error("Calibration run failed", e);
+            setError("The calibration run failed. Please try again shortly.");
+        } finally {
+            setProgress(null);
+            abortRef.current = null;
+        }
+    };
+
+    const report = predictions && predictions.length ? buildCalibrationReport(predictions) : null;
+    const fallbackCount = predictions?.filter(p => p.usedFallback).length ?? 0;
+    const reliability = report?.bins.map(bin => ({
+        range: `${formatPercent(bin.from)}–${formatPercent(bin.to)}`,
+        accuracy: bin.count ? Math.round(bin.accuracy * 100) : null,
+        ideal: Math.round((bin.from + bin.to) * 50),
+        count: bin.count,
+    }));
+
+    return (
+        <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-6">
+            <div className="flex items-center gap-3">
+                {progress ? (
+                    <>
+                        <div className="flex-1 h-2 rounded-full bg-light dark:bg-gray-dark overflow-hidden"><div className="h-full bg-purple-600 transition-all" style={{ width: `${progress.total ? progress.done / progress.total * 100 : 0}%` }} /></div>
+                        <span className="text-sm text-gray-500">{progress.done} / {progress.total}</span>
+                        <button onClick={() => abortRef.current?.abort()} className="text-sm font-semibold text-danger hover:opacity-80">Stop</button>
+                    </>
+                ) : (
+                    <button onClick={handleRun} disabled={examples.length < 2} className="bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold px-6 py-2 rounded-xl hover:scale-105 transition-transform disabled:opacity-50">Run calibration</button>
+                )}
+                {!progress && <p className="text-xs text-gray-500">Analyzes each of the {examples.length} examples with the others as few-shot examples.</p>}
+            </div>
+            {error && <div className="p-3 text-sm text-danger bg-danger/10 rounded-lg">{error}</div>}
+            {fallbackCount > 0 && <div className="p-3 rounded-lg text-sm bg-yellow-100 text-yellow-800 dark:bg-yellow-900/50 dark:text-yellow-300">{fallbackCount} of {predictions!.length} examples were scored by the offline engine, so this report does not fully reflect the provider.</div>}
+            {report && reliability && (
+                <>
+                    <div className="flex flex-wrap gap-6 text-sm">
+                        <span><strong>Accuracy:</strong> {formatPercent(report.accuracy)} of {report.total}</span>
+                        <span><strong>Macro-F1:</strong> {formatPercent(report.macroF1)}</span>
+                        <span title="Expected calibration error: how far confidence is from actual accuracy, on average. Lower is better."><strong>Calibration error:</strong> {(report.ece * 100).toFixed(1)} pts</span>
+                    </div>
+                    <div className="grid md:grid-cols-2 gap-6">
+                        <div>
+                            <h4 className="font-semibold mb-2">Confusion matrix</h4>
+                            <ConfusionMatrix confusion={report.confusion} />
+                        </div>
+                        <div>
+                            <h4 className="font-semibold mb-2">Per label</h4>
+                            <table className="w-full text-sm">
+                                <thead className="text-xs text-gray-500"><tr><th className="p-2 text-left">Label</th><th className="p-2 text-right">Precision</th><th className="p-2 text-right">Recall</th><th className="p-2 text-right">F1</th><th className="p-2 text-right">n</th></tr></thead>
+                                <tbody>
+                                    {report.classes.map(c => (
+                                        <tr key={c.sentiment} className="border-t border-gray-light dark:border-gray-dark">
+                                            <td className="p-2 capitalize">{c.sentiment}</td>
+                                            <td className="p-2 text-right font-mono">{formatPercent(c.precision)}</td>
+                                            <td className="p-2 text-right font-mono">{formatPercent(c.recall)}</td>
+                                            <td className="p-2 text-right font-mono">{formatPercent(c.f1)}</td>
+                                            <td className="p-2 text-right font-mono">{c.support}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                    <div>
+                        <h4 className="font-semibold mb-1">Reliability diagram</h4>
+                        <p className="text-xs text-gray-500 mb-2">Bars show how often predictions in each confidence range were right; the line is where a perfectly calibrated analyzer would be.</p>
+                        <div className="h-64"><ResponsiveContainer width="100%" height="100%"><ComposedChart data={reliability}><CartesianGrid stroke="currentColor" opacity={0.15} /><XAxis dataKey="range" tick={{ fill: 'currentColor', fontSize: 10 }} /><YAxis domain={[0, 100]} tickFormatter={(t) => `${t}%`} tick={{ fill: 'currentColor' }} width={45} /><Tooltip contentStyle={{ backgroundColor: 'var(--tooltip-bg)', color: 'var(--tooltip-text)', borderRadius: '0.5rem' }} /><Bar dataKey="accuracy" name="Accuracy (%)" fill="#8b5cf6" radius={[4, 4, 0, 0]} /><Line dataKey="ideal" name="Perfect calibration (%)" stroke="currentColor" strokeDasharray="4 4" dot={false} /></ComposedChart></ResponsiveContainer></div>
+                    </div>
+                </>
+            )}
+        </div>
+    );
+};
+
+export const CalibrationPanel: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const [tab, setTab] = useState<'examples' | 'report'>('examples');
+    const [examples, setExamples] = useState<LabelledExample[]>([]);
+
+    useEffect(() => {
+        if (isOpen) setExamples(listExamples());
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-darker rounded-2xl shadow-2xl p-8 w-full max-w-4xl max-h-[90vh] flex flex-col animate-scale-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-4 pb-4 border-b border-gray-light dark:border-gray-dark"><h2 className="text-2xl font-bold flex items-center gap-2"><ChartLineIcon className="w-7 h-7 text-purple-600" /> Calibration</h2><button onClick={onClose} className="text-3xl text-gray-500 hover:text-dark dark:hover:text-light transition-colors">&times;</button></div>
+                <div className="flex border-b border-gray-light dark:border-gray-dark mb-4">
+                    {(['examples', 'report'] as const).map(id => (
+                        <button key={id} onClick={() => setTab(id)} className={`px-4 py-2 font-semibold text-sm capitalize ${tab === id ? 'border-b-2 border-purple-600 text-purple-600' : 'text-gray-500 hover:text-dark dark:hover:text-light'}`}>
+                            {id === 'examples' ? `Labelled examples (${examples.length})` : 'Report'}
+                        </button>
+                    ))}
+                </div>
+                {tab === 'examples' && <ExamplesTab examples={examples} onChange={setExamples} />}
+                {/* Kept mounted so a run in progress survives switching to the examples tab. */}
+                <div className={tab === 'report' ? 'flex-1 flex flex-col min-h-0' : 'hidden'}><ReportTab examples={examples} /></div>
+            </div>
+        </div>
+    );
+};
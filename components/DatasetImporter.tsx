@@ -0,0 +1,107 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AnalysisItem, ColumnMapping } from '../types';
+import { parseDatasetFile, guessColumnMapping, toAnalysisItems, ParsedDataset, DatasetParseError } from '../services/datasetParser';
+import { SearchIcon } from './Icons';
+
+const PREVIEW_ROWS = 5;
+
+const MAPPING_FIELDS: { key: keyof ColumnMapping; label: string; required?: boolean }[] = [
+    { key: 'text', label: 'Text column', required: true },
+    { key: 'id', label: 'ID column' },
+    { key: 'date', label: 'Date column' },
+    { key: 'author', label: 'Author column' },
+];
+
+const selectClassName = 'w-full p-2 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary';
+
+export const DatasetImporter: React.FC<{
+    file: File;
+    isLoading: boolean;
+    onAnalyze: (items: AnalysisItem[]) => void;
+}> = ({ file, isLoading, onAnalyze }) => {
+    const [dataset, setDataset] = useState<ParsedDataset | null>(null);
+    const [mapping, setMapping] = useState<ColumnMapping | null>(null);
+    const [progress, setProgress] = useState(0);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        setDataset(null);
+        setMapping(null);
+        setError(null);
+        setProgress(0);
+        parseDatasetFile(file, fraction => { if (!cancelled) setProgress(fraction); })
+            .then(parsed => {
+                if (cancelled) return;
+                setDataset(parsed);
+                setMapping(guessColumnMapping(parsed));
+            })
+            .catch(e => {
+                if (cancelled) return;
+                console.error("Could not parse dataset", e);
+                setError(e instanceof DatasetParseError ? e.message : "The file could not be read.");
+            });
+        return () => { cancelled = true; };
+    }, [file]);
+
+    const items = useMemo(() => dataset && mapping ? toAnalysisItems(dataset, mapping) : [], [dataset, mapping]);
+
+    if (error) return <div className="mt-4 p-4 text-sm text-danger bg-danger/10 rounded-lg">{error}</div>;
+    if (!dataset || !mapping) {
+        return (
+            <div className="mt-4 flex items-center gap-3 text-sm text-gray-500">
+                <div className="w-5 h-5 border-2 border-purple-600 border-t-transparent rounded-full animate-spin"></div>
+                Reading {file.name}... {Math.round(progress * 100)}%
+            </div>
+        );
+    }
+
+    const mappedColumns = new Set(Object.values(mapping).filter(Boolean));
+    const skipped = dataset.rows.length - items.length;
+
+    return (
+        <div className="mt-4 space-y-4 animate-fade-in">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                {MAPPING_FIELDS.map(({ key, label, required }) => (
+                    <label key={key} className="text-xs text-gray-500 flex flex-col gap-1">
+                        {label}
+                        <select
+                            value={mapping[key] ?? ''}
+                            onChange={e => setMapping({ ...mapping, [key]: e.target.value || undefined } as ColumnMapping)}
+                            className={selectClassName}
+                        >
+                            {!required && <option value="">None</option>}
+                            {dataset.columns.map(column => <option key={column} value={column}>{column}</option>)}
+                        </select>
+                    </label>
+                ))}
+            </div>
+            <div className="overflow-x-auto custom-scrollbar border border-gray-light dark:border-gray-dark rounded-lg">
+                <table className="w-full text-xs text-left">
+                    <thead className="bg-light dark:bg-gray-dark">
+                        <tr>{dataset.columns.map(column => (
+                            <th key={column} className={`p-2 font-semibold whitespace-nowrap ${mappedColumns.has(column) ? 'text-purple-600' : ''}`}>{column}</th>
+                        ))}</tr>
+                    </thead>
+                    <tbody>
+                        {dataset.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+                            <tr key={i} className="border-t border-gray-light dark:border-gray-dark">
+                                {dataset.columns.map(column => (
+                                    <td key={column} className={`p-2 align-top max-w-xs truncate ${column === mapping.text ? 'bg-purple-50 dark:bg-purple-900/20' : ''}`} title={row[column]}>{row[column]}</td>
+                                ))}
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </div>
+            <p className="text-xs text-gray-500">
+                {dataset.rows.length} row{dataset.rows.length === 1 ? '' : 's'} found
+                {dataset.rows.length > PREVIEW_ROWS && `, showing the first ${PREVIEW_ROWS}`}.
+                {skipped > 0 && ` ${skipped} row${skipped === 1 ? ' has' : 's have'} an empty text column and will be skipped.`}
+            </p>
+            <button onClick={() => onAnalyze(items)} disabled={isLoading || items.length === 0} className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold py-3 rounded-xl hover:scale-105 transition-transform disabled:opacity-50 flex items-center justify-center gap-2">
+                {isLoading ? <div className="w-5 h-5 border-2 border-white border-t-transparent rounded-full animate-spin"></div> : <SearchIcon className="w-5 h-5" />} Analyze {items.length} Row{items.length === 1 ? '' : 's'}
+            </button>
+        </div>
+    );
+};
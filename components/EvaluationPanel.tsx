@@ -0,0 +1,274 @@
+import React, { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { EvaluationRun, EvaluationItem, Sentiment } from '../types';
+import { listProviders } from '../services/analysisService';
+import { parseDatasetFile, guessColumnMapping, ParsedDataset, DatasetParseError } from '../services/datasetParser';
+import {
+    guessLabelColumn, toEvaluationItems, createEvaluationConfig, createEvaluationRun, runEvaluation, summarizeEvaluation,
+    saveEvaluationRun, deleteEvaluationRun, listEvaluationRuns, EvaluationSummary
+} from '../services/evaluation';
+import { describeGenerationConfig } from '../services/generationSettings';
+import { ConfusionMatrix } from './CalibrationPanel';
+import { ChartLineIcon, UploadIcon } from './Icons';
+
+const inputClassName = 'w-full p-2 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary';
+
+const formatPercent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const describeConfig = (run: EvaluationRun) => [
+    run.config.providerName,
+    run.config.generation && describeGenerationConfig(run.config.generation),
+    run.config.useExamples && 'few-shot',
+].filter(Boolean).join(' · ');
+
+const NewRunForm: React.FC<{ onSaved: (run: EvaluationRun) => void }> = ({ onSaved }) => {
+    const [file, setFile] = useState<File | null>(null);
+    const [dataset, setDataset] = useState<ParsedDataset | null>(null);
+    const [textColumn, setTextColumn] = useState('');
+    const [labelColumn, setLabelColumn] = useState('');
+    const [providerId, setProviderId] = useState(() => listProviders()[0]?.id ?? '');
+    const [useExamples, setUseExamples] = useState(false);
+    const [name, setName] = useState('');
+    const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    useEffect(() => () => abortRef.current?.abort(), []);
+
+    const handleFileChange = async (selected: File | undefined) => {
+        if (!selected) return;
+        setFile(selected);
+        setDataset(null);
+        setError(null);
+        try {
+            const parsed = await parseDatasetFile(selected);
+            setDataset(parsed);
+            setTextColumn(guessColumnMapping(parsed).text);
+            setLabelColumn(guessLabelColumn(parsed) ?? parsed.columns.find(c => c !== guessColumnMapping(parsed).text) ?? parsed.columns[0]);
+        } catch (e) {
+            console.error("Could not parse evaluation dataset", e);
+            setError(e instanceof DatasetParseError ? e.message : "The file could not be read.");
+        }
+    };
+
+    const { items, skipped } = useMemo(
+        () => dataset && textColumn && labelColumn ? toEvaluationItems(dataset, textColumn, labelColumn) : { items: [], skipped: 0 },
+        [dataset, textColumn, labelColumn],
+    );
+
+    const handleRun = async () => {
+        if (!file || !items.length) return;
+        const config = createEvaluationConfig(providerId, useExamples);
+        const run = createEvaluationRun(name.trim() || `${config.providerName} on ${file.name}`, file.name, config, items);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setError(null);
+        setProgress({ done: 0, total: items.length });
+        try {
+            const finished = await runEvaluation(run, (done, total) => setProgress({ done, total }), controller.signal);
+            await saveEvaluationRun(finished);
+            onSaved(finished);
+            setName('');
+        } catch (e) {
+            console.error("Evaluation run failed", e);
+            setError("The run could not be saved. Your browser may be blocking local storage.");
+        } finally {
+            setProgress(null);
+            abortRef.current = null;
+        }
+    };
+
+    return (
+        <div className="p-4 rounded-xl border border-gray-light dark:border-gray-dark space-y-3">
+            <h3 className="font-semibold">New run</h3>
+            <label className="flex items-center gap-2 text-sm cursor-pointer text-purple-600 font-semibold">
+                <UploadIcon className="w-4 h-4" /> {file ? file.name : 'Choose a labelled dataset (.csv, .tsv, .jsonl, .json)'}
+                <input type="file" accept=".csv,.tsv,.jsonl,.ndjson,.json" className="hidden" onChange={e => handleFileChange(e.target.files?.[0])} />
+            </label>
+            {dataset && (
+                <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+                    <label className="text-xs text-gray-500 flex flex-col gap-1">Text column
+                        <select value={textColumn} onChange={e => setTextColumn(e.target.value)} className={inputClassName}>{dataset.columns.map(c => <option key={c} value={c}>{c}</option>)}</select>
+                    </label>
+                    <label className="text-xs text-gray-500 flex flex-col gap-1">Gold label column
+                        <select value={labelColumn} onChange={e => setLabelColumn(e.target.value)} className={inputClassName}>{dataset.columns.map(c => <option key={c} value={c}>{c}</option>)}</select>
+                    </label>
+                    <label className="text-xs text-gray-500 flex flex-col gap-1">Provider
+                        <select value={providerId} onChange={e => setProviderId(e.target.value)} className={inputClassName}>{listProviders().map(p => <option key={p.id} value={p.id}>{p.name}</option>)}</select>
+                    </label>
+                    <label className="text-xs text-gray-500 flex flex-col gap-1">Run name
+                        <input value={name} onChange={e => setName(e.target.value)} placeholder="Optional" className={inputClassName} />
+                    </label>
+                    <label className="col-span-2 md:col-span-4 flex items-center gap-2 text-xs font-semibold text-gray-500 cursor-pointer">
+                        <input type="checkbox" checked={useExamples} onChange={e => setUseExamples(e.target.checked)} className="accent-purple-600" /> Include the team's labelled examples as few-shot examples
+                    </label>
+                </div>
+            )}
+            {dataset && (
+                <p className="text-xs text-gray-500">
+                    {items.length} labelled row{items.length === 1 ? '' : 's'}.
+                    {skipped > 0 && ` ${skipped} row${skipped === 1 ? ' has' : 's have'} no text or a label other than positive, neutral or negative (or 1/0 for binary labels, 1/0/-1 for three-way ones) and will be skipped.`}
+                </p>
+            )}
+            {error && <div className="p-3 text-sm text-danger bg-danger/10 rounded-lg">{error}</div>}
+            {progress ? (
+                <div className="flex items-center gap-3">
+                    <div className="flex-1 h-2 rounded-full bg-light dark:bg-gray-dark overflow-hidden"><div className="h-full bg-purple-600 transition-all" style={{ width: `${progress.total ? progress.done / progress.total * 100 : 0}%` }} /></div>
+                    <span className="text-sm text-gray-500">{progress.done} / {progress.total}</span>
+                    <button onClick={() => abortRef.current?.abort()} className="text-sm font-semibold text-danger hover:opacity-80" title="Stop and save the rows scored so far">Stop</button>
+                </div>
+            ) : (
+                <button onClick={handleRun} disabled={!items.length || !providerId} className="w-full bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold py-2 rounded-xl hover:scale-105 transition-transform disabled:opacity-50">Evaluate {items.length || ''} Row{items.length === 1 ? '' : 's'}</button>
+            )}
+        </div>
+    );
+};
+
+const METRICS: { label: string; value: (s: EvaluationSummary) => number; format: (n: number) => string; lowerIsBetter?: boolean }[] = [
+    { label: 'Accuracy', value: s => s.accuracy, format: formatPercent },
+    { label: 'Macro-F1', value: s => s.macroF1, format: formatPercent },
+    { label: 'Calibration error', value: s => s.ece, format: n => `${(n * 100).toFixed(1)} pts`, lowerIsBetter: true },
+    ...[Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative].map(sentiment => ({
+        label: `F1 ${sentiment}`,
+        value: (s: EvaluationSummary) => s.classes.find(c => c.sentiment === sentiment)?.f1 ?? 0,
+        format: formatPercent,
+    })),
+    { label: 'Scored rows', value: s => s.total, format: String },
+    { label: 'Errors', value: s => s.errors, format: String, lowerIsBetter: true },
+];
+
+// Shows one run, or two runs side by side with the change from the first to the second.
+const RunComparison: React.FC<{ runs: EvaluationRun[] }> = ({ runs }) => {
+    const summaries = useMemo(() => runs.map(summarizeEvaluation), [runs]);
+    // Texts both runs scored but labelled differently, which is where to look when a change helps or hurts.
+    const disagreements = useMemo(() => {
+        if (runs.length !== 2) return [];
+        const second = new Map<string, EvaluationItem>(runs[1].items.map(item => [item.text, item]));
+        return runs[0].items.flatMap(item => {
+            const other = second.get(item.text);
+            return other && item.predicted && other.predicted && item.predicted !== other.predicted ? [{ item, other }] : [];
+        });
+    }, [runs]);
+
+    return (
+        <div className="space-y-6">
+            <table className="w-full text-sm">
+                <thead className="text-xs text-gray-500">
+                    <tr>
+                        <th className="p-2 text-left">Metric</th>
+                        {runs.map(run => <th key={run.id} className="p-2 text-right" title={describeConfig(run)}>{run.name}</th>)}
+                        {runs.length === 2 && <th className="p-2 text-right">Change</th>}
+                    </tr>
+                </thead>
+                <tbody>
+                    {METRICS.map(metric => {
+                        const values = summaries.map(metric.value);
+                        const delta = values.length === 2 ? values[1] - values[0] : 0;
+                        const better = metric.lowerIsBetter ? delta < 0 : delta > 0;
+                        return (
+                            <tr key={metric.label} className="border-t border-gray-light dark:border-gray-dark">
+                                <td className="p-2 capitalize">{metric.label}</td>
+                                {values.map((value, i) => <td key={runs[i].id} className="p-2 text-right font-mono">{metric.format(value)}</td>)}
+                                {runs.length === 2 && (
+                                    <td className={`p-2 text-right font-mono ${delta === 0 ? 'text-gray-500' : better ? 'text-success' : 'text-danger'}`}>
+                                        {delta > 0 ? '+' : delta < 0 ? '−' : ''}{metric.format(Math.abs(delta))}
+                                    </td>
+                                )}
+                            </tr>
+                        );
+                    })}
+                </tbody>
+            </table>
+            <div className={`grid gap-6 ${runs.length === 2 ? 'md:grid-cols-2' : ''}`}>
+                {runs.map((run, i) => (
+                    <div key={run.id}>
+                        <h4 className="font-semibold mb-1">{run.name}</h4>
+                        <p className="text-xs text-gray-500 mb-2">{describeConfig(run)}{!run.complete && ` · stopped after ${run.items.length - summaries[i].unscored} of ${run.items.length} rows`}</p>
+                        <ConfusionMatrix confusion={summaries[i].confusion} />
+                    </div>
+                ))}
+            </div>
+            {disagreements.length > 0 && (
+                <div>
+                    <h4 className="font-semibold mb-2">Rows the runs disagree on ({disagreements.length})</h4>
+                    <div className="space-y-1 text-sm max-h-64 overflow-y-auto custom-scrollbar">
+                        {disagreements.slice(0, 50).map(({ item, other }) => (
+                            <div key={item.text} className="flex gap-3 p-2 rounded-lg bg-light/50 dark:bg-gray-dark/40">
+                                <p className="flex-1 line-clamp-2">{item.text}</p>
+                                <span className="text-xs whitespace-nowrap">gold <strong>{item.expected}</strong> · {item.predicted} → {other.predicted}</span>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+};
+
+export const EvaluationPanel: React.FC<{ isOpen: boolean; onClose: () => void }> = ({ isOpen, onClose }) => {
+    const [runs, setRuns] = useState<EvaluationRun[]>([]);
+    const [selectedIds, setSelectedIds] = useState<string[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        try {
+            setRuns(await listEvaluationRuns());
+            setError(null);
+        } catch (e) {
+            console.error("Could not load evaluation runs", e);
+            setError("Saved runs could not be loaded. Your browser may be blocking local storage.");
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) refresh();
+    }, [isOpen, refresh]);
+
+    // Selecting a third run replaces the older of the two already selected.
+    const toggleSelected = (id: string) =>
+        setSelectedIds(ids => ids.includes(id) ? ids.filter(i => i !== id) : [...ids, id].slice(-2));
+
+    const handleDelete = async (id: string) => {
+        await deleteEvaluationRun(id);
+        setRuns(rs => rs.filter(r => r.id !== id));
+        setSelectedIds(ids => ids.filter(i => i !== id));
+    };
+
+    if (!isOpen) return null;
+
+    // Compared oldest first, so the change column reads as "before → after".
+    const selected = runs.filter(r => selectedIds.includes(r.id)).sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-darker rounded-2xl shadow-2xl p-8 w-full max-w-5xl max-h-[90vh] flex flex-col animate-scale-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-light dark:border-gray-dark"><h2 className="text-2xl font-bold flex items-center gap-2"><ChartLineIcon className="w-7 h-7 text-purple-600" /> Evaluation</h2><button onClick={onClose} className="text-3xl text-gray-500 hover:text-dark dark:hover:text-light transition-colors">&times;</button></div>
+                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-6">
+                    <NewRunForm onSaved={(run) => { setRuns(rs => [run, ...rs]); setSelectedIds(ids => [...ids, run.id].slice(-2)); }} />
+                    {error && <div className="p-3 text-sm text-danger bg-danger/10 rounded-lg">{error}</div>}
+                    {runs.length > 0 && (
+                        <div>
+                            <h3 className="font-semibold mb-2">Saved runs <span className="text-xs font-normal text-gray-500">— select two to compare</span></h3>
+                            <div className="space-y-2">
+                                {runs.map(run => {
+                                    const summary = summarizeEvaluation(run);
+                                    return (
+                                        <label key={run.id} className={`flex items-center gap-3 p-3 rounded-lg border text-sm cursor-pointer ${selectedIds.includes(run.id) ? 'border-purple-600' : 'border-gray-light dark:border-gray-dark'}`}>
+                                            <input type="checkbox" checked={selectedIds.includes(run.id)} onChange={() => toggleSelected(run.id)} className="accent-purple-600" />
+                                            <div className="flex-1">
+                                                <div className="font-semibold">{run.name}</div>
+                                                <div className="text-xs text-gray-500">{run.datasetName} · {describeConfig(run)} · {new Date(run.createdAt).toLocaleString()}</div>
+                                            </div>
+                                            <span className="font-mono text-xs">acc {formatPercent(summary.accuracy)} · F1 {formatPercent(summary.macroF1)}</span>
+                                            <button onClick={(e) => { e.preventDefault(); handleDelete(run.id); }} className="font-semibold text-danger hover:opacity-80">Delete</button>
+                                        </label>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+                    {selected.length > 0 && <RunComparison runs={selected} />}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,159 @@
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import { AnalysisKind, HistoryRecord, Sentiment } from '../types';
+import { listHistory, filterHistory, deleteHistoryRecord, updateHistoryTags, getRecordSentiments, getRecordText, getRecordLanguage, HistoryQuery } from '../services/historyStore';
+import { getLanguageName } from '../services/languageDetection';
+import { HistoryIcon, SearchIcon } from './Icons';
+import { getSentimentColor, getSentimentIcon } from './sentimentStyles';
+
+const KIND_LABELS: Record<AnalysisKind, string> = {
+    sentiment: 'Sentiment',
+    advanced: 'Deeper Analysis',
+    comparison: 'Comparison',
+};
+
+const inputClassName = 'p-2 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary';
+
+const HistoryRow: React.FC<{
+    record: HistoryRecord;
+    onOpen: () => void;
+    onDelete: () => void;
+    onTagsChange: (tags: string[]) => void;
+}> = ({ record, onOpen, onDelete, onTagsChange }) => {
+    const [tagDraft, setTagDraft] = useState('');
+
+    const addTag = () => {
+        const tag = tagDraft.trim();
+        if (tag && !record.tags.includes(tag)) onTagsChange([...record.tags, tag]);
+        setTagDraft('');
+    };
+
+    return (
+        <div className="p-4 rounded-xl border border-gray-light dark:border-gray-dark bg-light/50 dark:bg-gray-dark/40 animate-fade-in">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-2 text-xs text-gray-500">
+                <div className="flex flex-wrap items-center gap-2">
+                    <span className="chip bg-purple-200 text-purple-800 dark:bg-purple-800 dark:text-purple-200">{KIND_LABELS[record.kind]}</span>
+                    {getRecordSentiments(record).map((sentiment, i) => (
+                        <span key={i} className={`chip ${getSentimentColor(sentiment).bg} ${getSentimentColor(sentiment).text}`}>{getSentimentIcon(sentiment)} {sentiment}</span>
+                    ))}
+                    <span>{new Date(record.createdAt).toLocaleString()}</span>
+                    <span>· {record.provider}</span>
+                    <span>· {record.source.name ?? record.source.type}</span>
+                </div>
+                <div className="flex gap-2">
+                    <button onClick={onOpen} className="text-sm font-semibold text-purple-600 hover:text-purple-700 dark:text-purple-400">Open</button>
+                    <button onClick={onDelete} className="text-sm font-semibold text-danger hover:opacity-80">Delete</button>
+                </div>
+            </div>
+            <p className="text-sm line-clamp-2 mb-2">{getRecordText(record)}</p>
+            <div className="flex flex-wrap items-center gap-2">
+                {record.tags.map(tag => (
+                    <span key={tag} className="chip bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200 flex items-center gap-1">
+                        {tag}
+                        <button onClick={() => onTagsChange(record.tags.filter(t => t !== tag))} aria-label={`Remove tag ${tag}`} className="opacity-70 hover:opacity-100">&times;</button>
+                    </span>
+                ))}
+                <input
+                    value={tagDraft}
+                    onChange={e => setTagDraft(e.target.value)}
+                    onKeyDown={e => { if (e.key === 'Enter') addTag(); }}
+                    onBlur={addTag}
+                    placeholder="+ tag"
+                    className="w-24 px-2 py-1 text-xs bg-transparent border-b border-gray-light dark:border-gray-dark focus:outline-none"
+                />
+            </div>
+        </div>
+    );
+};
+
+export const HistoryBrowser: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+    onOpenRecord: (record: HistoryRecord) => void;
+}> = ({ isOpen, onClose, onOpenRecord }) => {
+    const [records, setRecords] = useState<HistoryRecord[]>([]);
+    const [query, setQuery] = useState<HistoryQuery>({});
+    const [isLoading, setIsLoading] = useState(false);
+    const [error, setError] = useState<string | null>(null);
+
+    const refresh = useCallback(async () => {
+        setIsLoading(true);
+        try {
+            setRecords(await listHistory());
+            setError(null);
+        } catch (e) {
+            console.error("Could not load analysis history", e);
+            setError("Your saved history could not be loaded. Your browser may be blocking local storage.");
+        } finally {
+            setIsLoading(false);
+        }
+    }, []);
+
+    useEffect(() => {
+        if (isOpen) refresh();
+    }, [isOpen, refresh]);
+
+    const providers = useMemo(() => Array.from(new Set(records.map(r => r.provider))).sort(), [records]);
+    const languages = useMemo(() => Array.from(new Set(records.flatMap(r => getRecordLanguage(r) ?? []))).sort(), [records]);
+    const visible = useMemo(() => filterHistory(records, query), [records, query]);
+
+    const updateQuery = (patch: Partial<HistoryQuery>) => setQuery(q => ({ ...q, ...patch }));
+
+    const handleDelete = async (id: string) => {
+        await deleteHistoryRecord(id);
+        setRecords(rs => rs.filter(r => r.id !== id));
+    };
+
+    const handleTagsChange = async (id: string, tags: string[]) => {
+        await updateHistoryTags(id, tags);
+        setRecords(rs => rs.map(r => r.id === id ? { ...r, tags } : r));
+    };
+
+    if (!isOpen) return null;
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-darker rounded-2xl shadow-2xl p-8 w-full max-w-4xl max-h-[90vh] flex flex-col animate-scale-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-light dark:border-gray-dark"><h2 className="text-2xl font-bold flex items-center gap-2"><HistoryIcon className="w-7 h-7 text-purple-600" /> Saved History</h2><button onClick={onClose} className="text-3xl text-gray-500 hover:text-dark dark:hover:text-light transition-colors">&times;</button></div>
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-4">
+                    <div className="md:col-span-3 relative">
+                        <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+                        <input value={query.search ?? ''} onChange={e => updateQuery({ search: e.target.value })} placeholder="Search text, keywords, tags..." className={`${inputClassName} w-full pl-9`} />
+                    </div>
+                    <select value={query.kind ?? ''} onChange={e => updateQuery({ kind: (e.target.value || undefined) as AnalysisKind | undefined })} className={inputClassName}>
+                        <option value="">All analysis types</option>
+                        {Object.entries(KIND_LABELS).map(([kind, label]) => <option key={kind} value={kind}>{label}</option>)}
+                    </select>
+                    <select value={query.sentiment ?? ''} onChange={e => updateQuery({ sentiment: (e.target.value || undefined) as Sentiment | undefined })} className={inputClassName}>
+                        <option value="">All sentiments</option>
+                        {Object.values(Sentiment).map(s => <option key={s} value={s} className="capitalize">{s}</option>)}
+                    </select>
+                    <select value={query.provider ?? ''} onChange={e => updateQuery({ provider: e.target.value || undefined })} className={inputClassName}>
+                        <option value="">All providers</option>
+                        {providers.map(p => <option key={p} value={p}>{p}</option>)}
+                    </select>
+                    <select value={query.language ?? ''} onChange={e => updateQuery({ language: e.target.value || undefined })} className={inputClassName}>
+                        <option value="">All languages</option>
+                        {languages.map(code => <option key={code} value={code}>{getLanguageName(code)}</option>)}
+                    </select>
+                    <label className="text-xs text-gray-500 flex flex-col gap-1">From<input type="date" value={query.from ?? ''} onChange={e => updateQuery({ from: e.target.value || undefined })} className={inputClassName} /></label>
+                    <label className="text-xs text-gray-500 flex flex-col gap-1">To<input type="date" value={query.to ?? ''} onChange={e => updateQuery({ to: e.target.value || undefined })} className={inputClassName} /></label>
+                    <div className="flex items-end justify-end text-sm text-gray-500">{visible.length} of {records.length} saved</div>
+                </div>
+                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-3">
+                    {isLoading && <div className="flex justify-center p-10"><div className="w-10 h-10 border-4 border-purple-600 border-t-transparent rounded-full animate-spin"></div></div>}
+                    {error && <div className="text-center p-10 text-danger bg-danger/10 rounded-lg">{error}</div>}
+                    {!isLoading && !error && visible.length === 0 && <div className="text-center py-16 text-gray-500">{records.length ? 'No saved analyses match these filters.' : 'Analyses you run are saved here automatically.'}</div>}
+                    {!isLoading && visible.map(record => (
+                        <HistoryRow
+                            key={record.id}
+                            record={record}
+                            onOpen={() => onOpenRecord(record)}
+                            onDelete={() => handleDelete(record.id)}
+                            onTagsChange={(tags) => handleTagsChange(record.id, tags)}
+                        />
+                    ))}
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,70 @@
+import React, { useState, useEffect } from 'react';
+import { REPORT_SECTIONS, ReportSection, ReportOptions, getReportSections, setReportSections } from '../services/pdfReport';
+import { PdfIcon } from './Icons';
+
+const inputClassName = 'w-full p-2 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary';
+
+const DEFAULT_TITLE = 'Sentiment Analysis Report';
+
+// Picks the sections of the PDF report. When a filter is active, `visibleCount` offers a report of just the results shown.
+export const ReportDialog: React.FC<{
+    isOpen: boolean;
+    totalCount: number;
+    visibleCount: number;
+    onClose: () => void;
+    onGenerate: (options: ReportOptions, onlyVisible: boolean) => void;
+}> = ({ isOpen, totalCount, visibleCount, onClose, onGenerate }) => {
+    const [title, setTitle] = useState(DEFAULT_TITLE);
+    const [sections, setSections] = useState<ReportSection[]>([]);
+    const [onlyVisible, setOnlyVisible] = useState(false);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setSections(getReportSections());
+        setOnlyVisible(visibleCount < totalCount);
+    }, [isOpen, visibleCount, totalCount]);
+
+    if (!isOpen) return null;
+
+    const toggle = (id: ReportSection) => setSections(prev => prev.includes(id) ? prev.filter(s => s !== id) : [...prev, id]);
+
+    const handleGenerate = () => {
+        setReportSections(sections);
+        onGenerate({ title: title.trim() || DEFAULT_TITLE, sections }, onlyVisible);
+    };
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-darker rounded-2xl shadow-2xl p-8 w-full max-w-lg max-h-[90vh] flex flex-col animate-scale-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-light dark:border-gray-dark"><h2 className="text-2xl font-bold flex items-center gap-2"><PdfIcon className="w-7 h-7 text-purple-600" /> PDF Report</h2><button onClick={onClose} className="text-3xl text-gray-500 hover:text-dark dark:hover:text-light transition-colors">&times;</button></div>
+                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-4">
+                    <label className="text-xs text-gray-500 flex flex-col gap-1">
+                        Title
+                        <input value={title} onChange={e => setTitle(e.target.value)} className={inputClassName} />
+                    </label>
+                    <div className="space-y-2">
+                        {REPORT_SECTIONS.map(s => (
+                            <label key={s.id} className="flex items-start gap-3 p-3 rounded-xl border border-gray-light dark:border-gray-dark bg-light/50 dark:bg-gray-dark/40 cursor-pointer">
+                                <input type="checkbox" checked={sections.includes(s.id)} onChange={() => toggle(s.id)} className="mt-1" />
+                                <span>
+                                    <span className="block font-semibold text-sm">{s.label}</span>
+                                    <span className="block text-xs text-gray-500">{s.description}</span>
+                                </span>
+                            </label>
+                        ))}
+                    </div>
+                    {visibleCount < totalCount && (
+                        <label className="flex items-center gap-2 text-sm">
+                            <input type="checkbox" checked={onlyVisible} onChange={e => setOnlyVisible(e.target.checked)} />
+                            Only the {visibleCount} results matching the current filters (of {totalCount})
+                        </label>
+                    )}
+                </div>
+                <div className="flex justify-end gap-3 mt-6 pt-4 border-t border-gray-light dark:border-gray-dark">
+                    <button onClick={onClose} className="text-sm font-semibold text-gray-500 hover:text-dark dark:hover:text-light px-4">Cancel</button>
+                    <button onClick={handleGenerate} disabled={!sections.length || (onlyVisible && !visibleCount)} className="bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold px-6 py-2 rounded-xl hover:scale-105 transition-transform disabled:opacity-40 disabled:hover:scale-100">Generate PDF</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,97 @@
+import React from 'react';
+import { Sentiment } from '../types';
+import { ResultQuery, ResultSort, ResultFacets, FacetCount, ReviewState, RESULT_SORTS, isQueryActive } from '../services/resultQuery';
+import { getLanguageName } from '../services/languageDetection';
+import { SearchIcon } from './Icons';
+import { getSentimentColor } from './sentimentStyles';
+
+const inputClassName = 'p-2 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary';
+
+const toggle = <T,>(values: T[] | undefined, value: T) =>
+    values?.includes(value) ? values.filter(v => v !== value) : [...(values ?? []), value];
+
+// A facet that every result shares isn't worth offering as a filter unless it is already selected.
+const FacetGroup: React.FC<{
+    label: string;
+    counts: FacetCount[];
+    total: number;
+    selected?: string[];
+    onToggle: (value: string) => void;
+    format?: (value: string) => string;
+    chipClassName?: (value: string) => string;
+}> = ({ label, counts, total, selected = [], onToggle, format = v => v, chipClassName }) => {
+    if (!selected.length && (!counts.length || (counts.length === 1 && counts[0].count === total))) return null;
+    return (
+        <div className="flex flex-wrap items-center gap-1.5">
+            <span className="text-xs font-semibold text-gray-500 mr-1">{label}</span>
+            {counts.map(({ value, count }) => {
+                const isSelected = selected.includes(value);
+                return (
+                    <button
+                        key={value}
+                        onClick={() => onToggle(value)}
+                        aria-pressed={isSelected}
+                        className={`chip capitalize transition-opacity ${isSelected ? `ring-2 ring-purple-600 ${chipClassName?.(value) ?? 'bg-purple-200 text-purple-800 dark:bg-purple-800 dark:text-purple-200'}` : `opacity-60 hover:opacity-100 ${chipClassName?.(value) ?? 'bg-gray-light dark:bg-gray-dark'}`}`}
+                    >
+                        {format(value)} <span className="opacity-70">{count}</span>
+                    </button>
+                );
+            })}
+        </div>
+    );
+};
+
+const toPercent = (value: number | undefined) => value === undefined ? '' : Math.round(value * 100);
+const fromPercent = (value: string) => value === '' ? undefined : Math.min(100, Math.max(0, Number(value))) / 100;
+
+// The query bar and facets above the results list. Facet counts are over all results, not just the filtered ones.
+export const ResultFilters: React.FC<{
+    query: ResultQuery;
+    onQueryChange: (query: ResultQuery) => void;
+    sort: ResultSort;
+    onSortChange: (sort: ResultSort) => void;
+    facets: ResultFacets;
+    shown: number;
+    total: number;
+}> = ({ query, onQueryChange, sort, onSortChange, facets, shown, total }) => {
+    const update = (patch: Partial<ResultQuery>) => onQueryChange({ ...query, ...patch });
+
+    return (
+        <div className="space-y-3 mb-4">
+            <div className="flex flex-wrap gap-2">
+                <div className="relative flex-1 min-w-[12rem]">
+                    <SearchIcon className="w-4 h-4 absolute left-3 top-1/2 -translate-y-1/2 text-gray-500" />
+                    <input value={query.search ?? ''} onChange={e => update({ search: e.target.value || undefined })} placeholder="Search text, keywords, explanations..." aria-label="Search results" className={`${inputClassName} w-full pl-9`} />
+                </div>
+                <label className="flex items-center gap-1 text-xs text-gray-500">
+                    Confidence
+                    <input type="number" min={0} max={100} value={toPercent(query.minConfidence)} onChange={e => update({ minConfidence: fromPercent(e.target.value) })} placeholder="0" aria-label="Minimum confidence (%)" className={`${inputClassName} w-16`} />
+                    –
+                    <input type="number" min={0} max={100} value={toPercent(query.maxConfidence)} onChange={e => update({ maxConfidence: fromPercent(e.target.value) })} placeholder="100" aria-label="Maximum confidence (%)" className={`${inputClassName} w-16`} />
+                    %
+                </label>
+                <select value={sort} onChange={e => onSortChange(e.target.value as ResultSort)} aria-label="Sort results" className={inputClassName}>
+                    {RESULT_SORTS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+                </select>
+            </div>
+            <FacetGroup
+                label="Sentiment"
+                counts={facets.sentiments}
+                total={total}
+                selected={query.sentiments}
+                onToggle={value => update({ sentiments: toggle(query.sentiments, value as Sentiment) })}
+                chipClassName={value => `${getSentimentColor(value as Sentiment).bg} ${getSentimentColor(value as Sentiment).text}`}
+            />
+            <FacetGroup label="Provider" counts={facets.providers} total={total} selected={query.providers} onToggle={value => update({ providers: toggle(query.providers, value) })} />
+            <FacetGroup label="Language" counts={facets.languages} total={total} selected={query.languages} onToggle={value => update({ languages: toggle(query.languages, value) })} format={getLanguageName} />
+            <FacetGroup label="Tags" counts={facets.tags} total={total} selected={query.tags} onToggle={value => update({ tags: toggle(query.tags, value) })} />
+            <FacetGroup label="Review" counts={facets.reviews} total={total} selected={query.reviews} onToggle={value => update({ reviews: toggle(query.reviews, value as ReviewState) })} />
+            {isQueryActive(query) && (
+                <div className="flex items-center gap-3 text-xs text-gray-500">
+                    <span>{shown} of {total} results match</span>
+                    <button onClick={() => onQueryChange({})} className="font-semibold text-purple-600 hover:text-purple-700 dark:text-purple-400">Clear filters</button>
+                </div>
+            )}
+        </div>
+    );
+};
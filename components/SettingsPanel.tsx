@@ -0,0 +1,132 @@
+import React, { useState, useEffect } from 'react';
+import { GenerationSettings, GenerationOperation, ModelSettings } from '../types';
+import {
+    GEMINI_MODELS, GENERATION_OPERATIONS, getGenerationSettings, saveGenerationSettings, resetGenerationSettings, getModelInfo
+} from '../services/generationSettings';
+import { PROMPT_VARIANTS } from '../services/prompts';
+import { SettingsIcon } from './Icons';
+
+const inputClassName = 'w-full p-2 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary disabled:opacity-40';
+
+// A blank field leaves the value unset, so the model's own default applies.
+const NumberField: React.FC<{
+    label: string;
+    value: number | undefined;
+    onChange: (value: number | undefined) => void;
+    min: number;
+    max: number;
+    step: number;
+    hint?: string;
+    disabled?: boolean;
+}> = ({ label, value, onChange, min, max, step, hint, disabled }) => (
+    <label className="text-xs text-gray-500 flex flex-col gap-1">
+        {label}
+        <input
+            type="number"
+            value={value ?? ''}
+            onChange={e => onChange(e.target.value === '' ? undefined : Number(e.target.value))}
+            min={min}
+            max={max}
+            step={step}
+            placeholder="Default"
+            disabled={disabled}
+            className={inputClassName}
+        />
+        {hint && <span className="text-[11px]">{hint}</span>}
+    </label>
+);
+
+const OperationSettings: React.FC<{
+    label: string;
+    settings: ModelSettings;
+    onChange: (settings: ModelSettings) => void;
+}> = ({ label, settings, onChange }) => {
+    const thinking = getModelInfo(settings.model)?.thinking;
+    const update = (patch: Partial<ModelSettings>) => onChange({ ...settings, ...patch });
+
+    return (
+        <div className="p-4 rounded-xl border border-gray-light dark:border-gray-dark bg-light/50 dark:bg-gray-dark/40">
+            <div className="flex flex-wrap items-center justify-between gap-2 mb-3">
+                <h3 className="font-semibold">{label}</h3>
+                <select value={settings.model} onChange={e => update({ model: e.target.value })} aria-label={`${label} model`} className={`${inputClassName} w-auto`}>
+                    {GEMINI_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+            </div>
+            <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+                <NumberField label="Temperature" value={settings.temperature} onChange={temperature => update({ temperature })} min={0} max={2} step={0.1} hint="0–2" />
+                <NumberField label="Top-p" value={settings.topP} onChange={topP => update({ topP })} min={0} max={1} step={0.05} hint="0–1" />
+                <NumberField label="Max output tokens" value={settings.maxOutputTokens} onChange={maxOutputTokens => update({ maxOutputTokens })} min={1} max={65536} step={1} />
+                <NumberField
+                    label="Thinking budget"
+                    value={thinking ? settings.thinkingBudget : undefined}
+                    onChange={thinkingBudget => update({ thinkingBudget })}
+                    min={thinking?.min ?? 0}
+                    max={thinking?.max ?? 0}
+                    step={1}
+                    hint={thinking ? `${thinking.min}–${thinking.max} tokens` : 'Not supported by this model'}
+                    disabled={!thinking}
+                />
+                <NumberField label="Seed" value={settings.seed} onChange={seed => update({ seed })} min={-2147483648} max={2147483647} step={1} />
+            </div>
+        </div>
+    );
+};
+
+export const SettingsPanel: React.FC<{
+    isOpen: boolean;
+    onClose: () => void;
+}> = ({ isOpen, onClose }) => {
+    const [draft, setDraft] = useState<GenerationSettings>(getGenerationSettings);
+    const [notice, setNotice] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        setDraft(getGenerationSettings());
+        setNotice(null);
+    }, [isOpen]);
+
+    if (!isOpen) return null;
+
+    const updateOperation = (operation: GenerationOperation, settings: ModelSettings) =>
+        setDraft({ ...draft, operations: { ...draft.operations, [operation]: settings } });
+
+    const handleSave = () => {
+        setDraft(saveGenerationSettings(draft));
+        setNotice('Settings saved. They apply to the next analysis you run.');
+    };
+
+    const handleReset = () => {
+        setDraft(resetGenerationSettings());
+        setNotice('Settings reset to the defaults.');
+    };
+
+    const variant = PROMPT_VARIANTS.find(v => v.id === draft.promptVariant);
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-darker rounded-2xl shadow-2xl p-8 w-full max-w-4xl max-h-[90vh] flex flex-col animate-scale-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-light dark:border-gray-dark"><h2 className="text-2xl font-bold flex items-center gap-2"><SettingsIcon className="w-7 h-7 text-purple-600" /> Model Settings</h2><button onClick={onClose} className="text-3xl text-gray-500 hover:text-dark dark:hover:text-light transition-colors">&times;</button></div>
+                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-3">
+                    <div className="p-4 rounded-xl border border-gray-light dark:border-gray-dark bg-light/50 dark:bg-gray-dark/40">
+                        <div className="flex flex-wrap items-center justify-between gap-2">
+                            <h3 className="font-semibold">Prompt version</h3>
+                            <select value={draft.promptVariant} onChange={e => setDraft({ ...draft, promptVariant: e.target.value })} aria-label="Prompt version" className={`${inputClassName} w-auto`}>
+                                {PROMPT_VARIANTS.map(v => <option key={v.id} value={v.id}>{v.label}</option>)}
+                            </select>
+                        </div>
+                        {variant && <p className="text-xs text-gray-500 mt-2">{variant.description}</p>}
+                    </div>
+                    {GENERATION_OPERATIONS.map(({ id, label }) => (
+                        <OperationSettings key={id} label={label} settings={draft.operations[id]} onChange={settings => updateOperation(id, settings)} />
+                    ))}
+                    <p className="text-xs text-gray-500">Leave a field blank to use the model's default. Values outside the allowed range are adjusted when saved. The settings used are recorded on every result.</p>
+                </div>
+                {notice && <div className="mt-4 p-3 text-sm text-success bg-success/10 rounded-lg">{notice}</div>}
+                <div className="flex justify-between mt-6 pt-4 border-t border-gray-light dark:border-gray-dark">
+                    <button onClick={handleReset} className="text-sm font-semibold text-danger hover:opacity-80">Reset to defaults</button>
+                    <button onClick={handleSave} className="bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold px-6 py-2 rounded-xl hover:scale-105 transition-transform">Save</button>
+                </div>
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,115 @@
+import React, { useState, useEffect } from 'react';
+import { Taxonomy, TaxonomyLabel } from '../types';
+import { listTaxonomies, saveTaxonomy, deleteTaxonomy, createTaxonomy, createLabel, TaxonomyValidationError } from '../services/taxonomyStore';
+import { SparklesIcon } from './Icons';
+
+const inputClassName = 'p-2 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary';
+
+const LabelEditor: React.FC<{
+    label: TaxonomyLabel;
+    onChange: (label: TaxonomyLabel) => void;
+    onRemove: () => void;
+}> = ({ label, onChange, onRemove }) => (
+    <div className="p-4 rounded-xl border border-gray-light dark:border-gray-dark bg-light/50 dark:bg-gray-dark/40 grid gap-2">
+        <div className="flex gap-2">
+            <input value={label.name} onChange={e => onChange({ ...label, name: e.target.value })} placeholder="Label name, e.g. billing" aria-label="Label name" className={`${inputClassName} flex-1 font-semibold`} />
+            <button onClick={onRemove} className="text-sm font-semibold text-danger hover:opacity-80 px-2">Remove</button>
+        </div>
+        <textarea value={label.description} onChange={e => onChange({ ...label, description: e.target.value })} placeholder="What belongs under this label?" aria-label="Label description" rows={2} className={inputClassName} />
+        <textarea
+            value={label.examples.join('\n')}
+            onChange={e => onChange({ ...label, examples: e.target.value.split('\n') })}
+            placeholder="Example texts, one per line (optional)"
+            aria-label="Label examples"
+            rows={2}
+            className={inputClassName}
+        />
+    </div>
+);
+
+// Edits the saved taxonomies; `onChange` receives the list after every save or delete, plus the taxonomy to select.
+export const TaxonomyEditor: React.FC<{
+    isOpen: boolean;
+    initialId: string;
+    onClose: () => void;
+    onChange: (taxonomies: Taxonomy[], selectedId: string) => void;
+}> = ({ isOpen, initialId, onClose, onChange }) => {
+    const [taxonomies, setTaxonomies] = useState<Taxonomy[]>([]);
+    const [draft, setDraft] = useState<Taxonomy | null>(null);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const saved = listTaxonomies();
+        setTaxonomies(saved);
+        setDraft(saved.find(t => t.id === initialId) ?? saved[0] ?? createTaxonomy('New taxonomy'));
+        setError(null);
+    }, [isOpen, initialId]);
+
+    if (!isOpen || !draft) return null;
+
+    const select = (id: string) => {
+        setDraft(id ? taxonomies.find(t => t.id === id) ?? null : createTaxonomy('New taxonomy'));
+        setError(null);
+    };
+
+    const updateLabel = (index: number, label: TaxonomyLabel) =>
+        setDraft({ ...draft, labels: draft.labels.map((l, i) => i === index ? label : l) });
+
+    const handleSave = () => {
+        try {
+            const saved = saveTaxonomy(draft);
+            const updated = listTaxonomies();
+            setTaxonomies(updated);
+            setDraft(saved);
+            setError(null);
+            onChange(updated, saved.id);
+        } catch (e) {
+            if (!(e instanceof TaxonomyValidationError)) throw e;
+            setError(e.message);
+        }
+    };
+
+    const handleDelete = () => {
+        deleteTaxonomy(draft.id);
+        const updated = listTaxonomies();
+        setTaxonomies(updated);
+        setDraft(updated[0]);
+        setError(null);
+        onChange(updated, updated[0].id);
+    };
+
+    const isSaved = taxonomies.some(t => t.id === draft.id);
+
+    return (
+        <div className="fixed inset-0 bg-black/70 backdrop-blur-sm flex items-center justify-center p-4 z-50 animate-fade-in" onClick={onClose}>
+            <div className="bg-white dark:bg-gray-darker rounded-2xl shadow-2xl p-8 w-full max-w-3xl max-h-[90vh] flex flex-col animate-scale-in" onClick={(e) => e.stopPropagation()}>
+                <div className="flex justify-between items-center mb-6 pb-4 border-b border-gray-light dark:border-gray-dark"><h2 className="text-2xl font-bold flex items-center gap-2"><SparklesIcon className="w-7 h-7 text-purple-600" /> Label Taxonomies</h2><button onClick={onClose} className="text-3xl text-gray-500 hover:text-dark dark:hover:text-light transition-colors">&times;</button></div>
+                <div className="flex flex-wrap gap-3 mb-4">
+                    <select value={isSaved ? draft.id : ''} onChange={e => select(e.target.value)} aria-label="Taxonomy" className={inputClassName}>
+                        {taxonomies.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+                        <option value="">+ New taxonomy</option>
+                    </select>
+                    <input value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} placeholder="Taxonomy name" aria-label="Taxonomy name" className={`${inputClassName} flex-1`} />
+                </div>
+                <p className="text-xs text-gray-500 mb-3">Each text is given exactly one of these labels. Clear descriptions and a few examples make the classification more reliable.</p>
+                <div className="flex-1 overflow-y-auto pr-2 custom-scrollbar space-y-3">
+                    {draft.labels.map((label, i) => (
+                        <LabelEditor
+                            key={label.id}
+                            label={label}
+                            onChange={(updated) => updateLabel(i, updated)}
+                            onRemove={() => setDraft({ ...draft, labels: draft.labels.filter((_, j) => j !== i) })}
+                        />
+                    ))}
+                    <button onClick={() => setDraft({ ...draft, labels: [...draft.labels, createLabel()] })} className="w-full p-3 rounded-xl border-2 border-dashed border-gray-light dark:border-gray-dark text-sm font-semibold text-purple-600 hover:border-purple-600">+ Add label</button>
+                </div>
+                {error && <div className="mt-4 p-3 text-sm text-danger bg-danger/10 rounded-lg">{error}</div>}
+                <div className="flex justify-between mt-6 pt-4 border-t border-gray-light dark:border-gray-dark">
+                    <button onClick={handleDelete} disabled={!isSaved || taxonomies.length < 2} title="The last taxonomy cannot be deleted." className="text-sm font-semibold text-danger hover:opacity-80 disabled:opacity-40">Delete taxonomy</button>
+                    <button onClick={handleSave} className="bg-gradient-to-r from-purple-600 to-blue-600 text-white font-bold px-6 py-2 rounded-xl hover:scale-105 transition-transform">Save</button>
+                </div>
+            </div>
+        </div>
+    );
+};
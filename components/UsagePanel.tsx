@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { getUsageSnapshot, subscribeToUsage, setBudgets, UsageSnapshot, UsageTotals, BudgetLimits, UsageBudgets } from '../services/usageTracker';
+
+const formatCost = (usd: number) => `$${usd < 0.01 && usd > 0 ? usd.toFixed(4) : usd.toFixed(2)}`;
+
+const formatTokens = (tokens: number) => tokens >= 1000 ? `${(tokens / 1000).toFixed(1)}k` : String(tokens);
+
+const LIMIT_FIELDS: { key: keyof BudgetLimits; label: string; step: string }[] = [
+    { key: 'requests', label: 'Requests', step: '1' },
+    { key: 'tokens', label: 'Tokens', step: '1000' },
+    { key: 'costUsd', label: 'Spend ($)', step: '0.01' },
+];
+
+const inputClassName = 'w-full p-1.5 text-sm border-2 border-gray-light dark:border-gray-dark bg-light dark:bg-gray-dark rounded-lg focus:ring-2 focus:ring-primary';
+
+const UsageMeter: React.FC<{ label: string; value: number; limit?: number; format: (n: number) => string }> = ({ label, value, limit, format }) => {
+    const ratio = limit ? Math.min(1, value / limit) : 0;
+    const barColor = ratio >= 1 ? 'bg-danger' : ratio >= 0.8 ? 'bg-warning' : 'bg-primary';
+    return (
+        <div className="text-xs">
+            <div className="flex justify-between text-gray-500"><span>{label}</span><span className="font-semibold text-dark dark:text-light">{format(value)}{limit !== undefined && ` / ${format(limit)}`}</span></div>
+            {limit !== undefined && <div className="h-1.5 mt-1 rounded-full bg-gray-light dark:bg-gray-dark overflow-hidden"><div className={`h-full ${barColor} transition-all`} style={{ width: `${ratio * 100}%` }} /></div>}
+        </div>
+    );
+};
+
+const UsageColumn: React.FC<{ title: string; totals: UsageTotals; limits: BudgetLimits }> = ({ title, totals, limits }) => (
+    <div className="space-y-2">
+        <h4 className="text-xs font-bold uppercase tracking-wide text-gray-500">{title}</h4>
+        <UsageMeter label="Requests" value={totals.requests} limit={limits.requests} format={String} />
+        <UsageMeter label="Tokens" value={totals.inputTokens + totals.outputTokens} limit={limits.tokens} format={formatTokens} />
+        <UsageMeter label="Est. spend" value={totals.costUsd} limit={limits.costUsd} format={formatCost} />
+    </div>
+);
+
+const BudgetEditor: React.FC<{ budgets: UsageBudgets; onSave: (budgets: UsageBudgets) => void }> = ({ budgets, onSave }) => {
+    const [draft, setDraft] = useState(budgets);
+
+    const updateLimit = (scope: keyof UsageBudgets, key: keyof BudgetLimits, value: string) => {
+        const parsed = value === '' ? undefined : Math.max(0, Number(value));
+        setDraft(d => ({ ...d, [scope]: { ...d[scope], [key]: Number.isFinite(parsed) ? parsed : undefined } }));
+    };
+
+    return (
+        <div className="mt-4 pt-4 border-t border-gray-light dark:border-gray-dark">
+            <p className="text-xs text-gray-500 mb-2">Leave a field empty for no limit. When a budget is reached, analyses continue with the offline engine.</p>
+            <div className="grid grid-cols-[auto_1fr_1fr_1fr] gap-2 items-center text-xs">
+                <span />
+                {LIMIT_FIELDS.map(f => <span key={f.key} className="font-semibold text-gray-500">{f.label}</span>)}
+                {(['daily', 'session'] as (keyof UsageBudgets)[]).map(scope => (
+                    <React.Fragment key={scope}>
+                        <span className="font-semibold capitalize text-gray-500">{scope}</span>
+                        {LIMIT_FIELDS.map(f => (
+                            <input key={f.key} type="number" min="0" step={f.step} value={draft[scope][f.key] ?? ''} onChange={e => updateLimit(scope, f.key, e.target.value)} className={inputClassName} aria-label={`${scope} ${f.label} limit`} />
+                        ))}
+                    </React.Fragment>
+                ))}
+            </div>
+            <button onClick={() => onSave(draft)} className="mt-3 w-full bg-primary text-white py-2 rounded-lg text-sm font-semibold hover:bg-primary-dark transition-colors">Save Budgets</button>
+        </div>
+    );
+};
+
+export const UsagePanel: React.FC = () => {
+    const [snapshot, setSnapshot] = useState<UsageSnapshot>(getUsageSnapshot);
+    const [isEditing, setIsEditing] = useState(false);
+
+    useEffect(() => subscribeToUsage(setSnapshot), []);
+
+    const models: [string, UsageTotals['byModel'][string]][] = Object.entries(snapshot.today.byModel);
+
+    return (
+        <div className="bg-white dark:bg-gray-darker/80 backdrop-blur-sm rounded-2xl p-4 shadow-xl border border-gray-light dark:border-gray-dark md:w-80 shrink-0 animate-fade-in">
+            <div className="flex justify-between items-center mb-3">
+                <h3 className="font-bold text-sm">API Usage</h3>
+                <button onClick={() => setIsEditing(e => !e)} className="text-xs font-semibold text-purple-600 hover:text-purple-700 dark:text-purple-400">{isEditing ? 'Close' : 'Budgets'}</button>
+            </div>
+            {snapshot.exceeded && <p className="text-xs p-2 mb-3 rounded-lg bg-danger/10 text-danger">The {snapshot.exceeded} has been reached. New analyses use the offline engine.</p>}
+            <div className="grid grid-cols-2 gap-4">
+                <UsageColumn title="Today" totals={snapshot.today} limits={snapshot.budgets.daily} />
+                <UsageColumn title="Session" totals={snapshot.session} limits={snapshot.budgets.session} />
+            </div>
+            {models.length > 0 && (
+                <div className="mt-3 text-xs text-gray-500 space-y-1">
+                    {models.map(([model, totals]) => (
+                        <div key={model} className="flex justify-between"><span>{model}</span><span>{totals.requests} req · {formatTokens(totals.tokens)} · {formatCost(totals.costUsd)}</span></div>
+                    ))}
+                    {snapshot.today.unpricedRequests > 0 && <p>{snapshot.today.unpricedRequests} request(s) to unpriced models are not included in the spend estimate.</p>}
+                </div>
+            )}
+            {isEditing && <BudgetEditor budgets={snapshot.budgets} onSave={(budgets) => { setBudgets(budgets); setIsEditing(false); }} />}
+        </div>
+    );
+};
@@ -0,0 +1,80 @@
+import React, { useState, useRef, useEffect, useLayoutEffect, useCallback } from 'react';
+
+// Reports the rendered height of its child whenever it changes, e.g. when a card expands or fonts load.
+const VirtualListItem: React.FC<{ itemKey: string; top: number; onResize: (key: string, height: number) => void; children: React.ReactNode }> = ({ itemKey, top, onResize, children }) => {
+    const ref = useRef<HTMLDivElement>(null);
+    useLayoutEffect(() => {
+        const element = ref.current;
+        if (!element) return;
+        onResize(itemKey, element.offsetHeight);
+        const observer = new ResizeObserver(() => onResize(itemKey, element.offsetHeight));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, [itemKey, onResize]);
+    // flow-root keeps the child's margins inside the measured height.
+    return <div ref={ref} className="flow-root absolute left-0 right-0" style={{ top }}>{children}</div>;
+};
+
+// Renders only the items in and near the scrolled viewport. Heights start as an estimate and are
+// corrected once each item has been measured, so items of different heights are supported.
+export const VirtualList = <T,>({ items, getKey, renderItem, estimatedHeight = 280, overscan = 4, className }: {
+    items: T[];
+    getKey: (item: T, index: number) => string;
+    renderItem: (item: T, index: number) => React.ReactNode;
+    estimatedHeight?: number;
+    overscan?: number;
+    className?: string;
+}) => {
+    const containerRef = useRef<HTMLDivElement>(null);
+    const heights = useRef(new Map<string, number>());
+    const [, setMeasureCount] = useState(0);
+    const [scrollTop, setScrollTop] = useState(0);
+    const [viewportHeight, setViewportHeight] = useState(600);
+
+    useEffect(() => {
+        const element = containerRef.current;
+        if (!element) return;
+        const observer = new ResizeObserver(() => setViewportHeight(element.clientHeight));
+        observer.observe(element);
+        return () => observer.disconnect();
+    }, []);
+
+    const offsets: number[] = [];
+    let total = 0;
+    items.forEach((item, i) => {
+        offsets.push(total);
+        total += heights.current.get(getKey(item, i)) ?? estimatedHeight;
+    });
+
+    // The first item whose bottom edge is below the top of the viewport.
+    let low = 0;
+    let high = items.length - 1;
+    while (low < high) {
+        const mid = (low + high) >> 1;
+        const bottom = mid + 1 < items.length ? offsets[mid + 1] : total;
+        if (bottom <= scrollTop) low = mid + 1;
+        else high = mid;
+    }
+    const start = Math.max(0, low - overscan);
+    let end = low;
+    while (end < items.length && offsets[end] < scrollTop + viewportHeight) end++;
+    end = Math.min(items.length, end + overscan);
+
+    const handleResize = useCallback((key: string, height: number) => {
+        if (heights.current.get(key) === height) return;
+        heights.current.set(key, height);
+        setMeasureCount(n => n + 1);
+    }, []);
+
+    return (
+        <div ref={containerRef} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className={`overflow-y-auto ${className ?? ''}`}>
+            <div className="relative" style={{ height: total }}>
+                {items.slice(start, end).map((item, i) => {
+                    const index = start + i;
+                    const key = getKey(item, index);
+                    return <VirtualListItem key={key} itemKey={key} top={offsets[index]} onResize={handleResize}>{renderItem(item, index)}</VirtualListItem>;
+                })}
+            </div>
+        </div>
+    );
+};
@@ -0,0 +1,29 @@
+import { Sentiment, Entity } from '../types';
+
+export const getSentimentIcon = (sentiment: Sentiment) => {
+    switch (sentiment) {
+        case Sentiment.Positive: return '😊';
+        case Sentiment.Negative: return '😞';
+        case Sentiment.Neutral: return '😐';
+        default: return '🤔';
+    }
+};
+
+export const getSentimentColor = (sentiment: Sentiment) => {
+    switch (sentiment) {
+        case Sentiment.Positive: return { text: 'text-success', bg: 'bg-success/20', hex: '#4cc9f0', border: 'border-success' };
+        case Sentiment.Negative: return { text: 'text-danger', bg: 'bg-danger/20', hex: '#f72585', border: 'border-danger' };
+        case Sentiment.Neutral: return { text: 'text-warning', bg: 'bg-warning/20', hex: '#f8961e', border: 'border-warning' };
+        default: return { text: 'text-gray', bg: 'bg-gray-light dark:bg-gray-dark', hex: '#6c757d', border: 'border-gray' };
+    }
+};
+
+export const getEntityColor = (type: Entity['type']) => {
+    switch(type) {
+        case 'PERSON': return 'bg-blue-200 text-blue-800 dark:bg-blue-800 dark:text-blue-200';
+        case 'LOCATION': return 'bg-green-200 text-green-800 dark:bg-green-800 dark:text-green-200';
+        case 'ORGANIZATION': return 'bg-purple-200 text-purple-800 dark:bg-purple-800 dark:text-purple-200';
+        case 'EVENT': return 'bg-yellow-200 text-yellow-800 dark:bg-yellow-800 dark:text-yellow-200';
+        default: return 'bg-gray-light text-gray-800 dark:bg-gray-dark dark:text-gray-200';
+    }
+};
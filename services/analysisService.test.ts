@@ -0,0 +1,45 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { analyzeSentiment, setActiveProvider } from './analysisService';
+import { FALLBACK_PROVIDER_ID } from './fallbackProvider';
+import { createMockProvider } from './mockProvider';
+import { RequestError } from './requestExecutor';
+import { registerProvider } from './sentimentProvider';
+
+// A provider whose every call fails with `error`; it reports no generation settings, so nothing is cached.
+const failingWith = (id: string, error: Error) => {
+    registerProvider(createMockProvider({ id, failWith: error }));
+    setActiveProvider(id);
+};
+
+beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('offline fallback', () => {
+    it.each([
+        ['network', new TypeError('Failed to fetch')],
+        ['timeout', new RequestError('timeout', 'slow', { retryable: true })],
+        ['quota', new Error('RESOURCE_EXHAUSTED')],
+        ['server', new Error('The model is overloaded.')],
+        ['budget', new RequestError('budget', 'Budget reached')],
+    ])('answers offline after a %s failure', async (kind, error) => {
+        failingWith(`fails-${kind}`, error);
+        const result = await analyzeSentiment('The food was great');
+        expect(result.apiUsed).toBe(FALLBACK_PROVIDER_ID);
+        expect(result.fallbackReason).toBe(kind);
+    });
+
+    it.each([
+        ['auth', new Error('API key not valid.')],
+        ['safety', new Error('Response was blocked due to SAFETY')],
+        ['parse', new SyntaxError('Unexpected end of JSON input')],
+        ['unknown', new TypeError("Cannot read properties of undefined (reading 'text')")],
+    ])('rethrows a %s failure instead of hiding it behind offline results', async (kind, error) => {
+        failingWith(`rejects-${kind}`, error);
+        await expect(analyzeSentiment('The food was great')).rejects.toMatchObject({ kind, cause: error });
+    });
+});
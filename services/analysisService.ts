@@ -0,0 +1,137 @@
+import { Sentiment, SentimentAnalysisResult, AnalysisPreferences, AdvancedAnalysisResult, MoodEnhancerResult, ComparativeAnalysisResult, RequestErrorKind, GenerationOperation } from '../types';
+import { SentimentProvider, getActiveProvider, registerProvider, setActiveProvider, listProviders } from './sentimentProvider';
+import { geminiProvider } from './geminiService';
+import { fallbackProvider, FALLBACK_PROVIDER_ID } from './fallbackProvider';
+import { mockProvider } from './mockProvider';
+import { classifyError } from './requestExecutor';
+import { createCacheKey, normalizeForCache, readCache, writeCache } from './resultCache';
+import { detectLanguage } from './languageDetection';
+import { locatePhrases } from './sentimentSpans';
+import { listExamples, selectFewShotExamples } from './exampleStore';
+
+registerProvider(geminiProvider);
+registerProvider(fallbackProvider);
+registerProvider(mockProvider);
+
+// A mistyped SENTIMENT_PROVIDER shouldn't stop the app from loading, so it is reported and the default kept.
+if (process.env.SENTIMENT_PROVIDER) {
+    try {
+        setActiveProvider(process.env.SENTIMENT_PROVIDER);
+    } catch (error) {
+        console.warn(`Ignoring SENTIMENT_PROVIDER, keeping ${getActiveProvider().id}:`, error);
+    }
+}
+
+export { getActiveProvider, setActiveProvider, listProviders };
+
+// Failures that say nothing about the request itself, plus a spent budget, which stops API calls by design.
+// Anything else, such as a rejected key or a blocked text, is rethrown so it isn't hidden behind offline results.
+const FALLBACK_KINDS: RequestErrorKind[] = ['network', 'timeout', 'quota', 'server', 'budget'];
+
+// Runs an operation on the active provider, falling back to the offline engine and recording why.
+const withFallback = async <T extends { fallbackReason?: RequestErrorKind }>(
+    operation: string,
+    run: (provider: SentimentProvider) => Promise<T>,
+): Promise<T> => {
+    const provider = getActiveProvider();
+    try {
+        return await run(provider);
+    } catch (error) {
+        if (provider.id === FALLBACK_PROVIDER_ID) throw error;
+        const classified = classifyError(error);
+        console.error(`${provider.name} ${operation} failed (${classified.kind}):`, error);
+        if (!FALLBACK_KINDS.includes(classified.kind)) throw classified;
+        return { ...(await run(fallbackProvider)), fallbackReason: classified.kind };
+    }
+};
+
+export interface AnalysisOptions extends AnalysisPreferences {
+    // Skip the result cache and ask the provider again; the new result replaces the cached one.
+    fresh?: boolean;
+}
+
+// Serves repeat requests for the same text, provider and generation settings from the persistent cache.
+// `variant` separates requests for the same operation that ask for different responses.
+const withCache = async <T extends { fallbackReason?: RequestErrorKind; cached?: boolean }>(
+    operation: GenerationOperation,
+    variant: string,
+    texts: string[],
+    options: AnalysisOptions,
+    run: () => Promise<T>,
+): Promise<T> => {
+    const provider = getActiveProvider();
+    const generation = provider.getGenerationConfig?.(operation);
+    if (!generation) return run();
+
+    let key: string;
+    try {
+        key = await createCacheKey([operation, variant, provider.id, JSON.stringify(generation), ...texts.map(normalizeForCache)]);
+    } catch (error) {
+        console.warn("Result cache is unavailable:", error);
+        return run();
+    }
+
+    if (!options.fresh) {
+        const hit = await readCache<T>(key).catch((error) => {
+            console.warn("Could not read the result cache:", error);
+            return null;
+        });
+        if (hit) return { ...hit, cached: true };
+    }
+
+    const result = await run();
+    // Offline stand-ins are not cached, so the next request tries the provider again.
+    if (!result.fallbackReason) {
+        writeCache(key, result).catch(error => console.warn("Could not write the result cache:", error));
+    }
+    return result;
+};
+
+export const analyzeSentiment = async (text: string, options: AnalysisOptions = {}): Promise<SentimentAnalysisResult> => {
+    const preferences: AnalysisPreferences = {
+        mode: options.mode ?? 'standard',
+        scheme: options.scheme ?? 'polarity',
+        translate: !!options.translate,
+        taxonomy: options.mode === 'classify' ? options.taxonomy : undefined,
+        // The team's labelled examples are used unless the caller passes its own set, or an empty one to opt out.
+        examples: options.examples ?? selectFewShotExamples(listExamples()),
+    };
+    if (preferences.mode === 'classify' && !preferences.taxonomy?.labels.length) {
+        throw new Error("Choose a taxonomy with at least one label to classify into.");
+    }
+    // Each combination of preferences asks for a different response, so they are cached separately.
+    // Editing a taxonomy's labels changes the question, so the labels are part of the key.
+    // So does changing the few-shot examples.
+    const { taxonomy, examples = [] } = preferences;
+    const variant = `${preferences.mode}:${preferences.scheme}${preferences.translate ? ':translated' : ''}`
+        + (taxonomy ? `:${taxonomy.id}:${JSON.stringify(taxonomy.labels.map(({ name, description, examples }) => ({ name, description, examples })))}` : '')
+        + (examples.length ? `:examples:${JSON.stringify(examples.map(e => [e.sentiment, e.text]))}` : '');
+    const result = await withCache('analyze', variant, [text], options, async () => {
+        const analyzed = await withFallback('analysis', provider => provider.analyze(text, preferences));
+        // Providers that don't report a language get the local guess, so every result can be filtered by language.
+        return { ...analyzed, scheme: preferences.scheme, language: analyzed.language ?? detectLanguage(text).code };
+    });
+    if (!result.cached) return result;
+    // A cache hit is a new analysis event for the caller, so it gets the current time and the caller's exact text.
+    // The cached text may differ in whitespace, so spans are found again in the caller's text.
+    const spans = result.spans && result.text !== text
+        ? locatePhrases(text, result.spans.map(span => ({ ...span, text: result.text.slice(span.start, span.end) })))
+        : result.spans;
+    return { ...result, text, spans, timestamp: new Date().toISOString() };
+};
+
+export const getMoodEnhancers = async (sentiment: Sentiment, text: string): Promise<MoodEnhancerResult> => {
+    const provider = getActiveProvider();
+    try {
+        return await provider.mood(sentiment, text);
+    } catch (error) {
+        console.error("Failed to get mood enhancers:", error);
+        return fallbackProvider.mood(sentiment, text);
+    }
+};
+
+export const performAdvancedAnalysis = async (text: string, options: AnalysisOptions = {}): Promise<AdvancedAnalysisResult> =>
+    withCache('advanced', '', [text], options, () => withFallback('advanced analysis', provider => provider.advanced(text)));
+
+export const compareSentiments = async (textA: string, textB: string, options: AnalysisOptions = {}): Promise<ComparativeAnalysisResult> =>
+    withCache('compare', '', [textA, textB], options, () => withFallback('comparison', provider => provider.compare(textA, textB)));
@@ -0,0 +1,78 @@
+import { describe, it, expect, vi } from 'vitest';
+import { LabelledExample, Sentiment, SentimentAnalysisResult } from '../types';
+import { analyzeSentiment } from './analysisService';
+import { buildCalibrationReport, runCalibration, ScoredPrediction } from './calibration';
+
+vi.mock('./analysisService', () => ({ analyzeSentiment: vi.fn() }));
+
+const { Positive, Neutral, Negative } = Sentiment;
+
+const prediction = (expected: Sentiment, predicted: Sentiment, confidence: number): ScoredPrediction => ({ expected, predicted, confidence });
+
+describe('buildCalibrationReport', () => {
+    const predictions = [
+        prediction(Positive, Positive, 0.95),
+        prediction(Positive, Positive, 0.85),
+        prediction(Positive, Neutral, 0.65),
+        prediction(Negative, Negative, 0.9),
+        prediction(Negative, Positive, 0.55),
+    ];
+
+    it('counts predictions into the confusion matrix', () => {
+        const report = buildCalibrationReport(predictions);
+        expect(report.total).toBe(5);
+        expect(report.accuracy).toBeCloseTo(0.6);
+        expect(report.confusion[Positive]).toEqual({ [Positive]: 2, [Neutral]: 1, [Negative]: 0 });
+        expect(report.confusion[Negative]).toEqual({ [Positive]: 1, [Neutral]: 0, [Negative]: 1 });
+    });
+
+    it('computes per-label precision and recall, and averages F1 over the labels that occur', () => {
+        const report = buildCalibrationReport(predictions);
+        const positive = report.classes.find(c => c.sentiment === Positive)!;
+        expect(positive).toMatchObject({ precision: 2 / 3, recall: 2 / 3, support: 3 });
+        const negative = report.classes.find(c => c.sentiment === Negative)!;
+        expect(negative).toMatchObject({ precision: 1, recall: 0.5, support: 2 });
+        // Neutral never occurs as an expected label, so it doesn't drag the macro F1 down.
+        expect(report.macroF1).toBeCloseTo((2 / 3 + 2 / 3) / 2);
+    });
+
+    it('bins by confidence and puts a confidence of 1 in the last bin', () => {
+        const report = buildCalibrationReport([prediction(Positive, Positive, 1), prediction(Positive, Negative, 0.92)]);
+        expect(report.bins).toHaveLength(10);
+        expect(report.bins[9]).toMatchObject({ count: 2, accuracy: 0.5 });
+        expect(report.bins[9].meanConfidence).toBeCloseTo(0.96);
+        expect(report.ece).toBeCloseTo(0.46);
+    });
+
+    it('reports zeros for no predictions', () => {
+        expect(buildCalibrationReport([])).toMatchObject({ total: 0, accuracy: 0, macroF1: 0, ece: 0 });
+    });
+});
+
+describe('runCalibration', () => {
+    const example = (id: string, sentiment: Sentiment): LabelledExample => ({ id, text: `text ${id}`, sentiment, createdAt: '2024-01-01T00:00:00.000Z' });
+
+    it('leaves each example out of its own few-shot prompt and reads the intended sentiment', async () => {
+        const analyze = vi.mocked(analyzeSentiment);
+        analyze.mockImplementation(async text => ({
+            sentiment: Positive,
+            confidence: 0.7,
+            sarcasm: text === 'text b' ? { probability: 0.9, adjustedSentiment: Negative } : undefined,
+            fallbackReason: text === 'text a' ? 'network' : undefined,
+        }) as SentimentAnalysisResult);
+        const progress = vi.fn();
+
+        const examples = [example('a', Positive), example('b', Negative)];
+        const predictions = await runCalibration(examples, progress);
+
+        expect(analyze.mock.calls.map(([text, options]) => [text, options?.examples?.map(e => e.id)])).toEqual([['text a', ['b']], ['text b', ['a']]]);
+        expect(predictions.map(p => [p.predicted, p.usedFallback])).toEqual([[Positive, true], [Negative, false]]);
+        expect(progress).toHaveBeenLastCalledWith(2, 2);
+    });
+
+    it('stops once the signal is aborted', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        expect(await runCalibration([example('a', Positive)], undefined, controller.signal)).toEqual([]);
+    });
+});
@@ -0,0 +1,112 @@
+import { LabelledExample, Sentiment } from '../types';
+import { analyzeSentiment } from './analysisService';
+import { getIntendedSentiment } from './sarcasmDetection';
+import { selectFewShotExamples } from './exampleStore';
+
+// A label prediction scored against the label it should have had.
+export interface ScoredPrediction {
+    expected: Sentiment;
+    predicted: Sentiment;
+    confidence: number;
+}
+
+export interface CalibrationPrediction extends ScoredPrediction {
+    example: LabelledExample;
+    // Set when the provider failed and the offline engine answered instead.
+    usedFallback: boolean;
+}
+
+export interface ClassMetrics {
+    sentiment: Sentiment;
+    precision: number;
+    recall: number;
+    f1: number;
+    // How many examples carry this label.
+    support: number;
+}
+
+export interface ReliabilityBin {
+    // Confidence range covered by the bin, e.g. 0.6–0.7.
+    from: number;
+    to: number;
+    count: number;
+    meanConfidence: number;
+    accuracy: number;
+}
+
+export interface CalibrationReport {
+    total: number;
+    accuracy: number;
+    // The unweighted mean F1 of the labels that occur, so rare labels count as much as common ones.
+    macroF1: number;
+    // confusion[expected][predicted] = count
+    confusion: Record<Sentiment, Record<Sentiment, number>>;
+    classes: ClassMetrics[];
+    bins: ReliabilityBin[];
+    // Expected calibration error: the count-weighted gap between confidence and accuracy across bins.
+    ece: number;
+}
+
+const SENTIMENTS = [Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative];
+const BIN_COUNT = 10;
+
+const ratio = (numerator: number, denominator: number) => denominator ? numerator / denominator : 0;
+
+export const buildCalibrationReport = (predictions: ScoredPrediction[]): CalibrationReport => {
+    const confusion = Object.fromEntries(SENTIMENTS.map(expected =>
+        [expected, Object.fromEntries(SENTIMENTS.map(predicted => [predicted, 0]))])) as CalibrationReport['confusion'];
+    predictions.forEach(p => { confusion[p.expected][p.predicted]++; });
+
+    const classes = SENTIMENTS.map((sentiment): ClassMetrics => {
+        const truePositives = confusion[sentiment][sentiment];
+        const predictedCount = SENTIMENTS.reduce((sum, expected) => sum + confusion[expected][sentiment], 0);
+        const support = SENTIMENTS.reduce((sum, predicted) => sum + confusion[sentiment][predicted], 0);
+        const precision = ratio(truePositives, predictedCount);
+        const recall = ratio(truePositives, support);
+        return { sentiment, precision, recall, f1: ratio(2 * precision * recall, precision + recall), support };
+    });
+
+    const bins: ReliabilityBin[] = Array.from({ length: BIN_COUNT }, (_, i) => {
+        const from = i / BIN_COUNT;
+        const to = (i + 1) / BIN_COUNT;
+        // The last bin includes a confidence of exactly 1.
+        const inBin = predictions.filter(p => p.confidence >= from && (p.confidence < to || (i === BIN_COUNT - 1 && p.confidence <= to)));
+        return {
+            from,
+            to,
+            count: inBin.length,
+            meanConfidence: ratio(inBin.reduce((sum, p) => sum + p.confidence, 0), inBin.length),
+            accuracy: ratio(inBin.filter(p => p.predicted === p.expected).length, inBin.length),
+        };
+    });
+
+    const correct = predictions.filter(p => p.predicted === p.expected).length;
+    const present = classes.filter(c => c.support > 0);
+    return {
+        total: predictions.length,
+        accuracy: ratio(correct, predictions.length),
+        macroF1: ratio(present.reduce((sum, c) => sum + c.f1, 0), present.length),
+        confusion,
+        classes,
+        bins,
+        ece: bins.reduce((sum, bin) => sum + ratio(bin.count, predictions.length) * Math.abs(bin.accuracy - bin.meanConfidence), 0),
+    };
+};
+
+// Runs the analyzer over every labelled example, one at a time. Each example is left out of its own few-shot
+// prompt, so the report measures how well the examples generalise rather than whether the model can copy them.
+export const runCalibration = async (
+    examples: LabelledExample[],
+    onProgress: (done: number, total: number) => void = () => {},
+    signal?: AbortSignal,
+): Promise<CalibrationPrediction[]> => {
+    const predictions: CalibrationPrediction[] = [];
+    for (const example of examples) {
+        if (signal?.aborted) break;
+        const others = selectFewShotExamples(examples.filter(e => e.id !== example.id));
+        const result = await analyzeSentiment(example.text, { examples: others });
+        predictions.push({ example, expected: example.sentiment, predicted: getIntendedSentiment(result), confidence: result.confidence, usedFallback: !!result.fallbackReason });
+        onProgress(predictions.length, examples.length);
+    }
+    return predictions;
+};
@@ -0,0 +1,88 @@
+const DB_NAME = 'senticorex';
+
+// Each entry upgrades the schema from the previous version; append new entries, never edit old ones.
+const MIGRATIONS: ((db: IDBDatabase) => void)[] = [
+    (db) => {
+        const analyses = db.createObjectStore('analyses', { keyPath: 'id' });
+        analyses.createIndex('createdAt', 'createdAt');
+        analyses.createIndex('kind', 'kind');
+    },
+    (db) => {
+        const jobs = db.createObjectStore('jobs', { keyPath: 'id' });
+        jobs.createIndex('updatedAt', 'updatedAt');
+    },
+    (db) => {
+        const cache = db.createObjectStore('cache', { keyPath: 'key' });
+        cache.createIndex('lastUsedAt', 'lastUsedAt');
+    },
+    (db) => {
+        const evaluations = db.createObjectStore('evaluations', { keyPath: 'id' });
+        evaluations.createIndex('createdAt', 'createdAt');
+    },
+];
+
+let databasePromise: Promise<IDBDatabase> | null = null;
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+});
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!databasePromise) {
+        databasePromise = new Promise((resolve, reject) => {
+            if (typeof indexedDB === 'undefined') {
+                reject(new Error("IndexedDB is not available in this browser."));
+                return;
+            }
+            const request = indexedDB.open(DB_NAME, MIGRATIONS.length);
+            request.onupgradeneeded = (event) => {
+                for (let version = event.oldVersion; version < MIGRATIONS.length; version++) {
+                    MIGRATIONS[version](request.result);
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error("The history database is open in another tab with an older version."));
+        });
+        // Allow a later call to retry if opening failed.
+        databasePromise.catch(() => { databasePromise = null; });
+    }
+    return databasePromise;
+};
+
+// Runs `work` inside a transaction and resolves with its result once the transaction commits.
+export const withStore = async <T>(
+    storeName: string,
+    mode: IDBTransactionMode,
+    work: (store: IDBObjectStore) => Promise<T> | T,
+): Promise<T> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(storeName, mode);
+    const done = new Promise<void>((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error);
+    });
+    // The transaction outcome is awaited alongside work(), so a failed transaction never rejects `done` with no
+    // handler attached, and work() failing aborts the transaction instead of committing its partial writes.
+    const abort = (error: unknown) => {
+        if (!transaction.error) {
+            try { transaction.abort(); } catch { /* already finished */ }
+        }
+        throw error;
+    };
+    let result: Promise<T>;
+    try {
+        result = Promise.resolve(work(transaction.objectStore(storeName))).catch(abort);
+    } catch (error) {
+        result = Promise.reject(error).catch(abort);
+    }
+    const [value] = await Promise.all([result, done]);
+    return value;
+};
+
+export const createId = (): string =>
+    typeof crypto.randomUUID === 'function'
+        ? crypto.randomUUID()
+        : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
@@ -0,0 +1,111 @@
+import { describe, it, expect } from 'vitest';
+import { DatasetParseError, detectFormat, guessColumnMapping, parseDataset, parseDatasetFile, toAnalysisItems } from './datasetParser';
+
+// A File whose stream hands the parser exactly these chunks, so chunk boundaries can be placed by hand.
+const chunkedFile = (name: string, chunks: string[]) => {
+    const encoder = new TextEncoder();
+    return {
+        name,
+        size: chunks.join('').length,
+        text: async () => chunks.join(''),
+        stream: () => new ReadableStream<Uint8Array>({
+            start(controller) {
+                chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+                controller.close();
+            },
+        }),
+    } as unknown as File;
+};
+
+describe('detectFormat', () => {
+    it('reads the format from the extension', () => {
+        expect(detectFormat('reviews.CSV')).toBe('csv');
+        expect(detectFormat('reviews.tab')).toBe('tsv');
+        expect(detectFormat('reviews.ndjson')).toBe('jsonl');
+        expect(detectFormat('notes.txt')).toBe('text');
+    });
+});
+
+describe('parseDataset', () => {
+    it('keeps delimiters, doubled quotes and newlines inside quoted fields', () => {
+        const { rows } = parseDataset('a.csv', 'id,text\n1,"Fast, cheap"\n2,"She said ""wow"""\n3,"line one\nline two"\n');
+        expect(rows.map(r => r.text)).toEqual(['Fast, cheap', 'She said "wow"', 'line one\nline two']);
+    });
+
+    it('reads CRLF line endings and skips blank lines', () => {
+        const { rows } = parseDataset('a.csv', 'id,text\r\n1,good\r\n\r\n2,bad\r\n');
+        expect(rows).toEqual([{ id: '1', text: 'good' }, { id: '2', text: 'bad' }]);
+    });
+
+    it('sniffs the delimiter from the header', () => {
+        expect(parseDataset('a.csv', 'id;text\n1;good, really').rows).toEqual([{ id: '1', text: 'good, really' }]);
+    });
+
+    it('strips a byte order mark and renames empty and duplicate headers', () => {
+        const { columns } = parseDataset('a.csv', '\uFEFFtext,,text,text\nx,y,z,w');
+        expect(columns).toEqual(['text', 'column_2', 'text_2', 'text_3']);
+    });
+
+    it('fills missing trailing fields with empty strings', () => {
+        expect(parseDataset('a.csv', 'id,text,date\n1,good').rows).toEqual([{ id: '1', text: 'good', date: '' }]);
+    });
+
+    it('rejects an unterminated quote and an empty file', () => {
+        expect(() => parseDataset('a.csv', 'id,text\n1,"never closed\n')).toThrow(DatasetParseError);
+        expect(() => parseDataset('a.csv', '')).toThrow('The file is empty.');
+    });
+
+    it('collects the columns of every JSON object and stringifies nested values', () => {
+        const dataset = parseDataset('a.jsonl', '{"text":"good","rating":5}\n\n{"text":"bad","meta":{"source":"app"}}\n');
+        expect(dataset.columns).toEqual(['text', 'rating', 'meta']);
+        expect(dataset.rows[1]).toEqual({ text: 'bad', meta: '{"source":"app"}' });
+    });
+
+    it('names the line of invalid JSON', () => {
+        expect(() => parseDataset('a.jsonl', '{"text":"ok"}\n{"text":\n')).toThrow('Line 2 is not valid JSON.');
+        expect(() => parseDataset('a.jsonl', '["not", "an object"]')).toThrow('Line 1 is not a JSON object.');
+        expect(() => parseDataset('a.json', '{"text":"ok"}')).toThrow('A JSON dataset must be an array of objects.');
+    });
+});
+
+describe('parseDatasetFile', () => {
+    it('carries CRLF line endings split across chunks', async () => {
+        const dataset = await parseDatasetFile(chunkedFile('a.csv', ['id,text\r', '\n1,good\r', '\n2,bad']));
+        expect(dataset.rows).toEqual([{ id: '1', text: 'good' }, { id: '2', text: 'bad' }]);
+    });
+
+    it('carries quoted fields and doubled quotes split across chunks', async () => {
+        const dataset = await parseDatasetFile(chunkedFile('a.csv', ['id,text\n1,"say "', '"hi"', '", ok"\n2,"x', '\ny"\n']));
+        expect(dataset.rows.map(r => r.text)).toEqual(['say "hi", ok', 'x\ny']);
+    });
+
+    it('joins a JSONL line split across chunks', async () => {
+        const dataset = await parseDatasetFile(chunkedFile('a.jsonl', ['{"text":"go', 'od"}\n{"te', 'xt":"bad"}']));
+        expect(dataset.rows).toEqual([{ text: 'good' }, { text: 'bad' }]);
+    });
+
+    it('reports progress as a fraction of the file', async () => {
+        const progress: number[] = [];
+        await parseDatasetFile(chunkedFile('a.csv', ['text\n', 'good\n']), fraction => progress.push(fraction));
+        expect(progress).toEqual([0.5, 1]);
+    });
+});
+
+describe('guessColumnMapping and toAnalysisItems', () => {
+    it('recognises common column names', () => {
+        const dataset = parseDataset('a.csv', 'Review_ID,Created_At,Customer,Review\n1,2024-03-01,Ann,Great');
+        expect(guessColumnMapping(dataset)).toEqual({ text: 'Review', id: 'Review_ID', date: 'Created_At', author: 'Customer' });
+    });
+
+    it('falls back to the column with the longest values', () => {
+        const dataset = parseDataset('a.csv', 'code,notes\nA1,This one is clearly the free text\nB2,So is this');
+        expect(guessColumnMapping(dataset).text).toBe('notes');
+    });
+
+    it('drops rows without text and keeps the source row', () => {
+        const dataset = parseDataset('a.csv', 'id,text\n1,  Great  \n2,\n');
+        expect(toAnalysisItems(dataset, { text: 'text', id: 'id' })).toEqual([
+            { text: 'Great', sourceRecord: { id: '1', date: undefined, author: undefined, columns: { id: '1', text: '  Great  ' } } },
+        ]);
+    });
+});
@@ -0,0 +1,278 @@
+import { DatasetRow, ColumnMapping, AnalysisItem } from '../types';
+
+export type DatasetFormat = 'csv' | 'tsv' | 'jsonl' | 'json' | 'text';
+
+export interface ParsedDataset {
+    format: DatasetFormat;
+    columns: string[];
+    rows: DatasetRow[];
+}
+
+export class DatasetParseError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'DatasetParseError';
+    }
+}
+
+export const detectFormat = (fileName: string): DatasetFormat => {
+    const extension = fileName.toLowerCase().split('.').pop();
+    switch (extension) {
+        case 'csv': return 'csv';
+        case 'tsv':
+        case 'tab': return 'tsv';
+        case 'jsonl':
+        case 'ndjson': return 'jsonl';
+        case 'json': return 'json';
+        default: return 'text';
+    }
+};
+
+export const isDatasetFile = (fileName: string) => detectFormat(fileName) !== 'text';
+
+// An incremental RFC 4180 parser: quoted fields may contain delimiters, doubled quotes and newlines.
+const createDelimitedParser = (delimiter: string, onRecord: (fields: string[]) => void) => {
+    let field = '';
+    let record: string[] = [];
+    let inQuotes = false;
+    // A quote seen inside a quoted field may be an escaped quote or the closing quote; the next character decides.
+    let pendingQuote = false;
+    let skipLineFeed = false;
+
+    const endRecord = () => {
+        record.push(field);
+        field = '';
+        if (record.length > 1 || record[0] !== '') onRecord(record);
+        record = [];
+    };
+
+    const push = (chunk: string) => {
+        for (let i = 0; i < chunk.length; i++) {
+            const char = chunk[i];
+            if (skipLineFeed) {
+                skipLineFeed = false;
+                if (char === '\n') continue;
+            }
+            if (pendingQuote) {
+                pendingQuote = false;
+                if (char === '"') {
+                    field += '"';
+                    continue;
+                }
+                inQuotes = false;
+            }
+            if (inQuotes) {
+                if (char === '"') pendingQuote = true;
+                else field += char;
+                continue;
+            }
+            if (char === '"' && field === '') {
+                inQuotes = true;
+            } else if (char === delimiter) {
+                record.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                endRecord();
+                skipLineFeed = char === '\r';
+            } else {
+                field += char;
+            }
+        }
+    };
+
+    const end = () => {
+        if (pendingQuote) inQuotes = false;
+        if (inQuotes) throw new DatasetParseError("The file ends inside a quoted field. Check for an unmatched quote.");
+        if (field !== '' || record.length) endRecord();
+    };
+
+    return { push, end };
+};
+
+const uniqueHeaders = (headers: string[]) => {
+    const seen = new Map<string, number>();
+    return headers.map((header, i) => {
+        const base = header.trim() || `column_${i + 1}`;
+        const count = seen.get(base) ?? 0;
+        seen.set(base, count + 1);
+        return count ? `${base}_${count + 1}` : base;
+    });
+};
+
+const createCsvCollector = (delimiter: string) => {
+    let columns: string[] | null = null;
+    const rows: DatasetRow[] = [];
+    const parser = createDelimitedParser(delimiter, (fields) => {
+        if (!columns) {
+            columns = uniqueHeaders(fields.map(f => f.replace(/^\uFEFF/, '')));
+            return;
+        }
+        const row: DatasetRow = {};
+        columns.forEach((column, i) => { row[column] = fields[i] ?? ''; });
+        rows.push(row);
+    });
+    return {
+        push: parser.push,
+        finish: (format: DatasetFormat): ParsedDataset => {
+            parser.end();
+            if (!columns) throw new DatasetParseError("The file is empty.");
+            return { format, columns, rows };
+        },
+    };
+};
+
+const stringifyValue = (value: unknown): string => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'object') return JSON.stringify(value);
+    return String(value);
+};
+
+const toRow = (value: unknown, location: string): DatasetRow => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        throw new DatasetParseError(`${location} is not a JSON object.`);
+    }
+    return Object.fromEntries(Object.entries(value).map(([key, v]) => [key, stringifyValue(v)]));
+};
+
+const collectColumns = (rows: DatasetRow[]) => {
+    const columns = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(key => columns.add(key)));
+    return Array.from(columns);
+};
+
+const createJsonlCollector = () => {
+    const rows: DatasetRow[] = [];
+    let buffer = '';
+    let lineNumber = 0;
+    const consumeLine = (line: string) => {
+        lineNumber++;
+        if (!line.trim()) return;
+        try {
+            rows.push(toRow(JSON.parse(line), `Line ${lineNumber}`));
+        } catch (error) {
+            if (error instanceof DatasetParseError) throw error;
+            throw new DatasetParseError(`Line ${lineNumber} is not valid JSON.`);
+        }
+    };
+    return {
+        push: (chunk: string) => {
+            buffer += chunk;
+            const lines = buffer.split(/\r?\n/);
+            buffer = lines.pop() ?? '';
+            lines.forEach(consumeLine);
+        },
+        finish: (): ParsedDataset => {
+            consumeLine(buffer);
+            return { format: 'jsonl', columns: collectColumns(rows), rows };
+        },
+    };
+};
+
+const parseJsonDocument = (text: string): ParsedDataset => {
+    let parsed: unknown;
+    try {
+        parsed = JSON.parse(text);
+    } catch {
+        throw new DatasetParseError("The file is not valid JSON.");
+    }
+    if (!Array.isArray(parsed)) throw new DatasetParseError("A JSON dataset must be an array of objects.");
+    const rows = parsed.map((item, i) => toRow(item, `Item ${i + 1}`));
+    return { format: 'json', columns: collectColumns(rows), rows };
+};
+
+const parseTextLines = (text: string): ParsedDataset => ({
+    format: 'text',
+    columns: ['text'],
+    rows: text.split(/\r?\n/).map(line => line.trim()).filter(Boolean).map(line => ({ text: line })),
+});
+
+// Picks the delimiter that appears most often in the header line.
+const sniffDelimiter = (sample: string) => {
+    const header = sample.split(/\r?\n/)[0] ?? '';
+    const candidates = [',', ';', '\t', '|'];
+    return candidates.reduce((best, candidate) =>
+        header.split(candidate).length > header.split(best).length ? candidate : best, ',');
+};
+
+export const parseDataset = (fileName: string, text: string): ParsedDataset => {
+    const format = detectFormat(fileName);
+    switch (format) {
+        case 'csv':
+        case 'tsv': {
+            const collector = createCsvCollector(format === 'tsv' ? '\t' : sniffDelimiter(text));
+            collector.push(text);
+            return collector.finish(format);
+        }
+        case 'jsonl': {
+            const collector = createJsonlCollector();
+            collector.push(text);
+            return collector.finish();
+        }
+        case 'json': return parseJsonDocument(text);
+        default: return parseTextLines(text);
+    }
+};
+
+// Streams the file through the parser so large files never need to be held as one string.
+export const parseDatasetFile = async (file: File, onProgress?: (fraction: number) => void): Promise<ParsedDataset> => {
+    const format = detectFormat(file.name);
+    if (format === 'json' || format === 'text' || typeof file.stream !== 'function') {
+        return parseDataset(file.name, await file.text());
+    }
+
+    const reader = file.stream().pipeThrough(new TextDecoderStream()).getReader();
+    let bytesRead = 0;
+    let collector: { push: (chunk: string) => void; finish: (format: DatasetFormat) => ParsedDataset } | null =
+        format === 'jsonl' ? createJsonlCollector() : null;
+
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        if (!collector) {
+            collector = createCsvCollector(format === 'tsv' ? '\t' : sniffDelimiter(value));
+        }
+        collector.push(value);
+        bytesRead += value.length;
+        onProgress?.(Math.min(1, bytesRead / Math.max(1, file.size)));
+    }
+    if (!collector) throw new DatasetParseError("The file is empty.");
+    return collector.finish(format);
+};
+
+const COLUMN_HINTS: Record<keyof ColumnMapping, RegExp> = {
+    text: /^(text|review|comment|content|body|message|feedback|description|review_text|response)$/i,
+    id: /^(id|uuid|key|review_id|ticket|ticket_id|row_id)$/i,
+    date: /^(date|time|timestamp|created|created_at|submitted|submitted_at|datetime)$/i,
+    author: /^(author|user|username|name|customer|reviewer|email)$/i,
+};
+
+export const guessColumnMapping = (dataset: ParsedDataset): ColumnMapping => {
+    const find = (role: keyof ColumnMapping) => dataset.columns.find(column => COLUMN_HINTS[role].test(column.trim()));
+    // Without a recognised text column, pick the column with the longest average value.
+    const longest = dataset.columns
+        .map(column => ({
+            column,
+            length: dataset.rows.slice(0, 50).reduce((sum, row) => sum + (row[column]?.length ?? 0), 0),
+        }))
+        .sort((a, b) => b.length - a.length)[0]?.column;
+    return {
+        text: find('text') ?? longest ?? dataset.columns[0],
+        id: find('id'),
+        date: find('date'),
+        author: find('author'),
+    };
+};
+
+// Turns rows into analysis items, dropping rows whose text column is empty.
+export const toAnalysisItems = (dataset: ParsedDataset, mapping: ColumnMapping): AnalysisItem[] =>
+    dataset.rows
+        .filter(row => row[mapping.text]?.trim())
+        .map(row => ({
+            text: row[mapping.text].trim(),
+            sourceRecord: {
+                id: mapping.id ? row[mapping.id] : undefined,
+                date: mapping.date ? row[mapping.date] : undefined,
+                author: mapping.author ? row[mapping.author] : undefined,
+                columns: row,
+            },
+        }));
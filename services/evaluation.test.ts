@@ -0,0 +1,110 @@
+import { describe, it, expect } from 'vitest';
+import { EvaluationRun, Sentiment } from '../types';
+import { parseDataset } from './datasetParser';
+import { createMockProvider } from './mockProvider';
+import { registerProvider } from './sentimentProvider';
+import { RequestError } from './requestExecutor';
+import {
+    createEvaluationConfig, createEvaluationRun, detectZeroLabel, guessLabelColumn, parseGoldLabel, runEvaluation, summarizeEvaluation, toEvaluationItems,
+} from './evaluation';
+
+const { Positive, Neutral, Negative } = Sentiment;
+
+describe('parseGoldLabel', () => {
+    it.each([
+        ['Positive', Positive],
+        [' pos ', Positive],
+        ['+1', Positive],
+        ['NEG', Negative],
+        ['-1', Negative],
+        ['neutral', Neutral],
+        ['neu', Neutral],
+        ['1', Positive],
+    ])('reads %s', (value, sentiment) => {
+        expect(parseGoldLabel(value)).toBe(sentiment);
+    });
+
+    it('returns null for labels it does not know', () => {
+        expect(parseGoldLabel('great')).toBeNull();
+        expect(parseGoldLabel('')).toBeNull();
+        expect(parseGoldLabel(undefined)).toBeNull();
+    });
+
+    it('reads a bare 0 only as the column says', () => {
+        expect(parseGoldLabel('0')).toBeNull();
+        expect(parseGoldLabel(' 0 ', Negative)).toBe(Negative);
+        expect(parseGoldLabel('0', Neutral)).toBe(Neutral);
+    });
+});
+
+describe('detectZeroLabel', () => {
+    it('reads 0 as negative in a binary column and as neutral next to -1', () => {
+        expect(detectZeroLabel(['1', '0', ' 0', '', undefined])).toBe(Negative);
+        expect(detectZeroLabel(['1', '0', '-1'])).toBe(Neutral);
+    });
+
+    it('leaves 0 unread in columns that mix it with named labels', () => {
+        expect(detectZeroLabel(['positive', '0'])).toBeNull();
+        expect(detectZeroLabel(['1', '1'])).toBeNull();
+    });
+});
+
+describe('guessLabelColumn', () => {
+    it('finds a column with a usual label name', () => {
+        expect(guessLabelColumn(parseDataset('a.csv', 'review,Sentiment\nGood,pos'))).toBe('Sentiment');
+        expect(guessLabelColumn(parseDataset('a.csv', 'review,stars\nGood,5'))).toBeUndefined();
+    });
+});
+
+describe('toEvaluationItems', () => {
+    it('keeps rows with text and a known label and counts the rest as skipped', () => {
+        const dataset = parseDataset('a.csv', 'text,label\n Great ,positive\n,negative\nOkay,meh\nAwful,neg\n');
+        expect(toEvaluationItems(dataset, 'text', 'label')).toEqual({
+            items: [{ text: 'Great', expected: Positive }, { text: 'Awful', expected: Negative }],
+            skipped: 2,
+        });
+    });
+
+    it('maps a binary 0/1 column to negative and positive', () => {
+        const dataset = parseDataset('a.csv', 'text,label\nAwful,0\nGreat,1\n');
+        expect(toEvaluationItems(dataset, 'text', 'label').items).toEqual([
+            { text: 'Awful', expected: Negative },
+            { text: 'Great', expected: Positive },
+        ]);
+    });
+
+    it('keeps 0 as neutral in a -1/0/1 column', () => {
+        const dataset = parseDataset('a.csv', 'text,label\nAwful,-1\nFine,0\nGreat,1\n');
+        expect(toEvaluationItems(dataset, 'text', 'label').items.map(item => item.expected)).toEqual([Negative, Neutral, Positive]);
+    });
+});
+
+describe('runEvaluation', () => {
+    registerProvider(createMockProvider({ id: 'evaluation-mock', sentiment: Positive, confidence: 0.9 }));
+    registerProvider(createMockProvider({ id: 'evaluation-failing', failWith: new RequestError('quota', 'Quota exceeded', { retryable: true }) }));
+
+    const run = (texts: string[], providerId = 'evaluation-mock'): EvaluationRun =>
+        createEvaluationRun('Run', 'gold.csv', createEvaluationConfig(providerId, false), texts.map(text => ({ text, expected: Positive })));
+
+    it('records a prediction for every item and completes', async () => {
+        const progress: number[] = [];
+        const finished = await runEvaluation(run(['a', 'b']), done => progress.push(done));
+        expect(finished.complete).toBe(true);
+        expect(finished.items.map(item => [item.predicted, item.confidence])).toEqual([[Positive, 0.9], [Positive, 0.9]]);
+        expect(progress).toEqual([1, 2]);
+    });
+
+    it('keeps the error of a failed item and leaves it out of the metrics', async () => {
+        const finished = await runEvaluation(run(['a'], 'evaluation-failing'));
+        expect(finished.items[0].error).toBe('The Gemini API rate limit or quota was exceeded.');
+        expect(summarizeEvaluation(finished)).toMatchObject({ total: 0, errors: 1, unscored: 0 });
+    });
+
+    it('keeps the unreached items of a stopped run', async () => {
+        const controller = new AbortController();
+        const stopped = await runEvaluation(run(['a', 'b']), () => controller.abort(), controller.signal);
+        expect(stopped.complete).toBe(false);
+        expect(stopped.items[1]).toEqual({ text: 'b', expected: Positive });
+        expect(summarizeEvaluation(stopped)).toMatchObject({ total: 1, accuracy: 1, errors: 0, unscored: 1 });
+    });
+});
@@ -0,0 +1,120 @@
+import { EvaluationRun, EvaluationConfig, EvaluationItem, ProviderId, Sentiment } from '../types';
+import { withStore, requestToPromise, createId } from './database';
+import { getProvider } from './sentimentProvider';
+import { classifyError, describeRequestError } from './requestExecutor';
+import { getIntendedSentiment } from './sarcasmDetection';
+import { listExamples, selectFewShotExamples } from './exampleStore';
+import { buildCalibrationReport, CalibrationReport, ScoredPrediction } from './calibration';
+import { ParsedDataset } from './datasetParser';
+
+const STORE = 'evaluations';
+
+// Spellings of each label commonly found in public sentiment datasets.
+// A bare 0 is left out: it means negative in binary 0/1 columns but neutral in -1/0/1 ones.
+const GOLD_LABELS: Record<string, Sentiment> = {
+    positive: Sentiment.Positive, pos: Sentiment.Positive, '1': Sentiment.Positive, '+1': Sentiment.Positive,
+    negative: Sentiment.Negative, neg: Sentiment.Negative, '-1': Sentiment.Negative,
+    neutral: Sentiment.Neutral, neu: Sentiment.Neutral,
+};
+
+const LABEL_COLUMN_HINT = /^(label|sentiment|gold|gold_label|polarity|class|target)$/i;
+
+const normalizeLabel = (value: string | undefined) => (value ?? '').trim().toLowerCase();
+
+// `zeroLabel` is what a bare 0 means in the column the value came from; see detectZeroLabel.
+export const parseGoldLabel = (value: string | undefined, zeroLabel: Sentiment | null = null): Sentiment | null => {
+    const label = normalizeLabel(value);
+    return label === '0' ? zeroLabel : GOLD_LABELS[label] ?? null;
+};
+
+// A column of only 0s and 1s is binary, so 0 is negative; one that also uses -1 keeps 0 for neutral.
+// Anywhere else a bare 0 is ambiguous and the row is skipped.
+export const detectZeroLabel = (values: (string | undefined)[]): Sentiment | null => {
+    const labels = new Set(values.map(normalizeLabel).filter(Boolean));
+    if (!labels.has('0')) return null;
+    if (labels.has('-1')) return Sentiment.Neutral;
+    return [...labels].every(label => label === '0' || label === '1') ? Sentiment.Negative : null;
+};
+
+export const guessLabelColumn = (dataset: ParsedDataset): string | undefined =>
+    dataset.columns.find(column => LABEL_COLUMN_HINT.test(column.trim()));
+
+// Rows with an empty text or a label that isn't recognised are skipped and counted.
+export const toEvaluationItems = (dataset: ParsedDataset, textColumn: string, labelColumn: string): { items: EvaluationItem[]; skipped: number } => {
+    const items: EvaluationItem[] = [];
+    let skipped = 0;
+    const zeroLabel = detectZeroLabel(dataset.rows.map(row => row[labelColumn]));
+    for (const row of dataset.rows) {
+        const text = row[textColumn]?.trim();
+        const expected = parseGoldLabel(row[labelColumn], zeroLabel);
+        if (text && expected) items.push({ text, expected });
+        else skipped++;
+    }
+    return { items, skipped };
+};
+
+export const createEvaluationConfig = (providerId: ProviderId, useExamples: boolean): EvaluationConfig => {
+    const provider = getProvider(providerId);
+    return { providerId, providerName: provider.name, generation: provider.getGenerationConfig?.('analyze'), useExamples };
+};
+
+// Calls the provider directly, without the result cache or the offline fallback, so the run measures that provider alone.
+// Failed items keep their error and are left out of the metrics.
+export const runEvaluation = async (
+    run: EvaluationRun,
+    onProgress: (done: number, total: number) => void = () => {},
+    signal?: AbortSignal,
+): Promise<EvaluationRun> => {
+    const provider = getProvider(run.config.providerId);
+    const examples = run.config.useExamples ? selectFewShotExamples(listExamples()) : [];
+    const items: EvaluationItem[] = [];
+    for (const item of run.items) {
+        if (signal?.aborted) break;
+        try {
+            const result = await provider.analyze(item.text, { examples });
+            items.push({ ...item, predicted: getIntendedSentiment(result), confidence: result.confidence });
+        } catch (error) {
+            items.push({ ...item, error: describeRequestError(classifyError(error).kind) });
+        }
+        onProgress(items.length, run.items.length);
+    }
+    const complete = items.length === run.items.length;
+    return { ...run, items: complete ? items : [...items, ...run.items.slice(items.length)], complete };
+};
+
+export const createEvaluationRun = (name: string, datasetName: string, config: EvaluationConfig, items: EvaluationItem[]): EvaluationRun => ({
+    id: createId(),
+    name,
+    datasetName,
+    createdAt: new Date().toISOString(),
+    config,
+    items,
+    complete: false,
+});
+
+export interface EvaluationSummary extends CalibrationReport {
+    // Items the provider failed on, plus items a stopped run never reached.
+    errors: number;
+    unscored: number;
+}
+
+export const summarizeEvaluation = (run: EvaluationRun): EvaluationSummary => {
+    const scored = run.items.flatMap((item): ScoredPrediction[] => item.predicted && item.confidence !== undefined
+        ? [{ expected: item.expected, predicted: item.predicted, confidence: item.confidence }]
+        : []);
+    const errors = run.items.filter(item => item.error).length;
+    return { ...buildCalibrationReport(scored), errors, unscored: run.items.length - scored.length - errors };
+};
+
+export const saveEvaluationRun = (run: EvaluationRun) =>
+    withStore(STORE, 'readwrite', store => requestToPromise(store.put(run)));
+
+export const deleteEvaluationRun = (id: string) =>
+    withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+
+// Newest first.
+export const listEvaluationRuns = async (): Promise<EvaluationRun[]> => {
+    const runs = await withStore(STORE, 'readonly', store =>
+        requestToPromise(store.index('createdAt').getAll() as IDBRequest<EvaluationRun[]>));
+    return runs.reverse();
+};
@@ -0,0 +1,67 @@
+import { LabelledExample, Sentiment } from '../types';
+import { readJson, writeJson } from './localStore';
+import { createId } from './database';
+
+const EXAMPLES_KEY = 'examples';
+
+// More examples make every request longer and slower; a dozen is enough to show the team's conventions.
+export const MAX_FEW_SHOT_EXAMPLES = 12;
+
+const SENTIMENTS = Object.values(Sentiment) as string[];
+
+export const listExamples = (): LabelledExample[] => readJson<LabelledExample[]>(EXAMPLES_KEY, []);
+
+const writeExamples = (examples: LabelledExample[]) => writeJson(EXAMPLES_KEY, examples);
+
+// Adds the examples, replacing any existing example with the same text so a text is only ever labelled once.
+export const addExamples = (entries: { text: string; sentiment: Sentiment }[]): LabelledExample[] => {
+    const added = entries
+        .filter(entry => entry.text.trim())
+        .map(entry => ({ id: createId(), text: entry.text.trim(), sentiment: entry.sentiment, createdAt: new Date().toISOString() }));
+    const texts = new Set(added.map(e => e.text));
+    const examples = [...listExamples().filter(e => !texts.has(e.text)), ...added];
+    writeExamples(examples);
+    return examples;
+};
+
+export const updateExampleSentiment = (id: string, sentiment: Sentiment): LabelledExample[] => {
+    const examples = listExamples().map(e => e.id === id ? { ...e, sentiment } : e);
+    writeExamples(examples);
+    return examples;
+};
+
+export const deleteExample = (id: string): LabelledExample[] => {
+    const examples = listExamples().filter(e => e.id !== id);
+    writeExamples(examples);
+    return examples;
+};
+
+// Parses pasted lines such as "neutral: The package arrived on Tuesday." Returns the 1-based numbers of lines it couldn't read.
+export const parseLabelledLines = (input: string): { entries: { text: string; sentiment: Sentiment }[]; invalidLines: number[] } => {
+    const entries: { text: string; sentiment: Sentiment }[] = [];
+    const invalidLines: number[] = [];
+    input.split(/\r?\n/).forEach((line, i) => {
+        if (!line.trim()) return;
+        const match = line.match(/^\s*(\w+)\s*[:,\t]\s*(.+)$/);
+        const sentiment = match?.[1].toLowerCase();
+        if (!match || !sentiment || !SENTIMENTS.includes(sentiment)) {
+            invalidLines.push(i + 1);
+            return;
+        }
+        entries.push({ sentiment: sentiment as Sentiment, text: match[2].trim() });
+    });
+    return { entries, invalidLines };
+};
+
+// Picks the newest examples of each sentiment in turn, so no label dominates the prompt.
+export const selectFewShotExamples = (examples: LabelledExample[], limit = MAX_FEW_SHOT_EXAMPLES): LabelledExample[] => {
+    const newestFirst = [...examples].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const queues = SENTIMENTS.map(s => newestFirst.filter(e => e.sentiment === s));
+    const selected: LabelledExample[] = [];
+    for (let round = 0; selected.length < limit && queues.some(q => q.length > round); round++) {
+        for (const queue of queues) {
+            if (queue[round] && selected.length < limit) selected.push(queue[round]);
+        }
+    }
+    return selected;
+};
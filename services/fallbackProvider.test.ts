@@ -0,0 +1,32 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Sentiment } from '../types';
+import { createFallbackAnalysis } from './fallbackProvider';
+
+beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+describe('createFallbackAnalysis', () => {
+    it('scores English text from the lexicon', () => {
+        const result = createFallbackAnalysis('The service was excellent.');
+        expect(result).toMatchObject({ sentiment: Sentiment.Positive, language: 'en', apiUsed: 'fallback' });
+        expect(result.confidence).toBeGreaterThan(0.8);
+    });
+
+    it.each([
+        ['Es un producto excelente, me encanta', 'es'],
+        ['Это ужасно', 'ru'],
+    ])('only guesses at text it cannot read: %s', (text, language) => {
+        const result = createFallbackAnalysis(text);
+        expect(result).toMatchObject({ sentiment: Sentiment.Neutral, confidence: 0.5, language });
+        expect(result.explanation).toContain('only understands English');
+    });
+
+    it('only guesses at English text without sentiment words', () => {
+        expect(createFallbackAnalysis('The parcel arrived on Tuesday.').confidence).toBe(0.5);
+    });
+});
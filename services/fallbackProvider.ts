@@ -0,0 +1,99 @@
+import { Sentiment, SentimentAnalysisResult, MoodEnhancerResult, AnalysisPreferences } from '../types';
+import { SentimentProvider } from './sentimentProvider';
+import { analyzeLexicon, LexiconAnalysis } from './lexiconEngine';
+import { performOfflineAdvancedAnalysis, compareOffline, extractAspectsOffline, scoreFineGrainedOffline } from './offlineInsights';
+import { detectSarcasmOffline, isSarcastic } from './sarcasmDetection';
+import { extractSpansOffline } from './sentimentSpans';
+import { classifyOffline } from './taxonomyClassifier';
+import { detectLanguage, getStopWords, getLanguageName, segmentWords, isUnspacedWord, UNDETERMINED_LANGUAGE } from './languageDetection';
+
+export const FALLBACK_PROVIDER_ID = 'fallback';
+
+export const extractKeywords = (text: string, language = detectLanguage(text).code): string[] => {
+  const stopWords = new Set([...getStopWords('en'), ...getStopWords(language)]);
+
+  // Words in unspaced scripts such as Chinese are often only two characters long.
+  const words = segmentWords(text)
+      .filter(word => Array.from(word).length > (isUnspacedWord(word) ? 1 : 2) && !stopWords.has(word));
+
+  const wordCount: { [key: string]: number } = {};
+  words.forEach(word => {
+      wordCount[word] = (wordCount[word] || 0) + 1;
+  });
+
+  return Object.entries(wordCount)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(entry => entry[0]);
+};
+
+const describeCues = (analysis: LexiconAnalysis, language: string) => {
+    // The lexicon is English, so other languages mostly come out neutral.
+    if (language !== 'en' && language !== UNDETERMINED_LANGUAGE && !analysis.cues.length) {
+        return `The offline engine only understands English sentiment words, so this ${getLanguageName(language)} text could not be scored and reads as ${analysis.sentiment}.`;
+    }
+    const strongest = [...analysis.cues]
+        .sort((a, b) => Math.abs(b.valence) - Math.abs(a.valence))
+        .slice(0, 3)
+        .map(cue => `"${cue.text}" (${cue.valence > 0 ? '+' : ''}${cue.valence.toFixed(1)})`);
+    if (!strongest.length) {
+        return `No sentiment-bearing words were found, so the text reads as ${analysis.sentiment}.`;
+    }
+    return `Offline lexicon analysis rates the text ${analysis.sentiment}, driven mostly by ${strongest.join(', ')}.`;
+};
+
+export const createFallbackAnalysis = (text: string, preferences: AnalysisPreferences = {}): SentimentAnalysisResult => {
+    console.warn("Using fallback sentiment analysis.");
+    const language = detectLanguage(text).code;
+    const analysis = analyzeLexicon(text, language);
+    const sarcasm = detectSarcasmOffline(text, analysis);
+
+    return {
+        text,
+        sentiment: analysis.sentiment,
+        confidence: analysis.confidence,
+        scores: analysis.scores,
+        keywords: extractKeywords(text, language),
+        explanation: describeCues(analysis, language),
+        sentenceBreakdown: analysis.sentences.map(({ sentence, sentiment, score }, i) => ({
+            sentence, sentiment, score,
+            sarcasm: isSarcastic(sarcasm.sentences[i]) ? sarcasm.sentences[i] : undefined,
+        })),
+        spans: extractSpansOffline(text, analysis),
+        sarcasm: sarcasm.overall,
+        aspects: preferences.mode === 'aspect' ? extractAspectsOffline(text, analysis) : undefined,
+        classification: preferences.mode === 'classify' && preferences.taxonomy ? classifyOffline(text, preferences.taxonomy) : undefined,
+        fineGrained: preferences.scheme === 'fine-grained' ? scoreFineGrainedOffline(text, analysis) : undefined,
+        language,
+        timestamp: new Date().toISOString(),
+        apiUsed: FALLBACK_PROVIDER_ID,
+    };
+};
+
+export const createFallbackMoodEnhancers = (sentiment: Sentiment): MoodEnhancerResult => {
+    if (sentiment === Sentiment.Negative) {
+        return {
+            quote: "Even the darkest night will end and the sun will rise. - Victor Hugo",
+            playlist: { name: "Hopeful Instrumentals", url: "https://music.youtube.com/search?q=hopeful+instrumentals" }
+        };
+    }
+    if (sentiment === Sentiment.Positive) {
+        return {
+            quote: "Keep your face always toward the sunshine—and shadows will fall behind you. - Walt Whitman",
+            playlist: { name: "Feel-Good Indie Rock", url: "https://music.youtube.com/search?q=feel+good+indie+rock" }
+        };
+    }
+    return {
+        quote: "The universe is under no obligation to make sense to you. - Neil deGrasse Tyson",
+        playlist: { name: "Focus & Ambient", url: "https://music.youtube.com/search?q=focus+ambient" }
+    };
+};
+
+export const fallbackProvider: SentimentProvider = {
+    id: FALLBACK_PROVIDER_ID,
+    name: 'Offline lexicon engine',
+    analyze: async (text: string, preferences?: AnalysisPreferences) => createFallbackAnalysis(text, preferences),
+    advanced: async (text: string) => ({ ...performOfflineAdvancedAnalysis(text), apiUsed: FALLBACK_PROVIDER_ID }),
+    compare: async (textA: string, textB: string) => ({ ...compareOffline(textA, textB), apiUsed: FALLBACK_PROVIDER_ID }),
+    mood: async (sentiment: Sentiment, _text: string) => createFallbackMoodEnhancers(sentiment),
+};
@@ -0,0 +1,22 @@
+import { SentimentScores, FineGrainedScores } from '../types';
+
+// A text is mixed when both poles carry real weight and the weaker one is at least this share of the stronger.
+const MIXED_MIN_SCORE = 0.12;
+const MIXED_MIN_RATIO = 0.3;
+
+export const isMixedSentiment = ({ positive, negative }: SentimentScores) => {
+    const weaker = Math.min(positive, negative);
+    return weaker >= MIXED_MIN_SCORE && weaker / Math.max(positive, negative) >= MIXED_MIN_RATIO;
+};
+
+// Splits the valence range into five equal bands, so 0 lands on 3 stars.
+export const toStarRating = (valence: number) =>
+    Math.min(5, Math.max(1, Math.floor((valence + 1) * 2.5) + 1));
+
+// Builds the fine-grained scores every provider reports, so the mixed flag means the same thing for all of them.
+export const createFineGrainedScores = (valence: number, arousal: number, scores: SentimentScores, rating = toStarRating(valence)): FineGrainedScores => ({
+    rating,
+    valence: parseFloat(Math.min(1, Math.max(-1, valence)).toFixed(2)),
+    arousal: parseFloat(Math.min(1, Math.max(0, arousal)).toFixed(2)),
+    mixed: isMixedSentiment(scores),
+});
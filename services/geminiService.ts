@@ -1,5 +1,13 @@
-import { GoogleGenAI, Type } from "@google/genai";
-import { Sentiment, SentimentAnalysisResult, SentimentScores, AdvancedAnalysisResult, MoodEnhancerResult, ComparativeAnalysisResult } from '../types';
+import { GoogleGenAI, Type, FinishReason, GenerateContentParameters, GenerateContentResponse, Schema } from "@google/genai";
+import { Sentiment, SentimentAnalysisResult, AnalysisPreferences, AdvancedAnalysisResult, MoodEnhancerResult, ComparativeAnalysisResult, Taxonomy, GenerationOperation } from '../types';
+import { SentimentProvider } from './sentimentProvider';
+import { executeRequest, RequestError } from './requestExecutor';
+import { reserveUsage } from './usageTracker';
+import { buildContents, describeFewShotExamples, getSystemInstructions } from './prompts';
+import { getGenerationSettings, getGenerationConfig } from './generationSettings';
+import { parseModelJson, validateSentimentAnalysis, validateAdvancedAnalysis, validateComparativeAnalysis, validateMoodEnhancer } from './responseValidation';
+
+export const GEMINI_PROVIDER_ID = 'gemini';
 
 const getAiClient = () => {
     // API key is now securely obtained from environment variables.
@@ -9,84 +17,165 @@ const getAiClient = () => {
     return new GoogleGenAI({ apiKey: process.env.API_KEY });
 };
 
-const extractKeywords = (text: string): string[] => {
-  const stopWords = new Set([
-      'a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 
-      'is', 'are', 'was', 'were', 'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 
-      'will', 'would', 'could', 'should', 'may', 'might', 'must', 'can', 'this', 'that', 
-      'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them'
-  ]);
-  
-  const words = text
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .split(/\s+/)
-      .filter(word => word.length > 2 && !stopWords.has(word));
-  
-  const wordCount: { [key: string]: number } = {};
-  words.forEach(word => {
-      wordCount[word] = (wordCount[word] || 0) + 1;
-  });
-  
-  return Object.entries(wordCount)
-      .sort((a, b) => b[1] - a[1])
-      .slice(0, 5)
-      .map(entry => entry[0]);
-};
+const BLOCKING_FINISH_REASONS = new Set<FinishReason | undefined>([
+    FinishReason.SAFETY, FinishReason.PROHIBITED_CONTENT, FinishReason.BLOCKLIST, FinishReason.SPII,
+]);
 
-const createFallbackAnalysis = (text: string): SentimentAnalysisResult => {
-    console.warn("Using fallback sentiment analysis.");
-    const textLower = text.toLowerCase();
-    const positiveWords = ['love', 'great', 'good', 'excellent', 'amazing', 'happy', 'fantastic', 'wonderful', 'best', 'perfect'];
-    const negativeWords = ['hate', 'terrible', 'bad', 'awful', 'horrible', 'sad', 'worst', 'disappointing', 'poor'];
-    
-    const positiveCount = positiveWords.filter(word => textLower.includes(word)).length;
-    const negativeCount = negativeWords.filter(word => textLower.includes(word)).length;
+const assertNotBlocked = (response: GenerateContentResponse) => {
+    const blockReason = response.promptFeedback?.blockReason;
+    if (blockReason) {
+        throw new RequestError('safety', `Prompt was blocked: ${blockReason}`);
+    }
+    const finishReason = response.candidates?.[0]?.finishReason;
+    if (BLOCKING_FINISH_REASONS.has(finishReason)) {
+        throw new RequestError('safety', `Response was blocked: ${finishReason}`);
+    }
+};
 
-    let sentiment: Sentiment;
-    let confidence: number;
+// Roughly four characters per token, which is close enough to hold a place in the budget until the real count arrives.
+const estimateInputTokens = (params: GenerateContentParameters) =>
+    Math.ceil(JSON.stringify([params.contents, params.config?.systemInstruction ?? '']).length / 4);
 
-    if (positiveCount > negativeCount) {
-        sentiment = Sentiment.Positive;
-        confidence = Math.min(0.95, 0.7 + (positiveCount * 0.05));
-    } else if (negativeCount > positiveCount) {
-        sentiment = Sentiment.Negative;
-        confidence = Math.min(0.95, 0.7 + (negativeCount * 0.05));
-    } else {
-        sentiment = Sentiment.Neutral;
-        confidence = 0.75;
+// Every Gemini call goes through the executor for timeouts, retries and the shared concurrency cap,
+// and is checked against and recorded in the usage budgets.
+const generateContent = (params: GenerateContentParameters) => executeRequest(async (abortSignal) => {
+    const reservation = reserveUsage(params.model, estimateInputTokens(params), params.config?.maxOutputTokens);
+    try {
+        const response = await getAiClient().models.generateContent({ ...params, config: { ...params.config, abortSignal } });
+        reservation.settle(response.usageMetadata);
+        assertNotBlocked(response);
+        return response;
+    } finally {
+        reservation.release();
     }
+});
 
-    const scores: SentimentScores = {
-        [Sentiment.Positive]: sentiment === Sentiment.Positive ? confidence : (1 - confidence) / 2,
-        [Sentiment.Negative]: sentiment === Sentiment.Negative ? confidence : (1 - confidence) / 2,
-        [Sentiment.Neutral]: sentiment === Sentiment.Neutral ? confidence : (1 - confidence) / 2,
-    };
-    
+// Reads the settings at call time, so a change applies to the next request. `generation` is recorded on the result.
+const resolveOperation = (operation: GenerationOperation) => {
+    const settings = getGenerationSettings();
+    const generation = getGenerationConfig(operation, settings);
+    const { model, temperature, topP, maxOutputTokens, seed, thinkingBudget } = generation;
     return {
-        text,
-        sentiment,
-        confidence,
-        scores,
-        keywords: extractKeywords(text),
-        explanation: `Analysis based on keyword matching. The text seems to be ${sentiment}.`,
-        timestamp: new Date().toISOString(),
-        apiUsed: 'fallback',
+        generation,
+        model,
+        config: {
+            temperature,
+            topP,
+            maxOutputTokens,
+            seed,
+            ...(thinkingBudget !== undefined && { thinkingConfig: { thinkingBudget } }),
+            systemInstruction: getSystemInstructions(settings.promptVariant)[operation],
+        },
     };
 };
 
-const escapeForPrompt = (text: string) => text.replace(/"/g, '\\"');
+const ASPECTS_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    description: "Each aspect (product feature, service attribute or other target) the text expresses an opinion about.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            aspect: { type: Type.STRING, description: "A short, lowercase name for the aspect, e.g. 'battery' or 'customer service'." },
+            sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"], description: "The sentiment expressed about this aspect." },
+            score: { type: Type.NUMBER, description: "Polarity about this aspect from -1.0 (most negative) to 1.0 (most positive)." },
+            opinions: { type: Type.ARRAY, items: { type: Type.STRING }, description: "The exact phrases from the text that express the opinion about this aspect." },
+        },
+        required: ["aspect", "sentiment", "score", "opinions"],
+    },
+};
+
+const SPANS_SCHEMA: Schema = {
+    type: Type.ARRAY,
+    description: "The words and phrases that drive the sentiment, in the order they appear in the text.",
+    items: {
+        type: Type.OBJECT,
+        properties: {
+            text: { type: Type.STRING, description: "The phrase, copied exactly from the text, including any negation or intensifier that modifies it." },
+            sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"], description: "The sentiment the phrase expresses." },
+            weight: { type: Type.NUMBER, description: "How much the phrase contributes to the overall sentiment, from 0.0 to 1.0." },
+        },
+        required: ["text", "sentiment", "weight"],
+    },
+};
+
+const SARCASM_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        probability: { type: Type.NUMBER, description: "Likelihood from 0.0 to 1.0 that this is sarcastic or ironic." },
+        trigger: { type: Type.STRING, description: "The exact phrase that signals the sarcasm or irony, if any." },
+        adjustedSentiment: {
+            type: Type.STRING,
+            enum: ["positive", "negative", "neutral"],
+            description: "The sentiment actually meant. Only include it when sarcasm or irony flips the literal sentiment.",
+        },
+    },
+    required: ["probability"],
+};
+
+const FINE_GRAINED_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    description: "Fine-grained scores for the text as a whole.",
+    properties: {
+        rating: { type: Type.INTEGER, description: "A star rating from 1 (very negative) to 5 (very positive), as a reviewer would give." },
+        valence: { type: Type.NUMBER, description: "How pleasant the text is, from -1.0 (most unpleasant) to 1.0 (most pleasant)." },
+        arousal: { type: Type.NUMBER, description: "How emotionally intense or energetic the text is, from 0.0 (calm) to 1.0 (highly charged)." },
+    },
+    required: ["rating", "valence", "arousal"],
+};
+
+// The label enum comes from the user's taxonomy, so the schema is built per request.
+const createClassificationSchema = (taxonomy: Taxonomy): Schema => {
+    const labels = taxonomy.labels.map(label => label.name);
+    return {
+        type: Type.OBJECT,
+        description: "The single label from the taxonomy that best fits the text.",
+        properties: {
+            label: { type: Type.STRING, enum: labels, description: "The name of the best-fitting label." },
+            scores: {
+                type: Type.ARRAY,
+                description: "How well the text fits each label, one entry per label; the scores should sum to 1.0.",
+                items: {
+                    type: Type.OBJECT,
+                    properties: {
+                        label: { type: Type.STRING, enum: labels },
+                        score: { type: Type.NUMBER, description: "Probability from 0.0 to 1.0 that this label applies." },
+                    },
+                    required: ["label", "score"],
+                },
+            },
+            rationale: { type: Type.STRING, description: "One sentence explaining why the chosen label fits, citing the text." },
+        },
+        required: ["label", "scores", "rationale"],
+    };
+};
 
-export const analyzeSentiment = async (text: string): Promise<SentimentAnalysisResult> => {
-  try {
-    const ai = getAiClient();
-    const escapedText = escapeForPrompt(text);
+// Label definitions are written by the user running the dashboard, not by the author of the text, so they go in the task.
+const describeTaxonomy = (taxonomy: Taxonomy) => taxonomy.labels.map(label => [
+    `- "${label.name}"${label.description ? `: ${label.description}` : ''}`,
+    ...label.examples.map(example => `  Example: ${JSON.stringify(example)}`),
+].join('\n')).join('\n');
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: `Analyze the sentiment of the following text, and also provide a breakdown of sentiment for each sentence.
-Text: "${escapedText}"`,
+const analyzeWithGemini = async (text: string, preferences: AnalysisPreferences = {}): Promise<SentimentAnalysisResult> => {
+    const aspectMode = preferences.mode === 'aspect';
+    const taxonomy = preferences.mode === 'classify' ? preferences.taxonomy : undefined;
+    const fineGrained = preferences.scheme === 'fine-grained';
+    const translate = !!preferences.translate;
+    const task = [
+        "Analyze the sentiment of the `text` field, and also provide a breakdown of sentiment for each sentence.",
+        preferences.examples?.length && `${describeFewShotExamples(preferences.examples)}\n`,
+        "Quote the phrases that drive the sentiment, so they can be highlighted in the text.",
+        "Judge whether the text, and each of its sentences, is sarcastic or ironic. Report the literal sentiment as `sentiment`, and the intended one as `adjustedSentiment` when irony flips it.",
+        aspectMode && "Identify every aspect the text gives an opinion about, with the sentiment towards each one.",
+        fineGrained && "Also rate the text from 1 to 5 stars and place it on the valence and arousal scales.",
+        translate && "If the text is not in English, also translate it into English.",
+        taxonomy && `Classify the text into exactly one of these labels, scoring how well it fits each:\n${describeTaxonomy(taxonomy)}`,
+    ].filter(Boolean).join(' ');
+    const { generation, model, config } = resolveOperation('analyze');
+    const response = await generateContent({
+      model,
+      contents: buildContents(task, { text }),
       config: {
+        ...config,
         responseMimeType: "application/json",
         responseSchema: {
           type: Type.OBJECT,
@@ -126,103 +215,81 @@ Text: "${escapedText}"`,
                     properties: {
                         sentence: { type: Type.STRING, description: "The sentence text." },
                         sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"], description: "The sentiment of the sentence." },
-                        score: { type: Type.NUMBER, description: "Confidence score for the sentence's sentiment, from 0.0 to 1.0." }
+                        score: { type: Type.NUMBER, description: "Confidence score for the sentence's sentiment, from 0.0 to 1.0." },
+                        sarcasm: { ...SARCASM_SCHEMA, description: "Include only when the sentence may be sarcastic or ironic." },
                     },
                     required: ["sentence", "sentiment", "score"]
                 }
-            }
+            },
+            spans: SPANS_SCHEMA,
+            sarcasm: { ...SARCASM_SCHEMA, description: "How likely the text as a whole is sarcastic or ironic." },
+            language: { type: Type.STRING, description: "The ISO 639-1 code of the language the text is written in, e.g. 'en', 'es' or 'zh'." },
+            ...(translate && { translation: { type: Type.STRING, description: "A faithful English translation of the text. Leave empty if the text is already in English." } }),
+            ...(aspectMode && { aspects: ASPECTS_SCHEMA }),
+            ...(fineGrained && { fineGrained: FINE_GRAINED_SCHEMA }),
+            ...(taxonomy && { classification: createClassificationSchema(taxonomy) }),
           },
-          required: ["sentiment", "confidence", "scores", "keywords", "explanation", "sentenceBreakdown"],
+          required: [
+            "sentiment", "confidence", "scores", "keywords", "explanation", "sentenceBreakdown", "spans", "sarcasm", "language",
+            ...(aspectMode ? ["aspects"] : []), ...(fineGrained ? ["fineGrained"] : []), ...(translate ? ["translation"] : []),
+            ...(taxonomy ? ["classification"] : []),
+          ],
         },
       },
     });
 
-    const jsonString = response.text;
-    const analysis = JSON.parse(jsonString);
+    const analysis = validateSentimentAnalysis(parseModelJson(response.text, 'SentimentAnalysisResult'), text, taxonomy);
 
     return {
       text,
-      sentiment: analysis.sentiment as Sentiment,
-      confidence: analysis.confidence,
-      scores: analysis.scores,
-      keywords: analysis.keywords,
-      explanation: analysis.explanation,
-      sentenceBreakdown: analysis.sentenceBreakdown || [],
+      ...analysis,
       timestamp: new Date().toISOString(),
-      apiUsed: 'gemini',
+      apiUsed: GEMINI_PROVIDER_ID,
+      generation,
     };
-  } catch (error) {
-    console.error("Gemini API call failed:", error);
-    return createFallbackAnalysis(text);
-  }
 };
 
-export const getMoodEnhancers = async (sentiment: Sentiment, text: string): Promise<MoodEnhancerResult> => {
-    try {
-        const ai = getAiClient();
-        const escapedText = escapeForPrompt(text.substring(0, 500));
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `The user's text has been analyzed with a '${sentiment}' sentiment. 
-            Based on this, provide:
-            1. A short, single-sentence quote or poetic line that resonates with this mood.
-            2. A music playlist suggestion (e.g., "Uplifting Pop Hits") with a direct search URL for YouTube Music or Spotify.
-
-            User's text for context: "${escapedText}..."
-            `,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        quote: {
-                            type: Type.STRING,
-                            description: "A short, single-sentence quote or poetic line."
-                        },
-                        playlist: {
-                            type: Type.OBJECT,
-                            properties: {
-                                name: { type: Type.STRING, description: "The name of the playlist." },
-                                url: { type: Type.STRING, description: "A direct search URL for the playlist on YouTube Music or Spotify." }
-                            },
-                            required: ["name", "url"]
-                        }
+const getMoodEnhancersWithGemini = async (sentiment: Sentiment, text: string): Promise<MoodEnhancerResult> => {
+    const { model, config } = resolveOperation('mood');
+    const response = await generateContent({
+        model,
+        contents: buildContents(`The \`text\` field has been analyzed with a '${sentiment}' sentiment.
+Based on this, provide:
+1. A short, single-sentence quote or poetic line that resonates with this mood.
+2. A music playlist suggestion (e.g., "Uplifting Pop Hits") with a direct search URL for YouTube Music or Spotify.`, { text: text.substring(0, 500) }),
+        config: {
+            ...config,
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    quote: {
+                        type: Type.STRING,
+                        description: "A short, single-sentence quote or poetic line."
                     },
-                    required: ["quote", "playlist"]
-                }
+                    playlist: {
+                        type: Type.OBJECT,
+                        properties: {
+                            name: { type: Type.STRING, description: "The name of the playlist." },
+                            url: { type: Type.STRING, description: "A direct search URL for the playlist on YouTube Music or Spotify." }
+                        },
+                        required: ["name", "url"]
+                    }
+                },
+                required: ["quote", "playlist"]
             }
-        });
-        const jsonString = response.text;
-        return JSON.parse(jsonString) as MoodEnhancerResult;
-    } catch (error) {
-        console.error("Failed to get mood enhancers:", error);
-        // Provide a graceful fallback
-        if (sentiment === Sentiment.Negative) {
-            return {
-                quote: "Even the darkest night will end and the sun will rise. - Victor Hugo",
-                playlist: { name: "Hopeful Instrumentals", url: "https://music.youtube.com/search?q=hopeful+instrumentals" }
-            };
         }
-        if (sentiment === Sentiment.Positive) {
-            return {
-                quote: "Keep your face always toward the sunshine—and shadows will fall behind you. - Walt Whitman",
-                playlist: { name: "Feel-Good Indie Rock", url: "https://music.youtube.com/search?q=feel+good+indie+rock" }
-            };
-        }
-        return {
-            quote: "The universe is under no obligation to make sense to you. - Neil deGrasse Tyson",
-            playlist: { name: "Focus & Ambient", url: "https://music.youtube.com/search?q=focus+ambient" }
-        };
-    }
+    });
+    return validateMoodEnhancer(parseModelJson(response.text, 'MoodEnhancerResult'));
 };
 
-export const performAdvancedAnalysis = async (text: string): Promise<AdvancedAnalysisResult> => {
-    const ai = getAiClient();
-    const escapedText = escapeForPrompt(text);
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash',
-        contents: `Perform an advanced analysis of the following text, extracting key emotions, tones, and named entities. Text: "${escapedText}"`,
+const performAdvancedAnalysisWithGemini = async (text: string): Promise<AdvancedAnalysisResult> => {
+    const { generation, model, config } = resolveOperation('advanced');
+    const response = await generateContent({
+        model,
+        contents: buildContents("Perform an advanced analysis of the `text` field, extracting key emotions, tones, and named entities.", { text }),
         config: {
+            ...config,
             responseMimeType: "application/json",
             responseSchema: {
                 type: Type.OBJECT,
@@ -270,86 +337,88 @@ export const performAdvancedAnalysis = async (text: string): Promise<AdvancedAna
         }
     });
 
-    const jsonString = response.text;
-    return JSON.parse(jsonString) as AdvancedAnalysisResult;
+    const analysis = validateAdvancedAnalysis(parseModelJson(response.text, 'AdvancedAnalysisResult'));
+    return { ...analysis, apiUsed: GEMINI_PROVIDER_ID, generation };
 };
 
-export const compareSentiments = async (textA: string, textB: string): Promise<ComparativeAnalysisResult> => {
-    try {
-        const ai = getAiClient();
-        const escapedTextA = escapeForPrompt(textA);
-        const escapedTextB = escapeForPrompt(textB);
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: `Perform a comparative sentiment analysis on the following two texts.
-Text A: "${escapedTextA}"
-Text B: "${escapedTextB}"
-Analyze sentiment, confidence, scores, keywords (shared and unique), and provide a summary and emotional contrast.`,
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        summary: { type: Type.STRING, description: "A one-sentence summary comparing the overall sentiment of the two texts." },
-                        comparison: {
-                            type: Type.OBJECT,
-                            properties: {
-                                textA: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"] },
-                                        confidence: { type: Type.NUMBER },
-                                        scores: {
-                                            type: Type.OBJECT,
-                                            properties: {
-                                                positive: { type: Type.NUMBER },
-                                                negative: { type: Type.NUMBER },
-                                                neutral: { type: Type.NUMBER },
-                                            },
-                                            required: ["positive", "negative", "neutral"]
+const compareSentimentsWithGemini = async (textA: string, textB: string): Promise<ComparativeAnalysisResult> => {
+    const { generation, model, config } = resolveOperation('compare');
+    const response = await generateContent({
+        model,
+        contents: buildContents(`Perform a comparative sentiment analysis on the \`textA\` (Text A) and \`textB\` (Text B) fields.
+Analyze sentiment, confidence, scores, keywords (shared and unique), and provide a summary and emotional contrast.`, { textA, textB }),
+        config: {
+            ...config,
+            responseMimeType: "application/json",
+            responseSchema: {
+                type: Type.OBJECT,
+                properties: {
+                    summary: { type: Type.STRING, description: "A one-sentence summary comparing the overall sentiment of the two texts." },
+                    comparison: {
+                        type: Type.OBJECT,
+                        properties: {
+                            textA: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"] },
+                                    confidence: { type: Type.NUMBER },
+                                    scores: {
+                                        type: Type.OBJECT,
+                                        properties: {
+                                            positive: { type: Type.NUMBER },
+                                            negative: { type: Type.NUMBER },
+                                            neutral: { type: Type.NUMBER },
                                         },
+                                        required: ["positive", "negative", "neutral"]
                                     },
-                                    required: ["sentiment", "confidence", "scores"]
                                 },
-                                textB: {
-                                    type: Type.OBJECT,
-                                    properties: {
-                                        sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"] },
-                                        confidence: { type: Type.NUMBER },
-                                        scores: {
-                                            type: Type.OBJECT,
-                                            properties: {
-                                                positive: { type: Type.NUMBER },
-                                                negative: { type: Type.NUMBER },
-                                                neutral: { type: Type.NUMBER },
-                                            },
-                                            required: ["positive", "negative", "neutral"]
+                                required: ["sentiment", "confidence", "scores"]
+                            },
+                            textB: {
+                                type: Type.OBJECT,
+                                properties: {
+                                    sentiment: { type: Type.STRING, enum: ["positive", "negative", "neutral"] },
+                                    confidence: { type: Type.NUMBER },
+                                    scores: {
+                                        type: Type.OBJECT,
+                                        properties: {
+                                            positive: { type: Type.NUMBER },
+                                            negative: { type: Type.NUMBER },
+                                            neutral: { type: Type.NUMBER },
                                         },
+                                        required: ["positive", "negative", "neutral"]
                                     },
-                                    required: ["sentiment", "confidence", "scores"]
                                 },
+                                required: ["sentiment", "confidence", "scores"]
                             },
-                            required: ["textA", "textB"]
                         },
-                        sharedKeywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Keywords present in both texts." },
-                        uniqueKeywords: {
-                            type: Type.OBJECT,
-                            properties: {
-                                textA: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Keywords unique to Text A." },
-                                textB: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Keywords unique to Text B." },
-                            },
-                            required: ["textA", "textB"]
+                        required: ["textA", "textB"]
+                    },
+                    sharedKeywords: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Keywords present in both texts." },
+                    uniqueKeywords: {
+                        type: Type.OBJECT,
+                        properties: {
+                            textA: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Keywords unique to Text A." },
+                            textB: { type: Type.ARRAY, items: { type: Type.STRING }, description: "Keywords unique to Text B." },
                         },
-                        emotionalContrast: { type: Type.STRING, description: "A brief description of the difference in emotional tone or intensity." }
+                        required: ["textA", "textB"]
                     },
-                    required: ["summary", "comparison", "sharedKeywords", "uniqueKeywords", "emotionalContrast"]
-                }
+                    emotionalContrast: { type: Type.STRING, description: "A brief description of the difference in emotional tone or intensity." }
+                },
+                required: ["summary", "comparison", "sharedKeywords", "uniqueKeywords", "emotionalContrast"]
             }
-        });
-        const jsonString = response.text;
-        return JSON.parse(jsonString) as ComparativeAnalysisResult;
-    } catch (error) {
-        console.error("Gemini comparison API call failed:", error);
-        throw new Error("We couldn't compare the texts right now. This might be due to the complexity of the text or a temporary connection issue. Please try again with different text.");
-    }
-};
\ No newline at end of file
+        }
+    });
+    const comparison = validateComparativeAnalysis(parseModelJson(response.text, 'ComparativeAnalysisResult'));
+    return { ...comparison, apiUsed: GEMINI_PROVIDER_ID, generation };
+};
+
+export const geminiProvider: SentimentProvider = {
+    id: GEMINI_PROVIDER_ID,
+    name: 'Google Gemini',
+    getGenerationConfig: (operation) => getGenerationConfig(operation),
+    analyze: analyzeWithGemini,
+    advanced: performAdvancedAnalysisWithGemini,
+    compare: compareSentimentsWithGemini,
+    mood: getMoodEnhancersWithGemini,
+};
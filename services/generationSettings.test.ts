@@ -0,0 +1,78 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerationSettings } from '../types';
+import {
+    DEFAULT_GENERATION_SETTINGS, describeGenerationConfig, getGenerationConfig, getGenerationSettings, resetGenerationSettings, saveGenerationSettings,
+} from './generationSettings';
+import { getPromptVersion } from './prompts';
+
+const memoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        key: i => [...items.keys()][i] ?? null,
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => { items.set(key, value); },
+        removeItem: key => { items.delete(key); },
+        clear: () => items.clear(),
+    };
+};
+
+const withAnalyze = (analyze: Record<string, unknown>, promptVariant = 'standard') => ({
+    ...DEFAULT_GENERATION_SETTINGS,
+    operations: { ...DEFAULT_GENERATION_SETTINGS.operations, analyze },
+    promptVariant,
+}) as unknown as GenerationSettings;
+
+beforeEach(() => {
+    vi.stubGlobal('window', { localStorage: memoryStorage() });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('saveGenerationSettings', () => {
+    it('clamps values to the ranges the API accepts', () => {
+        const saved = saveGenerationSettings(withAnalyze({
+            model: 'gemini-2.5-flash', temperature: 3, topP: -1, maxOutputTokens: 100.4, thinkingBudget: 99999, seed: 2 ** 40,
+        }));
+        expect(saved.operations.analyze).toEqual({
+            model: 'gemini-2.5-flash', temperature: 2, topP: 0, maxOutputTokens: 100, thinkingBudget: 24576, seed: 2147483647,
+        });
+        expect(getGenerationSettings()).toEqual(saved);
+    });
+
+    it('keeps the thinking budget within the model range and drops it for models that do not think', () => {
+        expect(saveGenerationSettings(withAnalyze({ model: 'gemini-2.5-pro', thinkingBudget: 0 })).operations.analyze.thinkingBudget).toBe(128);
+        expect(saveGenerationSettings(withAnalyze({ model: 'gemini-2.0-flash', thinkingBudget: 512 })).operations.analyze.thinkingBudget).toBeUndefined();
+    });
+
+    it('replaces unknown models and prompt variants and drops values that are not numbers', () => {
+        const saved = saveGenerationSettings(withAnalyze({ model: 'gpt-4', temperature: '0.5', topP: NaN }, 'shouty'));
+        expect(saved.operations.analyze).toMatchObject({ model: 'gemini-2.5-flash', temperature: undefined, topP: undefined });
+        expect(saved.promptVariant).toBe('standard');
+    });
+});
+
+describe('getGenerationSettings', () => {
+    it('fills in operations missing from older stored settings', () => {
+        window.localStorage.setItem('senticorex.generation', JSON.stringify({ operations: { analyze: { model: 'gemini-2.5-pro' } } }));
+        const settings = getGenerationSettings();
+        expect(settings.operations.analyze.model).toBe('gemini-2.5-pro');
+        expect(settings.operations.mood).toEqual(DEFAULT_GENERATION_SETTINGS.operations.mood);
+    });
+
+    it('goes back to the defaults on reset', () => {
+        saveGenerationSettings(withAnalyze({ model: 'gemini-2.5-pro', temperature: 1 }));
+        expect(resetGenerationSettings().operations.analyze).toMatchObject({ model: 'gemini-2.5-flash', temperature: 0 });
+    });
+});
+
+describe('getGenerationConfig', () => {
+    it('lists only the values that are set, with the prompt version', () => {
+        const settings = saveGenerationSettings(withAnalyze({ model: 'gemini-2.5-flash', temperature: 0, seed: 7 }, 'strict-neutral'));
+        const config = getGenerationConfig('analyze', settings);
+        expect(config).toEqual({ model: 'gemini-2.5-flash', temperature: 0, seed: 7, promptVersion: getPromptVersion('strict-neutral') });
+        expect(describeGenerationConfig(config)).toBe(`gemini-2.5-flash · prompt v${config.promptVersion} · temp 0 · seed 7`);
+    });
+});
@@ -0,0 +1,102 @@
+import { GenerationSettings, GenerationOperation, GenerationConfig, ModelSettings } from '../types';
+import { readJson, writeJson } from './localStore';
+import { DEFAULT_PROMPT_VARIANT, PROMPT_VARIANTS, getPromptVersion } from './prompts';
+
+const SETTINGS_KEY = 'generation';
+
+export interface ModelInfo {
+    id: string;
+    label: string;
+    // The allowed thinking budget; a minimum of 0 means thinking can be turned off. Absent for models that don't think.
+    thinking?: { min: number; max: number };
+}
+
+export const GEMINI_MODELS: ModelInfo[] = [
+    { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', thinking: { min: 0, max: 24576 } },
+    { id: 'gemini-2.5-flash-lite', label: 'Gemini 2.5 Flash-Lite', thinking: { min: 0, max: 24576 } },
+    { id: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro', thinking: { min: 128, max: 32768 } },
+    { id: 'gemini-2.0-flash', label: 'Gemini 2.0 Flash' },
+];
+
+export const GENERATION_OPERATIONS: { id: GenerationOperation; label: string }[] = [
+    { id: 'analyze', label: 'Sentiment analysis' },
+    { id: 'advanced', label: 'Deeper analysis' },
+    { id: 'compare', label: 'Comparison' },
+    { id: 'mood', label: 'Mood enhancers' },
+];
+
+const DEFAULT_MODEL = 'gemini-2.5-flash';
+
+// Labelling should be repeatable, so analysis runs cold; quotes and playlists benefit from some variety.
+export const DEFAULT_GENERATION_SETTINGS: GenerationSettings = {
+    operations: {
+        analyze: { model: DEFAULT_MODEL, temperature: 0 },
+        advanced: { model: DEFAULT_MODEL, temperature: 0 },
+        compare: { model: DEFAULT_MODEL, temperature: 0 },
+        mood: { model: DEFAULT_MODEL, temperature: 1 },
+    },
+    promptVariant: DEFAULT_PROMPT_VARIANT,
+};
+
+export const getModelInfo = (id: string): ModelInfo | undefined => GEMINI_MODELS.find(m => m.id === id);
+
+const clampOptional = (value: unknown, min: number, max: number, integer = false): number | undefined => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) return undefined;
+    const clamped = Math.min(max, Math.max(min, value));
+    return integer ? Math.round(clamped) : clamped;
+};
+
+// Drops values the API would reject, so stored settings from an older version or a bad edit can't break requests.
+// An operation missing from older stored settings gets its defaults rather than losing them.
+const normalizeModelSettings = (value: Partial<ModelSettings> | undefined, fallback: ModelSettings): ModelSettings => {
+    if (!value) return { ...fallback };
+    const model = getModelInfo(value?.model ?? '') ? value!.model! : fallback.model;
+    const thinking = getModelInfo(model)?.thinking;
+    return {
+        model,
+        temperature: clampOptional(value?.temperature, 0, 2),
+        topP: clampOptional(value?.topP, 0, 1),
+        maxOutputTokens: clampOptional(value?.maxOutputTokens, 1, 65536, true),
+        thinkingBudget: thinking ? clampOptional(value?.thinkingBudget, thinking.min, thinking.max, true) : undefined,
+        seed: clampOptional(value?.seed, -2147483648, 2147483647, true),
+    };
+};
+
+const normalizeSettings = (value: Partial<GenerationSettings>): GenerationSettings => ({
+    operations: {
+        analyze: normalizeModelSettings(value.operations?.analyze, DEFAULT_GENERATION_SETTINGS.operations.analyze),
+        advanced: normalizeModelSettings(value.operations?.advanced, DEFAULT_GENERATION_SETTINGS.operations.advanced),
+        compare: normalizeModelSettings(value.operations?.compare, DEFAULT_GENERATION_SETTINGS.operations.compare),
+        mood: normalizeModelSettings(value.operations?.mood, DEFAULT_GENERATION_SETTINGS.operations.mood),
+    },
+    promptVariant: PROMPT_VARIANTS.some(v => v.id === value.promptVariant) ? value.promptVariant! : DEFAULT_PROMPT_VARIANT,
+});
+
+export const getGenerationSettings = (): GenerationSettings =>
+    normalizeSettings(readJson<Partial<GenerationSettings>>(SETTINGS_KEY, DEFAULT_GENERATION_SETTINGS));
+
+export const saveGenerationSettings = (settings: GenerationSettings): GenerationSettings => {
+    const normalized = normalizeSettings(settings);
+    writeJson(SETTINGS_KEY, normalized);
+    return normalized;
+};
+
+export const resetGenerationSettings = (): GenerationSettings => saveGenerationSettings(DEFAULT_GENERATION_SETTINGS);
+
+// Unset values are left out, so the recorded configuration only lists what was actually sent.
+export const getGenerationConfig = (operation: GenerationOperation, settings = getGenerationSettings()): GenerationConfig => {
+    const config: GenerationConfig = { ...settings.operations[operation], promptVersion: getPromptVersion(settings.promptVariant) };
+    (Object.keys(config) as (keyof GenerationConfig)[]).forEach(key => { if (config[key] === undefined) delete config[key]; });
+    return config;
+};
+
+// A one-line summary such as "gemini-2.5-flash · prompt v8 · temp 0", listing only the values that were set.
+export const describeGenerationConfig = (config: GenerationConfig): string => [
+    config.model,
+    `prompt v${config.promptVersion}`,
+    config.temperature !== undefined && `temp ${config.temperature}`,
+    config.topP !== undefined && `top-p ${config.topP}`,
+    config.maxOutputTokens !== undefined && `max ${config.maxOutputTokens} tokens`,
+    config.thinkingBudget !== undefined && `thinking ${config.thinkingBudget}`,
+    config.seed !== undefined && `seed ${config.seed}`,
+].filter(Boolean).join(' · ');
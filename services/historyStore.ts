@@ -0,0 +1,137 @@
+import { Sentiment, SentimentAnalysisResult, AdvancedAnalysisResult, ComparativeAnalysisResult, AnalysisKind, AnalysisSource, HistoryRecord, ProviderId, ResultReview } from '../types';
+import { withStore, requestToPromise, createId } from './database';
+
+const STORE = 'analyses';
+
+export interface HistoryQuery {
+    search?: string;
+    kind?: AnalysisKind;
+    sentiment?: Sentiment;
+    provider?: ProviderId;
+    // ISO 639-1 code; only sentiment records carry a language.
+    language?: string;
+    // Inclusive ISO date bounds (YYYY-MM-DD).
+    from?: string;
+    to?: string;
+}
+
+const putRecords = (records: HistoryRecord[]) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        await Promise.all(records.map(record => requestToPromise(store.put(record))));
+    });
+
+export const saveSentimentResults = async (results: SentimentAnalysisResult[], source: AnalysisSource, tags: string[] = []): Promise<SentimentAnalysisResult[]> => {
+    const saved = results.map(result => ({ ...result, id: result.id ?? createId() }));
+    await putRecords(saved.map(result => ({
+        id: result.id,
+        kind: 'sentiment',
+        createdAt: result.timestamp,
+        tags,
+        source,
+        provider: result.apiUsed,
+        result,
+    })));
+    return saved;
+};
+
+export const saveAdvancedResult = async (text: string, result: AdvancedAnalysisResult, source: AnalysisSource, tags: string[] = []) => {
+    await putRecords([{
+        id: createId(),
+        kind: 'advanced',
+        createdAt: new Date().toISOString(),
+        tags,
+        source,
+        provider: result.apiUsed ?? 'unknown',
+        text,
+        result,
+    }]);
+};
+
+export const saveComparisonResult = async (textA: string, textB: string, result: ComparativeAnalysisResult, source: AnalysisSource, tags: string[] = []) => {
+    await putRecords([{
+        id: createId(),
+        kind: 'comparison',
+        createdAt: new Date().toISOString(),
+        tags,
+        source,
+        provider: result.apiUsed ?? 'unknown',
+        textA,
+        textB,
+        result,
+    }]);
+};
+
+export const getRecordSentiments = (record: HistoryRecord): Sentiment[] => {
+    switch (record.kind) {
+        case 'sentiment': return [record.result.sentiment];
+        case 'comparison': return [record.result.comparison.textA.sentiment, record.result.comparison.textB.sentiment];
+        default: return [];
+    }
+};
+
+export const getRecordText = (record: HistoryRecord): string => {
+    switch (record.kind) {
+        case 'sentiment': return record.result.text;
+        case 'advanced': return record.text;
+        case 'comparison': return `${record.textA}\n${record.textB}`;
+    }
+};
+
+export const getRecordLanguage = (record: HistoryRecord): string | undefined =>
+    record.kind === 'sentiment' ? record.result.language : undefined;
+
+const getSearchableText = (record: HistoryRecord) => {
+    const parts = [getRecordText(record), ...record.tags, record.source.name ?? ''];
+    if (record.kind === 'sentiment') parts.push(...record.result.keywords, record.result.explanation, record.result.translation ?? '');
+    else parts.push(record.result.summary);
+    return parts.join(' ').toLowerCase();
+};
+
+const matchesQuery = (record: HistoryRecord, query: HistoryQuery) => {
+    if (query.kind && record.kind !== query.kind) return false;
+    if (query.provider && record.provider !== query.provider) return false;
+    if (query.sentiment && !getRecordSentiments(record).includes(query.sentiment)) return false;
+    if (query.language && getRecordLanguage(record) !== query.language) return false;
+    const day = record.createdAt.slice(0, 10);
+    if (query.from && day < query.from) return false;
+    if (query.to && day > query.to) return false;
+    if (query.search) {
+        const haystack = getSearchableText(record);
+        return query.search.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+    }
+    return true;
+};
+
+export const filterHistory = (records: HistoryRecord[], query: HistoryQuery) =>
+    records.filter(record => matchesQuery(record, query));
+
+// Returns matching records, newest first.
+export const listHistory = async (query: HistoryQuery = {}): Promise<HistoryRecord[]> => {
+    const records = await withStore(STORE, 'readonly', store =>
+        requestToPromise(store.index('createdAt').getAll() as IDBRequest<HistoryRecord[]>));
+    return filterHistory(records.reverse(), query);
+};
+
+export const deleteHistoryRecord = (id: string) =>
+    withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+
+export const updateHistoryTags = (id: string, tags: string[]) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const record = await requestToPromise(store.get(id) as IDBRequest<HistoryRecord | undefined>);
+        if (!record) return;
+        await requestToPromise(store.put({ ...record, tags }));
+    });
+
+// The tags saved on each of the given sentiment results, keyed by result id; results without a record are left out.
+export const getResultTags = (ids: string[]): Promise<Record<string, string[]>> =>
+    withStore(STORE, 'readonly', async (store) => {
+        const records = await Promise.all(ids.map(id => requestToPromise(store.get(id) as IDBRequest<HistoryRecord | undefined>)));
+        return Object.fromEntries(records.flatMap(record => record?.tags.length ? [[record.id, record.tags]] : []));
+    });
+
+export const updateSentimentReview = (id: string, review: ResultReview) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const record = await requestToPromise(store.get(id) as IDBRequest<HistoryRecord | undefined>);
+        if (record?.kind !== 'sentiment') return;
+        await requestToPromise(store.put({ ...record, result: { ...record.result, review } }));
+    });
@@ -0,0 +1,198 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AnalysisSource, BatchJob, BatchJobState, Sentiment, SentimentAnalysisResult } from '../types';
+import { analyzeSentiment } from './analysisService';
+import { requestToPromise, withStore } from './database';
+import { RequestError } from './requestExecutor';
+import { createBatchJob, createJobRunner, JobProgress, loadUnfinishedJob, saveJob } from './jobQueue';
+
+vi.mock('./analysisService', () => ({ analyzeSentiment: vi.fn() }));
+
+const SOURCE: AnalysisSource = { type: 'batch' };
+
+const analyzed = (text: string, overrides: Partial<SentimentAnalysisResult> = {}): SentimentAnalysisResult => ({
+    text,
+    sentiment: Sentiment.Positive,
+    confidence: 0.9,
+    scores: { positive: 0.9, negative: 0.05, neutral: 0.05 },
+    keywords: [],
+    explanation: '',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    apiUsed: 'mock',
+    ...overrides,
+});
+
+// Analyses that finish only when the test says so, to catch the runner between items.
+const deferAnalyses = () => {
+    const pending = new Map<string, () => void>();
+    vi.mocked(analyzeSentiment).mockImplementation(text => new Promise(resolve => pending.set(text, () => resolve(analyzed(text)))));
+    return {
+        finish: (text: string) => {
+            pending.get(text)!();
+            pending.delete(text);
+        },
+        started: () => [...pending.keys()],
+    };
+};
+
+const runnerFor = (texts: string[], concurrency = 1) => {
+    const updates: { job: BatchJob; progress: JobProgress }[] = [];
+    const results: SentimentAnalysisResult[] = [];
+    const runner = createJobRunner(createBatchJob(texts.map(text => ({ text })), SOURCE), {
+        onUpdate: (job, progress) => updates.push({ job, progress }),
+        onResult: result => results.push(result),
+    }, concurrency);
+    const reaches = (state: BatchJobState) => vi.waitFor(() => expect(runner.getJob().state).toBe(state));
+    const statuses = () => runner.getJob().items.map(item => item.status);
+    return { runner, updates, results, reaches, statuses };
+};
+
+const readAll = <T>(store: string) => withStore(store, 'readonly', s => requestToPromise(s.getAll() as IDBRequest<T[]>));
+const savedJob = async (id: string) => (await readAll<BatchJob>('jobs')).find(job => job.id === id);
+
+beforeEach(async () => {
+    await Promise.all(['jobs', 'analyses'].map(store => withStore(store, 'readwrite', s => requestToPromise(s.clear()))));
+    vi.mocked(analyzeSentiment).mockReset();
+});
+
+describe('createJobRunner', () => {
+    it('analyzes every item, saves the results and completes', async () => {
+        vi.mocked(analyzeSentiment).mockImplementation(async text =>
+            analyzed(text, text === 'offline' ? { fallbackReason: 'network' } : {}));
+        const { runner, results, reaches, statuses, updates } = runnerFor(['good', 'offline', 'bad'], 2);
+
+        runner.start();
+        await reaches('completed');
+
+        expect(statuses()).toEqual(['done', 'fallback', 'done']);
+        expect(runner.getJob().items.every(item => item.resultId)).toBe(true);
+        expect(results.map(r => r.text).sort()).toEqual(['bad', 'good', 'offline']);
+        expect(updates.at(-1)!.progress).toMatchObject({ total: 3, done: 2, fallback: 1, pending: 0 });
+        await vi.waitFor(async () => expect(await savedJob(runner.getJob().id)).toMatchObject({ state: 'completed' }));
+        expect(await readAll('analyses')).toHaveLength(3);
+    });
+
+    it('marks failed items and retries only those', async () => {
+        vi.mocked(analyzeSentiment).mockImplementation(async text => {
+            if (text === 'flaky') throw new RequestError('server', 'Service unavailable', { retryable: true });
+            return analyzed(text);
+        });
+        const { runner, reaches, statuses } = runnerFor(['good', 'flaky']);
+
+        runner.start();
+        await reaches('completed');
+        expect(statuses()).toEqual(['done', 'failed']);
+        expect(runner.getJob().items[1]).toMatchObject({ errorKind: 'server', error: 'Service unavailable' });
+
+        vi.mocked(analyzeSentiment).mockClear();
+        vi.mocked(analyzeSentiment).mockImplementation(async text => analyzed(text));
+        runner.retryFailed();
+        await vi.waitFor(() => expect(statuses()).toEqual(['done', 'done']));
+        expect(vi.mocked(analyzeSentiment).mock.calls.map(([text]) => text)).toEqual(['flaky']);
+        expect(runner.getJob().items[1].errorKind).toBeUndefined();
+    });
+
+    it('finishes the item in flight on pause and picks up the rest on resume', async () => {
+        const analyses = deferAnalyses();
+        const { runner, reaches, statuses } = runnerFor(['a', 'b', 'c']);
+
+        runner.start();
+        await vi.waitFor(() => expect(analyses.started()).toEqual(['a']));
+        runner.pause();
+        analyses.finish('a');
+        await vi.waitFor(() => expect(statuses()).toEqual(['done', 'pending', 'pending']));
+        expect(runner.getJob().state).toBe('paused');
+        expect(analyses.started()).toEqual([]);
+
+        runner.start();
+        await vi.waitFor(() => expect(analyses.started()).toEqual(['b']));
+        analyses.finish('b');
+        await vi.waitFor(() => expect(analyses.started()).toEqual(['c']));
+        analyses.finish('c');
+        await reaches('completed');
+    });
+
+    it('resumes while the paused run is still draining', async () => {
+        const analyses = deferAnalyses();
+        const { runner, reaches } = runnerFor(['a', 'b']);
+
+        runner.start();
+        await vi.waitFor(() => expect(analyses.started()).toEqual(['a']));
+        runner.pause();
+        runner.start();
+        analyses.finish('a');
+        await vi.waitFor(() => expect(analyses.started()).toEqual(['b']));
+        analyses.finish('b');
+        await reaches('completed');
+    });
+
+    it('stops taking items once cancelled', async () => {
+        const analyses = deferAnalyses();
+        const { runner, statuses } = runnerFor(['a', 'b']);
+
+        runner.start();
+        await vi.waitFor(() => expect(analyses.started()).toEqual(['a']));
+        runner.cancel();
+        analyses.finish('a');
+        await vi.waitFor(() => expect(statuses()).toEqual(['done', 'pending']));
+        expect(runner.getJob().state).toBe('cancelled');
+        await vi.waitFor(async () => expect(await savedJob(runner.getJob().id)).toMatchObject({ state: 'cancelled' }));
+    });
+
+    it('neither resumes nor retries a cancelled job', async () => {
+        const analyses = deferAnalyses();
+        const deferred = vi.mocked(analyzeSentiment).getMockImplementation()!;
+        vi.mocked(analyzeSentiment).mockImplementation(async (text, options) => {
+            if (text === 'flaky') throw new RequestError('server', 'Service unavailable', { retryable: true });
+            return deferred(text, options);
+        });
+        const { runner, statuses } = runnerFor(['flaky', 'b', 'c']);
+
+        runner.start();
+        await vi.waitFor(() => expect(analyses.started()).toEqual(['b']));
+        runner.cancel();
+        analyses.finish('b');
+        await vi.waitFor(() => expect(statuses()).toEqual(['failed', 'done', 'pending']));
+
+        runner.start();
+        runner.retryFailed();
+        await new Promise(resolve => setTimeout(resolve, 10));
+        expect(runner.getJob().state).toBe('cancelled');
+        expect(statuses()).toEqual(['failed', 'done', 'pending']);
+        expect(analyses.started()).toEqual([]);
+    });
+
+    it('does nothing when there is nothing left to run', () => {
+        const { runner, updates } = runnerFor([]);
+        runner.start();
+        expect(updates).toEqual([]);
+        expect(runner.getJob().state).toBe('paused');
+    });
+});
+
+describe('loadUnfinishedJob', () => {
+    it('reopens the latest interrupted job as paused, with its in-flight items pending again', async () => {
+        const job = (id: string, state: BatchJobState, updatedAt: string): BatchJob => ({
+            ...createBatchJob([{ text: 'a' }, { text: 'b' }], SOURCE),
+            id,
+            state,
+            updatedAt,
+        });
+        const interrupted = job('interrupted', 'running', '2024-01-02T00:00:00.000Z');
+        interrupted.items[0].status = 'done';
+        interrupted.items[1].status = 'running';
+        await saveJob(job('older', 'paused', '2024-01-01T00:00:00.000Z'));
+        await saveJob(interrupted);
+        await saveJob(job('finished', 'completed', '2024-01-03T00:00:00.000Z'));
+
+        const loaded = await loadUnfinishedJob();
+        expect(loaded?.id).toBe('interrupted');
+        expect(loaded?.state).toBe('paused');
+        expect(loaded?.items.map(item => item.status)).toEqual(['done', 'pending']);
+    });
+
+    it('finds nothing when every job has finished', async () => {
+        await saveJob({ ...createBatchJob([{ text: 'a' }], SOURCE), state: 'cancelled' });
+        expect(await loadUnfinishedJob()).toBeNull();
+    });
+});
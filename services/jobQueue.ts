@@ -0,0 +1,194 @@
+import { AnalysisItem, AnalysisSource, AnalysisPreferences, BatchJob, BatchJobItem, SentimentAnalysisResult } from '../types';
+import { withStore, requestToPromise, createId } from './database';
+import { analyzeSentiment } from './analysisService';
+import { saveSentimentResults } from './historyStore';
+import { classifyError } from './requestExecutor';
+
+const STORE = 'jobs';
+const DEFAULT_CONCURRENCY = 3;
+// Job records can hold thousands of items, so progress is written at most this often while running.
+const PERSIST_INTERVAL_MS = 1000;
+
+export interface JobProgress {
+    total: number;
+    pending: number;
+    running: number;
+    done: number;
+    failed: number;
+    fallback: number;
+    // Estimated time to finish the pending items, once at least one item has completed in this run.
+    etaMs: number | null;
+}
+
+export interface JobRunnerHandlers {
+    onUpdate: (job: BatchJob, progress: JobProgress) => void;
+    onResult: (result: SentimentAnalysisResult) => void;
+}
+
+export interface JobRunner {
+    start: () => void;
+    pause: () => void;
+    cancel: () => void;
+    retryFailed: () => void;
+    getJob: () => BatchJob;
+}
+
+export const saveJob = (job: BatchJob) =>
+    withStore(STORE, 'readwrite', store => requestToPromise(store.put(job)));
+
+export const deleteJob = (id: string) =>
+    withStore(STORE, 'readwrite', store => requestToPromise(store.delete(id)));
+
+// Finds the most recent job that was interrupted before it finished, e.g. by a page refresh.
+export const loadUnfinishedJob = async (): Promise<BatchJob | null> => {
+    const jobs = await withStore(STORE, 'readonly', store =>
+        requestToPromise(store.index('updatedAt').getAll() as IDBRequest<BatchJob[]>));
+    const job = jobs.reverse().find(j => j.state === 'running' || j.state === 'paused');
+    if (!job) return null;
+    // Items that were in flight when the page closed never finished, so they go back in the queue.
+    return {
+        ...job,
+        state: 'paused',
+        items: job.items.map(item => item.status === 'running' ? { ...item, status: 'pending' } : item),
+    };
+};
+
+export const createBatchJob = (items: AnalysisItem[], source: AnalysisSource, preferences: AnalysisPreferences = {}): BatchJob => {
+    const now = new Date().toISOString();
+    return {
+        id: createId(),
+        createdAt: now,
+        updatedAt: now,
+        source,
+        preferences,
+        state: 'paused',
+        items: items.map(item => ({ ...item, status: 'pending' })),
+    };
+};
+
+export const summarizeJob = (job: BatchJob, etaMs: number | null = null): JobProgress => {
+    const progress: JobProgress = { total: job.items.length, pending: 0, running: 0, done: 0, failed: 0, fallback: 0, etaMs };
+    job.items.forEach(item => { progress[item.status]++; });
+    return progress;
+};
+
+export const isJobActive = (job: BatchJob | null) => job?.state === 'running';
+
+export const createJobRunner = (initial: BatchJob, handlers: JobRunnerHandlers, concurrency = DEFAULT_CONCURRENCY): JobRunner => {
+    const items: BatchJobItem[] = initial.items.slice();
+    let job: BatchJob = initial;
+    let workers: Promise<void> | null = null;
+    let runStartedAt = 0;
+    let completedThisRun = 0;
+    let persistTimer: ReturnType<typeof setTimeout> | null = null;
+
+    const persist = () => {
+        if (persistTimer) clearTimeout(persistTimer);
+        persistTimer = null;
+        saveJob(job).catch(e => console.error("Could not save batch job", e));
+    };
+
+    const schedulePersist = () => {
+        if (!persistTimer) persistTimer = setTimeout(persist, PERSIST_INTERVAL_MS);
+    };
+
+    const estimateRemainingMs = (pending: number) => {
+        if (completedThisRun === 0) return null;
+        const perItem = (Date.now() - runStartedAt) / completedThisRun;
+        return Math.round(pending * perItem);
+    };
+
+    const publish = (patch: Partial<BatchJob> = {}) => {
+        job = { ...job, ...patch, items: items.slice(), updatedAt: new Date().toISOString() };
+        const progress = summarizeJob(job);
+        handlers.onUpdate(job, { ...progress, etaMs: estimateRemainingMs(progress.pending + progress.running) });
+    };
+
+    const setItem = (index: number, patch: Partial<BatchJobItem>) => {
+        items[index] = { ...items[index], ...patch };
+    };
+
+    let nextIndex = 0;
+    const takeNext = () => {
+        while (nextIndex < items.length && items[nextIndex].status !== 'pending') nextIndex++;
+        return nextIndex < items.length ? nextIndex++ : -1;
+    };
+
+    const processItem = async (index: number) => {
+        const { text, sourceRecord } = items[index];
+        setItem(index, { status: 'running', error: undefined, errorKind: undefined });
+        publish();
+        try {
+            const analyzed = await analyzeSentiment(text, job.preferences);
+            const [result] = await saveSentimentResults([sourceRecord ? { ...analyzed, sourceRecord } : analyzed], job.source)
+                .catch((e) => {
+                    console.error("Could not save results to history", e);
+                    return [analyzed];
+                });
+            setItem(index, { status: result.fallbackReason ? 'fallback' : 'done', resultId: result.id, errorKind: result.fallbackReason });
+            handlers.onResult(result);
+        } catch (error) {
+            const classified = classifyError(error);
+            setItem(index, { status: 'failed', error: classified.message, errorKind: classified.kind });
+        }
+        completedThisRun++;
+        publish();
+        schedulePersist();
+    };
+
+    const worker = async () => {
+        while (job.state === 'running') {
+            const index = takeNext();
+            if (index === -1) return;
+            await processItem(index);
+        }
+    };
+
+    // A cancelled job stays cancelled; resuming or retrying it would restart work the user stopped.
+    const start = () => {
+        if (job.state === 'cancelled') return;
+        if (!items.some(item => item.status === 'pending' || item.status === 'running')) return;
+        if (workers) {
+            // Resuming while the previous run is still draining its in-flight items.
+            if (job.state !== 'running') publish({ state: 'running' });
+            return;
+        }
+        nextIndex = 0;
+        runStartedAt = Date.now();
+        completedThisRun = 0;
+        publish({ state: 'running' });
+        persist();
+        workers = Promise.all(Array.from({ length: concurrency }, worker)).then(() => {
+            workers = null;
+            // A resume that happened while draining needs its own workers.
+            if (job.state === 'running' && items.some(item => item.status === 'pending')) {
+                start();
+                return;
+            }
+            if (job.state === 'running') publish({ state: 'completed' });
+            persist();
+        });
+    };
+
+    const pause = () => {
+        if (job.state !== 'running') return;
+        publish({ state: 'paused' });
+        persist();
+    };
+
+    const cancel = () => {
+        if (job.state === 'completed' || job.state === 'cancelled') return;
+        publish({ state: 'cancelled' });
+        persist();
+    };
+
+    const retryFailed = () => {
+        if (job.state === 'cancelled') return;
+        items.forEach((item, i) => {
+            if (item.status === 'failed') setItem(i, { status: 'pending', error: undefined, errorKind: undefined });
+        });
+        start();
+    };
+
+    return { start, pause, cancel, retryFailed, getJob: () => job };
+};
@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { detectLanguage, getLanguageName, getStopWords, isUnspacedWord, segmentWords, UNDETERMINED_LANGUAGE } from './languageDetection';
+
+describe('detectLanguage', () => {
+    it.each([
+        ['The food was great and the service was fast', 'en'],
+        ['Es un producto excelente, me encanta', 'es'],
+        ['Le service est très lent mais la nourriture est bonne', 'fr'],
+        ['Das Essen war nicht gut', 'de'],
+    ])('tells Latin-script languages apart by their function words: %s', (text, code) => {
+        expect(detectLanguage(text).code).toBe(code);
+    });
+
+    it.each([
+        ['Это ужасно', 'ru'],
+        ['Це жахливо, їжа холодна', 'uk'],
+        ['هذا رائع', 'ar'],
+        ['خیلی خوب بود، پیشنهاد می‌کنم', 'fa'],
+        ['זה נהדר', 'he'],
+        ['Αυτό είναι υπέροχο', 'el'],
+        ['यह बहुत अच्छा है', 'hi'],
+        ['อาหารอร่อยมาก', 'th'],
+        ['정말 좋아요', 'ko'],
+        ['这个产品很好', 'zh'],
+        ['この製品はとても良いです', 'ja'],
+    ])('reads other languages from their script: %s', (text, code) => {
+        const detected = detectLanguage(text);
+        expect(detected.code).toBe(code);
+        expect(detected.confidence).toBeGreaterThan(0.5);
+    });
+
+    it('gives up on text without letters or known words', () => {
+        expect(detectLanguage('12345 !!!')).toEqual({ code: UNDETERMINED_LANGUAGE, confidence: 0 });
+        expect(detectLanguage('Xyzzy plugh').code).toBe(UNDETERMINED_LANGUAGE);
+    });
+});
+
+describe('segmentWords', () => {
+    it('lowercases words and keeps contractions whole', () => {
+        expect(segmentWords("Don't STOP, 2 go")).toEqual(["don't", 'stop', '2', 'go']);
+    });
+
+    it('keeps combining marks with their letters', () => {
+        expect(segmentWords('नमस्ते दुनिया')).toEqual(['नमस्ते', 'दुनिया']);
+    });
+
+    it('splits unspaced scripts into dictionary words', () => {
+        expect(segmentWords('我喜欢这个产品')).toContain('产品');
+        expect(isUnspacedWord('产品')).toBe(true);
+        expect(isUnspacedWord('product')).toBe(false);
+    });
+});
+
+describe('language names and stop words', () => {
+    it('names known codes and falls back to the code', () => {
+        expect(getLanguageName('pt')).toBe('Portuguese');
+        expect(getLanguageName(UNDETERMINED_LANGUAGE)).toBe('Unknown');
+        expect(getLanguageName('xx')).toBe('XX');
+    });
+
+    it('has no stop words for languages it cannot segment by them', () => {
+        expect(getStopWords('es').has('muy')).toBe(true);
+        expect(getStopWords('ja').size).toBe(0);
+    });
+});
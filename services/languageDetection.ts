@@ -0,0 +1,147 @@
+import { isSentimentWord } from './lexiconEngine';
+
+export interface LanguageInfo {
+    // ISO 639-1 code, as stored on results.
+    code: string;
+    name: string;
+    // The locale the browser's speech recognition expects for this language.
+    speechLocale: string;
+}
+
+// Returned when a text has too few letters or cues to tell its language.
+export const UNDETERMINED_LANGUAGE = 'und';
+
+export const LANGUAGES: LanguageInfo[] = [
+    { code: 'en', name: 'English', speechLocale: 'en-US' },
+    { code: 'es', name: 'Spanish', speechLocale: 'es-ES' },
+    { code: 'fr', name: 'French', speechLocale: 'fr-FR' },
+    { code: 'de', name: 'German', speechLocale: 'de-DE' },
+    { code: 'pt', name: 'Portuguese', speechLocale: 'pt-BR' },
+    { code: 'it', name: 'Italian', speechLocale: 'it-IT' },
+    { code: 'nl', name: 'Dutch', speechLocale: 'nl-NL' },
+    { code: 'tr', name: 'Turkish', speechLocale: 'tr-TR' },
+    { code: 'pl', name: 'Polish', speechLocale: 'pl-PL' },
+    { code: 'ru', name: 'Russian', speechLocale: 'ru-RU' },
+    { code: 'uk', name: 'Ukrainian', speechLocale: 'uk-UA' },
+    { code: 'el', name: 'Greek', speechLocale: 'el-GR' },
+    { code: 'ar', name: 'Arabic', speechLocale: 'ar-SA' },
+    { code: 'fa', name: 'Persian', speechLocale: 'fa-IR' },
+    { code: 'he', name: 'Hebrew', speechLocale: 'he-IL' },
+    { code: 'hi', name: 'Hindi', speechLocale: 'hi-IN' },
+    { code: 'th', name: 'Thai', speechLocale: 'th-TH' },
+    { code: 'zh', name: 'Chinese', speechLocale: 'zh-CN' },
+    { code: 'ja', name: 'Japanese', speechLocale: 'ja-JP' },
+    { code: 'ko', name: 'Korean', speechLocale: 'ko-KR' },
+];
+
+export const getLanguageName = (code?: string) => {
+    if (!code || code === UNDETERMINED_LANGUAGE) return 'Unknown';
+    return LANGUAGES.find(l => l.code === code)?.name ?? code.toUpperCase();
+};
+
+// Picks the speech recognition locale closest to the browser's own language, defaulting to US English.
+export const getDefaultSpeechLocale = () => {
+    const preferred = typeof navigator !== 'undefined' ? navigator.language : '';
+    const exact = LANGUAGES.find(l => l.speechLocale.toLowerCase() === preferred.toLowerCase());
+    return (exact ?? LANGUAGES.find(l => l.code === preferred.slice(0, 2).toLowerCase()))?.speechLocale ?? 'en-US';
+};
+
+// The most frequent function words of each Latin-script language; they identify the language and are never keywords.
+const STOP_WORDS: Record<string, string[]> = {
+    en: ['a', 'an', 'the', 'and', 'or', 'but', 'in', 'on', 'at', 'to', 'for', 'of', 'with', 'by', 'is', 'are', 'was', 'were',
+        'be', 'been', 'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'could', 'should', 'may', 'might', 'must',
+        'can', 'this', 'that', 'these', 'those', 'i', 'you', 'he', 'she', 'it', 'we', 'they', 'me', 'him', 'her', 'us', 'them',
+        'my', 'your', 'not', 'very', 'just', 'so'],
+    es: ['el', 'la', 'los', 'las', 'un', 'una', 'y', 'o', 'pero', 'de', 'del', 'en', 'con', 'por', 'para', 'que', 'es', 'son',
+        'está', 'muy', 'no', 'lo', 'se', 'su', 'al', 'como', 'mi', 'yo', 'me', 'este', 'esta'],
+    fr: ['le', 'la', 'les', 'un', 'une', 'des', 'et', 'ou', 'mais', 'de', 'du', 'en', 'avec', 'pour', 'par', 'que', 'qui',
+        'est', 'sont', 'très', 'ne', 'pas', 'je', 'il', 'elle', 'nous', 'vous', 'ce', 'cette', 'au', 'sur'],
+    de: ['der', 'die', 'das', 'ein', 'eine', 'und', 'oder', 'aber', 'von', 'zu', 'mit', 'für', 'auf', 'ist', 'sind', 'war',
+        'sehr', 'nicht', 'ich', 'du', 'er', 'sie', 'es', 'wir', 'den', 'dem', 'des', 'auch', 'im'],
+    pt: ['o', 'os', 'as', 'um', 'uma', 'e', 'ou', 'mas', 'de', 'do', 'da', 'em', 'no', 'na', 'com', 'por', 'para', 'que',
+        'é', 'são', 'muito', 'não', 'eu', 'ele', 'ela', 'nós', 'isso', 'este', 'esta'],
+    it: ['il', 'lo', 'la', 'gli', 'le', 'un', 'una', 'e', 'o', 'ma', 'di', 'del', 'della', 'in', 'con', 'per', 'che', 'è',
+        'sono', 'molto', 'non', 'io', 'lui', 'lei', 'noi', 'questo', 'questa'],
+    nl: ['de', 'het', 'een', 'en', 'of', 'maar', 'van', 'in', 'met', 'voor', 'op', 'is', 'zijn', 'was', 'erg', 'niet', 'ik',
+        'jij', 'hij', 'zij', 'wij', 'dit', 'dat', 'ook'],
+    tr: ['ve', 'veya', 'ama', 'bir', 'bu', 'şu', 'için', 'ile', 'de', 'da', 'çok', 'değil', 'ben', 'sen', 'o', 'biz', 'ne',
+        'gibi', 'daha'],
+    pl: ['i', 'lub', 'ale', 'w', 'z', 'na', 'do', 'od', 'jest', 'są', 'był', 'bardzo', 'nie', 'ja', 'ty', 'on', 'ona', 'my',
+        'to', 'że', 'się', 'jak'],
+};
+const STOP_WORD_SETS = new Map(Object.keys(STOP_WORDS).map(code => [code, new Set(STOP_WORDS[code])]));
+
+export const getStopWords = (code: string): Set<string> => STOP_WORD_SETS.get(code) ?? new Set();
+
+const SCRIPTS: { script: string; pattern: RegExp }[] = [
+    { script: 'Latin', pattern: /\p{Script=Latin}/gu },
+    { script: 'Cyrillic', pattern: /\p{Script=Cyrillic}/gu },
+    { script: 'Greek', pattern: /\p{Script=Greek}/gu },
+    { script: 'Arabic', pattern: /\p{Script=Arabic}/gu },
+    { script: 'Hebrew', pattern: /\p{Script=Hebrew}/gu },
+    { script: 'Devanagari', pattern: /\p{Script=Devanagari}/gu },
+    { script: 'Thai', pattern: /\p{Script=Thai}/gu },
+    { script: 'Hangul', pattern: /\p{Script=Hangul}/gu },
+    { script: 'Kana', pattern: /[\p{Script=Hiragana}\p{Script=Katakana}]/gu },
+    { script: 'Han', pattern: /\p{Script=Han}/gu },
+];
+
+// Scripts written without spaces between words, which need a dictionary-based segmenter.
+const UNSPACED_SCRIPTS = /[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]/u;
+
+const wordSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'word' })
+    : null;
+
+// Splits text into lowercase words in any script. Letters keep their combining marks, so Hindi or Thai words stay whole.
+export const segmentWords = (text: string): string[] => {
+    if (wordSegmenter && UNSPACED_SCRIPTS.test(text)) {
+        return Array.from(wordSegmenter.segment(text))
+            .filter(segment => segment.isWordLike)
+            .map(segment => segment.segment.toLowerCase());
+    }
+    return text.toLowerCase().match(/[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)*/gu) || [];
+};
+
+export const isUnspacedWord = (word: string) => UNSPACED_SCRIPTS.test(word);
+
+const countMatches = (text: string, pattern: RegExp) => (text.match(pattern) || []).length;
+
+// Latin-script languages are told apart by their function words; English also counts words from the sentiment lexicon.
+const detectLatinLanguage = (text: string) => {
+    const words = segmentWords(text);
+    const hits = Object.keys(STOP_WORDS).map(code => {
+        const stopWords = getStopWords(code);
+        let count = words.filter(word => stopWords.has(word)).length;
+        if (code === 'en') count += words.filter(word => isSentimentWord(word)).length;
+        return { code, count };
+    }).sort((a, b) => b.count - a.count);
+    if (!hits[0].count) return { code: UNDETERMINED_LANGUAGE, confidence: 0 };
+    const margin = hits[0].count - hits[1].count;
+    return { code: hits[0].code, confidence: Math.min(0.95, 0.4 + margin / Math.max(words.length, 1) + hits[0].count * 0.05) };
+};
+
+// A script- and stop-word-based guess that needs no network; good enough to label and filter results.
+export const detectLanguage = (text: string): { code: string; confidence: number } => {
+    const counts = SCRIPTS.map(({ script, pattern }) => ({ script, count: countMatches(text, pattern) }));
+    const total = counts.reduce((sum, c) => sum + c.count, 0);
+    if (total === 0) return { code: UNDETERMINED_LANGUAGE, confidence: 0 };
+    const byScript = (script: string) => counts.find(c => c.script === script)!.count;
+    const dominant = [...counts].sort((a, b) => b.count - a.count)[0];
+    const share = dominant.count / total;
+
+    switch (dominant.script) {
+        case 'Latin': return detectLatinLanguage(text);
+        case 'Cyrillic': return { code: /[іїєґ]/iu.test(text) ? 'uk' : 'ru', confidence: share * 0.9 };
+        case 'Arabic': return { code: /[پچژگ]/u.test(text) ? 'fa' : 'ar', confidence: share * 0.9 };
+        case 'Greek': return { code: 'el', confidence: share };
+        case 'Hebrew': return { code: 'he', confidence: share };
+        case 'Devanagari': return { code: 'hi', confidence: share * 0.9 };
+        case 'Thai': return { code: 'th', confidence: share };
+        case 'Hangul': return { code: 'ko', confidence: share };
+        // Japanese mixes kana with kanji; Chinese uses no kana at all.
+        case 'Kana':
+        case 'Han': return { code: byScript('Kana') > 0 ? 'ja' : 'zh', confidence: (byScript('Kana') + byScript('Han')) / total * 0.9 };
+        default: return { code: UNDETERMINED_LANGUAGE, confidence: 0 };
+    }
+};
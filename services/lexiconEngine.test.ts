@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { Sentiment } from '../types';
+import { analyzeLexicon, classifyCompound, isModifierWord, isSentimentWord, splitSentences, tokenize } from './lexiconEngine';
+
+const compound = (text: string) => analyzeLexicon(text).compound;
+
+describe('analyzeLexicon', () => {
+    it('labels plain positive, negative and neutral sentences', () => {
+        expect(analyzeLexicon('The food was good.').sentiment).toBe(Sentiment.Positive);
+        expect(analyzeLexicon('The food was terrible.').sentiment).toBe(Sentiment.Negative);
+        expect(analyzeLexicon('The table is brown.')).toMatchObject({ sentiment: Sentiment.Neutral, compound: 0, cues: [] });
+    });
+
+    it('flips a negated word', () => {
+        expect(analyzeLexicon('The food was not good.').sentiment).toBe(Sentiment.Negative);
+    });
+
+    it('strengthens boosted, capitalised and exclaimed words', () => {
+        const plain = compound('The food was good');
+        expect(compound('The food was very good')).toBeGreaterThan(plain);
+        expect(compound('The food was GOOD')).toBeGreaterThan(plain);
+        expect(compound('The food was good!!!')).toBeGreaterThan(plain);
+    });
+
+    it('treats "pretty" as a booster before a sentiment word and as a sentiment word otherwise', () => {
+        expect(analyzeLexicon('The food was pretty bad').sentiment).toBe(Sentiment.Negative);
+        expect(compound('The food was pretty bad')).toBeLessThan(compound('The food was bad'));
+        expect(analyzeLexicon('She wore a pretty dress').sentiment).toBe(Sentiment.Positive);
+    });
+
+    it('dampens the words after "kind of" and "sort of"', () => {
+        expect(analyzeLexicon('The food was kind of bad').sentiment).toBe(Sentiment.Negative);
+        expect(compound('The food was kind of bad')).toBeGreaterThan(compound('The food was bad'));
+        expect(compound('The food was sort of good')).toBeLessThan(compound('The food was good'));
+        expect(analyzeLexicon('The staff were kind').sentiment).toBe(Sentiment.Positive);
+    });
+
+    it('gives a low confidence when it finds no sentiment words or the text is not English', () => {
+        expect(analyzeLexicon('The table is brown.').confidence).toBe(0.5);
+        expect(analyzeLexicon('The food was great.').confidence).toBeGreaterThan(0.8);
+        expect(analyzeLexicon('The food was great.', 'en').confidence).toBeGreaterThan(0.8);
+        const spanish = analyzeLexicon('La comida es terrible.', 'es');
+        expect(spanish.confidence).toBe(0.5);
+        expect(spanish.sentences[0].score).toBe(0.5);
+    });
+
+    it('weights the clause after "but" over the one before it', () => {
+        expect(analyzeLexicon('The food was good but the service was terrible').sentiment).toBe(Sentiment.Negative);
+    });
+
+    it('reports cue offsets into the whole text', () => {
+        const text = 'Fine. The view was great.';
+        const [fine, great] = analyzeLexicon(text).cues;
+        expect(text.slice(fine.start, fine.end)).toBe('Fine');
+        expect(text.slice(great.start, great.end)).toBe('great');
+    });
+
+    it('scores empty text as neutral', () => {
+        expect(analyzeLexicon('')).toMatchObject({ sentiment: Sentiment.Neutral, sentences: [], scores: { positive: 0, negative: 0, neutral: 1 } });
+    });
+});
+
+describe('classifyCompound', () => {
+    it('leaves scores near zero neutral', () => {
+        expect(classifyCompound(0.5)).toBe(Sentiment.Positive);
+        expect(classifyCompound(0)).toBe(Sentiment.Neutral);
+        expect(classifyCompound(-0.5)).toBe(Sentiment.Negative);
+    });
+});
+
+describe('word roles', () => {
+    it('knows sentiment words, intensifiers and negations', () => {
+        expect(isSentimentWord('Great')).toBe(true);
+        expect(isSentimentWord('very')).toBe(true);
+        expect(isSentimentWord("Don't")).toBe(true);
+        expect(isSentimentWord('table')).toBe(false);
+    });
+
+    it('treats intensifiers and negations as modifiers', () => {
+        expect(isModifierWord('VERY')).toBe(true);
+        expect(isModifierWord('not')).toBe(true);
+        expect(isModifierWord('good')).toBe(false);
+    });
+});
+
+describe('tokenize', () => {
+    it('keeps contractions together and offsets tokens', () => {
+        expect(tokenize("I can't wait", 10)).toEqual([
+            { text: 'I', start: 10, end: 11 },
+            { text: "can't", start: 12, end: 17 },
+            { text: 'wait', start: 18, end: 22 },
+        ]);
+    });
+
+    it('keeps combining marks inside words', () => {
+        expect(tokenize('बहुत अच्छा').map(t => t.text)).toEqual(['बहुत', 'अच्छा']);
+    });
+});
+
+describe('splitSentences', () => {
+    it('splits on CJK full stops and skips fragments without letters', () => {
+        expect(splitSentences('Hi there. 你好。 ... Ok!')).toEqual([
+            { sentence: 'Hi there.', start: 0 },
+            { sentence: '你好。', start: 10 },
+            { sentence: 'Ok!', start: 18 },
+        ]);
+    });
+});
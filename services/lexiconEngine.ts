@@ -0,0 +1,294 @@
+import { Sentiment, SentimentScores } from '../types';
+
+// An offline, rule-based sentiment scorer modelled on VADER (Hutto & Gilbert, 2014).
+// Valences range from -4 (most negative) to +4 (most positive).
+const LEXICON: Record<string, number> = {
+    // Positive
+    'love': 3.2, 'loved': 2.9, 'loves': 2.7, 'lovely': 2.8, 'like': 1.5, 'liked': 1.8, 'likes': 1.8,
+    'great': 3.1, 'good': 1.9, 'nice': 1.8, 'fine': 0.8, 'ok': 0.9, 'okay': 0.9, 'decent': 1.4,
+    'excellent': 3.2, 'amazing': 2.8, 'awesome': 3.1, 'fantastic': 2.6, 'wonderful': 2.7, 'superb': 3.1,
+    'outstanding': 3.0, 'brilliant': 2.8, 'perfect': 2.7, 'best': 3.2, 'better': 1.9, 'incredible': 2.5,
+    'happy': 2.7, 'happier': 2.4, 'glad': 2.0, 'pleased': 1.9, 'delighted': 3.0, 'joy': 2.8, 'joyful': 2.9,
+    'enjoy': 2.2, 'enjoyed': 2.3, 'enjoyable': 1.9, 'fun': 2.3, 'beautiful': 2.9, 'pretty': 2.2,
+    'recommend': 1.5, 'recommended': 1.8, 'impressive': 2.3, 'impressed': 2.1, 'satisfied': 1.8,
+    'helpful': 1.8, 'useful': 1.9, 'reliable': 1.8, 'fast': 1.2, 'quick': 1.1, 'easy': 1.9, 'smooth': 1.3,
+    'comfortable': 1.5, 'clean': 1.7, 'friendly': 2.2, 'kind': 2.4, 'thanks': 1.9, 'thank': 1.5,
+    'grateful': 2.0, 'appreciate': 1.7, 'appreciated': 2.3, 'favorite': 2.0, 'favourite': 2.0,
+    'win': 2.8, 'winning': 2.4, 'success': 2.7, 'successful': 2.8, 'exciting': 2.2, 'excited': 1.4,
+    'hope': 1.9, 'hopeful': 1.6, 'calm': 1.3, 'peaceful': 2.2, 'safe': 1.9, 'worth': 0.9, 'cool': 1.3,
+    'solid': 1.1, 'positive': 2.6, 'improved': 2.1, 'improvement': 1.6, 'fixed': 0.9, 'works': 0.8,
+    'gorgeous': 3.0, 'stunning': 2.9, 'flawless': 2.8, 'top': 0.8, 'proud': 2.1, 'care': 2.2, 'caring': 2.2,
+    'wow': 2.8, 'yay': 2.4, 'lol': 1.9, 'fabulous': 2.4, 'terrific': 2.1, 'adore': 2.6, 'charming': 2.4,
+    // Negative
+    'hate': -2.7, 'hated': -3.2, 'hates': -1.9, 'dislike': -1.6, 'disliked': -1.7,
+    'bad': -2.5, 'worse': -2.1, 'worst': -3.1, 'terrible': -2.1, 'awful': -2.0, 'horrible': -2.5,
+    'poor': -2.1, 'sad': -2.1, 'unhappy': -1.8, 'angry': -2.3, 'annoyed': -1.6, 'annoying': -1.7,
+    'disappointing': -2.2, 'disappointed': -1.9, 'disappointment': -2.3, 'frustrating': -1.9,
+    'frustrated': -2.4, 'useless': -1.8, 'broken': -2.1, 'breaks': -1.2, 'broke': -1.8, 'crash': -1.7,
+    'crashes': -1.7, 'crashed': -1.7, 'bug': -1.1, 'buggy': -1.6, 'slow': -1.0, 'laggy': -1.5,
+    'expensive': -0.8, 'overpriced': -1.9, 'waste': -1.8, 'wasted': -2.2, 'fail': -2.5, 'failed': -2.3,
+    'failure': -2.3, 'problem': -1.7, 'problems': -1.7, 'issue': -0.7, 'issues': -0.7, 'wrong': -2.1,
+    'ugly': -2.3, 'dirty': -1.9, 'rude': -2.0, 'unfriendly': -1.5, 'pain': -2.3, 'painful': -1.9,
+    'hurt': -2.4, 'fear': -2.2, 'afraid': -2.0, 'scared': -1.9, 'worried': -1.2, 'worry': -1.9,
+    'stress': -1.8, 'stressful': -2.2, 'boring': -1.3, 'bored': -1.1, 'mediocre': -1.0, 'meh': -0.3,
+    'cheap': -0.6, 'lost': -1.3, 'lose': -1.7, 'loss': -1.3, 'sucks': -1.5, 'suck': -1.2, 'crap': -1.6,
+    'garbage': -1.9, 'trash': -1.8, 'disgusting': -2.4, 'nasty': -2.6, 'hopeless': -2.0, 'miserable': -2.2,
+    'regret': -1.7, 'sorry': -0.3, 'unfortunately': -1.3, 'unreliable': -1.8, 'difficult': -1.5,
+    'hard': -0.4, 'confusing': -1.3, 'confused': -1.3, 'complaint': -1.5, 'refund': -0.9, 'scam': -2.5,
+    'unacceptable': -2.0, 'pathetic': -2.4, 'lame': -1.8, 'stupid': -2.4, 'ridiculous': -1.5, 'cry': -2.1,
+    'lonely': -1.5, 'upset': -1.6, 'furious': -2.7, 'negative': -2.7, 'dead': -3.3, 'kill': -3.7,
+};
+
+const NEGATIONS = new Set([
+    'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'nowhere', 'without', 'hardly',
+    'cannot', 'cant', 'dont', 'doesnt', 'didnt', 'isnt', 'arent', 'wasnt', 'werent', 'wont', 'wouldnt',
+    'shouldnt', 'couldnt', 'havent', 'hasnt', 'hadnt', 'aint', 'neednt', 'mustnt',
+]);
+
+const BOOSTER_INCREMENT = 0.293;
+const BOOSTER_DECREMENT = -0.293;
+const BOOSTERS: Record<string, number> = {
+    'very': BOOSTER_INCREMENT, 'really': BOOSTER_INCREMENT, 'extremely': BOOSTER_INCREMENT,
+    'incredibly': BOOSTER_INCREMENT, 'absolutely': BOOSTER_INCREMENT, 'completely': BOOSTER_INCREMENT,
+    'totally': BOOSTER_INCREMENT, 'so': BOOSTER_INCREMENT, 'super': BOOSTER_INCREMENT, 'highly': BOOSTER_INCREMENT,
+    'utterly': BOOSTER_INCREMENT, 'truly': BOOSTER_INCREMENT, 'especially': BOOSTER_INCREMENT,
+    'exceptionally': BOOSTER_INCREMENT, 'remarkably': BOOSTER_INCREMENT, 'most': BOOSTER_INCREMENT,
+    'more': BOOSTER_INCREMENT, 'too': BOOSTER_INCREMENT, 'deeply': BOOSTER_INCREMENT,
+    'slightly': BOOSTER_DECREMENT, 'somewhat': BOOSTER_DECREMENT, 'barely': BOOSTER_DECREMENT,
+    'kinda': BOOSTER_DECREMENT, 'sorta': BOOSTER_DECREMENT, 'marginally': BOOSTER_DECREMENT,
+    'little': BOOSTER_DECREMENT, 'less': BOOSTER_DECREMENT, 'partly': BOOSTER_DECREMENT,
+    'occasionally': BOOSTER_DECREMENT, 'fairly': BOOSTER_DECREMENT, 'rather': BOOSTER_DECREMENT,
+    'pretty': BOOSTER_INCREMENT,
+};
+
+// "kind of" and "sort of" hedge the words after them, as VADER's bigram dampeners do; "kind" alone stays a sentiment word.
+const HEDGE_WORDS = new Set(['kind', 'sort']);
+
+const NEGATION_SCALAR = -0.74;
+const CAPS_INCREMENT = 0.733;
+const EXCLAMATION_INCREMENT = 0.292;
+const QUESTION_INCREMENT = 0.18;
+const NORMALIZATION_ALPHA = 15;
+// Compound scores inside (-threshold, threshold) are treated as neutral, as in VADER.
+const NEUTRAL_THRESHOLD = 0.05;
+
+export interface LexiconToken {
+    text: string;
+    start: number;
+    end: number;
+    valence: number;
+}
+
+export interface LexiconSentenceScore {
+    sentence: string;
+    sentiment: Sentiment;
+    score: number;
+    compound: number;
+}
+
+export interface LexiconAnalysis {
+    sentiment: Sentiment;
+    confidence: number;
+    compound: number;
+    scores: SentimentScores;
+    sentences: LexiconSentenceScore[];
+    // Tokens that carried sentiment, with their final valence after all rules were applied.
+    cues: LexiconToken[];
+}
+
+interface SentenceAnalysis {
+    compound: number;
+    scores: SentimentScores;
+    cues: LexiconToken[];
+    tokenCount: number;
+}
+
+export const normalizeToken = (token: string) => token.toLowerCase().replace(/['’]/g, '');
+
+// True for words the engine gives a role to: sentiment words, intensifiers and negations.
+export const isSentimentWord = (word: string) => {
+    const normalized = normalizeToken(word);
+    return LEXICON[normalized] !== undefined || BOOSTERS[normalized] !== undefined || NEGATIONS.has(normalized);
+};
+
+// True for intensifiers and negations, which change the words after them rather than carrying sentiment themselves.
+export const isModifierWord = (word: string) => {
+    const normalized = normalizeToken(word);
+    return BOOSTERS[normalized] !== undefined || NEGATIONS.has(normalized);
+};
+
+export const tokenize = (text: string, offset = 0) => {
+    const tokens: { text: string; start: number; end: number }[] = [];
+    const pattern = /[\p{L}\p{M}\p{N}]+(?:['’][\p{L}\p{M}]+)*/gu;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        tokens.push({ text: match[0], start: offset + match.index, end: offset + match.index + match[0].length });
+    }
+    return tokens;
+};
+
+const isAllCaps = (word: string) => word.length > 1 && word === word.toUpperCase() && word !== word.toLowerCase();
+
+const normalizeScore = (score: number) => {
+    const normalized = score / Math.sqrt(score * score + NORMALIZATION_ALPHA);
+    return Math.max(-1, Math.min(1, normalized));
+};
+
+const punctuationEmphasis = (sentence: string) => {
+    const exclamations = Math.min(4, (sentence.match(/!/g) || []).length);
+    const questions = (sentence.match(/\?/g) || []).length;
+    let emphasis = exclamations * EXCLAMATION_INCREMENT;
+    if (questions > 1) {
+        emphasis += questions <= 3 ? questions * QUESTION_INCREMENT : 0.96;
+    }
+    return emphasis;
+};
+
+export const classifyCompound = (compound: number): Sentiment => {
+    if (compound >= NEUTRAL_THRESHOLD) return Sentiment.Positive;
+    if (compound <= -NEUTRAL_THRESHOLD) return Sentiment.Negative;
+    return Sentiment.Neutral;
+};
+
+// The confidence of a label the lexicon had nothing to go on for, which is no better than a guess.
+const UNSCORED_CONFIDENCE = 0.5;
+
+// Maps a compound score to a 0–1 confidence for the label it produces.
+// `scored` is false when no lexicon word was found or the text isn't English, which the lexicon doesn't cover.
+const confidenceFor = (compound: number, scores: SentimentScores, scored: boolean) => {
+    if (!scored) return UNSCORED_CONFIDENCE;
+    const sentiment = classifyCompound(compound);
+    if (sentiment === Sentiment.Neutral) {
+        return Math.min(0.95, 0.55 + scores.neutral * 0.4);
+    }
+    return Math.min(0.99, 0.55 + Math.abs(compound) * 0.44);
+};
+
+const analyzeSentence = (sentence: string, offset: number, textHasMixedCase: boolean): SentenceAnalysis => {
+    const tokens = tokenize(sentence, offset);
+    const words = tokens.map(t => normalizeToken(t.text));
+    const modifiers = words.map((word, i) => HEDGE_WORDS.has(word) && words[i + 1] === 'of' ? BOOSTER_DECREMENT : BOOSTERS[word]);
+    const valences: number[] = words.map((word, i) => {
+        const base = LEXICON[word];
+        // Words such as "pretty" are sentiment words on their own but intensifiers before another sentiment word ("pretty bad").
+        const modifiesNext = modifiers[i] !== undefined && (LEXICON[words[i + 1]] !== undefined || HEDGE_WORDS.has(word));
+        if (base === undefined || modifiesNext) return 0;
+
+        let valence = base;
+        if (textHasMixedCase && isAllCaps(tokens[i].text)) {
+            valence += Math.sign(valence) * CAPS_INCREMENT;
+        }
+
+        // Intensifiers and negations within the three preceding words.
+        for (let distance = 1; distance <= 3 && i - distance >= 0; distance++) {
+            const previous = words[i - distance];
+            const damping = distance === 1 ? 1 : distance === 2 ? 0.95 : 0.9;
+            const booster = modifiers[i - distance];
+            if (booster !== undefined) {
+                let scalar = booster * Math.sign(valence);
+                if (textHasMixedCase && isAllCaps(tokens[i - distance].text)) {
+                    scalar += Math.sign(scalar) * CAPS_INCREMENT;
+                }
+                valence += scalar * damping;
+            }
+            if (NEGATIONS.has(previous)) {
+                valence *= NEGATION_SCALAR;
+            }
+        }
+        return valence;
+    });
+
+    // Contrastive "but": what follows it outweighs what precedes it.
+    const butIndex = words.indexOf('but');
+    if (butIndex >= 0) {
+        for (let i = 0; i < valences.length; i++) {
+            if (i < butIndex) valences[i] *= 0.5;
+            else if (i > butIndex) valences[i] *= 1.5;
+        }
+    }
+
+    let total = valences.reduce((sum, v) => sum + v, 0);
+    const emphasis = punctuationEmphasis(sentence);
+    if (total > 0) total += emphasis;
+    else if (total < 0) total -= emphasis;
+
+    let positiveSum = 0;
+    let negativeSum = 0;
+    let neutralCount = 0;
+    valences.forEach(v => {
+        if (v > 0) positiveSum += v + 1;
+        else if (v < 0) negativeSum += v - 1;
+        else neutralCount += 1;
+    });
+    if (positiveSum > Math.abs(negativeSum)) positiveSum += emphasis;
+    else if (positiveSum < Math.abs(negativeSum)) negativeSum -= emphasis;
+
+    const grandTotal = positiveSum + Math.abs(negativeSum) + neutralCount;
+    const scores: SentimentScores = grandTotal > 0
+        ? {
+            positive: positiveSum / grandTotal,
+            negative: Math.abs(negativeSum) / grandTotal,
+            neutral: neutralCount / grandTotal,
+        }
+        : { positive: 0, negative: 0, neutral: 1 };
+
+    const cues = tokens
+        .map((token, i) => ({ ...token, valence: valences[i] }))
+        .filter(token => token.valence !== 0);
+
+    return { compound: normalizeScore(total), scores, cues, tokenCount: tokens.length };
+};
+
+export const splitSentences = (text: string): { sentence: string; start: number }[] => {
+    const sentences: { sentence: string; start: number }[] = [];
+    // Also ends sentences at CJK full stops, the Arabic question mark and the Devanagari danda.
+    const pattern = /[^.!?。！？؟।\n]+[.!?。！？؟।]*/g;
+    let match: RegExpExecArray | null;
+    while ((match = pattern.exec(text)) !== null) {
+        const raw = match[0];
+        const leading = raw.length - raw.trimStart().length;
+        const sentence = raw.trim();
+        if (sentence && /[\p{L}\p{N}]/u.test(sentence)) {
+            sentences.push({ sentence, start: match.index + leading });
+        }
+    }
+    return sentences;
+};
+
+// `language` is the text's detected ISO 639-1 code, when known; labels for languages other than English are low-confidence guesses.
+export const analyzeLexicon = (text: string, language?: string): LexiconAnalysis => {
+    const english = language === undefined || language === 'en';
+    const textHasMixedCase = text !== text.toUpperCase() && text !== text.toLowerCase();
+    const analyzed = splitSentences(text).map(({ sentence, start }) => ({
+        sentence,
+        ...analyzeSentence(sentence, start, textHasMixedCase),
+    }));
+
+    const sentences: LexiconSentenceScore[] = analyzed.map(s => ({
+        sentence: s.sentence,
+        sentiment: classifyCompound(s.compound),
+        score: confidenceFor(s.compound, s.scores, english && s.cues.length > 0),
+        compound: s.compound,
+    }));
+
+    // Document-level scores are the token-weighted mean of sentence scores.
+    const totalTokens = analyzed.reduce((sum, s) => sum + s.tokenCount, 0) || 1;
+    const compound = analyzed.reduce((sum, s) => sum + s.compound * s.tokenCount, 0) / totalTokens;
+    const scores: SentimentScores = analyzed.length
+        ? {
+            positive: analyzed.reduce((sum, s) => sum + s.scores.positive * s.tokenCount, 0) / totalTokens,
+            negative: analyzed.reduce((sum, s) => sum + s.scores.negative * s.tokenCount, 0) / totalTokens,
+            neutral: analyzed.reduce((sum, s) => sum + s.scores.neutral * s.tokenCount, 0) / totalTokens,
+        }
+        : { positive: 0, negative: 0, neutral: 1 };
+
+    const cues = analyzed.flatMap(s => s.cues);
+    return {
+        sentiment: classifyCompound(compound),
+        confidence: confidenceFor(compound, scores, english && cues.length > 0),
+        compound,
+        scores,
+        sentences,
+        cues,
+    };
+};
@@ -0,0 +1,28 @@
+const KEY_PREFIX = 'senticorex.';
+
+// Storage can be missing or throw (private browsing, disabled cookies), in which case settings simply don't persist.
+const getStorage = (kind: 'local' | 'session'): Storage | null => {
+    try {
+        return kind === 'local' ? window.localStorage : window.sessionStorage;
+    } catch {
+        return null;
+    }
+};
+
+export const readJson = <T>(key: string, fallback: T, kind: 'local' | 'session' = 'local'): T => {
+    try {
+        const raw = getStorage(kind)?.getItem(KEY_PREFIX + key);
+        return raw ? JSON.parse(raw) as T : fallback;
+    } catch (e) {
+        console.warn(`Ignoring unreadable stored value for ${key}`, e);
+        return fallback;
+    }
+};
+
+export const writeJson = (key: string, value: unknown, kind: 'local' | 'session' = 'local') => {
+    try {
+        getStorage(kind)?.setItem(KEY_PREFIX + key, JSON.stringify(value));
+    } catch (e) {
+        console.warn(`Could not store ${key}`, e);
+    }
+};
@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { Sentiment, Taxonomy } from '../types';
+import { createMockProvider, mockProvider, MOCK_PROVIDER_ID } from './mockProvider';
+
+describe('createMockProvider', () => {
+    it('reports a neutral result by default', async () => {
+        const result = await mockProvider.analyze('The parcel arrived today');
+        expect(mockProvider.id).toBe(MOCK_PROVIDER_ID);
+        expect(result.sentiment).toBe(Sentiment.Neutral);
+        expect(result.confidence).toBe(0.8);
+        expect(result.apiUsed).toBe(MOCK_PROVIDER_ID);
+        expect(result.keywords).toEqual(['the', 'parcel', 'arrived']);
+    });
+
+    it('returns the configured sentiment with scores that sum to one', async () => {
+        const provider = createMockProvider({ id: 'positive', sentiment: Sentiment.Positive, confidence: 0.6 });
+        const result = await provider.analyze('Great service');
+        expect(result.sentiment).toBe(Sentiment.Positive);
+        expect(result.scores[Sentiment.Positive]).toBe(0.6);
+        expect(result.scores[Sentiment.Negative]).toBeCloseTo(0.2);
+        expect(Object.values(result.scores).reduce((sum, s) => sum + s, 0)).toBeCloseTo(1);
+        expect(result.apiUsed).toBe('positive');
+    });
+
+    it('only adds aspects, classifications and fine-grained scores when asked', async () => {
+        const plain = await mockProvider.analyze('Battery lasts');
+        expect(plain.aspects).toBeUndefined();
+        expect(plain.classification).toBeUndefined();
+        expect(plain.fineGrained).toBeUndefined();
+
+        const aspect = await mockProvider.analyze('Battery lasts', { mode: 'aspect' });
+        expect(aspect.aspects?.[0].aspect).toBe('battery');
+        const fineGrained = await createMockProvider({ sentiment: Sentiment.Negative }).analyze('Battery died', { scheme: 'fine-grained' });
+        expect(fineGrained.fineGrained?.valence).toBe(-0.8);
+
+        const label = (name: string) => ({ id: name.toLowerCase(), name, description: '', examples: [] });
+        const taxonomy: Taxonomy = { id: 'support', name: 'Support', labels: [label('Billing'), label('Shipping')], updatedAt: '' };
+        const classified = await mockProvider.analyze('Where is my refund?', { mode: 'classify', taxonomy });
+        expect(classified.classification?.label).toBe('Billing');
+        expect(classified.classification?.scores).toEqual({ Billing: 0.7, Shipping: 0.3 });
+    });
+
+    it('rejects every operation with failWith', async () => {
+        const error = new Error('offline');
+        const provider = createMockProvider({ failWith: error });
+        await expect(provider.analyze('text')).rejects.toBe(error);
+        await expect(provider.advanced('text')).rejects.toBe(error);
+        await expect(provider.compare('a', 'b')).rejects.toBe(error);
+        await expect(provider.mood(Sentiment.Positive, 'text')).rejects.toBe(error);
+    });
+});
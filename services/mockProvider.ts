@@ -0,0 +1,99 @@
+import { Sentiment, SentimentScores, Taxonomy, ClassificationResult } from '../types';
+import { SentimentProvider } from './sentimentProvider';
+import { createFineGrainedScores } from './fineGrainedScores';
+
+export const MOCK_PROVIDER_ID = 'mock';
+
+export interface MockProviderOptions {
+    id?: string;
+    sentiment?: Sentiment;
+    confidence?: number;
+    delayMs?: number;
+    // When set, every call rejects with this error instead of resolving.
+    failWith?: Error;
+}
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const scoresFor = (sentiment: Sentiment, confidence: number): SentimentScores => ({
+    [Sentiment.Positive]: sentiment === Sentiment.Positive ? confidence : (1 - confidence) / 2,
+    [Sentiment.Negative]: sentiment === Sentiment.Negative ? confidence : (1 - confidence) / 2,
+    [Sentiment.Neutral]: sentiment === Sentiment.Neutral ? confidence : (1 - confidence) / 2,
+});
+
+// Always picks the first label, with the rest sharing what is left.
+const mockClassification = (taxonomy: Taxonomy): ClassificationResult => {
+    const [first, ...rest] = taxonomy.labels;
+    const scores: Record<string, number> = { [first.name]: 0.7 };
+    rest.forEach(label => { scores[label.name] = 0.3 / rest.length; });
+    return { taxonomyId: taxonomy.id, label: first.name, scores, rationale: `Mock classification always picks "${first.name}".` };
+};
+
+// A deterministic, network-free provider for tests and local development.
+export const createMockProvider = (options: MockProviderOptions = {}): SentimentProvider => {
+    const id = options.id ?? MOCK_PROVIDER_ID;
+    const sentiment = options.sentiment ?? Sentiment.Neutral;
+    const confidence = options.confidence ?? 0.8;
+
+    const settle = async () => {
+        if (options.delayMs) await wait(options.delayMs);
+        if (options.failWith) throw options.failWith;
+    };
+
+    return {
+        id,
+        name: 'Mock provider',
+        analyze: async (text, preferences = {}) => {
+            await settle();
+            const polarity = sentiment === Sentiment.Positive ? confidence : sentiment === Sentiment.Negative ? -confidence : 0;
+            const scores = scoresFor(sentiment, confidence);
+            return {
+                text,
+                sentiment,
+                confidence,
+                scores,
+                keywords: text.toLowerCase().split(/\s+/).filter(Boolean).slice(0, 3),
+                explanation: `Mock analysis always reports ${sentiment}.`,
+                sentenceBreakdown: [{ sentence: text, sentiment, score: confidence }],
+                aspects: preferences.mode === 'aspect'
+                    ? [{ aspect: text.toLowerCase().split(/\s+/)[0] ?? 'text', sentiment, score: polarity, opinions: [text] }]
+                    : undefined,
+                classification: preferences.mode === 'classify' && preferences.taxonomy?.labels.length
+                    ? mockClassification(preferences.taxonomy)
+                    : undefined,
+                fineGrained: preferences.scheme === 'fine-grained' ? createFineGrainedScores(polarity, Math.abs(polarity), scores) : undefined,
+                timestamp: new Date().toISOString(),
+                apiUsed: id,
+            };
+        },
+        advanced: async (_text) => {
+            await settle();
+            return {
+                summary: 'Mock advanced analysis.',
+                emotions: [{ name: 'Calm', score: confidence }],
+                tones: ['Neutral'],
+                entities: [],
+            };
+        },
+        compare: async (textA, textB) => {
+            await settle();
+            const side = { sentiment, confidence, scores: scoresFor(sentiment, confidence) };
+            return {
+                summary: 'Mock comparison reports identical sentiment for both texts.',
+                comparison: { textA: side, textB: side },
+                sharedKeywords: [],
+                uniqueKeywords: { textA: textA.split(/\s+/).slice(0, 2), textB: textB.split(/\s+/).slice(0, 2) },
+                emotionalContrast: 'No contrast in mock mode.',
+            };
+        },
+        mood: async (moodSentiment, _text) => {
+            await settle();
+            return {
+                quote: `A mock quote for a ${moodSentiment} mood.`,
+                playlist: { name: 'Mock Playlist', url: 'https://music.youtube.com/search?q=mock' },
+            };
+        },
+    };
+};
+
+export const mockProvider = createMockProvider();
@@ -0,0 +1,281 @@
+import { Sentiment, AdvancedAnalysisResult, ComparativeAnalysisResult, Emotion, Entity, AspectSentiment, FineGrainedScores } from '../types';
+import { analyzeLexicon, splitSentences, tokenize, normalizeToken, isSentimentWord, classifyCompound, LexiconAnalysis } from './lexiconEngine';
+import { createFineGrainedScores } from './fineGrainedScores';
+
+// A compact emotion lexicon in the spirit of the NRC Emotion Lexicon.
+const EMOTION_LEXICON: Record<string, string[]> = {
+    Joy: ['happy', 'happier', 'joy', 'joyful', 'love', 'loved', 'lovely', 'delighted', 'glad', 'great', 'wonderful',
+        'amazing', 'awesome', 'fantastic', 'fun', 'enjoy', 'enjoyed', 'excellent', 'beautiful', 'smile', 'laugh',
+        'celebrate', 'pleased', 'perfect', 'best', 'yay', 'brilliant', 'cheerful'],
+    Sadness: ['sad', 'unhappy', 'miserable', 'cry', 'crying', 'lonely', 'lost', 'loss', 'grief', 'sorry', 'regret',
+        'depressed', 'hopeless', 'miss', 'missed', 'heartbroken', 'disappointed', 'disappointing', 'disappointment'],
+    Anger: ['angry', 'furious', 'hate', 'hated', 'annoyed', 'annoying', 'rage', 'mad', 'outraged', 'frustrated',
+        'frustrating', 'unacceptable', 'ridiculous', 'rude', 'scam', 'pathetic', 'stupid', 'irritated'],
+    Fear: ['afraid', 'scared', 'fear', 'worried', 'worry', 'anxious', 'nervous', 'terrified', 'panic', 'risk',
+        'danger', 'dangerous', 'unsafe', 'threat', 'stress', 'stressful'],
+    Surprise: ['surprised', 'surprising', 'unexpected', 'suddenly', 'wow', 'shocked', 'shocking', 'amazed',
+        'astonished', 'incredible', 'unbelievable'],
+    Trust: ['trust', 'reliable', 'honest', 'safe', 'secure', 'recommend', 'recommended', 'dependable', 'loyal',
+        'confident', 'helpful', 'friendly', 'support'],
+    Disgust: ['disgusting', 'gross', 'nasty', 'dirty', 'awful', 'horrible', 'garbage', 'trash', 'crap', 'filthy',
+        'revolting', 'sick'],
+    Anticipation: ['hope', 'hopeful', 'expect', 'expecting', 'waiting', 'soon', 'looking', 'forward', 'excited',
+        'exciting', 'plan', 'planning', 'upcoming', 'eager'],
+};
+
+const SENTENCE_STARTERS = new Set(['I', 'The', 'A', 'An', 'This', 'That', 'It', 'We', 'They', 'He', 'She', 'You',
+    'My', 'Our', 'But', 'And', 'So', 'If', 'When', 'What', 'Why', 'How', 'There', 'Here', 'Yes', 'No', 'Please']);
+const PERSON_TITLES = new Set(['Mr', 'Mrs', 'Ms', 'Miss', 'Dr', 'Prof', 'Sir', 'Madam', 'Lord', 'Lady']);
+const ORGANIZATION_MARKERS = /\b(Inc|Ltd|LLC|Corp|Corporation|Company|Co|Group|University|College|Bank|Institute|Foundation|Agency|Ministry|Department|Association)\b/;
+const EVENT_MARKERS = /\b(Conference|Festival|Summit|Cup|Olympics|Expo|Championship|Day|Week|Concert|Fair|Awards|Marathon|War)\b/;
+const LOCATION_PREPOSITIONS = new Set(['in', 'at', 'from', 'to', 'near', 'visiting', 'visited', 'around']);
+
+const tokenizeWords = (text: string): string[] => text.toLowerCase().match(/[\p{L}\p{M}\p{N}']+/gu) || [];
+
+const scoreEmotions = (text: string, lexicon: LexiconAnalysis): Emotion[] => {
+    const words = tokenizeWords(text);
+    const counts = Object.entries(EMOTION_LEXICON).map(([name, cues]) => {
+        const cueSet = new Set(cues);
+        return { name, hits: words.filter(word => cueSet.has(word)).length };
+    }).filter(e => e.hits > 0);
+
+    if (!counts.length) {
+        const intensity = Math.abs(lexicon.compound);
+        if (lexicon.sentiment === Sentiment.Positive) return [{ name: 'Joy', score: Math.max(0.3, intensity) }];
+        if (lexicon.sentiment === Sentiment.Negative) return [{ name: 'Sadness', score: Math.max(0.3, intensity) }];
+        return [{ name: 'Calm', score: 0.5 }];
+    }
+
+    // Scale by the strongest emotion so the top score reflects overall sentiment intensity.
+    const maxHits = Math.max(...counts.map(c => c.hits));
+    const intensity = 0.5 + Math.abs(lexicon.compound) * 0.5;
+    return counts
+        .map(c => ({ name: c.name, score: parseFloat(((c.hits / maxHits) * intensity).toFixed(2)) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 5);
+};
+
+const detectTones = (text: string, lexicon: LexiconAnalysis): string[] => {
+    const words = tokenizeWords(text);
+    const exclamations = (text.match(/!/g) || []).length;
+    const questions = (text.match(/\?/g) || []).length;
+    const contractions = words.filter(w => /'/.test(w)).length;
+    const averageWordLength = words.length ? words.reduce((sum, w) => sum + w.length, 0) / words.length : 0;
+    const capsWords = (text.match(/\b[A-Z]{3,}\b/g) || []).length;
+    const has = (...cues: string[]) => cues.some(cue => words.includes(cue));
+
+    const tones: { tone: string; weight: number }[] = [];
+    if (lexicon.compound >= 0.3) tones.push({ tone: 'Optimistic', weight: lexicon.compound });
+    if (lexicon.compound <= -0.3) tones.push({ tone: 'Pessimistic', weight: -lexicon.compound });
+    if (exclamations > 0 && lexicon.compound > 0) tones.push({ tone: 'Enthusiastic', weight: 0.4 + exclamations * 0.1 });
+    if ((exclamations > 0 || capsWords > 0) && lexicon.compound < 0) tones.push({ tone: 'Frustrated', weight: 0.5 + capsWords * 0.1 });
+    if (has('urgent', 'asap', 'immediately', 'now', 'quickly', 'deadline')) tones.push({ tone: 'Urgent', weight: 0.6 });
+    if (has('please', 'thank', 'thanks', 'kindly', 'appreciate')) tones.push({ tone: 'Polite', weight: 0.5 });
+    if (questions > 0) tones.push({ tone: 'Inquisitive', weight: 0.3 + questions * 0.1 });
+    if (contractions > 0 || has('lol', 'gonna', 'wanna', 'yeah', 'hey', 'btw')) {
+        tones.push({ tone: 'Casual', weight: 0.4 });
+    } else if (averageWordLength >= 5 && exclamations === 0) {
+        tones.push({ tone: 'Formal', weight: 0.4 });
+    }
+    if (!tones.length || Math.abs(lexicon.compound) < 0.05) tones.push({ tone: 'Neutral', weight: 0.2 });
+
+    return tones
+        .sort((a, b) => b.weight - a.weight)
+        .slice(0, 4)
+        .map(t => t.tone);
+};
+
+const classifyEntity = (phrase: string, precedingWord: string | undefined): Entity['type'] => {
+    const firstWord = phrase.split(' ')[0];
+    if (PERSON_TITLES.has(firstWord)) return 'PERSON';
+    if (ORGANIZATION_MARKERS.test(phrase) || /^[A-Z]{2,}$/.test(phrase)) return 'ORGANIZATION';
+    if (EVENT_MARKERS.test(phrase)) return 'EVENT';
+    if (precedingWord && LOCATION_PREPOSITIONS.has(precedingWord.toLowerCase())) return 'LOCATION';
+    if (phrase.split(' ').length === 2) return 'PERSON';
+    return 'OTHER';
+};
+
+// Treats runs of capitalised words as candidate named entities.
+const extractEntities = (text: string): Entity[] => {
+    const entities = new Map<string, Entity>();
+    splitSentences(text).forEach(({ sentence }) => {
+        const words = sentence.split(/\s+/).map(w => w.replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, ''));
+        let run: string[] = [];
+        let runStart = 0;
+
+        const flush = () => {
+            let phrase = run;
+            let start = runStart;
+            run = [];
+            if (start === 0 && phrase.length && SENTENCE_STARTERS.has(phrase[0])) {
+                phrase = phrase.slice(1);
+                start = 1;
+            }
+            // A lone capitalised word at the start of a sentence is usually just grammar.
+            if (!phrase.length || (start === 0 && phrase.length === 1)) return;
+            const entityText = phrase.join(' ');
+            if (!entities.has(entityText)) {
+                entities.set(entityText, { text: entityText, type: classifyEntity(entityText, words[start - 1]) });
+            }
+        };
+
+        words.forEach((word, i) => {
+            if (/^\p{Lu}/u.test(word) && word !== 'I') {
+                if (!run.length) runStart = i;
+                run.push(word);
+            } else {
+                flush();
+            }
+        });
+        flush();
+    });
+    return Array.from(entities.values()).slice(0, 10);
+};
+
+export const performOfflineAdvancedAnalysis = (text: string): AdvancedAnalysisResult => {
+    const lexicon = analyzeLexicon(text);
+    const emotions = scoreEmotions(text, lexicon);
+    const tones = detectTones(text, lexicon);
+    const entities = extractEntities(text);
+
+    const emotionNames = emotions.slice(0, 2).map(e => e.name.toLowerCase());
+    const topicSentence = entities.length
+        ? `It mentions ${entities.slice(0, 3).map(e => e.text).join(', ')}.`
+        : `The dominant emotional cues are ${emotionNames.join(' and ')}.`;
+
+    return {
+        summary: `The text reads as ${lexicon.sentiment}, and its tone is mainly ${tones[0].toLowerCase()}. ${topicSentence}`,
+        emotions,
+        tones,
+        entities,
+    };
+};
+
+const extractComparisonKeywords = (text: string, limit = 10): string[] => {
+    const stopWords = new Set(['the', 'and', 'but', 'for', 'with', 'this', 'that', 'was', 'were', 'are', 'is',
+        'have', 'has', 'had', 'you', 'they', 'them', 'its', 'our', 'your', 'not', 'from', 'just', 'very', 'really']);
+    const counts = new Map<string, number>();
+    tokenizeWords(text)
+        .filter(word => word.length > 2 && !stopWords.has(word))
+        .forEach(word => counts.set(word, (counts.get(word) || 0) + 1));
+    return Array.from(counts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, limit)
+        .map(([word]) => word);
+};
+
+const describeIntensity = (compound: number) => {
+    const magnitude = Math.abs(compound);
+    if (magnitude >= 0.6) return 'strongly';
+    if (magnitude >= 0.3) return 'moderately';
+    if (magnitude >= 0.05) return 'mildly';
+    return 'barely';
+};
+
+export const compareOffline = (textA: string, textB: string): ComparativeAnalysisResult => {
+    const a = analyzeLexicon(textA);
+    const b = analyzeLexicon(textB);
+    const keywordsA = extractComparisonKeywords(textA);
+    const keywordsB = extractComparisonKeywords(textB);
+    const setA = new Set(keywordsA);
+    const setB = new Set(keywordsB);
+
+    const summary = a.sentiment === b.sentiment
+        ? `Both texts read as ${a.sentiment}, with Text ${Math.abs(a.compound) >= Math.abs(b.compound) ? 'A' : 'B'} expressing it more strongly.`
+        : `Text A reads as ${a.sentiment} while Text B reads as ${b.sentiment}.`;
+
+    const gap = Math.abs(a.compound - b.compound);
+    const emotionalContrast = gap < 0.1
+        ? `The two texts are emotionally similar; Text A is ${describeIntensity(a.compound)} ${a.sentiment} and Text B is ${describeIntensity(b.compound)} ${b.sentiment}.`
+        : `Text A is ${describeIntensity(a.compound)} ${a.sentiment} and Text B is ${describeIntensity(b.compound)} ${b.sentiment}, a ${gap >= 0.6 ? 'sharp' : 'noticeable'} difference in emotional intensity.`;
+
+    return {
+        summary,
+        comparison: {
+            textA: { sentiment: a.sentiment, confidence: a.confidence, scores: a.scores },
+            textB: { sentiment: b.sentiment, confidence: b.confidence, scores: b.scores },
+        },
+        sharedKeywords: keywordsA.filter(word => setB.has(word)),
+        uniqueKeywords: {
+            textA: keywordsA.filter(word => !setB.has(word)),
+            textB: keywordsB.filter(word => !setA.has(word)),
+        },
+        emotionalContrast,
+    };
+};
+
+// Function words and vague nouns that are never useful as aspects.
+const NON_ASPECT_WORDS = new Set(['the', 'a', 'an', 'and', 'or', 'but', 'is', 'are', 'was', 'were', 'be', 'been', 'being',
+    'it', 'its', 'this', 'that', 'these', 'those', 'i', 'me', 'my', 'we', 'our', 'you', 'your', 'they', 'their', 'he', 'she',
+    'his', 'her', 'them', 'of', 'to', 'in', 'on', 'at', 'for', 'with', 'by', 'from', 'as', 'so', 'too', 'also', 'just',
+    'have', 'has', 'had', 'do', 'does', 'did', 'will', 'would', 'can', 'could', 'should', 'get', 'got', 'feel', 'feels',
+    'felt', 'seems', 'seemed', 'look', 'looks', 'thing', 'things', 'everything', 'something', 'anything', 'nothing',
+    'one', 'lot', 'bit', 'overall', 'all', 'really', 'quite', 'rather', 'still', 'now', 'then', 'when', 'which', 'who',
+    'how', 'what', 'why', 'where', 'very', 'much', 'many', 'more', 'most', 'even', 'not', 'there', 'here']);
+
+const isAspectCandidate = (word: string) =>
+    word.length > 2 && !/^\p{N}+$/u.test(word) && !NON_ASPECT_WORDS.has(word) && !isSentimentWord(word);
+
+// Pairs each sentiment word with the nearest content word: the word right after it ("great screen"),
+// else the closest one before it ("the battery is awful"), else one shortly after ("love how the camera...").
+const findAspectIndex = (words: string[], cueIndex: number): number => {
+    if (words[cueIndex + 1] && isAspectCandidate(words[cueIndex + 1])) return cueIndex + 1;
+    for (let i = cueIndex - 1; i >= Math.max(0, cueIndex - 4); i--) {
+        if (isAspectCandidate(words[i])) return i;
+    }
+    for (let i = cueIndex + 2; i <= Math.min(words.length - 1, cueIndex + 3); i++) {
+        if (isAspectCandidate(words[i])) return i;
+    }
+    return -1;
+};
+
+export const extractAspectsOffline = (text: string, lexicon: LexiconAnalysis = analyzeLexicon(text)): AspectSentiment[] => {
+    const aspects = new Map<string, { valences: number[]; opinions: string[] }>();
+
+    splitSentences(text).forEach(({ sentence, start }) => {
+        const tokens = tokenize(sentence, start);
+        const words = tokens.map(token => normalizeToken(token.text));
+        lexicon.cues
+            .filter(cue => cue.start >= start && cue.end <= start + sentence.length)
+            .forEach(cue => {
+                const cueIndex = tokens.findIndex(token => token.start === cue.start);
+                const aspectIndex = cueIndex >= 0 ? findAspectIndex(words, cueIndex) : -1;
+                if (aspectIndex < 0) return;
+                // The opinion is the stretch of text from the aspect to the sentiment word, e.g. "battery is terrible".
+                const first = tokens[Math.min(cueIndex, aspectIndex)];
+                const last = tokens[Math.max(cueIndex, aspectIndex)];
+                const opinion = text.slice(first.start, last.end);
+                const entry = aspects.get(words[aspectIndex]) ?? { valences: [], opinions: [] };
+                entry.valences.push(cue.valence);
+                if (!entry.opinions.includes(opinion)) entry.opinions.push(opinion);
+                aspects.set(words[aspectIndex], entry);
+            });
+    });
+
+    return Array.from(aspects.entries())
+        .map(([aspect, { valences, opinions }]) => {
+            // Lexicon valences are unbounded after boosting; squash the mean into -1..1.
+            const mean = valences.reduce((sum, v) => sum + v, 0) / valences.length;
+            const score = parseFloat((mean / Math.sqrt(mean * mean + 4)).toFixed(2));
+            return { aspect, sentiment: classifyCompound(score), score, opinions };
+        })
+        .sort((a, b) => Math.abs(b.score) - Math.abs(a.score));
+};
+
+// Lexicon valences top out around 4 before boosting.
+const MAX_CUE_VALENCE = 4;
+
+// Valence is the lexicon compound score. Arousal grows with how strong and how dense the sentiment
+// words are, and with shouting: exclamation marks and words in capitals.
+export const scoreFineGrainedOffline = (text: string, lexicon: LexiconAnalysis = analyzeLexicon(text)): FineGrainedScores => {
+    const tokenCount = tokenize(text).length || 1;
+    const meanStrength = lexicon.cues.length
+        ? lexicon.cues.reduce((sum, cue) => sum + Math.abs(cue.valence), 0) / lexicon.cues.length / MAX_CUE_VALENCE
+        : 0;
+    const density = Math.min(1, (lexicon.cues.length / tokenCount) * 4);
+    const exclamations = (text.match(/!/g) || []).length;
+    const capsWords = (text.match(/\b\p{Lu}{3,}\b/gu) || []).length;
+    const emphasis = Math.min(1, exclamations * 0.2 + capsWords * 0.15);
+    const arousal = 0.1 + Math.min(1, meanStrength) * 0.45 + density * 0.25 + emphasis * 0.2;
+    return createFineGrainedScores(lexicon.compound, arousal, lexicon.scores);
+};
@@ -0,0 +1,167 @@
+import type { PdfDocument } from './pdfReport';
+
+export type PdfFontStyle = 'normal' | 'bold' | 'italic';
+
+// A stretch of text that a single font draws.
+export interface TextRun {
+    text: string;
+    font: string;
+    style: PdfFontStyle;
+}
+
+export interface ReportFonts {
+    // `context` is the whole text a line was wrapped from; it decides which CJK font draws Han characters.
+    toRuns: (text: string, style: PdfFontStyle, context?: string) => TextRun[];
+}
+
+type FontScript = 'base' | 'arabic' | 'hebrew' | 'devanagari' | 'thai' | 'chinese' | 'japanese' | 'korean';
+
+interface FontPackage {
+    // Package name and version under @expo-google-fonts, which ships the Noto fonts as TTFs; jsPDF can't read WOFF.
+    name: string;
+    version: string;
+    family: string;
+    hasItalic?: boolean;
+}
+
+// Served from the jsDelivr npm CDN, like the libraries index.html loads.
+const FONT_CDN = 'https://cdn.jsdelivr.net/npm/@expo-google-fonts';
+
+// Noto Sans covers Latin, Greek and Cyrillic; the other scripts the language detector knows need their own font.
+const FONT_PACKAGES: Record<FontScript, FontPackage> = {
+    base: { name: 'noto-sans', version: '0.4.2', family: 'NotoSans', hasItalic: true },
+    arabic: { name: 'noto-sans-arabic', version: '0.4.3', family: 'NotoSansArabic' },
+    hebrew: { name: 'noto-sans-hebrew', version: '0.4.1', family: 'NotoSansHebrew' },
+    devanagari: { name: 'noto-sans-devanagari', version: '0.4.1', family: 'NotoSansDevanagari' },
+    thai: { name: 'noto-sans-thai', version: '0.4.2', family: 'NotoSansThai' },
+    chinese: { name: 'noto-sans-sc', version: '0.4.3', family: 'NotoSansSC' },
+    japanese: { name: 'noto-sans-jp', version: '0.4.3', family: 'NotoSansJP' },
+    korean: { name: 'noto-sans-kr', version: '0.4.3', family: 'NotoSansKR' },
+};
+
+const FILE_WEIGHTS: Record<PdfFontStyle, string> = { normal: '400Regular', bold: '700Bold', italic: '400Regular_Italic' };
+
+const SCRIPT_PATTERNS: [FontScript, RegExp][] = [
+    ['arabic', /\p{Script=Arabic}/u],
+    ['hebrew', /\p{Script=Hebrew}/u],
+    ['devanagari', /\p{Script=Devanagari}/u],
+    ['thai', /\p{Script=Thai}/u],
+    ['korean', /\p{Script=Hangul}/u],
+    ['japanese', /[\p{Script=Hiragana}\p{Script=Katakana}]/u],
+];
+// Han characters, plus the CJK punctuation and full-width forms that Noto Sans lacks.
+const HAN_PATTERN = /[\p{Script=Han}\u3000-\u303f\uff00-\uffef]/u;
+const BASE_PATTERN = /[\p{Script=Latin}\p{Script=Greek}\p{Script=Cyrillic}\p{Script=Common}\p{Script=Inherited}]/u;
+const EMOJI_PATTERN = /\p{Extended_Pictographic}/u;
+const COMBINING_MARK = /\p{M}/u;
+const PRINTABLE_ASCII = /^[\x20-\x7e]*$/;
+
+// Han characters are shared by Chinese, Japanese and Korean, and drawn in the font of the text's other characters.
+const getHanScript = (context: string): FontScript =>
+    /[\p{Script=Hiragana}\p{Script=Katakana}]/u.test(context) ? 'japanese' : /\p{Script=Hangul}/u.test(context) ? 'korean' : 'chinese';
+
+const getScript = (char: string, han: FontScript): FontScript | null => {
+    if (HAN_PATTERN.test(char)) return han;
+    const match = SCRIPT_PATTERNS.find(([, pattern]) => pattern.test(char));
+    if (match) return match[0];
+    return BASE_PATTERN.test(char) && !EMOJI_PATTERN.test(char) ? 'base' : null;
+};
+
+// The built-in PDF fonts only cover Latin-1, so without the Noto fonts other characters are replaced rather than drawn as mojibake.
+export const toLatin1 = (text: string) => text
+    .replace(/[\u2018\u2019]/g, "'")
+    .replace(/[\u201c\u201d]/g, '"')
+    .replace(/[\u2013\u2014]/g, '-')
+    .replace(/\u2026/g, '...')
+    .replace(/\t/g, ' ')
+    .replace(/[^\n\x20-\xff]/gu, '?');
+
+const LATIN1_FONTS: ReportFonts = {
+    toRuns: (text, style) => [{ text: toLatin1(text), font: 'helvetica', style }],
+};
+
+const fontUrl = ({ name, version, family }: FontPackage, style: PdfFontStyle) =>
+    `${FONT_CDN}/${name}@${version}/${FILE_WEIGHTS[style]}/${family}_${FILE_WEIGHTS[style]}.ttf`;
+
+const toBase64 = (buffer: ArrayBuffer) => {
+    const bytes = new Uint8Array(buffer);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+// Fonts are fetched once per page load; the CJK ones are several megabytes each.
+const fontFiles = new Map<string, Promise<string>>();
+
+const fetchFont = (url: string): Promise<string> => {
+    let file = fontFiles.get(url);
+    if (!file) {
+        file = fetch(url).then(response => {
+            if (!response.ok) throw new Error(`Could not load ${url}: ${response.status}`);
+            return response.arrayBuffer();
+        }).then(toBase64);
+        file.catch(() => fontFiles.delete(url));
+        fontFiles.set(url, file);
+    }
+    return file;
+};
+
+const FONT_STYLES: PdfFontStyle[] = ['normal', 'bold', 'italic'];
+
+// Registers the base font and the fonts for every other script found in `texts` with the document.
+// When the base font can't be loaded, e.g. offline, the report falls back to the built-in fonts.
+export const loadReportFonts = async (doc: PdfDocument, texts: string[]): Promise<ReportFonts> => {
+    const sample = texts.join('\n');
+    const scripts = new Set<FontScript>(['base']);
+    SCRIPT_PATTERNS.forEach(([script, pattern]) => { if (pattern.test(sample)) scripts.add(script); });
+    if (HAN_PATTERN.test(sample)) texts.filter(t => HAN_PATTERN.test(t)).forEach(t => scripts.add(getHanScript(t)));
+
+    const loaded = new Map<FontScript, Set<PdfFontStyle>>();
+    await Promise.all([...scripts].flatMap(script => {
+        const pkg = FONT_PACKAGES[script];
+        return FONT_STYLES.filter(style => style !== 'italic' || pkg.hasItalic).map(async style => {
+            try {
+                const fileName = `${pkg.family}-${style}.ttf`;
+                doc.addFileToVFS(fileName, await fetchFont(fontUrl(pkg, style)));
+                doc.addFont(fileName, pkg.family, style);
+                loaded.set(script, new Set([...(loaded.get(script) ?? []), style]));
+            } catch (e) {
+                console.warn(`Could not load the ${pkg.family} ${style} font for the PDF report`, e);
+            }
+        });
+    }));
+    if (!loaded.get('base')?.has('normal')) return LATIN1_FONTS;
+
+    // A missing bold or italic falls back to the regular weight of the same font.
+    const fontFor = (script: FontScript, style: PdfFontStyle): Omit<TextRun, 'text'> | null => {
+        const styles = loaded.get(script);
+        if (!styles) return null;
+        return { font: FONT_PACKAGES[script].family, style: styles.has(style) ? style : 'normal' };
+    };
+
+    return {
+        toRuns: (text, style, context = text) => {
+            if (PRINTABLE_ASCII.test(text)) return [{ text, ...fontFor('base', style)! }];
+            const han = getHanScript(context);
+            const runs: TextRun[] = [];
+            for (const char of text) {
+                const last = runs[runs.length - 1];
+                // Marks such as Arabic vowel signs belong with the letter before them, and spaces stay inside
+                // the run so a right-to-left phrase reaches jsPDF's shaping as one piece. Every Noto font has a space.
+                if (last && (COMBINING_MARK.test(char) || char === ' ')) {
+                    last.text += char;
+                    continue;
+                }
+                const script = getScript(char, han);
+                const font = script && fontFor(script, style);
+                // Characters no loaded font covers are the last resort for substitution.
+                const run = font ? { text: char, ...font } : { text: '?', ...fontFor('base', style)! };
+                if (last && last.font === run.font && last.style === run.style) last.text += run.text;
+                else runs.push(run);
+            }
+            return runs;
+        },
+    };
+};
@@ -0,0 +1,573 @@
+import { Sentiment, SentimentAnalysisResult } from '../types';
+import { getSentimentColor } from '../components/sentimentStyles';
+import { getIntendedSentiment, isSarcastic } from './sarcasmDetection';
+import { getLanguageName } from './languageDetection';
+import { describeGenerationConfig } from './generationSettings';
+import { getResultFacets, getResultLanguage } from './resultQuery';
+import { computeReviewAgreement } from './reviews';
+import { buildTrendSeries, getResultDate, TrendBucket, TrendGranularity } from './trends';
+import { clusterTopics, Topic } from './topicClustering';
+import { readJson, writeJson } from './localStore';
+import { loadReportFonts, toLatin1, PdfFontStyle, ReportFonts } from './pdfFonts';
+
+export type ReportSection = 'cover' | 'stats' | 'charts' | 'table' | 'details';
+
+export const REPORT_SECTIONS: { id: ReportSection; label: string; description: string }[] = [
+    { id: 'cover', label: 'Cover summary', description: 'Title, date range and the overall sentiment split' },
+    { id: 'stats', label: 'Aggregate statistics', description: 'Confidence, valence, providers, languages, review agreement and top keywords' },
+    { id: 'charts', label: 'Charts', description: 'Sentiment and confidence distributions, valence over time and topics' },
+    { id: 'table', label: 'Results table', description: 'One row per text with its label, confidence and review' },
+    { id: 'details', label: 'Result details', description: 'Full text, explanation, scores and sentence breakdown for each result' },
+];
+
+export interface ReportOptions {
+    title: string;
+    sections: ReportSection[];
+}
+
+// The part of jsPDF's API the report is drawn with; the library itself is loaded from a CDN in index.html.
+export interface PdfDocument {
+    internal: { pageSize: { getWidth: () => number; getHeight: () => number } };
+    setProperties: (properties: { title?: string; subject?: string; creator?: string }) => void;
+    addPage: () => void;
+    setPage: (page: number) => void;
+    getNumberOfPages: () => number;
+    addFileToVFS: (fileName: string, base64: string) => void;
+    addFont: (fileName: string, family: string, style: string) => void;
+    setFont: (name: string, style: string) => void;
+    setFontSize: (size: number) => void;
+    setTextColor: (color: string) => void;
+    setDrawColor: (color: string) => void;
+    setFillColor: (color: string) => void;
+    setLineWidth: (width: number) => void;
+    getTextWidth: (text: string) => number;
+    text: (text: string, x: number, y: number) => void;
+    rect: (x: number, y: number, width: number, height: number, style?: 'F' | 'S' | 'FD') => void;
+    line: (x1: number, y1: number, x2: number, y2: number) => void;
+    circle: (x: number, y: number, radius: number, style?: 'F' | 'S' | 'FD') => void;
+    save: (filename: string) => void;
+}
+
+const SECTIONS_KEY = 'reportSections';
+
+export const getReportSections = (): ReportSection[] => {
+    const saved = readJson<ReportSection[]>(SECTIONS_KEY, REPORT_SECTIONS.map(s => s.id));
+    return REPORT_SECTIONS.map(s => s.id).filter(id => saved.includes(id));
+};
+
+export const setReportSections = (sections: ReportSection[]) => writeJson(SECTIONS_KEY, sections);
+
+const SENTIMENTS = [Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative];
+// Millimetres on an A4 page.
+const MARGIN = 16;
+const LINE_HEIGHT = 0.42;
+const TEXT_COLOR = '#212529';
+const MUTED_COLOR = '#6c757d';
+const RULE_COLOR = '#dee2e6';
+const ACCENT_COLOR = '#7209b7';
+const TABLE_TEXT_LINES = 2;
+const TOP_KEYWORDS = 12;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const percent = (value: number, digits = 0) => `${(value * 100).toFixed(digits)}%`;
+
+// Tracks the write position and starts a new page whenever the next block would not fit.
+interface Cursor {
+    doc: PdfDocument;
+    fonts: ReportFonts;
+    width: number;
+    height: number;
+    y: number;
+    style: PdfFontStyle;
+}
+
+const ensureSpace = (cursor: Cursor, needed: number) => {
+    if (cursor.y + needed <= cursor.height - MARGIN) return;
+    cursor.doc.addPage();
+    cursor.y = MARGIN;
+};
+
+// The font itself is picked per run of text, since one font rarely covers every script in a report.
+const setType = (cursor: Cursor, size: number, style: PdfFontStyle = 'normal', color = TEXT_COLOR) => {
+    cursor.style = style;
+    cursor.doc.setFontSize(size);
+    cursor.doc.setTextColor(color);
+};
+
+const lineHeight = (size: number) => size * LINE_HEIGHT;
+
+const measureText = (cursor: Cursor, text: string, context?: string) =>
+    cursor.fonts.toRuns(text, cursor.style, context).reduce((width, run) => {
+        cursor.doc.setFont(run.font, run.style);
+        return width + cursor.doc.getTextWidth(run.text);
+    }, 0);
+
+const drawText = (cursor: Cursor, text: string, x: number, y: number, { align = 'left', context }: { align?: 'left' | 'center' | 'right'; context?: string } = {}) => {
+    const runs = cursor.fonts.toRuns(text, cursor.style, context);
+    const width = align === 'left' ? 0 : measureText(cursor, text, context);
+    let runX = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    runs.forEach(run => {
+        cursor.doc.setFont(run.font, run.style);
+        cursor.doc.text(run.text, runX, y);
+        runX += cursor.doc.getTextWidth(run.text);
+    });
+};
+
+// Characters of scripts written without spaces can each start a new line.
+const WRAP_TOKEN = /\s+|[\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]|[^\s\p{Script=Han}\p{Script=Hiragana}\p{Script=Katakana}\p{Script=Thai}]+/gu;
+
+// Greedy word wrap measured with the fonts that will draw each run; a word wider than the line is broken between characters.
+const wrapText = (cursor: Cursor, text: string, maxWidth: number): string[] => {
+    const lines: string[] = [];
+    text.split('\n').forEach(paragraph => {
+        let line = '';
+        (paragraph.match(WRAP_TOKEN) ?? []).forEach(token => {
+            if (measureText(cursor, line + token, text) <= maxWidth) {
+                line += token;
+                return;
+            }
+            if (line.trim()) lines.push(line.trimEnd());
+            line = '';
+            if (/^\s+$/.test(token)) return;
+            for (const char of token) {
+                if (line && measureText(cursor, line + char, text) > maxWidth) {
+                    lines.push(line);
+                    line = '';
+                }
+                line += char;
+            }
+        });
+        lines.push(line.trimEnd());
+    });
+    return lines;
+};
+
+// Wraps the text to the content width, breaking across pages between lines.
+const writeText = (cursor: Cursor, text: string, { size = 10, style = 'normal', color = TEXT_COLOR, indent = 0, gap = 1.5 }: {
+    size?: number; style?: PdfFontStyle; color?: string; indent?: number; gap?: number;
+} = {}) => {
+    setType(cursor, size, style, color);
+    wrapText(cursor, text.replace(/\t/g, ' '), cursor.width - 2 * MARGIN - indent).forEach(line => {
+        ensureSpace(cursor, lineHeight(size));
+        cursor.y += lineHeight(size);
+        drawText(cursor, line, MARGIN + indent, cursor.y, { context: text });
+    });
+    cursor.y += gap;
+};
+
+const writeField = (cursor: Cursor, label: string, value: string) => {
+    ensureSpace(cursor, lineHeight(9) * 2);
+    writeText(cursor, label.toUpperCase(), { size: 7.5, style: 'bold', color: MUTED_COLOR, gap: 0 });
+    writeText(cursor, value, { size: 9.5 });
+};
+
+// Each section after the first starts on a fresh page.
+const startSection = (cursor: Cursor, title: string) => {
+    if (cursor.y > MARGIN) {
+        cursor.doc.addPage();
+        cursor.y = MARGIN;
+    }
+    writeText(cursor, title, { size: 18, style: 'bold', gap: 2 });
+    cursor.doc.setDrawColor(ACCENT_COLOR);
+    cursor.doc.setLineWidth(0.6);
+    cursor.doc.line(MARGIN, cursor.y, cursor.width - MARGIN, cursor.y);
+    cursor.y += 6;
+};
+
+const countSentiments = (results: SentimentAnalysisResult[]) => {
+    const counts: Record<Sentiment, number> = { [Sentiment.Positive]: 0, [Sentiment.Neutral]: 0, [Sentiment.Negative]: 0 };
+    results.forEach(r => { counts[getIntendedSentiment(r)]++; });
+    return counts;
+};
+
+// Reduced rather than spread into Math.min/max, which overflows the call stack on large datasets.
+const minOf = (values: number[]) => values.reduce((min, v) => (v < min ? v : min), Infinity);
+const maxOf = (values: number[]) => values.reduce((max, v) => (v > max ? v : max), -Infinity);
+
+const getDateRange = (results: SentimentAnalysisResult[]) => {
+    const times = results.map(getResultDate).flatMap(date => (date ? [date.getTime()] : []));
+    return times.length ? { from: new Date(minOf(times)), to: new Date(maxOf(times)) } : null;
+};
+
+const formatDate = (date: Date) => date.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' });
+
+// A full-width bar split by each sentiment's share, with a legend underneath.
+const drawSentimentBar = (cursor: Cursor, counts: Record<Sentiment, number>, total: number) => {
+    const { doc } = cursor;
+    const barWidth = cursor.width - 2 * MARGIN;
+    ensureSpace(cursor, 20);
+    let x = MARGIN;
+    SENTIMENTS.forEach(s => {
+        const width = total ? (counts[s] / total) * barWidth : 0;
+        doc.setFillColor(getSentimentColor(s).hex);
+        doc.rect(x, cursor.y, width, 8, 'F');
+        x += width;
+    });
+    cursor.y += 14;
+    x = MARGIN;
+    SENTIMENTS.forEach(s => {
+        doc.setFillColor(getSentimentColor(s).hex);
+        doc.rect(x, cursor.y - 2.8, 3, 3, 'F');
+        setType(cursor, 9);
+        const label = `${s} ${counts[s]} (${percent(total ? counts[s] / total : 0)})`;
+        drawText(cursor, label, x + 4.5, cursor.y);
+        x += measureText(cursor, label) + 12;
+    });
+    cursor.y += 6;
+};
+
+const renderCover = (cursor: Cursor, results: SentimentAnalysisResult[], options: ReportOptions) => {
+    cursor.y = cursor.height * 0.22;
+    writeText(cursor, options.title, { size: 26, style: 'bold', gap: 3 });
+    writeText(cursor, `Generated ${new Date().toLocaleString()}`, { size: 10, color: MUTED_COLOR, gap: 10 });
+
+    const range = getDateRange(results);
+    writeField(cursor, 'Texts analyzed', String(results.length));
+    if (range) writeField(cursor, 'Period', `${formatDate(range.from)} to ${formatDate(range.to)}`);
+    const counts = countSentiments(results);
+    const dominant = SENTIMENTS.reduce((best, s) => (counts[s] > counts[best] ? s : best));
+    writeField(cursor, 'Overall', `Mostly ${dominant}: ${percent(counts[dominant] / results.length)} of texts, by intended sentiment.`);
+    cursor.y += 4;
+    drawSentimentBar(cursor, counts, results.length);
+
+    const included = REPORT_SECTIONS.filter(s => s.id !== 'cover' && options.sections.includes(s.id));
+    if (included.length) {
+        cursor.y += 6;
+        writeText(cursor, 'CONTENTS', { size: 7.5, style: 'bold', color: MUTED_COLOR, gap: 0 });
+        included.forEach(s => writeText(cursor, `${s.label} - ${s.description}`, { size: 9.5, gap: 0.5 }));
+    }
+};
+
+const topKeywords = (results: SentimentAnalysisResult[]) => {
+    const counts = new Map<string, number>();
+    results.forEach(r => new Set(r.keywords.map(k => k.toLowerCase())).forEach(k => counts.set(k, (counts.get(k) ?? 0) + 1)));
+    return Array.from(counts).sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0])).slice(0, TOP_KEYWORDS);
+};
+
+const renderStats = (cursor: Cursor, results: SentimentAnalysisResult[]) => {
+    startSection(cursor, 'Aggregate statistics');
+    const n = results.length;
+    const counts = countSentiments(results);
+    const facets = getResultFacets(results);
+    const mean = (values: number[]) => values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+    const fineGrained = results.flatMap(r => (r.fineGrained ? [r.fineGrained] : []));
+    const sarcastic = results.filter(r => isSarcastic(r.sarcasm)).length;
+    const agreement = computeReviewAgreement(results);
+    const fallbacks = results.filter(r => r.fallbackReason).length;
+
+    writeField(cursor, 'Sentiment', SENTIMENTS.map(s => `${s} ${counts[s]} (${percent(counts[s] / n)})`).join(', '));
+    writeField(cursor, 'Mean confidence', `${percent(mean(results.map(r => r.confidence)), 1)}; lowest ${percent(minOf(results.map(r => r.confidence)), 1)}`);
+    writeField(cursor, 'Mean scores', `positive ${mean(results.map(r => r.scores.positive)).toFixed(2)}, neutral ${mean(results.map(r => r.scores.neutral)).toFixed(2)}, negative ${mean(results.map(r => r.scores.negative)).toFixed(2)}`);
+    if (fineGrained.length) {
+        writeField(cursor, 'Fine-grained', `${fineGrained.length} texts; mean rating ${mean(fineGrained.map(f => f.rating)).toFixed(2)}/5, valence ${mean(fineGrained.map(f => f.valence)).toFixed(2)}, arousal ${mean(fineGrained.map(f => f.arousal)).toFixed(2)}; ${fineGrained.filter(f => f.mixed).length} mixed`);
+    }
+    writeField(cursor, 'Sarcasm', sarcastic ? `${sarcastic} text(s) read as sarcastic (${percent(sarcastic / n)})` : 'No texts read as sarcastic');
+    writeField(cursor, 'Providers', facets.providers.map(f => `${f.value} ${f.count}`).join(', ') + (fallbacks ? `; ${fallbacks} fell back to the offline engine` : ''));
+    writeField(cursor, 'Languages', facets.languages.map(f => `${getLanguageName(f.value)} ${f.count}`).join(', '));
+    writeField(cursor, 'Review', agreement.results.rate === null
+        ? 'No results reviewed'
+        : `${agreement.results.reviewed} reviewed, ${percent(agreement.results.rate)} agreement with the model`
+            + (agreement.sentences.rate !== null ? `; ${percent(agreement.sentences.rate)} of ${agreement.sentences.reviewed} sentences` : ''));
+    const keywords = topKeywords(results);
+    if (keywords.length) writeField(cursor, 'Top keywords', keywords.map(([k, count]) => `${k} (${count})`).join(', '));
+};
+
+const CHART_HEIGHT = 52;
+
+const drawChartTitle = (cursor: Cursor, title: string, note?: string) => {
+    ensureSpace(cursor, CHART_HEIGHT + 18);
+    writeText(cursor, title, { size: 12, style: 'bold', gap: note ? 0 : 3 });
+    if (note) writeText(cursor, note, { size: 8, color: MUTED_COLOR, gap: 3 });
+};
+
+// Horizontal bars, one per row, scaled to the largest value.
+const drawBarChart = (cursor: Cursor, rows: { label: string; value: number; color: string }[]) => {
+    const { doc } = cursor;
+    const labelWidth = 38;
+    const barHeight = 6;
+    const maxBarWidth = cursor.width - 2 * MARGIN - labelWidth - 18;
+    const max = Math.max(1, ...rows.map(r => r.value));
+    rows.forEach(row => {
+        ensureSpace(cursor, barHeight + 3);
+        setType(cursor, 9);
+        drawText(cursor, row.label, MARGIN, cursor.y + barHeight - 1.5);
+        doc.setFillColor(row.color);
+        doc.rect(MARGIN + labelWidth, cursor.y, Math.max(0.3, (row.value / max) * maxBarWidth), barHeight, 'F');
+        drawText(cursor, String(row.value), MARGIN + labelWidth + (row.value / max) * maxBarWidth + 2, cursor.y + barHeight - 1.5);
+        cursor.y += barHeight + 3;
+    });
+    cursor.y += 6;
+};
+
+// Vertical bars over ten confidence bands.
+const drawHistogram = (cursor: Cursor, results: SentimentAnalysisResult[]) => {
+    const { doc } = cursor;
+    const bins = Array.from({ length: 10 }, () => 0);
+    results.forEach(r => { bins[Math.min(9, Math.floor(r.confidence * 10))]++; });
+    const max = Math.max(1, ...bins);
+    const chartWidth = cursor.width - 2 * MARGIN;
+    const binWidth = chartWidth / bins.length;
+    const base = cursor.y + CHART_HEIGHT - 8;
+    doc.setFillColor('#4361ee');
+    bins.forEach((count, i) => {
+        const height = (count / max) * (CHART_HEIGHT - 14);
+        doc.rect(MARGIN + i * binWidth + 1, base - height, binWidth - 2, height, 'F');
+        setType(cursor, 7.5, 'normal', MUTED_COLOR);
+        if (count) drawText(cursor, String(count), MARGIN + (i + 0.5) * binWidth, base - height - 1.2, { align: 'center' });
+        drawText(cursor, `${i * 10}-${i * 10 + 10}%`, MARGIN + (i + 0.5) * binWidth, base + 4, { align: 'center' });
+    });
+    doc.setDrawColor(RULE_COLOR);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, base, MARGIN + chartWidth, base);
+    cursor.y += CHART_HEIGHT + 4;
+};
+
+// Day buckets for about a month and a half, weeks up to about nine months, then months.
+const pickGranularity = (results: SentimentAnalysisResult[]): TrendGranularity => {
+    const range = getDateRange(results);
+    const days = range ? (range.to.getTime() - range.from.getTime()) / DAY_MS : 0;
+    return days <= 45 ? 'day' : days <= 280 ? 'week' : 'month';
+};
+
+// Mean valence per bucket as points, with the rolling average as a line, on a -1 to 1 axis.
+const drawValenceChart = (cursor: Cursor, buckets: TrendBucket[]) => {
+    const { doc } = cursor;
+    const axisWidth = 8;
+    const chartWidth = cursor.width - 2 * MARGIN - axisWidth;
+    const top = cursor.y + 2;
+    const plotHeight = CHART_HEIGHT - 12;
+    const xAt = (i: number) => MARGIN + axisWidth + (buckets.length > 1 ? (i / (buckets.length - 1)) * chartWidth : chartWidth / 2);
+    const yAt = (valence: number) => top + ((1 - valence) / 2) * plotHeight;
+
+    doc.setLineWidth(0.2);
+    [1, 0, -1].forEach(v => {
+        doc.setDrawColor(v === 0 ? MUTED_COLOR : RULE_COLOR);
+        doc.line(MARGIN + axisWidth, yAt(v), MARGIN + axisWidth + chartWidth, yAt(v));
+        setType(cursor, 7.5, 'normal', MUTED_COLOR);
+        drawText(cursor, v > 0 ? '+1' : String(v), MARGIN + axisWidth - 2, yAt(v) + 1, { align: 'right' });
+    });
+
+    doc.setDrawColor(ACCENT_COLOR);
+    doc.setLineWidth(0.6);
+    const rolling = buckets.flatMap((b, i) => (b.rollingValence === null ? [] : [{ x: xAt(i), y: yAt(b.rollingValence) }]));
+    rolling.slice(1).forEach((point, i) => doc.line(rolling[i].x, rolling[i].y, point.x, point.y));
+
+    buckets.forEach((b, i) => {
+        if (b.meanValence === null) return;
+        doc.setFillColor(b.spike ? getSentimentColor(b.spike === 'positive' ? Sentiment.Positive : Sentiment.Negative).hex : '#4361ee');
+        doc.circle(xAt(i), yAt(b.meanValence), b.spike ? 1.4 : 0.9, 'F');
+    });
+
+    setType(cursor, 7.5, 'normal', MUTED_COLOR);
+    drawText(cursor, buckets[0].label, MARGIN + axisWidth, top + plotHeight + 5);
+    drawText(cursor, buckets[buckets.length - 1].label, MARGIN + axisWidth + chartWidth, top + plotHeight + 5, { align: 'right' });
+    cursor.y += CHART_HEIGHT + 4;
+};
+
+// One bar per topic, split by sentiment.
+const drawTopicChart = (cursor: Cursor, topics: Topic[]) => {
+    const { doc } = cursor;
+    const labelWidth = 50;
+    const barHeight = 6;
+    const maxBarWidth = cursor.width - 2 * MARGIN - labelWidth - 12;
+    const max = Math.max(1, ...topics.map(t => t.size));
+    topics.forEach(topic => {
+        ensureSpace(cursor, barHeight + 3);
+        setType(cursor, 9);
+        drawText(cursor, wrapText(cursor, topic.label, labelWidth - 2)[0], MARGIN, cursor.y + barHeight - 1.5);
+        let x = MARGIN + labelWidth;
+        SENTIMENTS.forEach(s => {
+            const width = (topic.sentiments[s] / max) * maxBarWidth;
+            doc.setFillColor(getSentimentColor(s).hex);
+            doc.rect(x, cursor.y, width, barHeight, 'F');
+            x += width;
+        });
+        drawText(cursor, String(topic.size), x + 2, cursor.y + barHeight - 1.5);
+        cursor.y += barHeight + 3;
+    });
+    cursor.y += 6;
+};
+
+const renderCharts = (cursor: Cursor, results: SentimentAnalysisResult[]) => {
+    startSection(cursor, 'Charts');
+    const counts = countSentiments(results);
+    drawChartTitle(cursor, 'Sentiment distribution', 'By intended sentiment, so sarcastic texts count under what they mean.');
+    drawBarChart(cursor, SENTIMENTS.map(s => ({ label: s, value: counts[s], color: getSentimentColor(s).hex })));
+
+    drawChartTitle(cursor, 'Confidence distribution');
+    drawHistogram(cursor, results);
+
+    const { buckets } = buildTrendSeries(results, { granularity: pickGranularity(results) });
+    if (buckets.length > 1) {
+        drawChartTitle(cursor, 'Valence over time', 'Points are the mean valence of each period, larger where it stands out; the line is a rolling average.');
+        drawValenceChart(cursor, buckets);
+    }
+
+    const { topics } = clusterTopics(results);
+    if (topics.length) {
+        drawChartTitle(cursor, 'Topics', 'Texts grouped by the words they share, split by sentiment.');
+        drawTopicChart(cursor, topics);
+    }
+};
+
+const TABLE_COLUMNS: { title: string; width: number; align?: 'right' }[] = [
+    { title: '#', width: 9 },
+    { title: 'Text', width: 0 },
+    { title: 'Sentiment', width: 22 },
+    { title: 'Conf.', width: 14, align: 'right' },
+    { title: 'Provider', width: 24 },
+    { title: 'Review', width: 22 },
+];
+
+// A paginated table that repeats its header on every page; long texts are cut to a couple of lines.
+const renderTable = (cursor: Cursor, results: SentimentAnalysisResult[]) => {
+    startSection(cursor, 'Results');
+    const { doc } = cursor;
+    const tableWidth = cursor.width - 2 * MARGIN;
+    const columns = TABLE_COLUMNS.map(c => ({ ...c, width: c.width || tableWidth - TABLE_COLUMNS.reduce((sum, col) => sum + col.width, 0) }));
+    const padding = 1.5;
+    const textLine = lineHeight(8.5);
+
+    const drawHeader = () => {
+        doc.setFillColor('#f1f3f5');
+        doc.rect(MARGIN, cursor.y, tableWidth, 7, 'F');
+        setType(cursor, 8, 'bold', MUTED_COLOR);
+        let x = MARGIN;
+        columns.forEach(c => {
+            drawText(cursor, c.title, c.align === 'right' ? x + c.width - padding : x + padding, cursor.y + 4.8, { align: c.align ?? 'left' });
+            x += c.width;
+        });
+        cursor.y += 7;
+    };
+
+    drawHeader();
+    results.forEach((r, i) => {
+        setType(cursor, 8.5);
+        let textLines = wrapText(cursor, r.text.replace(/\s+/g, ' '), columns[1].width - 2 * padding);
+        if (textLines.length > TABLE_TEXT_LINES) textLines = [...textLines.slice(0, TABLE_TEXT_LINES - 1), `${textLines[TABLE_TEXT_LINES - 1].replace(/.{0,3}$/, '')}...`];
+        const rowHeight = textLines.length * textLine + 2 * padding + 1;
+        if (cursor.y + rowHeight > cursor.height - MARGIN) {
+            doc.addPage();
+            cursor.y = MARGIN;
+            drawHeader();
+        }
+        if (i % 2) {
+            doc.setFillColor('#f8f9fa');
+            doc.rect(MARGIN, cursor.y, tableWidth, rowHeight, 'F');
+        }
+        const sentiment = getIntendedSentiment(r);
+        const cells = [
+            String(i + 1),
+            textLines,
+            sentiment + (sentiment !== r.sentiment ? ' *' : ''),
+            percent(r.confidence),
+            r.apiUsed,
+            r.review ? (r.review.status === 'accepted' ? 'accepted' : `-> ${r.review.sentiment}`) : '',
+        ];
+        const baseline = cursor.y + padding + textLine - 0.6;
+        let x = MARGIN;
+        columns.forEach((c, col) => {
+            setType(cursor, 8.5, 'normal', col === 2 ? getSentimentColor(sentiment).hex : TEXT_COLOR);
+            const cellX = c.align === 'right' ? x + c.width - padding : x + padding;
+            [cells[col]].flat().forEach((line, k) => drawText(cursor, line, cellX, baseline + k * textLine, { align: c.align ?? 'left', context: r.text }));
+            x += c.width;
+        });
+        cursor.y += rowHeight;
+        doc.setDrawColor(RULE_COLOR);
+        doc.setLineWidth(0.2);
+        doc.line(MARGIN, cursor.y, MARGIN + tableWidth, cursor.y);
+    });
+    cursor.y += 3;
+    if (results.some(r => getIntendedSentiment(r) !== r.sentiment)) {
+        writeText(cursor, '* Read as sarcastic; the label is the intended sentiment rather than the literal one.', { size: 8, color: MUTED_COLOR });
+    }
+};
+
+const renderResult = (cursor: Cursor, r: SentimentAnalysisResult, index: number) => {
+    const { doc } = cursor;
+    const sentiment = getIntendedSentiment(r);
+    ensureSpace(cursor, 30);
+    const top = cursor.y;
+    writeText(cursor, `#${index + 1}  ${sentiment.toUpperCase()}  ${percent(r.confidence, 1)} confidence`, { size: 11.5, style: 'bold', color: getSentimentColor(sentiment).hex, indent: 3, gap: 0.5 });
+    const date = getResultDate(r);
+    const meta = [date && date.toLocaleString(), r.apiUsed, r.cached && 'cached', getLanguageName(getResultLanguage(r)), r.generation && describeGenerationConfig(r.generation)].filter(Boolean).join(' · ');
+    writeText(cursor, meta, { size: 8, color: MUTED_COLOR, indent: 3, gap: 1 });
+    // The accent bar only marks the heading, so it can't end up split across a page break.
+    doc.setFillColor(getSentimentColor(sentiment).hex);
+    doc.rect(MARGIN, top + 1, 1.2, cursor.y - top - 1, 'F');
+
+    writeField(cursor, 'Text', r.text);
+    if (r.translation) writeField(cursor, 'Translation', r.translation);
+    writeField(cursor, 'Explanation', r.explanation);
+    writeField(cursor, 'Scores', `positive ${r.scores.positive.toFixed(2)}, neutral ${r.scores.neutral.toFixed(2)}, negative ${r.scores.negative.toFixed(2)}`);
+    if (r.keywords.length) writeField(cursor, 'Keywords', r.keywords.join(', '));
+    if (r.fineGrained) {
+        writeField(cursor, 'Fine-grained', `rating ${r.fineGrained.rating}/5, valence ${r.fineGrained.valence.toFixed(2)}, arousal ${r.fineGrained.arousal.toFixed(2)}${r.fineGrained.mixed ? ', mixed' : ''}`);
+    }
+    if (r.sarcasm) {
+        writeField(cursor, 'Sarcasm', `${percent(r.sarcasm.probability)} likely${r.sarcasm.trigger ? `, signalled by "${r.sarcasm.trigger}"` : ''}${sentiment !== r.sentiment ? `; literal reading ${r.sentiment}` : ''}`);
+    }
+    if (r.classification) {
+        const scores = (Object.entries(r.classification.scores) as [string, number][]).map(([label, score]) => `${label} ${percent(score)}`).join(', ');
+        writeField(cursor, 'Classification', `${r.classification.label} (${scores}). ${r.classification.rationale}`);
+    }
+    if (r.aspects?.length) {
+        writeField(cursor, 'Aspects', r.aspects.map(a => `${a.aspect}: ${a.sentiment} (${a.score.toFixed(2)})`).join('; '));
+    }
+    if (r.sentenceBreakdown?.length) {
+        ensureSpace(cursor, lineHeight(9) * 2);
+        writeText(cursor, 'SENTENCES', { size: 7.5, style: 'bold', color: MUTED_COLOR, gap: 0 });
+        r.sentenceBreakdown.forEach((s, i) => {
+            const corrected = r.review?.sentenceLabels?.[i];
+            writeText(cursor, `[${corrected ?? s.sentiment}${corrected ? `, model: ${s.sentiment}` : ''}] ${s.sentence}`, { size: 9, indent: 2, gap: 0.5 });
+        });
+        cursor.y += 1;
+    }
+    if (r.review) {
+        writeField(cursor, 'Review', `${r.review.status === 'accepted' ? 'Accepted' : `Corrected to ${r.review.sentiment}`} by ${r.review.reviewer || 'anonymous'} on ${formatDate(new Date(r.review.reviewedAt))}${r.review.notes ? `. ${r.review.notes}` : ''}`);
+    }
+
+    cursor.y += 2;
+    doc.setDrawColor(RULE_COLOR);
+    doc.setLineWidth(0.3);
+    doc.line(MARGIN, cursor.y, cursor.width - MARGIN, cursor.y);
+    cursor.y += 5;
+};
+
+const renderDetails = (cursor: Cursor, results: SentimentAnalysisResult[]) => {
+    startSection(cursor, 'Result details');
+    results.forEach((r, i) => renderResult(cursor, r, i));
+};
+
+const addPageFooters = (cursor: Cursor, title: string) => {
+    const pages = cursor.doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+        cursor.doc.setPage(page);
+        setType(cursor, 7.5, 'normal', MUTED_COLOR);
+        drawText(cursor, title, MARGIN, cursor.height - 8);
+        drawText(cursor, `Page ${page} of ${pages}`, cursor.width - MARGIN, cursor.height - 8, { align: 'right' });
+    }
+};
+
+// Draws the report with text and vector shapes only, so its text stays selectable and searchable.
+// Results are numbered in the order given, and the table and details use the same numbers.
+// Every string a result could print is scanned up front, so the fonts for its scripts are loaded before drawing starts.
+export const buildPdfReport = async (doc: PdfDocument, results: SentimentAnalysisResult[], options: ReportOptions): Promise<PdfDocument> => {
+    const fonts = await loadReportFonts(doc, [options.title, ...results.map(r => JSON.stringify(r))]);
+    const cursor: Cursor = { doc, fonts, width: doc.internal.pageSize.getWidth(), height: doc.internal.pageSize.getHeight(), y: MARGIN, style: 'normal' };
+    doc.setProperties({ title: toLatin1(options.title), subject: 'Sentiment analysis report', creator: 'SentiCoreX' });
+    if (!results.length) {
+        writeText(cursor, 'No results to report.', { size: 12 });
+        return doc;
+    }
+    const renderers: Record<ReportSection, () => void> = {
+        cover: () => renderCover(cursor, results, options),
+        stats: () => renderStats(cursor, results),
+        charts: () => renderCharts(cursor, results),
+        table: () => renderTable(cursor, results),
+        details: () => renderDetails(cursor, results),
+    };
+    REPORT_SECTIONS.filter(s => options.sections.includes(s.id)).forEach(s => renderers[s.id]());
+    addPageFooters(cursor, options.title);
+    return doc;
+};
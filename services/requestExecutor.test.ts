@@ -0,0 +1,135 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ApiError } from '@google/genai';
+import { RequestError, classifyError, executeRequest, setMaxConcurrentRequests } from './requestExecutor';
+import { ResponseValidationError } from './responseValidation';
+
+const apiError = (status: number, message = 'request failed') => new ApiError({ status, message });
+
+describe('classifyError', () => {
+    it.each([
+        [apiError(401), 'auth', false],
+        [new Error('API key not valid. Please pass a valid API key.'), 'auth', false],
+        [apiError(429), 'quota', true],
+        [new Error('RESOURCE_EXHAUSTED'), 'quota', true],
+        [apiError(503), 'server', true],
+        [new Error('The model is overloaded.'), 'server', true],
+        [new Error('INTERNAL'), 'server', true],
+        [new Error('Cannot reach an internal helper'), 'unknown', false],
+        [new Error('Response was blocked due to SAFETY'), 'safety', false],
+        [new SyntaxError('Unexpected end of JSON input'), 'parse', false],
+        [new ResponseValidationError('SentimentAnalysisResult', '$.sentiment', 'expected a string'), 'parse', false],
+        [new TypeError('Failed to fetch'), 'network', true],
+        [new TypeError('Load failed'), 'network', true],
+        [new TypeError("Cannot read properties of undefined (reading 'text')"), 'unknown', false],
+        [new Error('something odd'), 'unknown', false],
+    ])('classifies %s as %s', (error, kind, retryable) => {
+        const classified = classifyError(error);
+        expect(classified).toBeInstanceOf(RequestError);
+        expect(classified.kind).toBe(kind);
+        expect(classified.retryable).toBe(retryable);
+        expect(classified.cause).toBe(error);
+    });
+
+    it('keeps the status of API errors', () => {
+        expect(classifyError(apiError(503)).status).toBe(503);
+    });
+
+    it('passes a RequestError through unchanged', () => {
+        const error = new RequestError('timeout', 'slow', { retryable: true });
+        expect(classifyError(error)).toBe(error);
+    });
+});
+
+describe('executeRequest', () => {
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+        vi.restoreAllMocks();
+        setMaxConcurrentRequests(3);
+    });
+
+    it('retries retryable failures with backoff', async () => {
+        const request = vi.fn()
+            .mockRejectedValueOnce(apiError(503))
+            .mockRejectedValueOnce(apiError(429))
+            .mockResolvedValue('ok');
+        const result = executeRequest(request);
+        await vi.runAllTimersAsync();
+        await expect(result).resolves.toBe('ok');
+        expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('does not retry failures that would fail again', async () => {
+        const request = vi.fn().mockRejectedValue(apiError(401));
+        await expect(executeRequest(request)).rejects.toMatchObject({ kind: 'auth' });
+        expect(request).toHaveBeenCalledOnce();
+    });
+
+    it('gives up after the last retry', async () => {
+        const request = vi.fn().mockRejectedValue(apiError(503));
+        const result = executeRequest(request, { maxRetries: 2 });
+        const settled = expect(result).rejects.toMatchObject({ kind: 'server', status: 503 });
+        await vi.runAllTimersAsync();
+        await settled;
+        expect(request).toHaveBeenCalledTimes(3);
+    });
+
+    it('keeps each delay under the capped exponential step', async () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.999);
+        const request = vi.fn().mockRejectedValueOnce(apiError(503)).mockResolvedValue('ok');
+        const result = executeRequest(request, { baseDelayMs: 1000 });
+        await vi.advanceTimersByTimeAsync(998);
+        expect(request).toHaveBeenCalledOnce();
+        await vi.advanceTimersByTimeAsync(1);
+        expect(request).toHaveBeenCalledTimes(2);
+        await expect(result).resolves.toBe('ok');
+    });
+
+    it('times out a request and aborts its signal', async () => {
+        let signal: AbortSignal | undefined;
+        const result = executeRequest(s => {
+            signal = s;
+            return new Promise(() => undefined);
+        }, { timeoutMs: 1000, maxRetries: 0 });
+        const settled = expect(result).rejects.toMatchObject({ kind: 'timeout' });
+        await vi.advanceTimersByTimeAsync(1000);
+        await settled;
+        expect(signal?.aborted).toBe(true);
+    });
+
+    it('runs no more requests at once than the slot limit', async () => {
+        setMaxConcurrentRequests(2);
+        const pending: (() => void)[] = [];
+        const request = vi.fn(() => new Promise<void>(resolve => pending.push(resolve)));
+        const results = [executeRequest(request), executeRequest(request), executeRequest(request)];
+        await vi.advanceTimersByTimeAsync(0);
+        expect(request).toHaveBeenCalledTimes(2);
+
+        pending[0]();
+        await vi.advanceTimersByTimeAsync(0);
+        expect(request).toHaveBeenCalledTimes(3);
+
+        pending.slice(1).forEach(resolve => resolve());
+        await Promise.all(results);
+    });
+
+    it('lets waiting requests in when the limit is raised', async () => {
+        setMaxConcurrentRequests(1);
+        const pending: (() => void)[] = [];
+        const request = vi.fn(() => new Promise<void>(resolve => pending.push(resolve)));
+        const results = [executeRequest(request), executeRequest(request)];
+        await vi.advanceTimersByTimeAsync(0);
+        expect(request).toHaveBeenCalledOnce();
+
+        setMaxConcurrentRequests(2);
+        await vi.advanceTimersByTimeAsync(0);
+        expect(request).toHaveBeenCalledTimes(2);
+
+        pending.forEach(resolve => resolve());
+        await Promise.all(results);
+    });
+});
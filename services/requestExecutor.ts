@@ -0,0 +1,150 @@
+import { ApiError } from "@google/genai";
+import { RequestErrorKind } from '../types';
+import { ResponseValidationError } from './responseValidation';
+
+// A classified failure from a model request, so callers can decide whether to retry, fall back or report it.
+export class RequestError extends Error {
+    readonly kind: RequestErrorKind;
+    readonly status?: number;
+    readonly retryable: boolean;
+
+    constructor(kind: RequestErrorKind, message: string, options: { status?: number; retryable?: boolean; cause?: unknown } = {}) {
+        super(message, { cause: options.cause });
+        this.name = 'RequestError';
+        this.kind = kind;
+        this.status = options.status;
+        this.retryable = options.retryable ?? false;
+    }
+}
+
+export const describeRequestError = (kind: RequestErrorKind): string => {
+    switch (kind) {
+        case 'auth': return 'The Gemini API key is missing or was rejected.';
+        case 'quota': return 'The Gemini API rate limit or quota was exceeded.';
+        case 'budget': return 'Your usage budget has been reached, so the offline engine is being used. You can raise the budget in the usage panel.';
+        case 'network': return 'Gemini could not be reached. Check your connection.';
+        case 'timeout': return 'Gemini took too long to respond.';
+        case 'safety': return 'Gemini declined to analyze this text because of its safety filters.';
+        case 'parse': return 'Gemini returned a response that could not be understood.';
+        case 'server': return 'Gemini is having temporary server problems.';
+        default: return 'An unexpected error occurred while contacting Gemini.';
+    }
+};
+
+export const classifyError = (error: unknown): RequestError => {
+    if (error instanceof RequestError) return error;
+    if (error instanceof ResponseValidationError) {
+        return new RequestError('parse', error.message, { cause: error });
+    }
+
+    const message = error instanceof Error ? error.message : String(error);
+    const status = error instanceof ApiError ? error.status : undefined;
+
+    if (status === 401 || status === 403 || /API[_ ]?KEY|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) {
+        return new RequestError('auth', message, { status, cause: error });
+    }
+    if (status === 429 || /RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) {
+        // Per-minute rate limits clear on their own; exhausted daily quotas do not, but we cannot tell them apart.
+        return new RequestError('quota', message, { status, retryable: true, cause: error });
+    }
+    // Status names are matched case-sensitively so ordinary words like "internal" in a message don't count.
+    if ((status !== undefined && status >= 500) || /\b(UNAVAILABLE|INTERNAL)\b/.test(message) || /overloaded/i.test(message)) {
+        return new RequestError('server', message, { status, retryable: true, cause: error });
+    }
+    if (/SAFETY|blocked/i.test(message)) {
+        return new RequestError('safety', message, { status, cause: error });
+    }
+    if (error instanceof SyntaxError) {
+        return new RequestError('parse', message, { cause: error });
+    }
+    // fetch rejects with a TypeError when the network fails ("Load failed" in Safari); other TypeErrors are bugs and must not be retried.
+    if ((error instanceof TypeError && /Load failed/.test(message)) || /fetch|network|ECONN|ENOTFOUND|offline/i.test(message)) {
+        return new RequestError('network', message, { retryable: true, cause: error });
+    }
+    return new RequestError('unknown', message, { status, cause: error });
+};
+
+export interface ExecuteOptions {
+    timeoutMs?: number;
+    maxRetries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+}
+
+const DEFAULT_OPTIONS: Required<ExecuteOptions> = {
+    timeoutMs: 30000,
+    maxRetries: 3,
+    baseDelayMs: 500,
+    maxDelayMs: 8000,
+};
+
+let maxConcurrentRequests = 3;
+let activeRequests = 0;
+const waiting: (() => void)[] = [];
+
+export const setMaxConcurrentRequests = (limit: number) => {
+    maxConcurrentRequests = Math.max(1, Math.floor(limit));
+    while (waiting.length && activeRequests < maxConcurrentRequests) {
+        activeRequests++;
+        waiting.shift()!();
+    }
+};
+
+const acquireSlot = (): Promise<void> => {
+    if (activeRequests < maxConcurrentRequests) {
+        activeRequests++;
+        return Promise.resolve();
+    }
+    return new Promise(resolve => waiting.push(resolve));
+};
+
+const releaseSlot = () => {
+    const next = waiting.shift();
+    if (next) {
+        next();
+    } else {
+        activeRequests--;
+    }
+};
+
+const wait = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+// Exponential backoff with "full jitter": a random delay between 0 and the capped exponential step.
+const backoffDelay = (attempt: number, options: Required<ExecuteOptions>) =>
+    Math.random() * Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+
+const withTimeout = async <T>(request: (signal: AbortSignal) => Promise<T>, timeoutMs: number): Promise<T> => {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+            controller.abort();
+            reject(new RequestError('timeout', `Request timed out after ${timeoutMs}ms.`, { retryable: true }));
+        }, timeoutMs);
+    });
+    try {
+        return await Promise.race([request(controller.signal), timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+// Runs a model request under the shared concurrency cap, with a per-attempt timeout and retries for transient failures.
+export const executeRequest = async <T>(request: (signal: AbortSignal) => Promise<T>, options: ExecuteOptions = {}): Promise<T> => {
+    const resolved = { ...DEFAULT_OPTIONS, ...options };
+    for (let attempt = 0; ; attempt++) {
+        await acquireSlot();
+        try {
+            return await withTimeout(request, resolved.timeoutMs);
+        } catch (error) {
+            const classified = classifyError(error);
+            if (!classified.retryable || attempt >= resolved.maxRetries) {
+                throw classified;
+            }
+            console.warn(`Retrying request after ${classified.kind} error (attempt ${attempt + 1} of ${resolved.maxRetries}).`);
+        } finally {
+            releaseSlot();
+        }
+        await wait(backoffDelay(attempt, resolved));
+    }
+};
@@ -0,0 +1,136 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Sentiment, Taxonomy } from '../types';
+import { ResponseValidationError, parseModelJson, validateSentimentAnalysis, validateAdvancedAnalysis, validateMoodEnhancer } from './responseValidation';
+
+const analysis = (overrides: Record<string, unknown> = {}) => ({
+    sentiment: 'positive',
+    confidence: 0.9,
+    scores: { positive: 0.9, negative: 0.05, neutral: 0.05 },
+    keywords: ['great'],
+    explanation: 'Praises the product.',
+    ...overrides,
+});
+
+describe('parseModelJson', () => {
+    it('rejects empty and malformed responses', () => {
+        expect(() => parseModelJson('', 'SentimentAnalysisResult')).toThrow(ResponseValidationError);
+        expect(() => parseModelJson('{"sentiment":', 'SentimentAnalysisResult')).toThrow("Invalid SentimentAnalysisResult at '$': response was not valid JSON");
+    });
+});
+
+describe('validateSentimentAnalysis', () => {
+    it('normalises the label and keeps 0–1 probabilities as they are', () => {
+        const result = validateSentimentAnalysis(analysis({ sentiment: ' Positive ', confidence: 1 }), 'Great phone');
+        expect(result.sentiment).toBe(Sentiment.Positive);
+        expect(result.confidence).toBe(1);
+    });
+
+    it('reads clear percentages as probabilities and clamps everything else to 0..1', () => {
+        const confidence = (value: unknown) => validateSentimentAnalysis(analysis({ confidence: value }), 'text').confidence;
+        expect(confidence(85)).toBe(0.85);
+        expect(confidence('90')).toBe(0.9);
+        expect(confidence(1.2)).toBe(1);
+        expect(confidence(150)).toBe(1);
+        expect(confidence(-0.3)).toBe(0);
+    });
+
+    it('renormalises scores and derives them from the label when they are all zero', () => {
+        const scaled = validateSentimentAnalysis(analysis({ scores: { positive: 2, negative: 1, neutral: 1 } }), 'text');
+        expect(scaled.scores).toEqual({ positive: 0.5, negative: 0.25, neutral: 0.25 });
+
+        const derived = validateSentimentAnalysis(analysis({ confidence: 0.6, scores: { positive: 0, negative: 0, neutral: 0 } }), 'text');
+        expect(derived.scores.positive).toBe(0.6);
+        expect(derived.scores.negative).toBeCloseTo(0.2);
+    });
+
+    it('names the path of a missing required field', () => {
+        expect(() => validateSentimentAnalysis(analysis({ sentiment: 'happy' }), 'text')).toThrow("at '$.sentiment'");
+        expect(() => validateSentimentAnalysis(analysis({ explanation: ' ' }), 'text')).toThrow("at '$.explanation'");
+    });
+
+    it('drops malformed list entries instead of rejecting the response', () => {
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        const result = validateSentimentAnalysis(analysis({
+            sentenceBreakdown: [
+                { sentence: 'Great phone.', sentiment: 'positive', score: 0.9 },
+                { sentence: 'Broken.', sentiment: 'furious', score: 0.9 },
+            ],
+        }), 'Great phone. Broken.');
+        expect(result.sentenceBreakdown.map(s => s.sentence)).toEqual(['Great phone.']);
+        expect(warn).toHaveBeenCalledOnce();
+        warn.mockRestore();
+    });
+
+    it('drops a sarcasm flip that matches the literal sentiment', () => {
+        const result = validateSentimentAnalysis(analysis({ sarcasm: { probability: 0.2, adjustedSentiment: 'positive' } }), 'text');
+        expect(result.sarcasm).toEqual({ probability: 0.2, trigger: undefined, adjustedSentiment: undefined });
+    });
+
+    it('locates quoted span phrases in the text', () => {
+        const result = validateSentimentAnalysis(analysis({
+            spans: [{ text: 'slow', sentiment: 'negative', weight: 0.8 }, { text: 'Great', sentiment: 'positive', weight: 1 }],
+        }), 'Great screen, slow battery');
+        expect(result.spans).toEqual([
+            { start: 0, end: 5, sentiment: Sentiment.Positive, weight: 1 },
+            { start: 14, end: 18, sentiment: Sentiment.Negative, weight: 0.8 },
+        ]);
+    });
+
+    it('ignores an unusable language code', () => {
+        expect(validateSentimentAnalysis(analysis({ language: 'pt-BR' }), 'text').language).toBe('pt');
+        expect(validateSentimentAnalysis(analysis({ language: 'Portuguese' }), 'text').language).toBeUndefined();
+    });
+});
+
+describe('classification', () => {
+    const label = (name: string) => ({ id: name.toLowerCase(), name, description: '', examples: [] });
+    const taxonomy: Taxonomy = { id: 'support', name: 'Support', labels: [label('Billing'), label('Bug'), label('Praise')], updatedAt: '' };
+    const classify = (classification: unknown) =>
+        validateSentimentAnalysis(analysis({ classification }), 'text', taxonomy).classification;
+
+    it('matches labels ignoring case and renormalises the scores', () => {
+        const result = classify({
+            label: 'BUG',
+            scores: [{ label: 'bug', score: 0.4 }, { label: 'Billing', score: 0.1 }],
+            rationale: 'Mentions a crash.',
+        });
+        expect(result).toEqual({
+            taxonomyId: 'support',
+            label: 'Bug',
+            scores: { Billing: 0.2, Bug: 0.8, Praise: 0 },
+            rationale: 'Mentions a crash.',
+        });
+    });
+
+    it('rejects a label outside the taxonomy', () => {
+        expect(() => classify({ label: 'Shipping', scores: [], rationale: 'x' }))
+            .toThrow("at '$.classification.label': expected one of Billing, Bug, Praise");
+    });
+
+    it('is ignored without a taxonomy', () => {
+        const result = validateSentimentAnalysis(analysis({ classification: { label: 'Bug', scores: [], rationale: 'x' } }), 'text');
+        expect(result.classification).toBeUndefined();
+    });
+});
+
+describe('validateAdvancedAnalysis', () => {
+    it('maps unknown entity types to OTHER', () => {
+        const result = validateAdvancedAnalysis({
+            summary: 'A review.',
+            emotions: [{ name: 'Joy', score: 70 }],
+            tones: ['Warm', 'warm'],
+            entities: [{ text: 'Acme', type: 'company' }, { text: 'Paris', type: 'location' }],
+        });
+        expect(result.emotions[0].score).toBe(0.7);
+        expect(result.tones).toEqual(['Warm']);
+        expect(result.entities.map(e => e.type)).toEqual(['OTHER', 'LOCATION']);
+    });
+});
+
+describe('validateMoodEnhancer', () => {
+    it('only accepts http(s) playlist links', () => {
+        const mood = (url: string) => validateMoodEnhancer({ quote: 'Keep going.', playlist: { name: 'Focus', url } });
+        expect(mood('https://music.youtube.com/search?q=focus').playlist.url).toBe('https://music.youtube.com/search?q=focus');
+        expect(() => mood('javascript:alert(1)')).toThrow("at '$.playlist.url'");
+    });
+});
@@ -0,0 +1,330 @@
+import { Sentiment, SentimentScores, SentimentAnalysisResult, AdvancedAnalysisResult, ComparativeAnalysisResult, MoodEnhancerResult, Emotion, Entity, AspectSentiment, SarcasmAssessment, Taxonomy, ClassificationResult } from '../types';
+import { createFineGrainedScores } from './fineGrainedScores';
+import { locatePhrases } from './sentimentSpans';
+
+export type ValidatedResultType = 'SentimentAnalysisResult' | 'AdvancedAnalysisResult' | 'ComparativeAnalysisResult' | 'MoodEnhancerResult';
+
+// Raised when a model response cannot be coerced into the shape the dashboard renders.
+export class ResponseValidationError extends Error {
+    readonly resultType: ValidatedResultType;
+    readonly path: string;
+
+    constructor(resultType: ValidatedResultType, path: string, message: string) {
+        super(`Invalid ${resultType} at '${path}': ${message}`);
+        this.name = 'ResponseValidationError';
+        this.resultType = resultType;
+        this.path = path;
+    }
+}
+
+type Raw = Record<string, unknown>;
+
+const SENTIMENTS = Object.values(Sentiment) as string[];
+const ENTITY_TYPES: Entity['type'][] = ['PERSON', 'ORGANIZATION', 'LOCATION', 'EVENT', 'OTHER'];
+
+const clamp01 = (value: number) => Math.min(1, Math.max(0, value));
+// Probabilities above this are read as percentages; anything between 1 and this is clamped to 1.
+const PERCENT_SCALE_THRESHOLD = 1.5;
+
+const createValidator = (resultType: ValidatedResultType) => {
+    const fail = (path: string, message: string): never => {
+        throw new ResponseValidationError(resultType, path, message);
+    };
+
+    const object = (value: unknown, path: string): Raw => {
+        if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+            return fail(path, 'expected an object');
+        }
+        return value as Raw;
+    };
+
+    const string = (value: unknown, path: string): string => {
+        if (typeof value !== 'string' || !value.trim()) {
+            return fail(path, 'expected a non-empty string');
+        }
+        return value.trim();
+    };
+
+    const number = (value: unknown, path: string): number => {
+        const parsed = typeof value === 'string' ? parseFloat(value) : value;
+        if (typeof parsed !== 'number' || !Number.isFinite(parsed)) {
+            return fail(path, 'expected a finite number');
+        }
+        return parsed;
+    };
+
+    // Accepts 0–1 probabilities, or 0–100 percentages which some responses use, and clamps the rest.
+    const probability = (value: unknown, path: string): number => {
+        const parsed = number(value, path);
+        return clamp01(parsed > PERCENT_SCALE_THRESHOLD && parsed <= 100 ? parsed / 100 : parsed);
+    };
+
+    // Clamps a signed score, such as a polarity, to -1..1.
+    const signedUnit = (value: unknown, path: string): number =>
+        Math.min(1, Math.max(-1, number(value, path)));
+
+    const sentiment = (value: unknown, path: string): Sentiment => {
+        const normalized = typeof value === 'string' ? value.trim().toLowerCase() : value;
+        if (typeof normalized !== 'string' || !SENTIMENTS.includes(normalized)) {
+            return fail(path, `expected one of ${SENTIMENTS.join(', ')}`);
+        }
+        return normalized as Sentiment;
+    };
+
+    const array = (value: unknown, path: string): unknown[] => {
+        if (!Array.isArray(value)) {
+            return fail(path, 'expected an array');
+        }
+        return value;
+    };
+
+    const stringList = (value: unknown, path: string): string[] => {
+        const seen = new Set<string>();
+        return array(value, path)
+            .filter((item): item is string => typeof item === 'string' && item.trim().length > 0)
+            .map(item => item.trim())
+            .filter(item => {
+                const key = item.toLowerCase();
+                if (seen.has(key)) return false;
+                seen.add(key);
+                return true;
+            });
+    };
+
+    // Clamps each score and renormalises them to sum to 1, deriving them from the label if they are all zero.
+    const scores = (value: unknown, path: string, label: Sentiment, confidence: number): SentimentScores => {
+        const raw = object(value, path);
+        const clamped: SentimentScores = {
+            positive: Math.max(0, number(raw.positive, `${path}.positive`)),
+            negative: Math.max(0, number(raw.negative, `${path}.negative`)),
+            neutral: Math.max(0, number(raw.neutral, `${path}.neutral`)),
+        };
+        const total = clamped.positive + clamped.negative + clamped.neutral;
+        if (total === 0) {
+            const remainder = (1 - confidence) / 2;
+            return {
+                positive: label === Sentiment.Positive ? confidence : remainder,
+                negative: label === Sentiment.Negative ? confidence : remainder,
+                neutral: label === Sentiment.Neutral ? confidence : remainder,
+            };
+        }
+        return {
+            positive: clamped.positive / total,
+            negative: clamped.negative / total,
+            neutral: clamped.neutral / total,
+        };
+    };
+
+    const httpUrl = (value: unknown, path: string): string => {
+        const url = string(value, path);
+        try {
+            const parsed = new URL(url);
+            if (parsed.protocol === 'https:' || parsed.protocol === 'http:') return parsed.toString();
+        } catch {
+            // Fall through to the failure below.
+        }
+        return fail(path, 'expected an http(s) URL');
+    };
+
+    // Validates each entry of an optional list, dropping malformed entries instead of rejecting the whole response.
+    const entries = <T>(value: unknown, path: string, label: string, validate: (item: Raw, itemPath: string) => T): T[] => {
+        if (value === undefined) return [];
+        return array(value, path).flatMap((entry, i) => {
+            const itemPath = `${path}[${i}]`;
+            try {
+                return [validate(object(entry, itemPath), itemPath)];
+            } catch (error) {
+                if (!(error instanceof ResponseValidationError)) throw error;
+                console.warn(`Dropping malformed ${label}:`, error.message);
+                return [];
+            }
+        });
+    };
+
+    return { fail, object, string, number, probability, signedUnit, sentiment, array, stringList, scores, httpUrl, entries };
+};
+
+export const parseModelJson = (text: string | undefined, resultType: ValidatedResultType): unknown => {
+    if (!text) {
+        throw new ResponseValidationError(resultType, '$', 'response was empty');
+    }
+    try {
+        return JSON.parse(text);
+    } catch {
+        throw new ResponseValidationError(resultType, '$', 'response was not valid JSON');
+    }
+};
+
+type ValidatedSentimentAnalysis = Pick<SentimentAnalysisResult, 'sentiment' | 'confidence' | 'scores' | 'keywords' | 'explanation' | 'sentenceBreakdown' | 'aspects' | 'fineGrained' | 'sarcasm' | 'language' | 'translation' | 'spans' | 'classification'>;
+
+// An adjusted sentiment that matches the literal one is not a flip, so it is dropped.
+const validateSarcasm = (v: ReturnType<typeof createValidator>, value: unknown, path: string, literal: Sentiment): SarcasmAssessment => {
+    const raw = v.object(value, path);
+    const adjusted = raw.adjustedSentiment === undefined ? undefined : v.sentiment(raw.adjustedSentiment, `${path}.adjustedSentiment`);
+    return {
+        probability: v.probability(raw.probability, `${path}.probability`),
+        trigger: typeof raw.trigger === 'string' && raw.trigger.trim() ? raw.trigger.trim() : undefined,
+        adjustedSentiment: adjusted !== literal ? adjusted : undefined,
+    };
+};
+
+// Labels are matched to the taxonomy ignoring case; scores for labels the model left out count as zero.
+const validateClassification = (v: ReturnType<typeof createValidator>, value: unknown, taxonomy: Taxonomy): ClassificationResult => {
+    const raw = v.object(value, '$.classification');
+    const findLabel = (name: unknown, path: string) => {
+        const wanted = v.string(name, path).toLowerCase();
+        const label = taxonomy.labels.find(l => l.name.toLowerCase() === wanted);
+        return label ? label.name : v.fail(path, `expected one of ${taxonomy.labels.map(l => l.name).join(', ')}`);
+    };
+    const label = findLabel(raw.label, '$.classification.label');
+
+    const scores: Record<string, number> = {};
+    taxonomy.labels.forEach(l => { scores[l.name] = 0; });
+    v.entries(raw.scores, '$.classification.scores', 'label score', (item, path) => {
+        scores[findLabel(item.label, `${path}.label`)] = v.probability(item.score, `${path}.score`);
+    });
+    const total = Object.values(scores).reduce((sum, s) => sum + s, 0);
+    Object.keys(scores).forEach(name => {
+        scores[name] = total > 0 ? scores[name] / total : name === label ? 1 : 0;
+    });
+
+    return { taxonomyId: taxonomy.id, label, scores, rationale: v.string(raw.rationale, '$.classification.rationale') };
+};
+
+// `text` is the analyzed text, which the quoted span phrases are located in.
+// `taxonomy` is required to validate a classification, which is ignored without one.
+export const validateSentimentAnalysis = (value: unknown, text: string, taxonomy?: Taxonomy): ValidatedSentimentAnalysis => {
+    const v = createValidator('SentimentAnalysisResult');
+    const raw = v.object(value, '$');
+    const sentiment = v.sentiment(raw.sentiment, '$.sentiment');
+    const confidence = v.probability(raw.confidence, '$.confidence');
+
+    const sentenceBreakdown = v.entries(raw.sentenceBreakdown, '$.sentenceBreakdown', 'sentence breakdown entry', (item, path) => {
+        const sentenceSentiment = v.sentiment(item.sentiment, `${path}.sentiment`);
+        return {
+            sentence: v.string(item.sentence, `${path}.sentence`),
+            sentiment: sentenceSentiment,
+            score: v.probability(item.score, `${path}.score`),
+            sarcasm: item.sarcasm === undefined ? undefined : validateSarcasm(v, item.sarcasm, `${path}.sarcasm`, sentenceSentiment),
+        };
+    });
+
+    const result: ValidatedSentimentAnalysis = {
+        sentiment,
+        confidence,
+        scores: v.scores(raw.scores, '$.scores', sentiment, confidence),
+        keywords: v.stringList(raw.keywords, '$.keywords'),
+        explanation: v.string(raw.explanation, '$.explanation'),
+        sentenceBreakdown,
+    };
+    if (raw.spans !== undefined) {
+        result.spans = locatePhrases(text, v.entries(raw.spans, '$.spans', 'span', (item, path) => ({
+            text: v.string(item.text, `${path}.text`),
+            sentiment: v.sentiment(item.sentiment, `${path}.sentiment`),
+            weight: v.probability(item.weight, `${path}.weight`),
+        })));
+    }
+    // Language codes are advisory, so an unusable one is dropped and detected locally instead.
+    if (typeof raw.language === 'string' && /^[a-z]{2,3}(-[a-z0-9]+)*$/i.test(raw.language.trim())) {
+        result.language = raw.language.trim().toLowerCase().split('-')[0];
+    }
+    if (typeof raw.translation === 'string' && raw.translation.trim() && result.language !== 'en') {
+        result.translation = raw.translation.trim();
+    }
+    if (raw.sarcasm !== undefined) {
+        result.sarcasm = validateSarcasm(v, raw.sarcasm, '$.sarcasm', sentiment);
+    }
+    if (raw.aspects !== undefined) {
+        result.aspects = v.entries(raw.aspects, '$.aspects', 'aspect', (item, path): AspectSentiment => ({
+            aspect: v.string(item.aspect, `${path}.aspect`).toLowerCase(),
+            sentiment: v.sentiment(item.sentiment, `${path}.sentiment`),
+            score: v.signedUnit(item.score, `${path}.score`),
+            opinions: item.opinions === undefined ? [] : v.stringList(item.opinions, `${path}.opinions`),
+        }));
+    }
+    if (raw.fineGrained !== undefined) {
+        const fineGrained = v.object(raw.fineGrained, '$.fineGrained');
+        const rating = Math.round(v.number(fineGrained.rating, '$.fineGrained.rating'));
+        // The mixed flag is derived from the validated scores rather than trusted from the model.
+        result.fineGrained = createFineGrainedScores(
+            v.signedUnit(fineGrained.valence, '$.fineGrained.valence'),
+            v.probability(fineGrained.arousal, '$.fineGrained.arousal'),
+            result.scores,
+            Math.min(5, Math.max(1, rating)),
+        );
+    }
+    if (raw.classification !== undefined && taxonomy) {
+        result.classification = validateClassification(v, raw.classification, taxonomy);
+    }
+    return result;
+};
+
+export const validateAdvancedAnalysis = (value: unknown): AdvancedAnalysisResult => {
+    const v = createValidator('AdvancedAnalysisResult');
+    const raw = v.object(value, '$');
+
+    const emotions: Emotion[] = v.array(raw.emotions, '$.emotions').map((entry, i) => {
+        const item = v.object(entry, `$.emotions[${i}]`);
+        return {
+            name: v.string(item.name, `$.emotions[${i}].name`),
+            score: v.probability(item.score, `$.emotions[${i}].score`),
+        };
+    });
+
+    const entities: Entity[] = v.array(raw.entities, '$.entities').map((entry, i) => {
+        const item = v.object(entry, `$.entities[${i}]`);
+        const type = typeof item.type === 'string' ? item.type.toUpperCase() : '';
+        return {
+            text: v.string(item.text, `$.entities[${i}].text`),
+            type: ENTITY_TYPES.includes(type as Entity['type']) ? type as Entity['type'] : 'OTHER',
+        };
+    });
+
+    return {
+        summary: v.string(raw.summary, '$.summary'),
+        emotions,
+        tones: v.stringList(raw.tones, '$.tones'),
+        entities,
+    };
+};
+
+export const validateComparativeAnalysis = (value: unknown): ComparativeAnalysisResult => {
+    const v = createValidator('ComparativeAnalysisResult');
+    const raw = v.object(value, '$');
+    const comparison = v.object(raw.comparison, '$.comparison');
+    const uniqueKeywords = v.object(raw.uniqueKeywords, '$.uniqueKeywords');
+
+    const side = (entry: unknown, path: string) => {
+        const item = v.object(entry, path);
+        const sentiment = v.sentiment(item.sentiment, `${path}.sentiment`);
+        const confidence = v.probability(item.confidence, `${path}.confidence`);
+        return { sentiment, confidence, scores: v.scores(item.scores, `${path}.scores`, sentiment, confidence) };
+    };
+
+    return {
+        summary: v.string(raw.summary, '$.summary'),
+        comparison: {
+            textA: side(comparison.textA, '$.comparison.textA'),
+            textB: side(comparison.textB, '$.comparison.textB'),
+        },
+        sharedKeywords: v.stringList(raw.sharedKeywords, '$.sharedKeywords'),
+        uniqueKeywords: {
+            textA: v.stringList(uniqueKeywords.textA, '$.uniqueKeywords.textA'),
+            textB: v.stringList(uniqueKeywords.textB, '$.uniqueKeywords.textB'),
+        },
+        emotionalContrast: v.string(raw.emotionalContrast, '$.emotionalContrast'),
+    };
+};
+
+export const validateMoodEnhancer = (value: unknown): MoodEnhancerResult => {
+    const v = createValidator('MoodEnhancerResult');
+    const raw = v.object(value, '$');
+    const playlist = v.object(raw.playlist, '$.playlist');
+    return {
+        quote: v.string(raw.quote, '$.quote'),
+        playlist: {
+            name: v.string(playlist.name, '$.playlist.name'),
+            url: v.httpUrl(playlist.url, '$.playlist.url'),
+        },
+    };
+};
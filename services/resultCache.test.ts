@@ -0,0 +1,147 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { GenerationConfig, Sentiment } from '../types';
+import { analyzeSentiment, compareSentiments, setActiveProvider } from './analysisService';
+import { requestToPromise, withStore } from './database';
+import { createMockProvider } from './mockProvider';
+import { clearCache, createCacheKey, normalizeForCache, readCache, writeCache } from './resultCache';
+import { registerProvider, SentimentProvider } from './sentimentProvider';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const countEntries = () => withStore('cache', 'readonly', store => requestToPromise(store.count()));
+
+// A provider that reports its generation settings, so its results are cached, and counts how often it is really asked.
+const cachedProvider = (id: string, overrides: Partial<SentimentProvider> = {}) => {
+    const base = createMockProvider({ id, sentiment: Sentiment.Positive });
+    const analyze = vi.fn(base.analyze);
+    const generation: GenerationConfig = { model: 'test-model', temperature: 0, promptVersion: '1' };
+    const provider = { ...base, getGenerationConfig: () => generation, generation, analyze, ...overrides };
+    registerProvider(provider);
+    setActiveProvider(id);
+    return provider;
+};
+
+beforeEach(async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2024, 2, 5, 12));
+    await clearCache();
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe('cache keys', () => {
+    it('ignores whitespace and Unicode composition differences', () => {
+        expect(normalizeForCache('  Great\n\tphone  ')).toBe('Great phone');
+        expect(normalizeForCache('café')).toBe(normalizeForCache('café'));
+    });
+
+    it('hashes the parts into a stable hex key', async () => {
+        const key = await createCacheKey(['analysis', 'gemini', 'gemini-2.5-flash', 'v1', 'text']);
+        expect(key).toMatch(/^[0-9a-f]{64}$/);
+        expect(await createCacheKey(['analysis', 'gemini', 'gemini-2.5-flash', 'v1', 'text'])).toBe(key);
+        expect(await createCacheKey(['analysis', 'gemini', 'gemini-2.5-flash', 'v2', 'text'])).not.toBe(key);
+        // Parts are kept apart, so moving text between them changes the key.
+        expect(await createCacheKey(['ab', 'c'])).not.toBe(await createCacheKey(['a', 'bc']));
+    });
+});
+
+describe('readCache and writeCache', () => {
+    it('drops entries older than seven days', async () => {
+        await writeCache('key', { value: 1 });
+        vi.setSystemTime(Date.now() + 7 * DAY_MS);
+        expect(await readCache('key')).toEqual({ value: 1 });
+
+        vi.setSystemTime(Date.now() + 1);
+        expect(await readCache('key')).toBeNull();
+        expect(await countEntries()).toBe(0);
+    });
+
+    it('evicts the least recently used entries beyond 1000', async () => {
+        for (let i = 0; i < 1000; i++) {
+            vi.setSystemTime(Date.now() + 1);
+            await writeCache(`key-${i}`, i);
+        }
+        vi.setSystemTime(Date.now() + 1);
+        // Reading the oldest entry makes it recently used, so the next oldest goes instead.
+        expect(await readCache('key-0')).toBe(0);
+        vi.setSystemTime(Date.now() + 1);
+        await writeCache('key-1000', 1000);
+
+        expect(await countEntries()).toBe(1000);
+        expect(await readCache('key-0')).toBe(0);
+        expect(await readCache('key-1')).toBeNull();
+        expect(await readCache('key-1000')).toBe(1000);
+    }, 30000);
+});
+
+describe('analysis caching', () => {
+    it('serves a repeat of the same text from the cache with the new text and time', async () => {
+        const provider = cachedProvider('cache-hit');
+        const first = await analyzeSentiment('Great   phone');
+        await vi.waitFor(async () => expect(await countEntries()).toBe(1));
+
+        vi.setSystemTime(Date.now() + 60_000);
+        const second = await analyzeSentiment('Great phone');
+        expect(provider.analyze).toHaveBeenCalledOnce();
+        expect(second).toMatchObject({ cached: true, text: 'Great phone', sentiment: first.sentiment });
+        expect(second.timestamp).not.toBe(first.timestamp);
+
+        await analyzeSentiment('Great phone', { fresh: true });
+        expect(provider.analyze).toHaveBeenCalledTimes(2);
+    });
+
+    it('finds the spans of a cache hit again in the new text', async () => {
+        const base = createMockProvider({ sentiment: Sentiment.Negative });
+        cachedProvider('cache-spans', {
+            analyze: vi.fn(async (text: string) => ({
+                ...await base.analyze(text),
+                spans: [
+                    { start: 0, end: 5, sentiment: Sentiment.Positive, weight: 1 },
+                    { start: 10, end: 14, sentiment: Sentiment.Negative, weight: 0.6 },
+                ],
+            })),
+        });
+        await analyzeSentiment('Great,    slow');
+        await vi.waitFor(async () => expect(await countEntries()).toBe(1));
+
+        const hit = await analyzeSentiment('Great, slow');
+        expect(hit.cached).toBe(true);
+        expect(hit.spans?.map(span => hit.text.slice(span.start, span.end))).toEqual(['Great', 'slow']);
+    });
+
+    it('keys on the generation settings and the operation', async () => {
+        const provider = cachedProvider('cache-keys');
+        await analyzeSentiment('Great phone');
+        await vi.waitFor(async () => expect(await countEntries()).toBe(1));
+
+        provider.generation.temperature = 0.5;
+        await analyzeSentiment('Great phone');
+        expect(provider.analyze).toHaveBeenCalledTimes(2);
+
+        await compareSentiments('Great phone', 'Bad phone');
+        await vi.waitFor(async () => expect(await countEntries()).toBe(3));
+    });
+
+    it('does not cache results from the offline fallback', async () => {
+        vi.spyOn(console, 'error').mockImplementation(() => undefined);
+        const analyze = vi.fn().mockRejectedValue(new TypeError('Failed to fetch'));
+        cachedProvider('cache-fallback', { analyze });
+
+        expect((await analyzeSentiment('Great phone')).fallbackReason).toBe('network');
+        expect((await analyzeSentiment('Great phone')).cached).toBeUndefined();
+        expect(analyze).toHaveBeenCalledTimes(2);
+        expect(await countEntries()).toBe(0);
+    });
+
+    it('skips the cache for providers without generation settings', async () => {
+        const provider = cachedProvider('cache-none', { getGenerationConfig: undefined });
+        await analyzeSentiment('Great phone');
+        await analyzeSentiment('Great phone');
+        expect(provider.analyze).toHaveBeenCalledTimes(2);
+        expect(await countEntries()).toBe(0);
+    });
+});
@@ -0,0 +1,69 @@
+import { withStore, requestToPromise } from './database';
+
+const STORE = 'cache';
+const TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const MAX_ENTRIES = 1000;
+
+interface CacheEntry<T> {
+    key: string;
+    value: T;
+    storedAt: number;
+    lastUsedAt: number;
+}
+
+// Whitespace and Unicode composition differences don't change the meaning of a text, so they shouldn't miss the cache.
+export const normalizeForCache = (text: string) => text.normalize('NFC').replace(/\s+/g, ' ').trim();
+
+const toHex = (buffer: ArrayBuffer) => Array.from(new Uint8Array(buffer), b => b.toString(16).padStart(2, '0')).join('');
+
+export const createCacheKey = async (parts: string[]): Promise<string> => {
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(JSON.stringify(parts)));
+    return toHex(digest);
+};
+
+export const readCache = <T>(key: string): Promise<T | null> =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const entry = await requestToPromise(store.get(key) as IDBRequest<CacheEntry<T> | undefined>);
+        if (!entry) return null;
+        if (Date.now() - entry.storedAt > TTL_MS) {
+            await requestToPromise(store.delete(key));
+            return null;
+        }
+        await requestToPromise(store.put({ ...entry, lastUsedAt: Date.now() }));
+        return entry.value;
+    });
+
+// Evicts least recently used entries beyond the size limit; expired entries are dropped lazily on read.
+const evictOverflow = (store: IDBObjectStore) => new Promise<void>((resolve, reject) => {
+    const countRequest = store.count();
+    countRequest.onerror = () => reject(countRequest.error);
+    countRequest.onsuccess = () => {
+        let excess = countRequest.result - MAX_ENTRIES;
+        if (excess <= 0) {
+            resolve();
+            return;
+        }
+        const cursorRequest = store.index('lastUsedAt').openCursor();
+        cursorRequest.onerror = () => reject(cursorRequest.error);
+        cursorRequest.onsuccess = () => {
+            const cursor = cursorRequest.result;
+            if (!cursor || excess <= 0) {
+                resolve();
+                return;
+            }
+            cursor.delete();
+            excess--;
+            cursor.continue();
+        };
+    };
+});
+
+export const writeCache = <T>(key: string, value: T) =>
+    withStore(STORE, 'readwrite', async (store) => {
+        const now = Date.now();
+        await requestToPromise(store.put({ key, value, storedAt: now, lastUsedAt: now } satisfies CacheEntry<T>));
+        await evictOverflow(store);
+    });
+
+export const clearCache = () =>
+    withStore(STORE, 'readwrite', store => requestToPromise(store.clear()));
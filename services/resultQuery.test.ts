@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { Sentiment, SentimentAnalysisResult } from '../types';
+import { filterResults, getResultFacets, isQueryActive, sortResults } from './resultQuery';
+
+const { Positive, Neutral, Negative } = Sentiment;
+
+const result = (id: string, sentiment: Sentiment, overrides: Partial<SentimentAnalysisResult> = {}): SentimentAnalysisResult => ({
+    id,
+    text: `text ${id}`,
+    sentiment,
+    confidence: 0.8,
+    scores: {
+        positive: sentiment === Positive ? 0.8 : 0.1,
+        negative: sentiment === Negative ? 0.8 : 0.1,
+        neutral: sentiment === Neutral ? 0.8 : 0.1,
+    },
+    keywords: [],
+    explanation: '',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    apiUsed: 'gemini',
+    language: 'en',
+    ...overrides,
+});
+
+const results = [
+    result('a', Positive, { text: 'Fast delivery and friendly staff', confidence: 0.95 }),
+    result('b', Negative, { text: 'Slow delivery', apiUsed: 'fallback', confidence: 0.6 }),
+    result('c', Neutral, { text: 'Llegó el martes', language: 'es', translation: 'Arrived on Tuesday', confidence: 0.7 }),
+    result('d', Positive, { text: 'Oh great, broken again', sarcasm: { probability: 0.9, adjustedSentiment: Negative }, language: undefined }),
+];
+const tags = { a: ['vip'], b: ['vip', 'refund'] };
+
+const ids = (found: SentimentAnalysisResult[]) => found.map(r => r.id);
+
+describe('filterResults', () => {
+    it('matches any value within a facet', () => {
+        expect(ids(filterResults(results, { sentiments: [Neutral, Negative] }))).toEqual(['b', 'c', 'd']);
+        expect(ids(filterResults(results, { tags: ['refund', 'vip'] }, tags))).toEqual(['a', 'b']);
+    });
+
+    it('requires every facet to match', () => {
+        expect(ids(filterResults(results, { sentiments: [Negative], providers: ['gemini'] }))).toEqual(['d']);
+        expect(ids(filterResults(results, { tags: ['vip'], sentiments: [Positive] }, tags))).toEqual(['a']);
+    });
+
+    it('filters on the intended sentiment and on undetermined languages', () => {
+        expect(ids(filterResults(results, { sentiments: [Positive] }))).toEqual(['a']);
+        expect(ids(filterResults(results, { languages: ['und'] }))).toEqual(['d']);
+    });
+
+    it('filters on review status, with unreviewed results as their own value', () => {
+        const reviewed = results.map(r => r.id === 'b' ? { ...r, review: { status: 'overridden' as const, sentiment: Neutral, reviewer: 'Sam', reviewedAt: '' } } : r);
+        expect(ids(filterResults(reviewed, { reviews: ['overridden'] }))).toEqual(['b']);
+        expect(ids(filterResults(reviewed, { reviews: ['unreviewed'] }))).toEqual(['a', 'c', 'd']);
+        expect(getResultFacets(reviewed).reviews).toEqual([{ value: 'unreviewed', count: 3 }, { value: 'overridden', count: 1 }]);
+    });
+
+    it('includes both confidence bounds', () => {
+        expect(ids(filterResults(results, { minConfidence: 0.7, maxConfidence: 0.8 }))).toEqual(['c', 'd']);
+    });
+
+    it('needs every search term, in any order and case, across text and translation', () => {
+        expect(ids(filterResults(results, { search: 'DELIVERY  fast' }))).toEqual(['a']);
+        expect(ids(filterResults(results, { search: 'delivery' }))).toEqual(['a', 'b']);
+        expect(ids(filterResults(results, { search: 'tuesday' }))).toEqual(['c']);
+    });
+});
+
+describe('isQueryActive', () => {
+    it('ignores blank searches and empty facets', () => {
+        expect(isQueryActive({ search: '  ', sentiments: [] })).toBe(false);
+        expect(isQueryActive({ minConfidence: 0 })).toBe(true);
+    });
+});
+
+describe('sortResults', () => {
+    it('sorts by confidence and polarity without changing the input', () => {
+        expect(ids(sortResults(results, 'confidence-desc'))).toEqual(['a', 'd', 'c', 'b']);
+        expect(ids(sortResults(results, 'most-negative'))).toEqual(['b', 'c', 'a', 'd']);
+        expect(ids(results)).toEqual(['a', 'b', 'c', 'd']);
+    });
+});
+
+describe('getResultFacets', () => {
+    it('counts each value, most common first', () => {
+        const facets = getResultFacets(results, tags);
+        expect(facets.sentiments).toEqual([{ value: Negative, count: 2 }, { value: Neutral, count: 1 }, { value: Positive, count: 1 }]);
+        expect(facets.providers).toEqual([{ value: 'gemini', count: 3 }, { value: 'fallback', count: 1 }]);
+        expect(facets.languages).toEqual([{ value: 'en', count: 2 }, { value: 'es', count: 1 }, { value: 'und', count: 1 }]);
+        expect(facets.tags).toEqual([{ value: 'vip', count: 2 }, { value: 'refund', count: 1 }]);
+    });
+});
@@ -0,0 +1,108 @@
+import { Sentiment, SentimentAnalysisResult, ReviewStatus } from '../types';
+import { getIntendedSentiment } from './sarcasmDetection';
+import { UNDETERMINED_LANGUAGE } from './languageDetection';
+
+// Values within a facet are alternatives; separate facets must all match.
+export interface ResultQuery {
+    search?: string;
+    sentiments?: Sentiment[];
+    // Inclusive confidence bounds, 0–1.
+    minConfidence?: number;
+    maxConfidence?: number;
+    providers?: string[];
+    // ISO 639-1 codes, or 'und' for texts whose language could not be told.
+    languages?: string[];
+    tags?: string[];
+    reviews?: ReviewState[];
+}
+
+export type ReviewState = ReviewStatus | 'unreviewed';
+
+export type ResultSort = 'newest' | 'oldest' | 'confidence-desc' | 'confidence-asc' | 'most-positive' | 'most-negative';
+
+export const RESULT_SORTS: { id: ResultSort; label: string }[] = [
+    { id: 'newest', label: 'Newest first' },
+    { id: 'oldest', label: 'Oldest first' },
+    { id: 'confidence-desc', label: 'Most confident' },
+    { id: 'confidence-asc', label: 'Least confident' },
+    { id: 'most-positive', label: 'Most positive' },
+    { id: 'most-negative', label: 'Most negative' },
+];
+
+// Tags live on the saved history records, keyed by result id.
+export type ResultTags = Record<string, string[]>;
+
+export interface FacetCount {
+    value: string;
+    count: number;
+}
+
+export interface ResultFacets {
+    sentiments: FacetCount[];
+    providers: FacetCount[];
+    languages: FacetCount[];
+    tags: FacetCount[];
+    reviews: FacetCount[];
+}
+
+export const getResultLanguage = (result: SentimentAnalysisResult) => result.language ?? UNDETERMINED_LANGUAGE;
+
+const getReviewState = (result: SentimentAnalysisResult): ReviewState => result.review?.status ?? 'unreviewed';
+
+const getResultTags = (result: SentimentAnalysisResult, tags: ResultTags) => (result.id && tags[result.id]) || [];
+
+const getSearchableText = (result: SentimentAnalysisResult) =>
+    [result.text, ...result.keywords, result.explanation, result.translation ?? ''].join(' ').toLowerCase();
+
+const matchesAny = <T>(selected: T[] | undefined, values: T[]) => !selected?.length || values.some(v => selected.includes(v));
+
+const matchesQuery = (result: SentimentAnalysisResult, query: ResultQuery, tags: ResultTags) => {
+    if (!matchesAny(query.sentiments, [getIntendedSentiment(result)])) return false;
+    if (!matchesAny(query.providers, [result.apiUsed])) return false;
+    if (!matchesAny(query.languages, [getResultLanguage(result)])) return false;
+    if (!matchesAny(query.tags, getResultTags(result, tags))) return false;
+    if (!matchesAny(query.reviews, [getReviewState(result)])) return false;
+    if (query.minConfidence !== undefined && result.confidence < query.minConfidence) return false;
+    if (query.maxConfidence !== undefined && result.confidence > query.maxConfidence) return false;
+    if (query.search) {
+        const haystack = getSearchableText(result);
+        return query.search.toLowerCase().split(/\s+/).filter(Boolean).every(term => haystack.includes(term));
+    }
+    return true;
+};
+
+export const filterResults = (results: SentimentAnalysisResult[], query: ResultQuery, tags: ResultTags = {}) =>
+    results.filter(result => matchesQuery(result, query, tags));
+
+export const isQueryActive = (query: ResultQuery) =>
+    !!query.search?.trim() || !!query.sentiments?.length || !!query.providers?.length || !!query.languages?.length
+    || !!query.tags?.length || !!query.reviews?.length || query.minConfidence !== undefined || query.maxConfidence !== undefined;
+
+const time = (result: SentimentAnalysisResult) => new Date(result.timestamp).getTime() || 0;
+const polarity = (result: SentimentAnalysisResult) => result.scores.positive - result.scores.negative;
+
+const COMPARATORS: Record<ResultSort, (a: SentimentAnalysisResult, b: SentimentAnalysisResult) => number> = {
+    newest: (a, b) => time(b) - time(a),
+    oldest: (a, b) => time(a) - time(b),
+    'confidence-desc': (a, b) => b.confidence - a.confidence,
+    'confidence-asc': (a, b) => a.confidence - b.confidence,
+    'most-positive': (a, b) => polarity(b) - polarity(a),
+    'most-negative': (a, b) => polarity(a) - polarity(b),
+};
+
+// The sort is stable, so results that tie keep the order they were added in.
+export const sortResults = (results: SentimentAnalysisResult[], sort: ResultSort) => [...results].sort(COMPARATORS[sort]);
+
+const countValues = (values: string[]): FacetCount[] => {
+    const counts = new Map<string, number>();
+    values.forEach(value => counts.set(value, (counts.get(value) ?? 0) + 1));
+    return Array.from(counts, ([value, count]) => ({ value, count })).sort((a, b) => b.count - a.count || a.value.localeCompare(b.value));
+};
+
+export const getResultFacets = (results: SentimentAnalysisResult[], tags: ResultTags = {}): ResultFacets => ({
+    sentiments: countValues(results.map(r => getIntendedSentiment(r))),
+    providers: countValues(results.map(r => r.apiUsed)),
+    languages: countValues(results.map(getResultLanguage)),
+    tags: countValues(results.flatMap(r => getResultTags(r, tags))),
+    reviews: countValues(results.map(getReviewState)),
+});
@@ -0,0 +1,115 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Sentiment, SentimentAnalysisResult } from '../types';
+import { buildGoldDataset, computeReviewAgreement, createReview, createReviewDraft } from './reviews';
+
+const { Positive, Neutral, Negative } = Sentiment;
+
+const result = (overrides: Partial<SentimentAnalysisResult> = {}): SentimentAnalysisResult => ({
+    id: 'r1',
+    text: 'Great screen. Battery is poor.',
+    sentiment: Positive,
+    confidence: 0.8,
+    scores: { positive: 0.8, negative: 0.1, neutral: 0.1 },
+    keywords: [],
+    explanation: '',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    apiUsed: 'gemini',
+    sentenceBreakdown: [
+        { sentence: 'Great screen.', sentiment: Positive, score: 0.9 },
+        { sentence: 'Battery is poor.', sentiment: Negative, score: 0.8 },
+    ],
+    ...overrides,
+});
+
+// "Oh great, it broke." read literally as positive, with the model flagging the ironic, negative meaning.
+const sarcastic = () => result({
+    text: 'Oh great, it broke.',
+    sarcasm: { probability: 0.9, adjustedSentiment: Negative },
+    sentenceBreakdown: [{ sentence: 'Oh great, it broke.', sentiment: Positive, score: 0.7, sarcasm: { probability: 0.9, adjustedSentiment: Negative } }],
+});
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date('2024-03-05T12:00:00.000Z'));
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('createReview', () => {
+    it('accepts a review that keeps every model label', () => {
+        const review = createReview(result(), createReviewDraft(result()), ' Sam ');
+        expect(review).toEqual({ status: 'accepted', sentiment: Positive, reviewer: 'Sam', reviewedAt: '2024-03-05T12:00:00.000Z' });
+    });
+
+    it('marks a changed overall label as overridden', () => {
+        const review = createReview(result(), { sentiment: Neutral, sentenceLabels: {}, notes: ' mixed ' }, 'Sam');
+        expect(review).toMatchObject({ status: 'overridden', sentiment: Neutral, notes: 'mixed' });
+    });
+
+    it('drops sentence labels that equal the model label and overrides on the rest', () => {
+        const unchanged = createReview(result(), { sentiment: Positive, sentenceLabels: { 0: Positive, 1: Negative }, notes: '' }, 'Sam');
+        expect(unchanged.status).toBe('accepted');
+        expect(unchanged.sentenceLabels).toBeUndefined();
+
+        const corrected = createReview(result(), { sentiment: Positive, sentenceLabels: { 0: Positive, 1: Neutral }, notes: '' }, 'Sam');
+        expect(corrected).toMatchObject({ status: 'overridden', sentenceLabels: { 1: Neutral } });
+    });
+
+    it('compares against the sarcasm-adjusted label', () => {
+        expect(createReviewDraft(sarcastic()).sentiment).toBe(Negative);
+        expect(createReview(sarcastic(), { sentiment: Negative, sentenceLabels: { 0: Negative }, notes: '' }, 'Sam').status).toBe('accepted');
+        expect(createReview(sarcastic(), { sentiment: Positive, sentenceLabels: {}, notes: '' }, 'Sam').status).toBe('overridden');
+    });
+});
+
+describe('createReviewDraft', () => {
+    it('starts from an earlier review when there is one', () => {
+        const reviewed = result({ review: { status: 'overridden', sentiment: Neutral, sentenceLabels: { 1: Neutral }, notes: 'mixed', reviewer: 'Sam', reviewedAt: '' } });
+        expect(createReviewDraft(reviewed)).toEqual({ sentiment: Neutral, sentenceLabels: { 1: Neutral }, notes: 'mixed' });
+    });
+});
+
+describe('computeReviewAgreement', () => {
+    it('counts results and sentences where the reviewer kept the model label', () => {
+        const accepted = result({ id: 'a', review: createReview(result(), createReviewDraft(result()), 'Sam') });
+        const overridden = result({ id: 'b', review: createReview(result(), { sentiment: Positive, sentenceLabels: { 1: Neutral }, notes: '' }, 'Sam') });
+        const relabelled = sarcastic();
+        relabelled.review = createReview(relabelled, { sentiment: Positive, sentenceLabels: {}, notes: '' }, 'Sam');
+
+        expect(computeReviewAgreement([accepted, overridden, relabelled, result({ id: 'unreviewed' })])).toEqual({
+            results: { reviewed: 3, agreed: 2, rate: 2 / 3 },
+            sentences: { reviewed: 5, agreed: 4, rate: 4 / 5 },
+        });
+    });
+
+    it('has no rate before anything is reviewed', () => {
+        expect(computeReviewAgreement([result()]).results).toEqual({ reviewed: 0, agreed: 0, rate: null });
+    });
+});
+
+describe('buildGoldDataset', () => {
+    it('writes one row per reviewed result with the reviewed labels', () => {
+        const reviewed = result({ review: createReview(result(), { sentiment: Neutral, sentenceLabels: { 1: Neutral }, notes: '' }, 'Sam') });
+        expect(buildGoldDataset([reviewed, result({ id: 'unreviewed' })])).toEqual([{
+            id: 'r1',
+            text: 'Great screen. Battery is poor.',
+            label: Neutral,
+            model_label: Positive,
+            status: 'overridden',
+            reviewer: 'Sam',
+            reviewed_at: '2024-03-05T12:00:00.000Z',
+            notes: '',
+            sentence_labels: JSON.stringify([{ sentence: 'Great screen.', label: Positive }, { sentence: 'Battery is poor.', label: Neutral }]),
+        }]);
+    });
+
+    it('uses the sarcasm-adjusted label as the model label', () => {
+        const reviewed = sarcastic();
+        reviewed.review = createReview(reviewed, createReviewDraft(reviewed), 'Sam');
+        const [row] = buildGoldDataset([reviewed]);
+        expect(row).toMatchObject({ label: Negative, model_label: Negative, status: 'accepted' });
+        expect(JSON.parse(row.sentence_labels)).toEqual([{ sentence: 'Oh great, it broke.', label: Negative }]);
+    });
+});
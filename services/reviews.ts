@@ -0,0 +1,104 @@
+import { Sentiment, SentimentAnalysisResult, ResultReview } from '../types';
+import { readJson, writeJson } from './localStore';
+import { getIntendedSentiment } from './sarcasmDetection';
+
+const REVIEWER_KEY = 'reviewer';
+
+export const getReviewerName = (): string => readJson<string>(REVIEWER_KEY, '');
+
+export const setReviewerName = (name: string) => writeJson(REVIEWER_KEY, name.trim());
+
+export interface ReviewDraft {
+    sentiment: Sentiment;
+    sentenceLabels: Record<number, Sentiment>;
+    notes: string;
+}
+
+// The model's label counts as what the text means, so a sarcastic text read correctly is not an override.
+export const getModelSentiment = (result: SentimentAnalysisResult) => getIntendedSentiment(result);
+
+const getModelSentenceSentiment = (result: SentimentAnalysisResult, index: number) => {
+    const sentence = result.sentenceBreakdown?.[index];
+    return sentence && (sentence.sarcasm?.adjustedSentiment ?? sentence.sentiment);
+};
+
+export const createReviewDraft = (result: SentimentAnalysisResult): ReviewDraft => ({
+    sentiment: result.review?.sentiment ?? getModelSentiment(result),
+    sentenceLabels: { ...result.review?.sentenceLabels },
+    notes: result.review?.notes ?? '',
+});
+
+// Only sentence labels that differ from the model's are kept, so an unchanged sentence never reads as a correction.
+export const createReview = (result: SentimentAnalysisResult, draft: ReviewDraft, reviewer: string): ResultReview => {
+    const sentenceLabels = Object.fromEntries((Object.entries(draft.sentenceLabels) as [string, Sentiment][])
+        .filter(([index, sentiment]) => getModelSentenceSentiment(result, Number(index)) !== sentiment));
+    const corrected = draft.sentiment !== getModelSentiment(result) || Object.keys(sentenceLabels).length > 0;
+    return {
+        status: corrected ? 'overridden' : 'accepted',
+        sentiment: draft.sentiment,
+        ...(Object.keys(sentenceLabels).length > 0 && { sentenceLabels }),
+        ...(draft.notes.trim() && { notes: draft.notes.trim() }),
+        reviewer: reviewer.trim(),
+        reviewedAt: new Date().toISOString(),
+    };
+};
+
+export interface AgreementRate {
+    reviewed: number;
+    agreed: number;
+    // agreed / reviewed, or null when nothing has been reviewed.
+    rate: number | null;
+}
+
+export interface ReviewAgreement {
+    results: AgreementRate;
+    // Over every sentence of the reviewed results that have a sentence breakdown.
+    sentences: AgreementRate;
+}
+
+const toRate = (reviewed: number, agreed: number): AgreementRate => ({ reviewed, agreed, rate: reviewed ? agreed / reviewed : null });
+
+// How often reviewers kept the model's label.
+export const computeReviewAgreement = (results: SentimentAnalysisResult[]): ReviewAgreement => {
+    const reviewed = results.filter(r => r.review);
+    const sentenceCount = reviewed.reduce((sum, r) => sum + (r.sentenceBreakdown?.length ?? 0), 0);
+    const sentenceCorrections = reviewed.reduce((sum, r) => sum + Object.keys(r.review!.sentenceLabels ?? {}).length, 0);
+    return {
+        results: toRate(reviewed.length, reviewed.filter(r => r.review!.sentiment === getModelSentiment(r)).length),
+        sentences: toRate(sentenceCount, sentenceCount - sentenceCorrections),
+    };
+};
+
+export interface GoldRow {
+    id: string;
+    text: string;
+    label: Sentiment;
+    model_label: Sentiment;
+    status: string;
+    reviewer: string;
+    reviewed_at: string;
+    notes: string;
+    // JSON list of { sentence, label } with the reviewed label of each sentence, when the result has a breakdown.
+    sentence_labels: string;
+}
+
+// One row per reviewed result, with `text` and `label` columns so the file loads straight into the evaluation harness.
+export const buildGoldDataset = (results: SentimentAnalysisResult[]): GoldRow[] => results.flatMap(result => {
+    const review = result.review;
+    if (!review) return [];
+    const sentences = result.sentenceBreakdown?.map((s, i) => ({
+        sentence: s.sentence,
+        label: review.sentenceLabels?.[i] ?? getModelSentenceSentiment(result, i),
+    }));
+    return [{
+        id: result.id ?? '',
+        text: result.text,
+        label: review.sentiment,
+        model_label: getModelSentiment(result),
+        status: review.status,
+        reviewer: review.reviewer,
+        reviewed_at: review.reviewedAt,
+        notes: review.notes ?? '',
+        sentence_labels: sentences ? JSON.stringify(sentences) : '',
+    }];
+});
@@ -0,0 +1,102 @@
+import { Sentiment, SarcasmAssessment } from '../types';
+import { LexiconAnalysis, splitSentences, tokenize, normalizeToken } from './lexiconEngine';
+
+// Assessments at or above this probability are treated as sarcastic.
+export const SARCASM_THRESHOLD = 0.5;
+
+export const isSarcastic = (assessment?: SarcasmAssessment) =>
+    !!assessment && assessment.probability >= SARCASM_THRESHOLD;
+
+// The sentiment a reader would take away: the ironic reading when one was detected, else the literal label.
+export const getIntendedSentiment = (result: { sentiment: Sentiment; sarcasm?: SarcasmAssessment }) =>
+    result.sarcasm?.adjustedSentiment ?? result.sentiment;
+
+interface SarcasmCue {
+    pattern: RegExp;
+    weight: number;
+}
+
+// Phrases that signal irony on their own, or that make a positive word read as ironic.
+const SARCASM_CUES: SarcasmCue[] = [
+    { pattern: /\bjust what (?:i|we) (?:needed|wanted)\b/iu, weight: 1.4 },
+    { pattern: /\bthanks for nothing\b/iu, weight: 1.6 },
+    { pattern: /\byeah,? right\b/iu, weight: 1.4 },
+    { pattern: /\bwhat a (?:surprise|shock)\b/iu, weight: 1.0 },
+    { pattern: /\bsaid no one ever\b/iu, weight: 2.0 },
+    { pattern: /\bhow (?:convenient|lovely|wonderful)\b/iu, weight: 0.8 },
+    { pattern: /(?:^|\s)\/s\b/u, weight: 2.0 },
+    { pattern: /[🙄😒🙃]/u, weight: 1.2 },
+    // A positive word used as an interjection: "Oh great,", "Great, another...".
+    { pattern: /(?:^|\b(?:oh|ah|wow|yeah)[,!]?\s+)(?:great|nice|wonderful|perfect|fantastic|brilliant|awesome|lovely|super)\s*[,!…]/iu, weight: 0.7 },
+    { pattern: /\b(?:love|loving|adore|enjoy)\s+(?:how|when|that|it when)\b/iu, weight: 0.5 },
+    // A positive word in scare quotes: the "great" service.
+    { pattern: /["“'‘](?:great|amazing|excellent|helpful|fast|reliable|best|perfect)["”'’]/iu, weight: 0.9 },
+];
+
+// Mishaps that are rarely welcome, so praising them in the same breath suggests irony.
+const NEGATIVE_SITUATIONS = new Set(['another', 'again', 'breaks', 'broke', 'broken', 'crash', 'crashes', 'crashed', 'crashing',
+    'delayed', 'delay', 'late', 'cancelled', 'canceled', 'stuck', 'waiting', 'wait', 'hours', 'queue', 'lost', 'error', 'errors',
+    'bug', 'bugs', 'fails', 'failed', 'outage', 'down', 'overcharged', 'spam', 'ads', 'rain', 'traffic', 'monday', 'ruined',
+    'freezes', 'froze', 'lag', 'hold']);
+const CONTRASTIVE_WORDS = new Set(['but', 'although', 'though', 'however', 'except', 'yet', 'shame', 'unfortunately']);
+
+const CONTRAST_WEIGHT = 0.6;
+const EXTRA_MISHAP_WEIGHT = 0.15;
+const EMPHASIS_WEIGHT = 0.3;
+
+const toProbability = (score: number) => parseFloat((1 - Math.exp(-score)).toFixed(2));
+
+// Scores one sentence from its cue phrases and from praise that lands on a mishap ("love waiting on hold for hours").
+const assessSentence = (text: string, sentence: string, start: number, lexicon: LexiconAnalysis) => {
+    let score = 0;
+    let spanStart = Infinity;
+    let spanEnd = -Infinity;
+    const mark = (from: number, to: number) => {
+        spanStart = Math.min(spanStart, from);
+        spanEnd = Math.max(spanEnd, to);
+    };
+
+    for (const { pattern, weight } of SARCASM_CUES) {
+        const match = pattern.exec(sentence);
+        if (!match) continue;
+        score += weight;
+        const leading = match[0].length - match[0].trimStart().length;
+        mark(start + match.index + leading, start + match.index + match[0].replace(/[\s,!…]+$/u, '').length);
+    }
+
+    const tokens = tokenize(sentence, start);
+    const praise = lexicon.cues.find(cue => cue.valence > 0 && cue.start >= start && cue.end <= start + sentence.length);
+    if (praise) {
+        const after = tokens.filter(token => token.start > praise.start);
+        const contrastIndex = after.findIndex(token => CONTRASTIVE_WORDS.has(normalizeToken(token.text)));
+        const mishaps = (contrastIndex < 0 ? after : after.slice(0, contrastIndex))
+            .filter(token => NEGATIVE_SITUATIONS.has(normalizeToken(token.text)));
+        if (mishaps.length) {
+            score += CONTRAST_WEIGHT + (mishaps.length - 1) * EXTRA_MISHAP_WEIGHT;
+            mark(praise.start, mishaps[mishaps.length - 1].end);
+            if (/!|\.\.\.|…/.test(sentence)) score += EMPHASIS_WEIGHT;
+        }
+    }
+
+    return { probability: toProbability(score), trigger: spanEnd > spanStart ? text.slice(spanStart, spanEnd) : undefined };
+};
+
+const flip = (sentiment: Sentiment, probability: number) =>
+    probability >= SARCASM_THRESHOLD && sentiment !== Sentiment.Negative ? Sentiment.Negative : undefined;
+
+// A rule-based stand-in for the model's irony judgement. Irony almost always dresses a complaint up as praise
+// or indifference, so sarcastic readings that are not already negative are flipped to negative.
+export const detectSarcasmOffline = (text: string, lexicon: LexiconAnalysis) => {
+    const sentences = splitSentences(text).map(({ sentence, start }, i): SarcasmAssessment => {
+        const { probability, trigger } = assessSentence(text, sentence, start, lexicon);
+        const literal = lexicon.sentences[i]?.sentiment ?? Sentiment.Neutral;
+        return { probability, trigger, adjustedSentiment: flip(literal, probability) };
+    });
+    const strongest = sentences.reduce<SarcasmAssessment>((best, s) => s.probability > best.probability ? s : best, { probability: 0 });
+    const overall: SarcasmAssessment = {
+        probability: strongest.probability,
+        trigger: strongest.trigger,
+        adjustedSentiment: flip(lexicon.sentiment, strongest.probability),
+    };
+    return { overall, sentences };
+};
@@ -0,0 +1,74 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { createMockProvider } from './mockProvider';
+
+// The registry is module state, so every test starts from a fresh copy.
+const loadRegistry = async () => {
+    vi.resetModules();
+    return import('./sentimentProvider');
+};
+
+describe('sentiment provider registry', () => {
+    let registry: Awaited<ReturnType<typeof loadRegistry>>;
+
+    beforeEach(async () => {
+        registry = await loadRegistry();
+    });
+
+    it('throws when nothing has been registered', () => {
+        expect(() => registry.getActiveProvider()).toThrow('No sentiment provider has been registered.');
+    });
+
+    it('makes the first registered provider active', () => {
+        registry.registerProvider(createMockProvider({ id: 'first' }));
+        registry.registerProvider(createMockProvider({ id: 'second' }));
+        expect(registry.getActiveProvider().id).toBe('first');
+        expect(registry.listProviders().map(p => p.id)).toEqual(['first', 'second']);
+    });
+
+    it('switches to a registered provider', () => {
+        registry.registerProvider(createMockProvider({ id: 'first' }));
+        registry.registerProvider(createMockProvider({ id: 'second' }));
+        registry.setActiveProvider('second');
+        expect(registry.getActiveProvider().id).toBe('second');
+    });
+
+    it('rejects an unknown provider and keeps the active one', () => {
+        registry.registerProvider(createMockProvider({ id: 'first' }));
+        expect(() => registry.setActiveProvider('missing')).toThrow('Unknown sentiment provider: missing');
+        expect(registry.getActiveProvider().id).toBe('first');
+    });
+
+    it('falls back to the next provider when the active one is unregistered', () => {
+        registry.registerProvider(createMockProvider({ id: 'first' }));
+        registry.registerProvider(createMockProvider({ id: 'second' }));
+        registry.unregisterProvider('first');
+        expect(registry.getActiveProvider().id).toBe('second');
+        registry.unregisterProvider('second');
+        expect(() => registry.getActiveProvider()).toThrow();
+    });
+
+    it('selects the provider named by SENTIMENT_PROVIDER at startup', async () => {
+        vi.stubEnv('SENTIMENT_PROVIDER', 'mock');
+        try {
+            vi.resetModules();
+            const analysis = await import('./analysisService');
+            expect(analysis.getActiveProvider().id).toBe('mock');
+        } finally {
+            vi.unstubAllEnvs();
+        }
+    });
+
+    it('keeps the default provider when SENTIMENT_PROVIDER names an unknown one', async () => {
+        vi.stubEnv('SENTIMENT_PROVIDER', 'missing');
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+        try {
+            vi.resetModules();
+            const analysis = await import('./analysisService');
+            expect(analysis.getActiveProvider().id).toBe('gemini');
+            expect(warn).toHaveBeenCalledWith('Ignoring SENTIMENT_PROVIDER, keeping gemini:', expect.objectContaining({ message: 'Unknown sentiment provider: missing' }));
+        } finally {
+            vi.unstubAllEnvs();
+            warn.mockRestore();
+        }
+    });
+});
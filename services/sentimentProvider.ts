@@ -0,0 +1,53 @@
+import { Sentiment, SentimentAnalysisResult, AnalysisPreferences, AdvancedAnalysisResult, MoodEnhancerResult, ComparativeAnalysisResult, ProviderId, GenerationOperation, GenerationConfig } from '../types';
+
+// A backend capable of running every analysis the dashboard offers.
+export interface SentimentProvider {
+    id: ProviderId;
+    name: string;
+    // The model, prompt version and sampling settings an operation would run with right now.
+    // Results are only cached for providers that report one, and the cache is keyed on it.
+    getGenerationConfig?: (operation: GenerationOperation) => GenerationConfig;
+    analyze: (text: string, preferences?: AnalysisPreferences) => Promise<SentimentAnalysisResult>;
+    advanced: (text: string) => Promise<AdvancedAnalysisResult>;
+    compare: (textA: string, textB: string) => Promise<ComparativeAnalysisResult>;
+    mood: (sentiment: Sentiment, text: string) => Promise<MoodEnhancerResult>;
+}
+
+const providers = new Map<ProviderId, SentimentProvider>();
+let activeProviderId: ProviderId | null = null;
+
+export const registerProvider = (provider: SentimentProvider) => {
+    providers.set(provider.id, provider);
+    if (!activeProviderId) {
+        activeProviderId = provider.id;
+    }
+};
+
+export const unregisterProvider = (id: ProviderId) => {
+    providers.delete(id);
+    if (activeProviderId === id) {
+        activeProviderId = providers.keys().next().value ?? null;
+    }
+};
+
+export const getProvider = (id: ProviderId): SentimentProvider => {
+    const provider = providers.get(id);
+    if (!provider) {
+        throw new Error(`Unknown sentiment provider: ${id}`);
+    }
+    return provider;
+};
+
+export const listProviders = (): SentimentProvider[] => Array.from(providers.values());
+
+export const setActiveProvider = (id: ProviderId) => {
+    getProvider(id);
+    activeProviderId = id;
+};
+
+export const getActiveProvider = (): SentimentProvider => {
+    if (!activeProviderId) {
+        throw new Error("No sentiment provider has been registered.");
+    }
+    return getProvider(activeProviderId);
+};
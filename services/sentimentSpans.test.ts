@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { Sentiment } from '../types';
+import { analyzeLexicon } from './lexiconEngine';
+import { extractSpansOffline, locatePhrases } from './sentimentSpans';
+
+const phrase = (text: string, sentiment = Sentiment.Positive, weight = 1) => ({ text, sentiment, weight });
+
+describe('locatePhrases', () => {
+    it('finds phrases regardless of case and returns them in text order', () => {
+        const text = 'The battery is bad but the Screen is great';
+        const spans = locatePhrases(text, [phrase('screen is great'), phrase('BAD', Sentiment.Negative, 0.7)]);
+        expect(spans.map(span => text.slice(span.start, span.end))).toEqual(['bad', 'Screen is great']);
+        expect(spans[0]).toMatchObject({ sentiment: Sentiment.Negative, weight: 0.7 });
+    });
+
+    it('keeps offsets aligned when lowercasing would change the text length', () => {
+        // 'İ'.toLowerCase() is two code units, so offsets found in a lowercased copy land one character late.
+        const text = 'İstanbul was GREAT';
+        const spans = locatePhrases(text, [phrase('great')]);
+        expect(spans.map(span => text.slice(span.start, span.end))).toEqual(['GREAT']);
+    });
+
+    it('treats phrases as literal text', () => {
+        expect(locatePhrases('Worth it (mostly)', [phrase('it (mostly)')])).toMatchObject([{ start: 6, end: 17 }]);
+    });
+
+    it('matches repeated phrases left to right', () => {
+        expect(locatePhrases('good, good, good', [phrase('good'), phrase('good')]).map(span => span.start)).toEqual([0, 6]);
+    });
+
+    it('drops phrases that are missing, empty or overlap an earlier span', () => {
+        const spans = locatePhrases('not very good', [phrase('very good'), phrase('not very'), phrase('excellent'), phrase('')]);
+        expect(spans).toEqual([{ start: 0, end: 8, sentiment: Sentiment.Positive, weight: 1 }]);
+    });
+});
+
+describe('extractSpansOffline', () => {
+    it('widens each cue over the modifiers before it', () => {
+        const text = 'The food was not very good.';
+        const spans = extractSpansOffline(text, analyzeLexicon(text));
+        expect(spans).toHaveLength(1);
+        expect(text.slice(spans[0].start, spans[0].end)).toBe('not very good');
+        expect(spans[0].sentiment).toBe(Sentiment.Negative);
+    });
+
+    it('weights cues against the strongest one', () => {
+        const text = 'Good food, horrible service.';
+        const spans = extractSpansOffline(text, analyzeLexicon(text));
+        expect(spans.map(span => text.slice(span.start, span.end))).toEqual(['Good', 'horrible']);
+        expect(spans[1].weight).toBe(1);
+        expect(spans[0].weight).toBeLessThan(1);
+    });
+
+    it('copes with more cues than a function call takes arguments', () => {
+        const lexicon = { ...analyzeLexicon('good'), cues: Array.from({ length: 200_000 }, () => ({ text: 'good', start: 0, end: 4, valence: 1.9 })) };
+        expect(extractSpansOffline('good', lexicon)).toEqual([{ start: 0, end: 4, sentiment: Sentiment.Positive, weight: 1 }]);
+    });
+
+    it('has no spans without cues', () => {
+        expect(extractSpansOffline('A table.', analyzeLexicon('A table.'))).toEqual([]);
+    });
+});
@@ -0,0 +1,60 @@
+import { Sentiment, SentimentSpan } from '../types';
+import { LexiconAnalysis, tokenize, isModifierWord, classifyCompound } from './lexiconEngine';
+
+export interface SpanPhrase {
+    text: string;
+    sentiment: Sentiment;
+    weight: number;
+}
+
+const byStart = (a: SentimentSpan, b: SentimentSpan) => a.start - b.start;
+
+// Keeps spans in text order and drops any that overlap an earlier one.
+const withoutOverlaps = (spans: SentimentSpan[]) => {
+    const kept: SentimentSpan[] = [];
+    for (const span of [...spans].sort(byStart)) {
+        if (!kept.length || span.start >= kept[kept.length - 1].end) kept.push(span);
+    }
+    return kept;
+};
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Models quote phrases rather than counting characters, so each phrase is found in the text here.
+// Repeated phrases are matched left to right; phrases that can't be found are dropped.
+// The search is case-insensitive on the original text, since lowercasing can change its length (İ becomes i̇) and shift offsets.
+export const locatePhrases = (text: string, phrases: SpanPhrase[]): SentimentSpan[] => {
+    const nextSearchFrom = new Map<string, number>();
+    const spans = phrases.flatMap((phrase): SentimentSpan[] => {
+        if (!phrase.text) return [];
+        const key = phrase.text.toLowerCase();
+        const pattern = new RegExp(escapeRegExp(phrase.text), 'giu');
+        pattern.lastIndex = nextSearchFrom.get(key) ?? 0;
+        const match = pattern.exec(text);
+        if (!match) return [];
+        const end = match.index + match[0].length;
+        nextSearchFrom.set(key, end);
+        return [{ start: match.index, end, sentiment: phrase.sentiment, weight: phrase.weight }];
+    });
+    return withoutOverlaps(spans);
+};
+
+// Each lexicon cue becomes a span, widened to take in the intensifiers and negations right before it
+// ("not very good"), weighted relative to the strongest cue.
+export const extractSpansOffline = (text: string, lexicon: LexiconAnalysis): SentimentSpan[] => {
+    if (!lexicon.cues.length) return [];
+    const tokens = tokenize(text);
+    // Long texts can have more cues than Math.max accepts as arguments.
+    const strongest = lexicon.cues.reduce((max, cue) => Math.max(max, Math.abs(cue.valence)), 0);
+    const spans = lexicon.cues.map((cue): SentimentSpan => {
+        let first = tokens.findIndex(token => token.start === cue.start);
+        while (first > 0 && isModifierWord(tokens[first - 1].text)) first--;
+        return {
+            start: first >= 0 ? tokens[first].start : cue.start,
+            end: cue.end,
+            sentiment: classifyCompound(cue.valence),
+            weight: parseFloat((Math.abs(cue.valence) / strongest).toFixed(2)),
+        };
+    });
+    return withoutOverlaps(spans);
+};
@@ -0,0 +1,39 @@
+import { describe, it, expect } from 'vitest';
+import { Taxonomy } from '../types';
+import { classifyOffline } from './taxonomyClassifier';
+
+const taxonomy: Taxonomy = {
+    id: 'support',
+    name: 'Support',
+    updatedAt: '',
+    labels: [
+        { id: 'billing', name: 'billing', description: 'Charges, invoices and refunds.', examples: ['I was charged twice'] },
+        { id: 'bug', name: 'bug', description: 'Something is broken or shows an error.', examples: ['The app crashes on upload'] },
+    ],
+};
+
+describe('classifyOffline', () => {
+    it('picks the label whose definition shares the most words with the text', () => {
+        const result = classifyOffline('The app keeps crashing when I upload', taxonomy);
+        expect(result.taxonomyId).toBe('support');
+        expect(result.label).toBe('bug');
+        expect(result.scores.bug).toBeGreaterThan(result.scores.billing);
+        expect(result.rationale).toContain('"crashing"');
+    });
+
+    it('matches words by their stem', () => {
+        expect(classifyOffline('They keep charging my card', taxonomy).label).toBe('billing');
+    });
+
+    it('returns scores that sum to one', () => {
+        const { scores } = classifyOffline('Refund the invoice', taxonomy);
+        expect(Object.keys(scores)).toEqual(['billing', 'bug']);
+        expect(scores.billing + scores.bug).toBeCloseTo(1);
+    });
+
+    it('spreads the scores evenly and says so when nothing matches', () => {
+        const result = classifyOffline('Hello there', taxonomy);
+        expect(result.scores).toEqual({ billing: 0.5, bug: 0.5 });
+        expect(result.rationale).toContain('low-confidence guess');
+    });
+});
@@ -0,0 +1,64 @@
+import { Taxonomy, ClassificationResult } from '../types';
+import { segmentWords, getStopWords } from './languageDetection';
+
+// Words from a label's name say more about it than words from its examples, which say more than its description.
+const SOURCE_WEIGHTS = { name: 3, example: 2, description: 1 };
+
+// How sharply the label with the most evidence wins; lower spreads the scores more evenly.
+const TEMPERATURE = 1.5;
+
+// A crude stem so "charged", "charges" and "charging" all match "charge".
+const stem = (word: string) => word.length > 5 ? word.slice(0, 5) : word;
+
+// Maps each content word's stem to the first word in the text that produced it, so rationales quote the text.
+const contentWords = (text: string, stopWords: Set<string>) => {
+    const words = new Map<string, string>();
+    for (const word of segmentWords(text.replace(/[-_]/g, ' '))) {
+        if (word.length > 2 && !stopWords.has(word) && !words.has(stem(word))) words.set(stem(word), word);
+    }
+    return words;
+};
+
+// Maps each stem in the label to the strongest weight of any place it appears.
+const buildVocabulary = (texts: { text: string; weight: number }[], stopWords: Set<string>) => {
+    const vocabulary = new Map<string, number>();
+    for (const { text, weight } of texts) {
+        for (const key of contentWords(text, stopWords).keys()) {
+            vocabulary.set(key, Math.max(vocabulary.get(key) ?? 0, weight));
+        }
+    }
+    return vocabulary;
+};
+
+// A zero-shot stand-in for the model: each label is scored by how many of the text's words appear in its
+// name, description or examples, and the evidence is turned into probabilities with a softmax.
+export const classifyOffline = (text: string, taxonomy: Taxonomy): ClassificationResult => {
+    const stopWords = getStopWords('en');
+    const words = contentWords(text, stopWords);
+
+    const evidence = taxonomy.labels.map(label => {
+        const vocabulary = buildVocabulary([
+            { text: label.name, weight: SOURCE_WEIGHTS.name },
+            ...label.examples.map(example => ({ text: example, weight: SOURCE_WEIGHTS.example })),
+            { text: label.description, weight: SOURCE_WEIGHTS.description },
+        ], stopWords);
+        const matches = [...words].filter(([key]) => vocabulary.has(key));
+        return {
+            label: label.name,
+            score: matches.reduce((sum, [key]) => sum + vocabulary.get(key)!, 0),
+            words: matches.map(([, word]) => word),
+        };
+    });
+
+    const exps = evidence.map(e => Math.exp(e.score / TEMPERATURE));
+    const total = exps.reduce((sum, e) => sum + e, 0);
+    const scores: Record<string, number> = {};
+    evidence.forEach((e, i) => { scores[e.label] = exps[i] / total; });
+
+    const best = evidence.reduce((a, b) => (b.score > a.score ? b : a), evidence[0]);
+    const rationale = best.score > 0
+        ? `The text shares ${best.words.map(w => `"${w}"`).join(', ')} with the definition of "${best.label}".`
+        : `No words in the text match any label's definition, so "${best.label}" is a low-confidence guess.`;
+
+    return { taxonomyId: taxonomy.id, label: best.label, scores, rationale };
+};
@@ -0,0 +1,71 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Taxonomy } from '../types';
+import {
+    createLabel, createTaxonomy, deleteTaxonomy, getActiveTaxonomy, listTaxonomies, saveTaxonomy, setActiveTaxonomy, TaxonomyValidationError,
+} from './taxonomyStore';
+
+const memoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        key: i => [...items.keys()][i] ?? null,
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => { items.set(key, value); },
+        removeItem: key => { items.delete(key); },
+        clear: () => items.clear(),
+    };
+};
+
+const taxonomy = (names: string[], name = 'Feedback'): Taxonomy => ({
+    ...createTaxonomy(name),
+    labels: names.map(createLabel),
+});
+
+beforeEach(() => {
+    vi.stubGlobal('window', { localStorage: memoryStorage() });
+});
+
+afterEach(() => {
+    vi.unstubAllGlobals();
+});
+
+describe('saveTaxonomy', () => {
+    it('rejects a taxonomy without a name, with fewer than two labels or with unnamed labels', () => {
+        expect(() => saveTaxonomy(taxonomy(['a', 'b'], ' '))).toThrow('Give the taxonomy a name.');
+        expect(() => saveTaxonomy(taxonomy(['a']))).toThrow(TaxonomyValidationError);
+        expect(() => saveTaxonomy(taxonomy(['a', '  ']))).toThrow('Every label needs a name.');
+    });
+
+    it('rejects label names used twice, ignoring case and spacing', () => {
+        expect(() => saveTaxonomy(taxonomy(['Bug', ' bug ']))).toThrow('The label "bug" is used twice.');
+    });
+
+    it('trims the saved copy and drops empty examples', () => {
+        const draft = taxonomy([' Bug ', 'Praise']);
+        draft.labels[0].examples = [' It crashes ', ''];
+        const saved = saveTaxonomy(draft);
+        expect(saved.labels[0]).toMatchObject({ name: 'Bug', examples: ['It crashes'] });
+        expect(listTaxonomies().find(t => t.id === draft.id)).toEqual(saved);
+    });
+
+    it('replaces a taxonomy with the same id', () => {
+        const saved = saveTaxonomy(taxonomy(['a', 'b']));
+        saveTaxonomy({ ...saved, name: 'Renamed' });
+        expect(listTaxonomies().filter(t => t.id === saved.id).map(t => t.name)).toEqual(['Renamed']);
+    });
+});
+
+describe('active taxonomy', () => {
+    it('starts with the built-in support taxonomy', () => {
+        expect(getActiveTaxonomy().id).toBe('support-tickets');
+    });
+
+    it('falls back to the first taxonomy when the active one is deleted', () => {
+        const saved = saveTaxonomy(taxonomy(['a', 'b']));
+        setActiveTaxonomy(saved.id);
+        expect(getActiveTaxonomy().id).toBe(saved.id);
+
+        deleteTaxonomy(saved.id);
+        expect(getActiveTaxonomy().id).toBe('support-tickets');
+    });
+});
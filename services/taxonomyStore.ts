@@ -0,0 +1,76 @@
+import { Taxonomy, TaxonomyLabel } from '../types';
+import { readJson, writeJson } from './localStore';
+import { createId } from './database';
+
+const TAXONOMIES_KEY = 'taxonomies';
+const ACTIVE_KEY = 'taxonomies.active';
+
+// A starting point for support teams; it can be edited or replaced like any other taxonomy.
+const DEFAULT_TAXONOMY: Taxonomy = {
+    id: 'support-tickets',
+    name: 'Support tickets',
+    updatedAt: '2024-01-01T00:00:00.000Z',
+    labels: [
+        { id: 'billing', name: 'billing', description: 'Questions or complaints about charges, invoices, refunds, pricing or payment methods.', examples: ['I was charged twice this month', 'How do I get a refund?'] },
+        { id: 'bug', name: 'bug', description: 'Something in the product is broken, crashes, shows an error or behaves unexpectedly.', examples: ['The app crashes when I upload a photo', 'Export button does nothing'] },
+        { id: 'praise', name: 'praise', description: 'The customer is happy and compliments the product, the team or the service.', examples: ['Your support team was fantastic', 'Love the new dashboard!'] },
+        { id: 'churn-risk', name: 'churn-risk', description: 'The customer threatens to cancel, leave for a competitor or stop paying.', examples: ['I am cancelling my subscription', 'Switching to another provider next month'] },
+    ],
+};
+
+export const listTaxonomies = (): Taxonomy[] => readJson<Taxonomy[]>(TAXONOMIES_KEY, [DEFAULT_TAXONOMY]);
+
+export const getActiveTaxonomy = (): Taxonomy => {
+    const taxonomies = listTaxonomies();
+    const activeId = readJson<string | null>(ACTIVE_KEY, null);
+    return taxonomies.find(t => t.id === activeId) ?? taxonomies[0] ?? DEFAULT_TAXONOMY;
+};
+
+export const setActiveTaxonomy = (id: string) => writeJson(ACTIVE_KEY, id);
+
+export const createLabel = (name = ''): TaxonomyLabel => ({ id: createId(), name, description: '', examples: [] });
+
+export const createTaxonomy = (name: string): Taxonomy => ({ id: createId(), name, labels: [createLabel()], updatedAt: new Date().toISOString() });
+
+export class TaxonomyValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'TaxonomyValidationError';
+    }
+}
+
+// Label names are what the model answers with, so they must be present and unique ignoring case.
+const assertValidTaxonomy = (taxonomy: Taxonomy) => {
+    if (!taxonomy.name.trim()) throw new TaxonomyValidationError('Give the taxonomy a name.');
+    if (taxonomy.labels.length < 2) throw new TaxonomyValidationError('A taxonomy needs at least two labels to choose between.');
+    const seen = new Set<string>();
+    for (const label of taxonomy.labels) {
+        const key = label.name.trim().toLowerCase();
+        if (!key) throw new TaxonomyValidationError('Every label needs a name.');
+        if (seen.has(key)) throw new TaxonomyValidationError(`The label "${label.name.trim()}" is used twice.`);
+        seen.add(key);
+    }
+};
+
+// Stores the taxonomy, replacing any with the same id, and returns the cleaned-up copy that was saved.
+export const saveTaxonomy = (taxonomy: Taxonomy): Taxonomy => {
+    assertValidTaxonomy(taxonomy);
+    const saved: Taxonomy = {
+        ...taxonomy,
+        name: taxonomy.name.trim(),
+        labels: taxonomy.labels.map(label => ({
+            ...label,
+            name: label.name.trim(),
+            description: label.description.trim(),
+            examples: label.examples.map(e => e.trim()).filter(Boolean),
+        })),
+        updatedAt: new Date().toISOString(),
+    };
+    const others = listTaxonomies().filter(t => t.id !== saved.id);
+    writeJson(TAXONOMIES_KEY, [...others, saved]);
+    return saved;
+};
+
+export const deleteTaxonomy = (id: string) => {
+    writeJson(TAXONOMIES_KEY, listTaxonomies().filter(t => t.id !== id));
+};
@@ -0,0 +1,50 @@
+import { describe, it, expect } from 'vitest';
+import { Sentiment, SentimentAnalysisResult } from '../types';
+import { clusterTopics } from './topicClustering';
+
+const result = (text: string, sentiment = Sentiment.Positive): SentimentAnalysisResult => ({
+    text,
+    sentiment,
+    confidence: 0.8,
+    scores: { positive: 0.8, negative: 0.1, neutral: 0.1 },
+    keywords: [],
+    explanation: '',
+    timestamp: '2024-01-01T00:00:00.000Z',
+    apiUsed: 'mock',
+});
+
+const reviews = [
+    result('The battery drains fast and the charger is slow'),
+    result('Battery life is short, charger broke', Sentiment.Negative),
+    result('My battery died, the charger cable frayed', Sentiment.Negative),
+    result('The courier delivery came late, parcel damaged', Sentiment.Negative),
+    result('Delivery was quick and the courier left the parcel'),
+    result('Parcel delivery by courier took a week'),
+    result('Lovely weather today'),
+];
+
+describe('clusterTopics', () => {
+    it('groups texts by the words they share', () => {
+        const { topics } = clusterTopics(reviews);
+        expect(topics.map(t => t.resultIndexes)).toEqual([[0, 1, 2], [3, 4, 5]]);
+        expect(topics.map(t => t.label)).toEqual(['battery, charger', 'courier, delivery']);
+    });
+
+    it('counts the sentiments in each topic', () => {
+        const [battery] = clusterTopics(reviews).topics;
+        expect(battery.size).toBe(3);
+        expect(battery.sentiments).toEqual({ [Sentiment.Positive]: 1, [Sentiment.Neutral]: 0, [Sentiment.Negative]: 2 });
+    });
+
+    it('leaves out texts that share no words with the others', () => {
+        expect(clusterTopics(reviews).unclustered).toEqual([6]);
+    });
+
+    it('needs enough results to form topics', () => {
+        expect(clusterTopics(reviews.slice(0, 3))).toEqual({ topics: [], unclustered: [0, 1, 2] });
+    });
+
+    it('gives the same topics on every run', () => {
+        expect(clusterTopics(reviews)).toEqual(clusterTopics(reviews));
+    });
+});
@@ -0,0 +1,132 @@
+import { Sentiment, SentimentAnalysisResult } from '../types';
+import { getStopWords, segmentWords, isUnspacedWord } from './languageDetection';
+import { isSentimentWord } from './lexiconEngine';
+import { getIntendedSentiment } from './sarcasmDetection';
+
+export interface Topic {
+    id: string;
+    // The topic's strongest terms, e.g. "battery, charger".
+    label: string;
+    terms: string[];
+    size: number;
+    sentiments: Record<Sentiment, number>;
+    // Positions in the input array of the results in the topic.
+    resultIndexes: number[];
+}
+
+export interface TopicClustering {
+    // Largest first.
+    topics: Topic[];
+    // Results with no words shared with any other result, which can't be placed in a topic.
+    unclustered: number[];
+}
+
+// Fewer results than this don't make meaningful topics.
+export const MIN_RESULTS_FOR_TOPICS = 4;
+const MAX_TOPICS = 8;
+const MAX_ITERATIONS = 20;
+// Words in more than this share of the texts say nothing about which topic a text belongs to.
+const MAX_DOCUMENT_SHARE = 0.6;
+// The analyzer picked the keywords as what the text is about, so they count more than the words around them.
+const KEYWORD_WEIGHT = 2;
+const LABEL_TERMS = 2;
+const LISTED_TERMS = 5;
+
+type Vector = Map<string, number>;
+
+// Topic words: not function words, and not sentiment words, since topics are about what people discuss rather than how they feel.
+const topicTerms = (text: string, stopWords: Set<string>) => segmentWords(text).filter(word =>
+    Array.from(word).length > (isUnspacedWord(word) ? 1 : 2) && !stopWords.has(word) && !isSentimentWord(word) && !/^\p{N}+$/u.test(word));
+
+const termFrequencies = (result: SentimentAnalysisResult, stopWords: Set<string>): Vector => {
+    const counts: Vector = new Map();
+    const add = (term: string, weight: number) => counts.set(term, (counts.get(term) ?? 0) + weight);
+    topicTerms(result.text, stopWords).forEach(term => add(term, 1));
+    result.keywords.flatMap(keyword => topicTerms(keyword, stopWords)).forEach(term => add(term, KEYWORD_WEIGHT));
+    return counts;
+};
+
+const normalize = (vector: Vector): Vector => {
+    const length = Math.sqrt([...vector.values()].reduce((sum, v) => sum + v * v, 0));
+    return length ? new Map([...vector].map(([term, v]) => [term, v / length])) : vector;
+};
+
+const dot = (a: Vector, b: Vector) => {
+    const [small, large] = a.size < b.size ? [a, b] : [b, a];
+    let sum = 0;
+    small.forEach((v, term) => { sum += v * (large.get(term) ?? 0); });
+    return sum;
+};
+
+const centroid = (vectors: Vector[]): Vector => {
+    const sum: Vector = new Map();
+    vectors.forEach(vector => vector.forEach((v, term) => sum.set(term, (sum.get(term) ?? 0) + v)));
+    return normalize(sum);
+};
+
+// TF-IDF vectors over the words more than one text uses, normalised to unit length.
+const buildVectors = (results: SentimentAnalysisResult[]): Vector[] => {
+    const stopWords = new Set([...getStopWords('en'), ...results.flatMap(r => [...getStopWords(r.language ?? 'en')])]);
+    const frequencies = results.map(r => termFrequencies(r, stopWords));
+    const documentCounts = new Map<string, number>();
+    frequencies.forEach(tf => tf.forEach((_, term) => documentCounts.set(term, (documentCounts.get(term) ?? 0) + 1)));
+    const maxCount = Math.max(2, Math.floor(results.length * MAX_DOCUMENT_SHARE));
+    return frequencies.map(tf => normalize(new Map([...tf]
+        .filter(([term]) => { const df = documentCounts.get(term)!; return df > 1 && df <= maxCount; })
+        .map(([term, count]) => [term, count * Math.log(results.length / documentCounts.get(term)!)]))));
+};
+
+// Seeds with the richest text, then repeatedly the text least similar to any seed so far, so runs are repeatable.
+const pickSeeds = (vectors: Vector[], k: number): Vector[] => {
+    const first = vectors.reduce((best, v) => (v.size > best.size ? v : best), vectors[0]);
+    const seeds = [first];
+    while (seeds.length < k) {
+        const farthest = vectors
+            .map(v => ({ v, similarity: Math.max(...seeds.map(s => dot(v, s))) }))
+            .reduce((best, c) => (c.similarity < best.similarity ? c : best));
+        if (farthest.similarity >= 1 - 1e-9) break;
+        seeds.push(farthest.v);
+    }
+    return seeds;
+};
+
+// Spherical k-means over the TF-IDF vectors: each text joins the topic whose centre it is most similar to.
+const kMeans = (vectors: Vector[], k: number): number[] => {
+    let centres = pickSeeds(vectors, k);
+    let assignments = vectors.map(() => -1);
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+        const next = vectors.map(v => centres.reduce((best, c, i) => (dot(v, c) > dot(v, centres[best]) ? i : best), 0));
+        if (next.every((a, i) => a === assignments[i])) break;
+        assignments = next;
+        centres = centres.map((c, i) => {
+            const members = vectors.filter((_, j) => assignments[j] === i);
+            return members.length ? centroid(members) : c;
+        });
+    }
+    return assignments;
+};
+
+const chooseTopicCount = (n: number) => Math.min(MAX_TOPICS, Math.max(2, Math.round(Math.sqrt(n))));
+
+export const clusterTopics = (results: SentimentAnalysisResult[]): TopicClustering => {
+    if (results.length < MIN_RESULTS_FOR_TOPICS) return { topics: [], unclustered: results.map((_, i) => i) };
+    const vectors = buildVectors(results);
+    const placeable = vectors.flatMap((v, i) => (v.size ? [i] : []));
+    const unclustered = vectors.flatMap((v, i) => (v.size ? [] : [i]));
+    if (placeable.length < 2) return { topics: [], unclustered: results.map((_, i) => i) };
+
+    const assignments = kMeans(placeable.map(i => vectors[i]), chooseTopicCount(placeable.length));
+    const groups = new Map<number, number[]>();
+    assignments.forEach((cluster, j) => groups.set(cluster, [...(groups.get(cluster) ?? []), placeable[j]]));
+
+    const topics = Array.from(groups.values()).map((resultIndexes): Topic => {
+        const terms = [...centroid(resultIndexes.map(i => vectors[i]))]
+            .sort((a, b) => b[1] - a[1])
+            .slice(0, LISTED_TERMS)
+            .map(([term]) => term);
+        const sentiments: Record<Sentiment, number> = { [Sentiment.Positive]: 0, [Sentiment.Neutral]: 0, [Sentiment.Negative]: 0 };
+        resultIndexes.forEach(i => { sentiments[getIntendedSentiment(results[i])]++; });
+        return { id: terms.join('|'), label: terms.slice(0, LABEL_TERMS).join(', '), terms, size: resultIndexes.length, sentiments, resultIndexes };
+    });
+    return { topics: topics.sort((a, b) => b.size - a.size), unclustered };
+};
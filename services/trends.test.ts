@@ -0,0 +1,87 @@
+import { describe, it, expect } from 'vitest';
+import { Sentiment, SentimentAnalysisResult } from '../types';
+import { buildTrendSeries, getResultDate, getResultValence } from './trends';
+
+const result = (date: string, sentiment = Sentiment.Positive, overrides: Partial<SentimentAnalysisResult> = {}): SentimentAnalysisResult => ({
+    text: 'text',
+    sentiment,
+    confidence: 0.8,
+    scores: {
+        positive: sentiment === Sentiment.Positive ? 0.8 : 0.1,
+        negative: sentiment === Sentiment.Negative ? 0.8 : 0.1,
+        neutral: sentiment === Sentiment.Neutral ? 0.8 : 0.1,
+    },
+    keywords: [],
+    explanation: '',
+    timestamp: '2024-01-01T12:00:00.000Z',
+    apiUsed: 'mock',
+    sourceRecord: { date, columns: {} },
+    ...overrides,
+});
+
+describe('getResultDate', () => {
+    it('reads date-only values as local dates', () => {
+        const date = getResultDate(result('2024-03-05'))!;
+        expect([date.getFullYear(), date.getMonth(), date.getDate(), date.getHours()]).toEqual([2024, 2, 5, 0]);
+        expect(getResultDate(result('2024-03'))!.getDate()).toBe(1);
+    });
+
+    it('reads Unix timestamps in seconds and milliseconds', () => {
+        expect(getResultDate(result('1709251200'))!.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+        expect(getResultDate(result('1709251200000'))!.toISOString()).toBe('2024-03-01T00:00:00.000Z');
+    });
+
+    it('falls back to the analysis time without a date column, and leaves unreadable dates undated', () => {
+        expect(getResultDate(result(''))!.toISOString()).toBe('2024-01-01T12:00:00.000Z');
+        expect(getResultDate(result('last Tuesday'))).toBeNull();
+    });
+});
+
+describe('getResultValence', () => {
+    it('flips the valence of an ironic reading', () => {
+        expect(getResultValence(result('2024-03-05'))).toBeCloseTo(0.7);
+        const ironic = result('2024-03-05', Sentiment.Positive, { sarcasm: { probability: 0.9, adjustedSentiment: Sentiment.Negative } });
+        expect(getResultValence(ironic)).toBeCloseTo(-0.7);
+    });
+});
+
+describe('buildTrendSeries', () => {
+    it('fills the gaps between the first and last day', () => {
+        const series = buildTrendSeries([result('2024-03-01'), result('2024-03-04', Sentiment.Negative), result('2024-03-01')], { granularity: 'day' });
+        expect(series.buckets.map(b => [b.key, b.count])).toEqual([['2024-03-01', 2], ['2024-03-02', 0], ['2024-03-03', 0], ['2024-03-04', 1]]);
+        expect(series.buckets[0].resultIndexes).toEqual([0, 2]);
+        expect(series.buckets[1].meanValence).toBeNull();
+        expect(series.buckets[3].shares[Sentiment.Negative]).toBe(1);
+    });
+
+    it('starts weeks on Monday and months on the first', () => {
+        // 2024-03-06 is a Wednesday.
+        expect(buildTrendSeries([result('2024-03-06')], { granularity: 'week' }).buckets[0].key).toBe('2024-03-04');
+        expect(buildTrendSeries([result('2024-03-06')], { granularity: 'month' }).buckets[0].key).toBe('2024-03-01');
+    });
+
+    it('weights the rolling average by bucket count', () => {
+        const series = buildTrendSeries([
+            result('2024-03-01'), result('2024-03-01'), result('2024-03-01'),
+            result('2024-03-02', Sentiment.Negative),
+        ], { granularity: 'day', window: 2 });
+        expect(series.buckets[1].rollingValence).toBeCloseTo((0.7 * 3 - 0.7) / 4);
+    });
+
+    it('counts undated results and flags spikes', () => {
+        const dates = ['2024-03-01', '2024-03-02', '2024-03-03', '2024-03-04', '2024-03-05'];
+        const series = buildTrendSeries([
+            ...dates.map((d, i) => result(d, i === 2 ? Sentiment.Negative : Sentiment.Positive)),
+            result('not a date'),
+        ], { granularity: 'day' });
+        expect(series.undated).toBe(1);
+        expect(series.buckets.map(b => b.spike)).toEqual([undefined, undefined, 'negative', undefined, undefined]);
+    });
+
+    it('reports the results past the last bucket when the series is cut off', () => {
+        const series = buildTrendSeries([result('2020-01-01'), result('2024-01-01')], { granularity: 'day' });
+        expect(series.buckets).toHaveLength(1000);
+        expect(series.truncated).toBe(1);
+        expect(buildTrendSeries([result('2020-01-01'), result('2024-01-01')], { granularity: 'month' }).truncated).toBe(0);
+    });
+});
@@ -0,0 +1,153 @@
+import { Sentiment, SentimentAnalysisResult } from '../types';
+import { getIntendedSentiment } from './sarcasmDetection';
+
+export type TrendGranularity = 'day' | 'week' | 'month';
+
+export interface TrendBucket {
+    // Local date of the bucket's first day, e.g. 2024-03-04; weeks start on Monday.
+    key: string;
+    label: string;
+    count: number;
+    // Share of the bucket's texts with each intended sentiment, 0–1.
+    shares: Record<Sentiment, number>;
+    // Mean valence from -1 (negative) to 1 (positive); null for buckets with no texts.
+    meanValence: number | null;
+    // Count-weighted mean valence over this bucket and the ones before it in the window.
+    rollingValence: number | null;
+    // Set when the bucket's mean valence stands out from the rest of the series.
+    spike?: 'positive' | 'negative';
+    // Positions in the input array of the results that fall in the bucket.
+    resultIndexes: number[];
+}
+
+export interface TrendSeries {
+    buckets: TrendBucket[];
+    // Results whose date could not be read are left out of the series.
+    undated: number;
+    // Results dated after the last bucket when the series hit MAX_BUCKETS; a coarser granularity shows them.
+    truncated: number;
+}
+
+export interface TrendOptions {
+    granularity: TrendGranularity;
+    // Number of buckets the rolling average spans.
+    window?: number;
+}
+
+const SENTIMENTS = [Sentiment.Positive, Sentiment.Neutral, Sentiment.Negative];
+// Buckets this many standard deviations from the series mean are flagged as spikes.
+const SPIKE_THRESHOLD = 1.5;
+// Spikes need at least this many dated buckets to be meaningful.
+const MIN_BUCKETS_FOR_SPIKES = 4;
+// Day bucketing over a long span would draw thousands of empty days; the series is cut off after this many buckets.
+const MAX_BUCKETS = 1000;
+
+const EPOCH_PATTERN = /^\d{10}(\d{3})?$/;
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})(?:-(\d{2}))?$/;
+
+const parseDate = (value: string): Date | null => {
+    // Date-only values are local dates; `new Date` would read them as UTC midnight, which is the previous day west of UTC.
+    const dateOnly = DATE_ONLY_PATTERN.exec(value);
+    // Unix timestamps in seconds or milliseconds.
+    const date = dateOnly ? new Date(Number(dateOnly[1]), Number(dateOnly[2]) - 1, Number(dateOnly[3] ?? 1))
+        : EPOCH_PATTERN.test(value) ? new Date(Number(value) * (value.length === 10 ? 1000 : 1))
+        : new Date(value);
+    return Number.isNaN(date.getTime()) ? null : date;
+};
+
+// Imported rows are dated by their date column; everything else by when it was analyzed.
+// A row whose date can't be read is left undated rather than placed on the day it was imported.
+export const getResultDate = (result: SentimentAnalysisResult): Date | null => {
+    const raw = result.sourceRecord?.date?.trim();
+    return parseDate(raw || result.timestamp);
+};
+
+// Fine-grained results carry a valence; others fall back to the positive minus negative score.
+// An ironic reading flips the sign, matching how sarcastic texts are counted elsewhere.
+export const getResultValence = (result: SentimentAnalysisResult): number => {
+    const valence = result.fineGrained?.valence ?? result.scores.positive - result.scores.negative;
+    return getIntendedSentiment(result) !== result.sentiment ? -valence : valence;
+};
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const toKey = (date: Date) => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const startOfBucket = (date: Date, granularity: TrendGranularity): Date => {
+    const start = new Date(date.getFullYear(), date.getMonth(), date.getDate());
+    if (granularity === 'week') start.setDate(start.getDate() - ((start.getDay() + 6) % 7));
+    if (granularity === 'month') start.setDate(1);
+    return start;
+};
+
+const nextBucket = (start: Date, granularity: TrendGranularity): Date => {
+    const next = new Date(start);
+    if (granularity === 'day') next.setDate(next.getDate() + 1);
+    if (granularity === 'week') next.setDate(next.getDate() + 7);
+    if (granularity === 'month') next.setMonth(next.getMonth() + 1);
+    return next;
+};
+
+const formatBucket = (start: Date, granularity: TrendGranularity) => granularity === 'month'
+    ? start.toLocaleDateString(undefined, { month: 'short', year: 'numeric' })
+    : `${granularity === 'week' ? 'Week of ' : ''}${start.toLocaleDateString(undefined, { day: 'numeric', month: 'short', year: 'numeric' })}`;
+
+const emptyShares = (): Record<Sentiment, number> => ({ [Sentiment.Positive]: 0, [Sentiment.Neutral]: 0, [Sentiment.Negative]: 0 });
+
+// Buckets the results by date, filling the gaps between the first and last bucket so the time axis stays even.
+export const buildTrendSeries = (results: SentimentAnalysisResult[], { granularity, window = 3 }: TrendOptions): TrendSeries => {
+    const grouped = new Map<string, number[]>();
+    let first: Date | null = null;
+    let last: Date | null = null;
+    let undated = 0;
+    for (const [index, result] of results.entries()) {
+        const date = getResultDate(result);
+        if (!date) {
+            undated++;
+            continue;
+        }
+        const start = startOfBucket(date, granularity);
+        if (!first || start < first) first = start;
+        if (!last || start > last) last = start;
+        const key = toKey(start);
+        grouped.set(key, [...(grouped.get(key) ?? []), index]);
+    }
+    if (!first || !last) return { buckets: [], undated, truncated: 0 };
+
+    const buckets: TrendBucket[] = [];
+    for (let start = first; start <= last && buckets.length < MAX_BUCKETS; start = nextBucket(start, granularity)) {
+        const resultIndexes = grouped.get(toKey(start)) ?? [];
+        const shares = emptyShares();
+        resultIndexes.forEach(i => { shares[getIntendedSentiment(results[i])]++; });
+        SENTIMENTS.forEach(s => { shares[s] = resultIndexes.length ? shares[s] / resultIndexes.length : 0; });
+        const valenceSum = resultIndexes.reduce((sum, i) => sum + getResultValence(results[i]), 0);
+        buckets.push({
+            key: toKey(start),
+            label: formatBucket(start, granularity),
+            count: resultIndexes.length,
+            shares,
+            meanValence: resultIndexes.length ? valenceSum / resultIndexes.length : null,
+            rollingValence: null,
+            resultIndexes,
+        });
+    }
+
+    buckets.forEach((bucket, i) => {
+        const span = buckets.slice(Math.max(0, i - window + 1), i + 1);
+        const count = span.reduce((sum, b) => sum + b.count, 0);
+        bucket.rollingValence = count ? span.reduce((sum, b) => sum + (b.meanValence ?? 0) * b.count, 0) / count : null;
+    });
+
+    const dated = buckets.filter(b => b.meanValence !== null);
+    if (dated.length >= MIN_BUCKETS_FOR_SPIKES) {
+        const mean = dated.reduce((sum, b) => sum + b.meanValence!, 0) / dated.length;
+        const deviation = Math.sqrt(dated.reduce((sum, b) => sum + (b.meanValence! - mean) ** 2, 0) / dated.length);
+        if (deviation > 0) {
+            dated.forEach(b => {
+                const z = (b.meanValence! - mean) / deviation;
+                if (Math.abs(z) >= SPIKE_THRESHOLD) b.spike = z > 0 ? 'positive' : 'negative';
+            });
+        }
+    }
+    const truncated = results.length - undated - buckets.reduce((sum, b) => sum + b.count, 0);
+    return { buckets, undated, truncated };
+};
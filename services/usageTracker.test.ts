@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { RequestError } from './requestExecutor';
+import { estimateCostUsd, getUsageSnapshot, reserveUsage, setBudgets, subscribeToUsage } from './usageTracker';
+
+const memoryStorage = (): Storage => {
+    const items = new Map<string, string>();
+    return {
+        get length() { return items.size; },
+        key: i => [...items.keys()][i] ?? null,
+        getItem: key => items.get(key) ?? null,
+        setItem: (key, value) => { items.set(key, value); },
+        removeItem: key => { items.delete(key); },
+        clear: () => items.clear(),
+    };
+};
+
+const newSession = () => vi.stubGlobal('window', { localStorage: window.localStorage, sessionStorage: memoryStorage() });
+
+const FLASH = 'gemini-2.5-flash';
+const usage = (promptTokenCount: number, candidatesTokenCount: number, thoughtsTokenCount = 0) =>
+    ({ promptTokenCount, candidatesTokenCount, thoughtsTokenCount });
+
+// A request that was admitted and then reported this usage.
+const recordUsage = (model: string, reported: ReturnType<typeof usage>) => reserveUsage(model, 0).settle(reported);
+
+const budgetError = () => {
+    try {
+        reserveUsage(FLASH, 0).release();
+    } catch (error) {
+        return error;
+    }
+    return null;
+};
+
+beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    vi.setSystemTime(new Date(2024, 2, 5, 12));
+    vi.stubGlobal('window', { localStorage: memoryStorage(), sessionStorage: memoryStorage() });
+    setBudgets({ daily: {}, session: {} });
+});
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+});
+
+describe('estimateCostUsd', () => {
+    it('prices input and output tokens per million', () => {
+        expect(estimateCostUsd(FLASH, 1_000_000, 0)).toBeCloseTo(0.30);
+        expect(estimateCostUsd(FLASH, 1000, 2000)).toBeCloseTo(0.0053);
+        expect(estimateCostUsd('some-new-model', 1000, 1000)).toBeNull();
+    });
+});
+
+describe('settling a reservation', () => {
+    it('adds to the daily and session totals, counting thinking tokens as output', () => {
+        recordUsage(FLASH, usage(1000, 200, 300));
+        recordUsage('some-new-model', usage(10, 10));
+        const { today, session } = getUsageSnapshot();
+        expect(today).toEqual(session);
+        expect(today).toMatchObject({ requests: 2, inputTokens: 1010, outputTokens: 510, unpricedRequests: 1 });
+        expect(today.costUsd).toBeCloseTo(estimateCostUsd(FLASH, 1000, 500)!);
+        expect(today.byModel[FLASH]).toMatchObject({ requests: 1, tokens: 1500 });
+    });
+
+    it('notifies subscribers until they unsubscribe', () => {
+        const listener = vi.fn();
+        const unsubscribe = subscribeToUsage(listener);
+        recordUsage(FLASH, usage(10, 10));
+        unsubscribe();
+        recordUsage(FLASH, usage(10, 10));
+        expect(listener).toHaveBeenCalledOnce();
+        expect(listener.mock.calls[0][0].today.requests).toBe(1);
+    });
+});
+
+describe('budgets', () => {
+    it('stops requests once the request limit is reached', () => {
+        setBudgets({ daily: {}, session: { requests: 2 } });
+        recordUsage(FLASH, usage(10, 10));
+        expect(budgetError()).toBeNull();
+        recordUsage(FLASH, usage(10, 10));
+        const error = budgetError();
+        expect(error).toBeInstanceOf(RequestError);
+        expect(error).toMatchObject({ kind: 'budget', message: 'The session request budget of 2 has been reached.' });
+    });
+
+    it('counts input and output tokens against the token limit', () => {
+        setBudgets({ daily: { tokens: 1000 }, session: {} });
+        recordUsage(FLASH, usage(600, 300));
+        expect(budgetError()).toBeNull();
+        recordUsage(FLASH, usage(50, 50));
+        expect(getUsageSnapshot().exceeded).toBe('daily token budget of 1,000');
+    });
+
+    it('stops requests once the estimated spend reaches the cost limit', () => {
+        setBudgets({ daily: { costUsd: 0.5 }, session: {} });
+        recordUsage(FLASH, usage(1_000_000, 0));
+        expect(budgetError()).toBeNull();
+        recordUsage(FLASH, usage(0, 100_000));
+        expect(getUsageSnapshot().exceeded).toBe('daily spend budget of $0.50');
+    });
+
+    it('keeps the daily budget across sessions and the session budget across days', () => {
+        setBudgets({ daily: { requests: 2 }, session: { requests: 1 } });
+        recordUsage(FLASH, usage(10, 10));
+        expect(getUsageSnapshot().exceeded).toBe('session request budget of 1');
+
+        newSession();
+        expect(getUsageSnapshot().exceeded).toBeNull();
+        recordUsage(FLASH, usage(10, 10));
+        expect(getUsageSnapshot().exceeded).toBe('daily request budget of 2');
+
+        vi.setSystemTime(new Date(2024, 2, 6, 9));
+        expect(getUsageSnapshot().today.requests).toBe(0);
+        expect(getUsageSnapshot().exceeded).toBe('session request budget of 1');
+    });
+
+    it('only keeps the last 30 days', () => {
+        for (let day = 1; day <= 31; day++) {
+            vi.setSystemTime(new Date(2024, 0, day, 12));
+            recordUsage(FLASH, usage(10, 10));
+        }
+        const stored = JSON.parse(window.localStorage.getItem('senticorex.usage.daily')!);
+        expect(Object.keys(stored)).toHaveLength(30);
+        expect(stored['2024-01-01']).toBeUndefined();
+    });
+});
+
+describe('reservations in flight', () => {
+    it('count against the budget until they settle or are released', () => {
+        setBudgets({ daily: {}, session: { requests: 2 } });
+        const first = reserveUsage(FLASH, 100);
+        const second = reserveUsage(FLASH, 100);
+        expect(budgetError()).toMatchObject({ kind: 'budget', message: 'The session request budget of 2 has been reached.' });
+
+        first.release();
+        expect(budgetError()).toBeNull();
+        second.settle(usage(100, 20));
+        second.release();
+        expect(getUsageSnapshot().session.requests).toBe(1);
+        expect(budgetError()).toBeNull();
+    });
+
+    it('keep concurrent requests from overshooting the cost limit', () => {
+        // Each request could cost up to 1M output tokens, $2.50 with Flash, against a $5 limit.
+        setBudgets({ daily: { costUsd: 5 }, session: {} });
+        const admitted = [];
+        for (let i = 0; i < 3; i++) {
+            try {
+                admitted.push(reserveUsage(FLASH, 0, 1_000_000));
+            } catch (error) {
+                expect(error).toMatchObject({ kind: 'budget' });
+            }
+        }
+        expect(admitted).toHaveLength(2);
+        admitted.forEach(reservation => reservation.release());
+        expect(getUsageSnapshot().today.requests).toBe(0);
+    });
+
+    it('are estimated at the default output length when the request sets no cap', () => {
+        setBudgets({ daily: { tokens: 2048 }, session: {} });
+        const reservation = reserveUsage(FLASH, 1024);
+        expect(budgetError()).toMatchObject({ message: 'The daily token budget of 2,048 has been reached.' });
+        reservation.release();
+    });
+});
@@ -0,0 +1,186 @@
+import { GenerateContentResponseUsageMetadata } from "@google/genai";
+import { readJson, writeJson } from './localStore';
+import { RequestError } from './requestExecutor';
+
+// USD per million tokens. Thinking tokens are billed at the output rate.
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+    'gemini-2.5-pro': { input: 1.25, output: 10 },
+    'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+    'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+    'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+    'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+};
+
+const DAILY_KEY = 'usage.daily';
+const SESSION_KEY = 'usage.session';
+const BUDGETS_KEY = 'usage.budgets';
+const DAYS_KEPT = 30;
+
+export interface UsageTotals {
+    requests: number;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    // Requests to models missing from the price table; their cost is not included in costUsd.
+    unpricedRequests: number;
+    byModel: Record<string, { requests: number; tokens: number; costUsd: number }>;
+}
+
+// An unset limit means no limit.
+export interface BudgetLimits {
+    requests?: number;
+    tokens?: number;
+    costUsd?: number;
+}
+
+export interface UsageBudgets {
+    daily: BudgetLimits;
+    // A session lasts until the tab is closed, so reloading does not reset it.
+    session: BudgetLimits;
+}
+
+export interface UsageSnapshot {
+    today: UsageTotals;
+    session: UsageTotals;
+    budgets: UsageBudgets;
+    exceeded: string | null;
+}
+
+const DEFAULT_BUDGETS: UsageBudgets = {
+    daily: { costUsd: 1 },
+    session: { requests: 50 },
+};
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0, unpricedRequests: 0, byModel: {} });
+
+// Local calendar date, so the daily budget resets at the user's midnight.
+const todayKey = () => new Date().toLocaleDateString('en-CA');
+
+const readDaily = () => readJson<Record<string, UsageTotals>>(DAILY_KEY, {});
+
+const listeners = new Set<(snapshot: UsageSnapshot) => void>();
+
+export const estimateCostUsd = (model: string, inputTokens: number, outputTokens: number): number | null => {
+    const pricing = MODEL_PRICING[model];
+    if (!pricing) return null;
+    return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+export const getBudgets = (): UsageBudgets => readJson(BUDGETS_KEY, DEFAULT_BUDGETS);
+
+const findExceededLimit = (totals: UsageTotals, limits: BudgetLimits, scope: string): string | null => {
+    if (limits.requests !== undefined && totals.requests >= limits.requests) return `${scope} request budget of ${limits.requests}`;
+    if (limits.tokens !== undefined && totals.inputTokens + totals.outputTokens >= limits.tokens) return `${scope} token budget of ${limits.tokens.toLocaleString()}`;
+    if (limits.costUsd !== undefined && totals.costUsd >= limits.costUsd) return `${scope} spend budget of $${limits.costUsd.toFixed(2)}`;
+    return null;
+};
+
+// Only the fields the budget checks read.
+const sumTotals = (a: UsageTotals, b: UsageTotals): UsageTotals => ({
+    ...a,
+    requests: a.requests + b.requests,
+    inputTokens: a.inputTokens + b.inputTokens,
+    outputTokens: a.outputTokens + b.outputTokens,
+    costUsd: a.costUsd + b.costUsd,
+});
+
+export const getUsageSnapshot = (): UsageSnapshot => {
+    const today = readDaily()[todayKey()] ?? emptyTotals();
+    const session = readJson(SESSION_KEY, emptyTotals(), 'session');
+    const budgets = getBudgets();
+    return {
+        today,
+        session,
+        budgets,
+        exceeded: findExceededLimit(today, budgets.daily, 'daily') ?? findExceededLimit(session, budgets.session, 'session'),
+    };
+};
+
+const notify = () => {
+    const snapshot = getUsageSnapshot();
+    listeners.forEach(listener => listener(snapshot));
+};
+
+export const subscribeToUsage = (listener: (snapshot: UsageSnapshot) => void) => {
+    listeners.add(listener);
+    return () => { listeners.delete(listener); };
+};
+
+export const setBudgets = (budgets: UsageBudgets) => {
+    writeJson(BUDGETS_KEY, budgets);
+    notify();
+};
+
+const addUsage = (totals: UsageTotals, model: string, inputTokens: number, outputTokens: number, cost: number | null): UsageTotals => {
+    const modelTotals = totals.byModel[model] ?? { requests: 0, tokens: 0, costUsd: 0 };
+    return {
+        requests: totals.requests + 1,
+        inputTokens: totals.inputTokens + inputTokens,
+        outputTokens: totals.outputTokens + outputTokens,
+        costUsd: totals.costUsd + (cost ?? 0),
+        unpricedRequests: totals.unpricedRequests + (cost === null ? 1 : 0),
+        byModel: {
+            ...totals.byModel,
+            [model]: {
+                requests: modelTotals.requests + 1,
+                tokens: modelTotals.tokens + inputTokens + outputTokens,
+                costUsd: modelTotals.costUsd + (cost ?? 0),
+            },
+        },
+    };
+};
+
+const recordUsage = (model: string, usage: GenerateContentResponseUsageMetadata | undefined) => {
+    const inputTokens = usage?.promptTokenCount ?? 0;
+    const outputTokens = (usage?.candidatesTokenCount ?? 0) + (usage?.thoughtsTokenCount ?? 0);
+    const cost = estimateCostUsd(model, inputTokens, outputTokens);
+
+    const daily = readDaily();
+    const key = todayKey();
+    daily[key] = addUsage(daily[key] ?? emptyTotals(), model, inputTokens, outputTokens, cost);
+    // Keys are ISO dates, so sorting them as strings sorts them by day.
+    const kept = Object.keys(daily).sort().slice(-DAYS_KEPT);
+    writeJson(DAILY_KEY, Object.fromEntries(kept.map(day => [day, daily[day]])));
+
+    writeJson(SESSION_KEY, addUsage(readJson(SESSION_KEY, emptyTotals(), 'session'), model, inputTokens, outputTokens, cost), 'session');
+    notify();
+};
+
+interface Reservation {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+}
+
+// Requests that have been admitted but haven't reported their usage yet.
+const inFlight = new Set<Reservation>();
+
+// Used when a request doesn't cap its output; a sentiment response is rarely longer.
+const DEFAULT_OUTPUT_ESTIMATE = 1024;
+
+export interface UsageReservation {
+    // Records what the request actually used and releases the reservation.
+    settle: (usage: GenerateContentResponseUsageMetadata | undefined) => void;
+    // Releases the reservation without recording anything, e.g. when the request failed; safe to call after settle.
+    release: () => void;
+}
+
+// Called before every model request so a spent budget stops API calls; the dispatcher then falls back to the offline engine.
+// Requests still in flight count at their estimated cost, so concurrent requests can't all pass the check and overshoot the cap.
+export const reserveUsage = (model: string, inputTokens: number, maxOutputTokens?: number): UsageReservation => {
+    const { today, session, budgets } = getUsageSnapshot();
+    const pending = [...inFlight].reduce((totals, r) => addUsage(totals, r.model, r.inputTokens, r.outputTokens, estimateCostUsd(r.model, r.inputTokens, r.outputTokens)), emptyTotals());
+    const exceeded = findExceededLimit(sumTotals(today, pending), budgets.daily, 'daily') ?? findExceededLimit(sumTotals(session, pending), budgets.session, 'session');
+    if (exceeded) throw new RequestError('budget', `The ${exceeded} has been reached.`);
+
+    const reservation: Reservation = { model, inputTokens, outputTokens: maxOutputTokens ?? DEFAULT_OUTPUT_ESTIMATE };
+    inFlight.add(reservation);
+    const release = () => { inFlight.delete(reservation); };
+    return {
+        settle: (usage) => {
+            release();
+            recordUsage(model, usage);
+        },
+        release,
+    };
+};
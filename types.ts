@@ -18,7 +18,15 @@ export interface SentimentScores {
   neutral: number;
 }
 
+// Identifier of the SentimentProvider that produced a result, e.g. 'gemini'.
+export type ProviderId = string;
+
+// Why a request to a provider failed; see services/requestExecutor.ts.
+export type RequestErrorKind = 'auth' | 'quota' | 'budget' | 'network' | 'timeout' | 'safety' | 'parse' | 'server' | 'unknown';
+
 export interface SentimentAnalysisResult {
+  // Assigned when the result is saved to the history store.
+  id?: string;
   text: string;
   sentiment: Sentiment;
   confidence: number;
@@ -26,13 +34,247 @@ export interface SentimentAnalysisResult {
   keywords: string[];
   explanation: string;
   timestamp: string;
-  apiUsed: 'gemini' | 'fallback';
-  sentenceBreakdown?: { sentence: string; sentiment: Sentiment; score: number }[];
+  apiUsed: ProviderId;
+  // The model and settings that produced the result; absent for the offline engines.
+  generation?: GenerationConfig;
+  // Set when the configured provider failed and the offline engine produced this result instead.
+  fallbackReason?: RequestErrorKind;
+  // Set when the result was served from the local result cache instead of a new provider call.
+  cached?: boolean;
+  sentenceBreakdown?: { sentence: string; sentiment: Sentiment; score: number; sarcasm?: SarcasmAssessment }[];
+  // ISO 639-1 code of the text's language, or 'und' when it could not be told.
+  language?: string;
+  // An English rendering of the text, present when a translation was requested and the text is not English.
+  translation?: string;
+  // The stretches of text that drive the sentiment, in text order and never overlapping.
+  spans?: SentimentSpan[];
+  // How likely the text is sarcastic or ironic; `sentiment` stays the literal reading.
+  sarcasm?: SarcasmAssessment;
+  // Present when the text was analyzed in aspect mode.
+  aspects?: AspectSentiment[];
+  // Present when the text was analyzed in classify mode.
+  classification?: ClassificationResult;
+  // How the result was scored; results saved before schemes existed are 'polarity'.
+  scheme?: ScoringScheme;
+  // Present when the text was scored with the fine-grained scheme.
+  fineGrained?: FineGrainedScores;
+  // The imported dataset row this text came from, kept so exports round-trip.
+  sourceRecord?: SourceRecord;
+  // A person's check of the labels above, which are left as the model gave them.
+  review?: ResultReview;
+}
+
+// 'accepted' when the reviewer agreed with every label, 'overridden' when they corrected at least one.
+export type ReviewStatus = 'accepted' | 'overridden';
+
+export interface ResultReview {
+  status: ReviewStatus;
+  // The label the reviewer settled on.
+  sentiment: Sentiment;
+  // Corrected sentence labels, by index into `sentenceBreakdown`; sentences not listed keep the model's label.
+  sentenceLabels?: Record<number, Sentiment>;
+  notes?: string;
+  reviewer: string;
+  reviewedAt: string;
+}
+
+// 'standard' gives one overall label; 'aspect' also rates each product feature or target the text discusses;
+// 'classify' also sorts the text into one of the labels of a user-defined taxonomy.
+export type AnalysisMode = 'standard' | 'aspect' | 'classify';
+
+// 'polarity' gives the three-way label only; 'fine-grained' adds a star rating and valence/arousal coordinates.
+export type ScoringScheme = 'polarity' | 'fine-grained';
+
+// How a single analysis should be run, chosen in the input panel and passed through to the provider.
+export interface AnalysisPreferences {
+  mode?: AnalysisMode;
+  scheme?: ScoringScheme;
+  // Ask the provider for an English translation of non-English text.
+  translate?: boolean;
+  // The labels to classify into; required in 'classify' mode.
+  taxonomy?: Taxonomy;
+  // Texts labelled by the team, shown to the model as few-shot examples of how to label.
+  examples?: LabelledExample[];
+}
+
+export interface LabelledExample {
+  id: string;
+  text: string;
+  // The label the team agreed on, which may differ from what the model would say.
+  sentiment: Sentiment;
+  createdAt: string;
+}
+
+export interface TaxonomyLabel {
+  id: string;
+  name: string;
+  // What the label means, in the words a person would use to explain it to a colleague.
+  description: string;
+  // Short sample texts that belong under this label.
+  examples: string[];
+}
+
+export interface Taxonomy {
+  id: string;
+  name: string;
+  labels: TaxonomyLabel[];
+  updatedAt: string;
+}
+
+export interface ClassificationResult {
+  taxonomyId: string;
+  // The name of the winning label.
+  label: string;
+  // One score per label name, summing to 1.
+  scores: Record<string, number>;
+  rationale: string;
+}
+
+export interface FineGrainedScores {
+  // A star-style rating from 1 (very negative) to 5 (very positive).
+  rating: number;
+  // Pleasantness from -1 (most unpleasant) to 1 (most pleasant).
+  valence: number;
+  // Emotional intensity from 0 (calm) to 1 (highly charged).
+  arousal: number;
+  // True when the text carries strong positive and strong negative sentiment at once.
+  mixed: boolean;
+}
+
+export interface SentimentSpan {
+  // Character offsets into the result's text; `end` is exclusive.
+  start: number;
+  end: number;
+  sentiment: Sentiment;
+  // How much the span contributes to the overall sentiment, from 0 to 1.
+  weight: number;
+}
+
+export interface SarcasmAssessment {
+  // Likelihood from 0 to 1 that the text is sarcastic or ironic.
+  probability: number;
+  // The phrase that signals the irony, when one stands out.
+  trigger?: string;
+  // The sentiment actually meant, set only when irony flips the literal label.
+  adjustedSentiment?: Sentiment;
+}
+
+export interface AspectSentiment {
+  // The feature or target being discussed, e.g. "battery".
+  aspect: string;
+  sentiment: Sentiment;
+  // Polarity from -1 (most negative) to 1 (most positive).
+  score: number;
+  // The phrases in the text that express the opinion about this aspect.
+  opinions: string[];
+}
+
+// One row of an imported dataset, keyed by column header.
+export type DatasetRow = Record<string, string>;
+
+// Which dataset columns hold the text and the optional row metadata.
+export interface ColumnMapping {
+  text: string;
+  id?: string;
+  date?: string;
+  author?: string;
+}
+
+export interface SourceRecord {
+  id?: string;
+  date?: string;
+  author?: string;
+  columns: DatasetRow;
+}
+
+// A single text queued for analysis, with the dataset row it came from when imported.
+export interface AnalysisItem {
+  text: string;
+  sourceRecord?: SourceRecord;
+}
+
+export type JobItemStatus = 'pending' | 'running' | 'done' | 'failed' | 'fallback';
+
+export interface BatchJobItem {
+  text: string;
+  sourceRecord?: SourceRecord;
+  status: JobItemStatus;
+  // Id of the saved history record once the item has been analyzed.
+  resultId?: string;
+  error?: string;
+  errorKind?: RequestErrorKind;
+}
+
+export type BatchJobState = 'running' | 'paused' | 'cancelled' | 'completed';
+
+export interface BatchJob {
+  id: string;
+  createdAt: string;
+  updatedAt: string;
+  source: AnalysisSource;
+  preferences?: AnalysisPreferences;
+  state: BatchJobState;
+  items: BatchJobItem[];
+}
+
+export type GenerationOperation = 'analyze' | 'advanced' | 'compare' | 'mood';
+
+// Model and sampling settings for one operation; unset values use the model's own defaults.
+export interface ModelSettings {
+  model: string;
+  temperature?: number;
+  topP?: number;
+  maxOutputTokens?: number;
+  // Tokens the model may spend reasoning before it answers; 0 turns reasoning off on models that allow it.
+  thinkingBudget?: number;
+  seed?: number;
+}
+
+export interface GenerationSettings {
+  operations: Record<GenerationOperation, ModelSettings>;
+  // Which wording of the prompts to use; see PROMPT_VARIANTS.
+  promptVariant: string;
+}
+
+// The exact configuration behind a result, recorded so the result can be reproduced.
+export interface GenerationConfig extends ModelSettings {
+  promptVersion: string;
+}
+
+// The provider setup an evaluation run measured; recorded so runs can be compared later.
+export interface EvaluationConfig {
+  providerId: ProviderId;
+  providerName: string;
+  generation?: GenerationConfig;
+  // Whether the team's labelled examples were sent as few-shot examples.
+  useExamples: boolean;
+}
+
+export interface EvaluationItem {
+  text: string;
+  // The gold label from the dataset.
+  expected: Sentiment;
+  predicted?: Sentiment;
+  confidence?: number;
+  // Set instead of a prediction when the provider failed on this text.
+  error?: string;
+}
+
+export interface EvaluationRun {
+  id: string;
+  name: string;
+  datasetName: string;
+  createdAt: string;
+  config: EvaluationConfig;
+  items: EvaluationItem[];
+  // False when the run was stopped before every item was analyzed.
+  complete: boolean;
 }
 
 export type ApiStatus = {
-  status: 'ready' | 'loading' | 'error' | 'success';
+  status: 'ready' | 'loading' | 'error' | 'success' | 'warning';
   message: string;
+  errorKind?: RequestErrorKind;
 };
 
 export interface Emotion {
@@ -50,6 +292,10 @@ export interface AdvancedAnalysisResult {
   tones: string[];
   entities: Entity[];
   summary: string;
+  apiUsed?: ProviderId;
+  generation?: GenerationConfig;
+  fallbackReason?: RequestErrorKind;
+  cached?: boolean;
 }
 
 export interface MoodEnhancerResult {
@@ -80,4 +326,29 @@ export interface ComparativeAnalysisResult {
     textB: string[];
   };
   emotionalContrast: string;
+  apiUsed?: ProviderId;
+  generation?: GenerationConfig;
+  fallbackReason?: RequestErrorKind;
+  cached?: boolean;
+}
+
+export type AnalysisKind = 'sentiment' | 'advanced' | 'comparison';
+
+export interface AnalysisSource {
+  type: 'text' | 'file' | 'batch' | 'voice' | 'compare' | 'deeper-analysis';
+  // A file name or other human-readable origin, when there is one.
+  name?: string;
+}
+
+interface HistoryRecordBase {
+  id: string;
+  createdAt: string;
+  tags: string[];
+  source: AnalysisSource;
+  provider: ProviderId;
 }
+
+export type HistoryRecord =
+  | (HistoryRecordBase & { kind: 'sentiment'; result: SentimentAnalysisResult })
+  | (HistoryRecordBase & { kind: 'advanced'; text: string; result: AdvancedAnalysisResult })
+  | (HistoryRecordBase & { kind: 'comparison'; textA: string; textB: string; result: ComparativeAnalysisResult });